@@ -11,6 +11,9 @@ import Header from "./components/layout/Header";
 import Dashboard from "./pages/Dashboard";
 import ProductsManagement from "./pages/ProductsManagement";
 import OrdersManagement from "./pages/OrdersManagement";
+import AbandonedPaymentsManagement from "./pages/AbandonedPaymentsManagement";
+import AbandonedCarts from "./pages/AbandonedCarts";
+import SearchInsights from "./pages/SearchInsights";
 import UsersManagement from "./pages/UsersManagement";
 import BannersManagement from "./pages/BannersManagement";
 import CategoriesManagement from "./pages/CategoriesManagement";
@@ -25,6 +28,8 @@ import PromoTimerPage from "./pages/promotimer";
 import PopupManagement from './pages/PopupManagement';
 import PromoTimer from './pages/promotimer';
 import PromoCoupon from './pages/PromoCoupon';
+import PromotionsManagement from './pages/PromotionsManagement';
+import CouponCampaigns from './pages/CouponCampaigns';
 import GiftCardsManagement from './pages/GiftCardsManagement';
 import QRScannerManagement from './pages/QRScannerManagement';
 import GiftCardTemplatesManagement from './pages/GiftCardTemplatesManagement';
@@ -51,6 +56,9 @@ function AdminContainer() {
             <Route path="/admin/categories" component={CategoriesManagement} />
             <Route path="/admin/collections" component={CollectionsManagement} />
             <Route path="/admin/orders" component={OrdersManagement} />
+            <Route path="/admin/payments" component={AbandonedPaymentsManagement} />
+            <Route path="/admin/abandoned-carts" component={AbandonedCarts} />
+            <Route path="/admin/search-insights" component={SearchInsights} />
             <Route path="/admin/users" component={UsersManagement} />
             <Route path="/admin/banners" component={BannersManagement} />
             <Route path="/admin/popup" component={Popup} />
@@ -62,6 +70,8 @@ function AdminContainer() {
             <Route path="/admin/contacts" component={ContactsManagement} />
             <Route path="/admin/blogs" component={BlogsManagement} />
             <Route path="/admin/promocoupon" component={PromoCoupon} />
+            <Route path="/admin/promotions" component={PromotionsManagement} />
+            <Route path="/admin/coupon-campaigns" component={CouponCampaigns} />
             <Route path="/admin/giftcards" component={GiftCardsManagement} />
             <Route path="/admin/giftcard-templates" component={GiftCardTemplatesManagement} />
             <Route path="/admin/qrscanner" component={QRScannerManagement} />
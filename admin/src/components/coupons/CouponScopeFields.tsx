@@ -0,0 +1,121 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { MongoCategory, MongoCollection, MongoProduct } from "@/types/mongo";
+
+export interface CouponScopeValues {
+  productIds: string[];
+  categoryIds: string[];
+  collectionIds: string[];
+  excludedProductIds: string[];
+  excludedCategoryIds: string[];
+  excludedCollectionIds: string[];
+}
+
+export type Option = { id: string; name: string };
+
+interface CouponScopeFieldsProps {
+  value: CouponScopeValues;
+  onChange: (value: CouponScopeValues) => void;
+}
+
+const toOptions = (items: { _id?: string; id?: number; name: string }[]): Option[] =>
+  items.map(item => ({ id: String(item._id ?? item.id), name: item.name }));
+
+export function OptionChecklist({
+  label,
+  options,
+  selected,
+  onChange,
+}: {
+  label: string;
+  options: Option[];
+  selected: string[];
+  onChange: (ids: string[]) => void;
+}) {
+  const toggle = (id: string, checked: boolean) =>
+    onChange(checked ? [...selected, id] : selected.filter(existing => existing !== id));
+
+  return (
+    <div className="space-y-2">
+      <Label>
+        {label}
+        {selected.length > 0 && <span className="ml-1 text-xs text-muted-foreground">({selected.length} selected)</span>}
+      </Label>
+      <ScrollArea className="h-40 rounded-md border p-2">
+        {options.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing to choose from</p>
+        ) : (
+          options.map(option => (
+            <label key={option.id} className="flex items-center gap-2 py-1 text-sm">
+              <Checkbox
+                checked={selected.includes(option.id)}
+                onCheckedChange={(checked) => toggle(option.id, checked === true)}
+              />
+              {option.name}
+            </label>
+          ))
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
+
+// Products, categories and collections to pick from when scoping a discount
+export function useCatalogOptions() {
+  const { data: productsData } = useQuery({
+    queryKey: ['/api/products', 'coupon-scope'],
+    queryFn: async () => (await apiRequest('GET', '/api/products?limit=1000')).json()
+  });
+  const { data: categoriesData } = useQuery({
+    queryKey: ['/api/categories'],
+    queryFn: async () => (await apiRequest('GET', '/api/categories')).json()
+  });
+  const { data: collectionsData } = useQuery({
+    queryKey: ['/api/collections'],
+    queryFn: async () => (await apiRequest('GET', '/api/collections')).json()
+  });
+
+  const products = toOptions(Array.isArray(productsData?.products) ? productsData.products as MongoProduct[] : []);
+  const categories = toOptions(Array.isArray(categoriesData) ? categoriesData as MongoCategory[] : []);
+  const collections = toOptions(Array.isArray(collectionsData) ? collectionsData as MongoCollection[] : []);
+
+  return { products, categories, collections };
+}
+
+// Which products, categories and collections a coupon applies to, and which it never applies to
+export default function CouponScopeFields({ value, onChange }: CouponScopeFieldsProps) {
+  const { products, categories, collections } = useCatalogOptions();
+
+  const set = (key: keyof CouponScopeValues) => (ids: string[]) => onChange({ ...value, [key]: ids });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="font-medium">Applies To</h3>
+        <p className="text-sm text-muted-foreground mb-3">
+          Leave all three empty to apply the coupon to the whole cart.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <OptionChecklist label="Products" options={products} selected={value.productIds} onChange={set('productIds')} />
+          <OptionChecklist label="Categories" options={categories} selected={value.categoryIds} onChange={set('categoryIds')} />
+          <OptionChecklist label="Collections" options={collections} selected={value.collectionIds} onChange={set('collectionIds')} />
+        </div>
+      </div>
+      <div>
+        <h3 className="font-medium">Excluded</h3>
+        <p className="text-sm text-muted-foreground mb-3">
+          Items here never get the discount, even when they match the list above.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <OptionChecklist label="Products" options={products} selected={value.excludedProductIds} onChange={set('excludedProductIds')} />
+          <OptionChecklist label="Categories" options={categories} selected={value.excludedCategoryIds} onChange={set('excludedCategoryIds')} />
+          <OptionChecklist label="Collections" options={collections} selected={value.excludedCollectionIds} onChange={set('excludedCollectionIds')} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Order, OrderItem } from "@shared/schema";
+import { calculateLineRefund, roundCurrency } from "@shared/pricing";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+
+export type OrderItemWithProduct = OrderItem & {
+  _id?: string;
+  product?: { name: string; imageUrl?: string } | null;
+};
+
+interface RefundPanelProps {
+  order: Order;
+  items: OrderItemWithProduct[];
+  onRefunded: () => void;
+}
+
+const getItemId = (item: OrderItemWithProduct) => String(item._id || item.id);
+
+// Parse "NNN: {json}" errors thrown by apiRequest
+const getErrorMessage = (error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  try {
+    return JSON.parse(message.slice(message.indexOf(':') + 1)).message || message;
+  } catch {
+    return message;
+  }
+};
+
+export default function RefundPanel({ order, items, onRefunded }: RefundPanelProps) {
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState("");
+  const [restock, setRestock] = useState(true);
+
+  const refunds = order.refunds ?? [];
+  const refundedAmount = order.refundedAmount ?? 0;
+  const remaining = roundCurrency(order.totalAmount - refundedAmount);
+  const canRefund = ['paid', 'partially_refunded'].includes(order.paymentStatus) && remaining > 0;
+
+  // Units already refunded per line, ignoring failed attempts
+  const refundedQuantities = new Map<string, number>();
+  for (const refund of refunds) {
+    if (refund.status === 'failed') continue;
+    for (const line of refund.lines) {
+      refundedQuantities.set(line.itemId, (refundedQuantities.get(line.itemId) || 0) + line.quantity);
+    }
+  }
+
+  const subtotal = order.subtotal ?? items.reduce((sum, item) => sum + (item.isFree ? 0 : item.price * item.quantity), 0);
+  const pricingBase = { subtotal, discountAmount: order.discountAmount, taxAmount: order.taxAmount };
+  const selectedLines = items
+    .map((item) => ({ item, quantity: Number(quantities[getItemId(item)] || 0) }))
+    .filter(({ quantity }) => quantity > 0);
+  const selectedAmount = Math.min(
+    roundCurrency(selectedLines.reduce((sum, { item, quantity }) => sum + calculateLineRefund(item.price, quantity, pricingBase, item), 0)),
+    remaining
+  );
+
+  const refundMutation = useMutation({
+    mutationFn: async (full: boolean) => {
+      const res = await apiRequest('POST', `/api/orders/${order.id}/refunds`, {
+        full,
+        lines: full ? undefined : selectedLines.map(({ item, quantity }) => ({ itemId: getItemId(item), quantity })),
+        reason: reason || undefined,
+        restock,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      setQuantities({});
+      setReason("");
+      onRefunded();
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between text-sm">
+        <span>Refunded: ₹{refundedAmount.toFixed(2)}</span>
+        <span>Refundable: ₹{Math.max(remaining, 0).toFixed(2)}</span>
+      </div>
+
+      {canRefund && (
+        <>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="py-1">Item</th>
+                <th className="py-1">Ordered</th>
+                <th className="py-1">Refunded</th>
+                <th className="py-1 w-24">Refund qty</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item) => {
+                const id = getItemId(item);
+                const refunded = refundedQuantities.get(id) || 0;
+                const refundable = item.quantity - refunded;
+                return (
+                  <tr key={id}>
+                    <td className="py-1">
+                      {item.product?.name || item.productId}
+                      {item.variantLabel && <span className="ml-1 text-xs text-muted-foreground">{item.variantLabel}</span>}
+                      {item.isFree && <span className="ml-1 text-xs text-muted-foreground">(free)</span>}
+                    </td>
+                    <td className="py-1">{item.quantity} × ₹{item.price.toFixed(2)}</td>
+                    <td className="py-1">{refunded}</td>
+                    <td className="py-1">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={refundable}
+                        disabled={refundable <= 0}
+                        value={quantities[id] ?? ""}
+                        onChange={(e) => {
+                          const value = Math.min(Math.max(Number(e.target.value) || 0, 0), refundable);
+                          setQuantities({ ...quantities, [id]: value ? String(value) : "" });
+                        }}
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <Input
+            placeholder="Reason (optional)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={restock} onCheckedChange={(checked) => setRestock(checked === true)} />
+            Return refunded items to stock
+          </label>
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              disabled={refundMutation.isPending || selectedLines.length === 0}
+              onClick={() => refundMutation.mutate(false)}
+            >
+              Refund selected (₹{selectedAmount.toFixed(2)})
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={refundMutation.isPending}
+              onClick={() => {
+                if (window.confirm(`Refund the remaining ₹${remaining.toFixed(2)} for this order?`)) {
+                  refundMutation.mutate(true);
+                }
+              }}
+            >
+              {refundMutation.isPending ? "Refunding..." : "Refund full order"}
+            </Button>
+          </div>
+          {refundMutation.isError && (
+            <p className="text-sm text-red-600">{getErrorMessage(refundMutation.error)}</p>
+          )}
+        </>
+      )}
+
+      {refunds.length > 0 && (
+        <div className="border-t pt-2 space-y-2">
+          {refunds.map((refund, index) => (
+            <div key={refund._id || index} className="flex justify-between text-sm">
+              <div>
+                <p className="font-medium">
+                  ₹{refund.amount.toFixed(2)} · {refund.lines.length > 0 ? `${refund.lines.reduce((sum, l) => sum + l.quantity, 0)} item(s)` : 'whole order'}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(refund.createdAt).toLocaleString('en-US')} · {refund.gateway}{refund.refundId ? ` ${refund.refundId}` : ''}
+                  {refund.giftCardAmount ? ` · ₹${refund.giftCardAmount.toFixed(2)} to gift card` : ''}
+                  {refund.reason ? ` · ${refund.reason}` : ''}
+                </p>
+                {refund.error && <p className="text-xs text-red-600">{refund.error}</p>}
+              </div>
+              <span className="capitalize">{refund.status}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import * as React from "react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Textarea } from "../ui/textarea";
+import { Checkbox } from "../ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { FormDescription, FormLabel } from "../ui/form";
+import { X } from 'lucide-react';
+import {
+  attributeFacets,
+  volumeUnits,
+  type AttributeFacetKey,
+  type ProductAttributes,
+  type ProductIngredient,
+  type VolumeUnit,
+} from "../../../../shared/attributes";
+
+// The attributes as they are being edited; volume and shelf life are typed as text
+export interface AttributesDraft {
+  ingredients: ProductIngredient[];
+  skinTypes: string[];
+  hairTypes: string[];
+  concerns: string[];
+  certifications: string[];
+  usage: string;
+  volumeValue: string;
+  volumeUnit: VolumeUnit;
+  shelfLifeMonths: string;
+}
+
+export function toAttributesDraft(attributes?: ProductAttributes): AttributesDraft {
+  return {
+    ingredients: attributes?.ingredients || [],
+    skinTypes: attributes?.skinTypes || [],
+    hairTypes: attributes?.hairTypes || [],
+    concerns: attributes?.concerns || [],
+    certifications: attributes?.certifications || [],
+    usage: attributes?.usage || '',
+    volumeValue: attributes?.volume ? String(attributes.volume.value) : '',
+    volumeUnit: attributes?.volume?.unit || 'ml',
+    shelfLifeMonths: attributes?.shelfLifeMonths ? String(attributes.shelfLifeMonths) : '',
+  };
+}
+
+// What the product form sends; rows without a name are dropped. The server checks the rest.
+export function parseAttributesDraft(draft: AttributesDraft) {
+  const volume = Number(draft.volumeValue);
+  const shelfLife = Number(draft.shelfLifeMonths);
+  return {
+    ingredients: draft.ingredients
+      .map(ingredient => ({ ...ingredient, name: ingredient.name.trim(), inciName: ingredient.inciName?.trim() }))
+      .filter(ingredient => ingredient.name),
+    skinTypes: draft.skinTypes,
+    hairTypes: draft.hairTypes,
+    concerns: draft.concerns,
+    certifications: draft.certifications,
+    usage: draft.usage.trim(),
+    volume: draft.volumeValue.trim() && volume > 0 ? { value: volume, unit: draft.volumeUnit } : null,
+    shelfLifeMonths: draft.shelfLifeMonths.trim() && shelfLife > 0 ? Math.floor(shelfLife) : null,
+  };
+}
+
+interface ProductAttributesEditorProps {
+  value: AttributesDraft;
+  onChange: (value: AttributesDraft) => void;
+}
+
+// Ingredients, who the product suits, how to use it, pack size and certifications
+const ProductAttributesEditor: React.FC<ProductAttributesEditorProps> = ({ value, onChange }) => {
+  const update = (changes: Partial<AttributesDraft>) => onChange({ ...value, ...changes });
+
+  const updateIngredient = (index: number, changes: Partial<ProductIngredient>) => {
+    update({ ingredients: value.ingredients.map((ingredient, i) => (i === index ? { ...ingredient, ...changes } : ingredient)) });
+  };
+
+  const toggleValue = (key: AttributeFacetKey, item: string) => {
+    const selected = value[key];
+    update({ [key]: selected.includes(item) ? selected.filter(existing => existing !== item) : [...selected, item] });
+  };
+
+  return (
+    <div className="col-span-full space-y-6 rounded-md border p-4">
+      <div>
+        <FormLabel>Product Details</FormLabel>
+        <FormDescription>
+          Shown on the product page. Skin type, hair type, concerns and certifications are also filters on the shop listings.
+        </FormDescription>
+      </div>
+
+      <div className="space-y-2">
+        <FormLabel>Ingredients</FormLabel>
+        {value.ingredients.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full data-table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>INCI name</th>
+                  <th>Benefit</th>
+                  <th>Key</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {value.ingredients.map((ingredient, index) => (
+                  <tr key={index}>
+                    <td>
+                      <Input
+                        placeholder="e.g. Ashwagandha"
+                        value={ingredient.name}
+                        onChange={e => updateIngredient(index, { name: e.target.value })}
+                        className="min-w-[140px]"
+                      />
+                    </td>
+                    <td>
+                      <Input
+                        placeholder="e.g. Withania Somnifera Root Extract"
+                        value={ingredient.inciName || ''}
+                        onChange={e => updateIngredient(index, { inciName: e.target.value })}
+                        className="min-w-[180px]"
+                      />
+                    </td>
+                    <td>
+                      <Input
+                        placeholder="What it does"
+                        value={ingredient.benefit || ''}
+                        onChange={e => updateIngredient(index, { benefit: e.target.value })}
+                        className="min-w-[180px]"
+                      />
+                    </td>
+                    <td className="text-center">
+                      <Checkbox
+                        checked={!!ingredient.isKey}
+                        onCheckedChange={checked => updateIngredient(index, { isKey: checked === true })}
+                        aria-label="Key ingredient"
+                      />
+                    </td>
+                    <td>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => update({ ingredients: value.ingredients.filter((_, i) => i !== index) })}
+                        aria-label="Remove ingredient"
+                      >
+                        <X size={14} />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <Button type="button" variant="outline" onClick={() => update({ ingredients: [...value.ingredients, { name: '', inciName: '', benefit: '', isKey: false }] })}>
+          Add ingredient
+        </Button>
+        <FormDescription>List ingredients in label order. Key ingredients are highlighted on the product page.</FormDescription>
+      </div>
+
+      {attributeFacets.map(facet => (
+        <div key={facet.key} className="space-y-2">
+          <FormLabel>{facet.title}</FormLabel>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {Object.entries(facet.labels).map(([item, label]) => (
+              <label key={item} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox checked={value[facet.key].includes(item)} onCheckedChange={() => toggleValue(facet.key, item)} />
+                {label}
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        <FormLabel>How to Use</FormLabel>
+        <Textarea
+          placeholder={"Take a few drops on the palm\nMassage into damp skin\nRinse off after two minutes"}
+          className="resize-none"
+          rows={4}
+          value={value.usage}
+          onChange={e => update({ usage: e.target.value })}
+        />
+        <FormDescription>One step per line.</FormDescription>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <FormLabel>Net Quantity</FormLabel>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              step="0.01"
+              placeholder="100"
+              value={value.volumeValue}
+              onChange={e => update({ volumeValue: e.target.value })}
+            />
+            <Select value={value.volumeUnit} onValueChange={unit => update({ volumeUnit: unit as VolumeUnit })}>
+              <SelectTrigger className="w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {volumeUnits.map(unit => (
+                  <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <FormLabel>Shelf Life (months)</FormLabel>
+          <Input
+            type="number"
+            placeholder="24"
+            value={value.shelfLifeMonths}
+            onChange={e => update({ shelfLifeMonths: e.target.value })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductAttributesEditor;
@@ -12,8 +12,10 @@ import { Textarea } from "../ui/textarea";
 import { Checkbox } from "../ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "../ui/form";
-import { productSchema, categorySchema } from "../../../../shared/schema";
+import { productSchema, categorySchema, type ProductVariant } from "../../../../shared/schema";
 import { X } from 'lucide-react';
+import VariantMatrix, { buildVariantMatrix, parseOptionDrafts, toOptionDrafts, type OptionDraft } from "./VariantMatrix";
+import ProductAttributesEditor, { parseAttributesDraft, toAttributesDraft, type AttributesDraft } from "./ProductAttributesEditor";
 type Product = z.infer<typeof productSchema>;
 type Category = z.infer<typeof categorySchema>;
 import { MongoProduct, MongoCategory } from "../../types/mongo";
@@ -32,6 +34,10 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onSuccess }) => {
   const [imageFiles, setImageFiles] = useState<File[]>([]);
   const [imagePreviews, setImagePreviews] = useState<string[]>([]);
   const [existingImages, setExistingImages] = useState<string[]>(product?.images || []);
+  const [optionDrafts, setOptionDrafts] = useState<OptionDraft[]>(toOptionDrafts(product?.options));
+  const [variants, setVariants] = useState<ProductVariant[]>(product?.variants || []);
+  const hasVariants = variants.length > 0;
+  const [attributes, setAttributes] = useState<AttributesDraft>(toAttributesDraft(product?.attributes));
 
   // Get categories for the form
   const { data: categoriesData, isLoading: isCategoriesLoading } = useQuery({
@@ -89,6 +95,11 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onSuccess }) => {
   const handleSubmitWithImages = form.handleSubmit(
     async (data) => {
       console.log('🛎️ SUBMIT HANDLER FIRED', data); // debug
+      const options = parseOptionDrafts(optionDrafts);
+      if (options.length > 0 && !hasVariants) {
+        toast({ title: 'Error', description: 'Generate the variants for the product options, or remove the options', variant: 'destructive' });
+        return;
+      }
       setIsSubmitting(true);
       try {
         const formData = new FormData();
@@ -121,6 +132,10 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onSuccess }) => {
         formData.append('bestseller', data.bestseller ? 'true' : 'false');
         formData.append('isNew', data.isNew ? 'true' : 'false');
         formData.append('videoUrl', data.videoUrl || '');
+        // The server takes sku, prices and stock from the variants when there are any
+        formData.append('options', JSON.stringify(hasVariants ? options : []));
+        formData.append('variants', JSON.stringify(variants));
+        formData.append('attributes', JSON.stringify(parseAttributesDraft(attributes)));
 
         // Append all selected image files
         imageFiles.forEach(file => formData.append('images', file));
@@ -173,6 +188,15 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onSuccess }) => {
     setExistingImages(newExisting);
   };
 
+  // Lay out one variant per combination of the option values
+  const handleGenerateVariants = () => {
+    setVariants(buildVariantMatrix(parseOptionDrafts(optionDrafts), variants, {
+      sku: form.getValues("sku"),
+      price: Number(form.getValues("price")) || 0,
+      discountedPrice: form.getValues("discountedPrice"),
+    }));
+  };
+
   // Generate slug from name
   const generateSlug = () => {
     const name = form.getValues("name");
@@ -205,8 +229,9 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onSuccess }) => {
               <FormItem>
                 <FormLabel>SKU*</FormLabel>
                 <FormControl>
-                  <Input {...field} />
+                  <Input {...field} disabled={hasVariants} />
                 </FormControl>
+                {hasVariants && <FormDescription>Set by the default variant</FormDescription>}
                 <FormMessage />
               </FormItem>
             )}
@@ -269,8 +294,10 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onSuccess }) => {
                     step="0.01"
                     value={field.value === undefined || field.value === null ? '' : field.value}
                     onChange={e => field.onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+                    disabled={hasVariants}
                   />
                 </FormControl>
+                {hasVariants && <FormDescription>Set by the default variant</FormDescription>}
                 <FormMessage />
               </FormItem>
             )}
@@ -292,6 +319,7 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onSuccess }) => {
                       const value = e.target.value;
                       field.onChange(value === "" ? null : parseFloat(value));
                     }} 
+                    disabled={hasVariants}
                   />
                 </FormControl>
                 <FormDescription>Leave empty for no discount</FormDescription>
@@ -312,8 +340,10 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onSuccess }) => {
                     type="number"
                     value={field.value === undefined || field.value === null ? '' : field.value}
                     onChange={e => field.onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+                    disabled={hasVariants}
                   />
                 </FormControl>
+                {hasVariants && <FormDescription>The total of the variants' stock</FormDescription>}
                 <FormMessage />
               </FormItem>
             )}
@@ -405,6 +435,15 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onSuccess }) => {
             </div>
             <FormDescription>Upload up to 5 images. The first image will be used as the main image.</FormDescription>
           </div>
+
+          <VariantMatrix
+            options={optionDrafts}
+            onOptionsChange={setOptionDrafts}
+            variants={variants}
+            onVariantsChange={setVariants}
+            onGenerate={handleGenerateVariants}
+            images={existingImages}
+          />
           
           {/* Video URL field */}
           <FormField
@@ -462,6 +501,8 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onSuccess }) => {
             )}
           />
           
+          <ProductAttributesEditor value={attributes} onChange={setAttributes} />
+
           {/* Featured checkbox */}
           <FormField
             control={form.control}
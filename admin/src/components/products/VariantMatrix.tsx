@@ -0,0 +1,228 @@
+import * as React from "react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { FormDescription, FormLabel } from "../ui/form";
+import { X } from 'lucide-react';
+import type { ProductOption, ProductVariant } from "../../../../shared/schema";
+
+// An option axis as it is being typed; values are comma separated
+export interface OptionDraft {
+  name: string;
+  values: string;
+}
+
+export const MAX_OPTIONS = 3;
+const NO_IMAGE = "none";
+
+export function toOptionDrafts(options: ProductOption[] = []): OptionDraft[] {
+  return options.map(option => ({ name: option.name, values: option.values.join(', ') }));
+}
+
+export function parseOptionDrafts(drafts: OptionDraft[]): ProductOption[] {
+  return drafts
+    .map(draft => ({
+      name: draft.name.trim(),
+      values: Array.from(new Set(draft.values.split(',').map(value => value.trim()).filter(Boolean))),
+    }))
+    .filter(option => option.name && option.values.length > 0);
+}
+
+const toSkuPart = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// Every combination of the option values. Variants that already exist keep their
+// SKU, prices, stock and images; new ones start from the product's own fields.
+export function buildVariantMatrix(
+  options: ProductOption[],
+  existing: ProductVariant[],
+  base: { sku: string; price: number; discountedPrice?: number | null }
+): ProductVariant[] {
+  if (options.length === 0) return [];
+  let combinations: Record<string, string>[] = [{}];
+  for (const option of options) {
+    combinations = combinations.flatMap(combination =>
+      option.values.map(value => ({ ...combination, [option.name]: value }))
+    );
+  }
+  const matrix = combinations.map(combination => {
+    const match = existing.find(variant => options.every(option => variant.options[option.name] === combination[option.name]));
+    if (match) return { ...match, options: combination };
+    return {
+      sku: [base.sku || 'SKU', ...options.map(option => toSkuPart(combination[option.name]))].join('-'),
+      options: combination,
+      price: base.price,
+      discountedPrice: base.discountedPrice ?? null,
+      stock: 0,
+      images: [],
+      isDefault: false,
+    };
+  });
+  if (!matrix.some(variant => variant.isDefault)) matrix[0].isDefault = true;
+  return matrix;
+}
+
+interface VariantMatrixProps {
+  options: OptionDraft[];
+  onOptionsChange: (options: OptionDraft[]) => void;
+  variants: ProductVariant[];
+  onVariantsChange: (variants: ProductVariant[]) => void;
+  onGenerate: () => void;
+  images: string[];
+}
+
+// Option axes (Size, Shade, ...) and one row per combination with its own SKU, prices, stock and image
+const VariantMatrix: React.FC<VariantMatrixProps> = ({ options, onOptionsChange, variants, onVariantsChange, onGenerate, images }) => {
+  const updateOption = (index: number, changes: Partial<OptionDraft>) => {
+    onOptionsChange(options.map((option, i) => (i === index ? { ...option, ...changes } : option)));
+  };
+
+  const updateVariant = (index: number, changes: Partial<ProductVariant>) => {
+    onVariantsChange(variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  const setDefault = (index: number) => {
+    onVariantsChange(variants.map((variant, i) => ({ ...variant, isDefault: i === index })));
+  };
+
+  const removeVariant = (index: number) => {
+    const remaining = variants.filter((_, i) => i !== index);
+    if (remaining.length > 0 && !remaining.some(variant => variant.isDefault)) remaining[0] = { ...remaining[0], isDefault: true };
+    onVariantsChange(remaining);
+  };
+
+  const axes = parseOptionDrafts(options);
+
+  return (
+    <div className="col-span-full space-y-4 rounded-md border p-4">
+      <div>
+        <FormLabel>Variants</FormLabel>
+        <FormDescription>
+          Sell sizes, volumes or shades under one product. The default variant's SKU and prices are the ones
+          listings show, and the product's stock is the total of its variants.
+        </FormDescription>
+      </div>
+
+      {options.map((option, index) => (
+        <div key={index} className="flex gap-2 items-center">
+          <Input
+            placeholder="Option, e.g. Size"
+            value={option.name}
+            onChange={e => updateOption(index, { name: e.target.value })}
+            className="w-40"
+          />
+          <Input
+            placeholder="Values, e.g. 30ml, 100ml"
+            value={option.values}
+            onChange={e => updateOption(index, { values: e.target.value })}
+          />
+          <Button type="button" variant="outline" size="icon" onClick={() => onOptionsChange(options.filter((_, i) => i !== index))} aria-label="Remove option">
+            <X size={14} />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          disabled={options.length >= MAX_OPTIONS}
+          onClick={() => onOptionsChange([...options, { name: '', values: '' }])}
+        >
+          Add option
+        </Button>
+        <Button type="button" variant="outline" disabled={axes.length === 0} onClick={onGenerate}>
+          {variants.length > 0 ? 'Update variants' : 'Generate variants'}
+        </Button>
+      </div>
+
+      {variants.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full data-table">
+            <thead>
+              <tr>
+                {axes.map(axis => <th key={axis.name}>{axis.name}</th>)}
+                <th>SKU</th>
+                <th>Price</th>
+                <th>Discounted</th>
+                <th>Stock</th>
+                <th>Image</th>
+                <th>Default</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {variants.map((variant, index) => (
+                <tr key={variant._id || Object.values(variant.options).join('/')}>
+                  {axes.map(axis => <td key={axis.name}>{variant.options[axis.name] || '-'}</td>)}
+                  <td>
+                    <Input value={variant.sku} onChange={e => updateVariant(index, { sku: e.target.value })} className="min-w-[140px]" />
+                  </td>
+                  <td>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={variant.price}
+                      onChange={e => updateVariant(index, { price: Number(e.target.value) })}
+                      className="w-24"
+                    />
+                  </td>
+                  <td>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={variant.discountedPrice ?? ''}
+                      onChange={e => updateVariant(index, { discountedPrice: e.target.value === '' ? null : Number(e.target.value) })}
+                      className="w-24"
+                    />
+                  </td>
+                  <td>
+                    <Input
+                      type="number"
+                      value={variant.stock}
+                      onChange={e => updateVariant(index, { stock: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                      className="w-20"
+                    />
+                  </td>
+                  <td>
+                    <Select
+                      value={variant.images?.[0] || NO_IMAGE}
+                      onValueChange={value => updateVariant(index, { images: value === NO_IMAGE ? [] : [value] })}
+                      disabled={images.length === 0}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue placeholder="Product images" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_IMAGE}>Product images</SelectItem>
+                        {images.map((url, i) => (
+                          <SelectItem key={url} value={url}>Image {i + 1}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="text-center">
+                    <input
+                      type="radio"
+                      name="defaultVariant"
+                      checked={!!variant.isDefault}
+                      onChange={() => setDefault(index)}
+                      aria-label="Default variant"
+                    />
+                  </td>
+                  <td>
+                    <Button type="button" variant="ghost" size="icon" onClick={() => removeVariant(index)} aria-label="Remove variant">
+                      <X size={14} />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <FormDescription>Variant images are picked from the product images saved above.</FormDescription>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariantMatrix;
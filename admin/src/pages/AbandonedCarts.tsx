@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+interface CartRecovery {
+  _id: string;
+  email: string;
+  items: { productId: string; name: string; quantity: number; price: number }[];
+  cartValue: number;
+  emailsSent: number;
+  lastEmailAt?: string;
+  couponCode?: string;
+  status: 'active' | 'completed' | 'recovered' | 'closed';
+  closeReason?: string;
+  restoredAt?: string;
+  orderId?: string;
+  recoveredRevenue: number;
+  createdAt: string;
+}
+
+interface CartRecoveryReport {
+  days: number;
+  abandonedCarts: number;
+  abandonedValue: number;
+  emailsSent: number;
+  restoredCarts: number;
+  recoveredCarts: number;
+  recoveredRevenue: number;
+  recoveryRate: number;
+  recent: CartRecovery[];
+}
+
+const statusLabels: Record<string, string> = {
+  active: 'Emailing',
+  completed: 'Sequence sent',
+  recovered: 'Recovered',
+  closed: 'Closed',
+};
+
+const getStatusBadgeClass = (status: string) => {
+  switch (status) {
+    case 'recovered':
+      return 'bg-green-100 text-green-800';
+    case 'active':
+      return 'bg-orange-100 text-orange-800';
+    case 'completed':
+      return 'bg-blue-100 text-blue-800';
+    case 'closed':
+      return 'bg-neutral-200 text-neutral-800';
+    default:
+      return 'bg-neutral-100 text-neutral-800';
+  }
+};
+
+const formatRupees = (value: number) => `₹${value.toFixed(2)}`;
+
+export default function AbandonedCarts() {
+  const [days, setDays] = useState("30");
+
+  const { data, isLoading, isError } = useQuery<CartRecoveryReport>({
+    queryKey: ['/api/admin/abandoned-carts/report', days],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/admin/abandoned-carts/report?days=${days}`);
+      return res.json();
+    },
+  });
+
+  const stats = [
+    { label: 'Abandoned carts', value: data?.abandonedCarts ?? 0 },
+    { label: 'Abandoned value', value: formatRupees(data?.abandonedValue ?? 0) },
+    { label: 'Emails sent', value: data?.emailsSent ?? 0 },
+    { label: 'Carts restored', value: data?.restoredCarts ?? 0 },
+    { label: 'Orders recovered', value: data?.recoveredCarts ?? 0 },
+    { label: 'Recovered revenue', value: formatRupees(data?.recoveredRevenue ?? 0) },
+    { label: 'Recovery rate', value: `${data?.recoveryRate ?? 0}%` },
+  ];
+  const recoveries = data?.recent ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-end">
+        <div>
+          <h1 className="text-2xl font-heading text-primary mb-1">Abandoned Carts</h1>
+          <p className="text-muted-foreground">Carts left idle that were sent recovery emails, and the orders they brought back</p>
+        </div>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Period" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">Last 7 days</SelectItem>
+            <SelectItem value="30">Last 30 days</SelectItem>
+            <SelectItem value="90">Last 90 days</SelectItem>
+            <SelectItem value="365">Last year</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {stats.map((stat) => (
+          <Card key={stat.label}>
+            <CardHeader className="py-4">
+              <CardTitle className="text-lg">{stat.label}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold">{isLoading ? "..." : stat.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="border rounded-md">
+        <div className="overflow-x-auto">
+          <table className="w-full data-table">
+            <thead>
+              <tr>
+                <th>Abandoned</th>
+                <th>Customer</th>
+                <th>Items</th>
+                <th>Cart Value</th>
+                <th>Emails</th>
+                <th>Coupon</th>
+                <th>Status</th>
+                <th>Order</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td colSpan={8} className="text-center py-6 text-muted-foreground">Loading...</td>
+                </tr>
+              ) : isError ? (
+                <tr>
+                  <td colSpan={8} className="text-center py-6 text-red-600">Failed to load abandoned carts</td>
+                </tr>
+              ) : recoveries.length > 0 ? (
+                recoveries.map((recovery) => (
+                  <tr key={recovery._id}>
+                    <td>{new Date(recovery.createdAt).toLocaleString('en-US')}</td>
+                    <td>{recovery.email}</td>
+                    <td>
+                      <div>{recovery.items.reduce((sum, item) => sum + item.quantity, 0)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {recovery.items.map(item => item.name).join(', ')}
+                      </div>
+                    </td>
+                    <td>{formatRupees(recovery.cartValue)}</td>
+                    <td>
+                      <div>{recovery.emailsSent}</div>
+                      {recovery.restoredAt && <div className="text-xs text-muted-foreground">Link opened</div>}
+                    </td>
+                    <td>{recovery.couponCode || '-'}</td>
+                    <td>
+                      <span className={`inline-block px-2 py-1 text-xs rounded-full ${getStatusBadgeClass(recovery.status)}`}>
+                        {statusLabels[recovery.status] || recovery.status}
+                      </span>
+                      {recovery.closeReason && <div className="text-xs text-muted-foreground">{recovery.closeReason.replace(/_/g, ' ')}</div>}
+                    </td>
+                    <td>
+                      {recovery.orderId ? (
+                        <>
+                          <div>#{recovery.orderId}</div>
+                          <div className="text-xs text-muted-foreground">{formatRupees(recovery.recoveredRevenue)}</div>
+                        </>
+                      ) : '-'}
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={8} className="text-center py-6 text-muted-foreground">No abandoned carts in this period</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+interface PendingCheckout {
+  _id: string;
+  razorpayOrderId: string;
+  receipt: string;
+  userId?: string;
+  email?: string;
+  order: { billingCustomerName?: string; billingEmail?: string; billingPhone?: string };
+  items: { productId: string; quantity: number }[];
+  amount: number;
+  currency: string;
+  status: 'pending' | 'completed' | 'failed' | 'expired';
+  orderId?: string;
+  paymentId?: string;
+  failureReason?: string;
+  refundRequired?: boolean;
+  expiresAt: string;
+  createdAt: string;
+}
+
+interface PendingCheckoutsResponse {
+  checkouts: PendingCheckout[];
+  total: number;
+  summary: Record<string, number>;
+}
+
+const statusLabels: Record<string, string> = {
+  pending: 'Awaiting payment',
+  completed: 'Paid',
+  failed: 'Failed',
+  expired: 'Abandoned',
+};
+
+const getStatusBadgeClass = (status: string) => {
+  switch (status) {
+    case 'completed':
+      return 'bg-green-100 text-green-800';
+    case 'pending':
+      return 'bg-orange-100 text-orange-800';
+    case 'failed':
+      return 'bg-red-100 text-red-800';
+    case 'expired':
+      return 'bg-neutral-200 text-neutral-800';
+    default:
+      return 'bg-neutral-100 text-neutral-800';
+  }
+};
+
+export default function AbandonedPaymentsManagement() {
+  const [statusFilter, setStatusFilter] = useState("abandoned");
+  const [page, setPage] = useState(1);
+  const limit = 20;
+
+  const { data, isLoading, isError } = useQuery<PendingCheckoutsResponse>({
+    queryKey: ['/api/admin/pending-checkouts', statusFilter, page],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/admin/pending-checkouts?status=${statusFilter}&page=${page}&limit=${limit}`);
+      return res.json();
+    },
+  });
+
+  const checkouts = data?.checkouts ?? [];
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / limit));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-heading text-primary mb-1">Payments</h1>
+        <p className="text-muted-foreground">Razorpay checkouts that were started but not paid</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {(['pending', 'completed', 'failed', 'expired'] as const).map((status) => (
+          <Card key={status}>
+            <CardHeader className="py-4">
+              <CardTitle className="text-lg">{statusLabels[status]}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold">
+                {isLoading ? "..." : data?.summary?.[status] ?? 0}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value); setPage(1); }}>
+        <SelectTrigger className="w-[220px]">
+          <SelectValue placeholder="Status" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="abandoned">Failed or abandoned</SelectItem>
+          <SelectItem value="all">All checkouts</SelectItem>
+          <SelectItem value="pending">{statusLabels.pending}</SelectItem>
+          <SelectItem value="completed">{statusLabels.completed}</SelectItem>
+          <SelectItem value="failed">{statusLabels.failed}</SelectItem>
+          <SelectItem value="expired">{statusLabels.expired}</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <div className="border rounded-md">
+        <div className="overflow-x-auto">
+          <table className="w-full data-table">
+            <thead>
+              <tr>
+                <th>Started</th>
+                <th>Razorpay Order</th>
+                <th>Customer</th>
+                <th>Items</th>
+                <th>Amount</th>
+                <th>Status</th>
+                <th>Reason</th>
+                <th>Order</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td colSpan={8} className="text-center py-6 text-muted-foreground">Loading...</td>
+                </tr>
+              ) : isError ? (
+                <tr>
+                  <td colSpan={8} className="text-center py-6 text-red-600">Failed to load checkouts</td>
+                </tr>
+              ) : checkouts.length > 0 ? (
+                checkouts.map((checkout) => (
+                  <tr key={checkout._id}>
+                    <td>{new Date(checkout.createdAt).toLocaleString('en-US')}</td>
+                    <td>
+                      <div>{checkout.razorpayOrderId}</div>
+                      <div className="text-xs text-muted-foreground">{checkout.receipt}</div>
+                    </td>
+                    <td>
+                      <div>{checkout.order?.billingCustomerName || checkout.userId || checkout.email}</div>
+                      <div className="text-xs text-muted-foreground">{checkout.order?.billingEmail || checkout.order?.billingPhone}</div>
+                    </td>
+                    <td>{checkout.items.reduce((sum, item) => sum + item.quantity, 0)}</td>
+                    <td>₹{(checkout.amount / 100).toFixed(2)}</td>
+                    <td>
+                      <span className={`inline-block px-2 py-1 text-xs rounded-full ${getStatusBadgeClass(checkout.status)}`}>
+                        {statusLabels[checkout.status] || checkout.status}
+                      </span>
+                    </td>
+                    <td className="text-sm">
+                      {checkout.failureReason || '-'}
+                      {checkout.refundRequired && (
+                        <span className="ml-2 inline-block px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-800">
+                          Refund payment {checkout.paymentId}
+                        </span>
+                      )}
+                    </td>
+                    <td>{checkout.orderId ? `#${checkout.orderId}` : '-'}</td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={8} className="text-center py-6 text-muted-foreground">No checkouts found</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="flex justify-end items-center gap-2">
+        <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+          Previous
+        </Button>
+        <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+        <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+          Next
+        </Button>
+      </div>
+    </div>
+  );
+}
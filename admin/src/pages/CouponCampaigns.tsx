@@ -0,0 +1,754 @@
+import React, { useState, useEffect } from "react";
+import { SubmitHandler, useForm } from "react-hook-form";
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { Info, AlertTriangle, Pencil, Trash2, Download, Plus } from "lucide-react";
+import { apiRequest } from "../lib/queryClient";
+import CouponScopeFields, { type CouponScopeValues } from "@/components/coupons/CouponScopeFields";
+
+interface CampaignFormValues extends CouponScopeValues {
+  name: string;
+  description: string;
+  pattern: string;
+  quantity: number;
+  discountAmount: number;
+  discountType: 'percentage' | 'fixed';
+  minimumCartValue: number;
+  maxDiscountAmount: number;
+  firstOrderOnly: boolean;
+  stacksWithSalePrice: boolean;
+  stacksWithCoupons: boolean;
+  startDate: Date;
+  endDate: Date;
+  isActive: boolean;
+}
+
+interface CampaignStats {
+  issued: number;
+  redeemed: number;
+  reserved: number;
+  discountGiven: number;
+  revenue: number;
+}
+
+interface Campaign extends Omit<CampaignFormValues, 'quantity' | 'startDate' | 'endDate'> {
+  _id: string;
+  startDate: string;
+  endDate: string;
+  issuedCount: number;
+  stats?: CampaignStats;
+  createdAt: string;
+}
+
+const emptyCampaign: CampaignFormValues = {
+  name: "",
+  description: "",
+  pattern: "",
+  quantity: 100,
+  discountAmount: 10,
+  discountType: "percentage",
+  minimumCartValue: 0,
+  maxDiscountAmount: 0,
+  productIds: [],
+  categoryIds: [],
+  collectionIds: [],
+  excludedProductIds: [],
+  excludedCategoryIds: [],
+  excludedCollectionIds: [],
+  firstOrderOnly: false,
+  stacksWithSalePrice: true,
+  stacksWithCoupons: false,
+  startDate: new Date(),
+  endDate: new Date(new Date().setMonth(new Date().getMonth() + 1)),
+  isActive: true,
+};
+
+// The server's JSON error message from an apiRequest failure
+const getErrorMessage = (error: unknown, fallback: string) => {
+  const text = String((error as Error)?.message || "").replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(text).message || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export default function CouponCampaigns() {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [editingCampaign, setEditingCampaign] = useState<Campaign | null>(null);
+  const [campaignToDelete, setCampaignToDelete] = useState<string | null>(null);
+  const [campaignToExtend, setCampaignToExtend] = useState<Campaign | null>(null);
+  const [extraCodes, setExtraCodes] = useState<number>(100);
+  const [activeTab, setActiveTab] = useState<string>("list");
+
+  const form = useForm<CampaignFormValues>({ defaultValues: emptyCampaign });
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, []);
+
+  useEffect(() => {
+    if (editingCampaign) {
+      form.reset({
+        ...emptyCampaign,
+        ...editingCampaign,
+        startDate: new Date(editingCampaign.startDate),
+        endDate: new Date(editingCampaign.endDate),
+      });
+      setActiveTab("create");
+    }
+  }, [editingCampaign, form]);
+
+  const fetchCampaigns = async () => {
+    setLoading(true);
+    try {
+      const response = await apiRequest('GET', '/api/admin/coupon-campaigns');
+      const data = await response.json();
+      setCampaigns(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error("Error fetching coupon campaigns:", error);
+      toast.error("Failed to fetch coupon campaigns");
+      setCampaigns([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onSubmit: SubmitHandler<CampaignFormValues> = async (data) => {
+    setSaving(true);
+    try {
+      if (editingCampaign) {
+        await apiRequest('PUT', `/api/admin/coupon-campaigns/${editingCampaign._id}`, data);
+        toast.success("Campaign updated successfully");
+      } else {
+        const response = await apiRequest('POST', '/api/admin/coupon-campaigns', data);
+        const campaign = await response.json();
+        toast.success(`Campaign created with ${campaign.issuedCount} codes`);
+      }
+
+      form.reset(emptyCampaign);
+      setEditingCampaign(null);
+      setActiveTab("list");
+      fetchCampaigns();
+    } catch (error) {
+      console.error("Error saving coupon campaign:", error);
+      toast.error(getErrorMessage(error, "Failed to save campaign"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExport = async (campaign: Campaign) => {
+    try {
+      const response = await apiRequest('GET', `/api/admin/coupon-campaigns/${campaign._id}/codes.csv`);
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${campaign.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'campaign'}-codes.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting campaign codes:", error);
+      toast.error("Failed to export codes");
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!campaignToExtend) return;
+    setSaving(true);
+    try {
+      const response = await apiRequest('POST', `/api/admin/coupon-campaigns/${campaignToExtend._id}/codes`, { quantity: extraCodes });
+      const { issuedCount } = await response.json();
+      toast.success(`${campaignToExtend.name} now has ${issuedCount} codes`);
+      setCampaignToExtend(null);
+      fetchCampaigns();
+    } catch (error) {
+      console.error("Error generating campaign codes:", error);
+      toast.error(getErrorMessage(error, "Failed to generate codes"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!campaignToDelete) return;
+
+    try {
+      await apiRequest('DELETE', `/api/admin/coupon-campaigns/${campaignToDelete}`);
+      toast.success("Campaign deleted successfully");
+      setCampaignToDelete(null);
+      fetchCampaigns();
+    } catch (error) {
+      console.error("Error deleting coupon campaign:", error);
+      toast.error("Failed to delete campaign");
+    }
+  };
+
+  const cancelEdit = () => {
+    setEditingCampaign(null);
+    form.reset(emptyCampaign);
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold">Coupon Campaigns</h1>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList className="w-full mb-6">
+          <TabsTrigger value="list" className="flex-1">
+            Campaign Report
+          </TabsTrigger>
+          <TabsTrigger value="create" className="flex-1">
+            {editingCampaign ? "Edit Campaign" : "Create Campaign"}
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="list">
+          <Card>
+            <CardHeader>
+              <CardTitle>All Campaigns</CardTitle>
+              <CardDescription>
+                Unique single-use codes for influencer and print campaigns, with redemptions and revenue per campaign.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="flex justify-center my-8">
+                  <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+                </div>
+              ) : campaigns.length === 0 ? (
+                <div className="flex flex-col items-center justify-center p-8 text-center">
+                  <Info className="h-12 w-12 text-muted-foreground mb-2" />
+                  <h3 className="font-semibold text-lg">No campaigns found</h3>
+                  <p className="text-muted-foreground">
+                    Click the "Create Campaign" tab to generate your first batch of codes.
+                  </p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Campaign</TableHead>
+                        <TableHead>Discount</TableHead>
+                        <TableHead>Issued</TableHead>
+                        <TableHead>Redeemed</TableHead>
+                        <TableHead>Discount Given</TableHead>
+                        <TableHead>Revenue</TableHead>
+                        <TableHead>Validity</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {campaigns.map((campaign) => {
+                        const stats = campaign.stats ?? { issued: campaign.issuedCount, redeemed: 0, reserved: 0, discountGiven: 0, revenue: 0 };
+                        const rate = stats.issued > 0 ? (stats.redeemed / stats.issued) * 100 : 0;
+
+                        return (
+                          <TableRow key={campaign._id}>
+                            <TableCell className="font-medium">
+                              {campaign.name}
+                              <span className="text-xs text-muted-foreground block font-mono">{campaign.pattern}</span>
+                              {!campaign.isActive && <span className="text-xs text-muted-foreground block">Inactive</span>}
+                            </TableCell>
+                            <TableCell>
+                              {campaign.discountType === 'percentage' ? `${campaign.discountAmount}%` : `₹${campaign.discountAmount}`}
+                              {campaign.firstOrderOnly && <span className="text-xs text-muted-foreground block">First order only</span>}
+                            </TableCell>
+                            <TableCell>{stats.issued}</TableCell>
+                            <TableCell>
+                              {stats.redeemed}
+                              <span className="text-xs text-muted-foreground block">
+                                {rate.toFixed(1)}%{stats.reserved > 0 && ` · ${stats.reserved} pending`}
+                              </span>
+                            </TableCell>
+                            <TableCell>₹{stats.discountGiven.toFixed(2)}</TableCell>
+                            <TableCell>₹{stats.revenue.toFixed(2)}</TableCell>
+                            <TableCell>
+                              <div className="text-sm">
+                                <div>From: {new Date(campaign.startDate).toLocaleDateString()}</div>
+                                <div>To: {new Date(campaign.endDate).toLocaleDateString()}</div>
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex space-x-2">
+                                <Button variant="outline" size="icon" title="Export codes" onClick={() => handleExport(campaign)}>
+                                  <Download className="h-4 w-4" />
+                                </Button>
+                                <Button variant="outline" size="icon" title="Generate more codes" onClick={() => setCampaignToExtend(campaign)}>
+                                  <Plus className="h-4 w-4" />
+                                </Button>
+                                <Button variant="outline" size="icon" onClick={() => setEditingCampaign(campaign)}>
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="icon"
+                                  className="text-destructive"
+                                  onClick={() => setCampaignToDelete(campaign._id)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="create">
+          <Card>
+            <CardHeader>
+              <CardTitle>{editingCampaign ? "Edit Campaign" : "Create New Campaign"}</CardTitle>
+              <CardDescription>
+                {editingCampaign
+                  ? `Changes apply to all ${editingCampaign.issuedCount} codes in ${editingCampaign.name}.`
+                  : "Every code is unique and can be used once; all codes share the rules below."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <FormField
+                      control={form.control}
+                      name="name"
+                      rules={{ required: "Name is required" }}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Campaign Name*</FormLabel>
+                          <FormControl>
+                            <Input {...field} placeholder="Diwali influencer drop" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="description"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Description</FormLabel>
+                          <FormControl>
+                            <Textarea {...field} placeholder="Shown with the coupon at checkout" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="pattern"
+                      rules={{
+                        required: "Code pattern is required",
+                        pattern: {
+                          value: /^[A-Z0-9_#-]+$/,
+                          message: "Use uppercase letters, numbers, -, _ and #"
+                        }
+                      }}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Code Pattern*</FormLabel>
+                          <FormControl>
+                            <Input
+                              {...field}
+                              placeholder="INSTA-########"
+                              className="uppercase font-mono"
+                              onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Each # becomes a random character (at least 6). A plain prefix gets 8 random characters added.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    {!editingCampaign && (
+                      <FormField
+                        control={form.control}
+                        name="quantity"
+                        rules={{
+                          min: { value: 1, message: "Generate at least one code" },
+                          max: { value: 10000, message: "At most 10,000 codes at once" }
+                        }}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Number of Codes*</FormLabel>
+                            <FormControl>
+                              <Input
+                                {...field}
+                                type="number"
+                                step="1"
+                                min="1"
+                                max="10000"
+                                onChange={(e) => field.onChange(Number(e.target.value))}
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              More codes can be added to the campaign later.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    <FormField
+                      control={form.control}
+                      name="discountType"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Discount Type*</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select discount type" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="percentage">Percentage (%)</SelectItem>
+                              <SelectItem value="fixed">Fixed Amount (₹)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="discountAmount"
+                      rules={{
+                        min: { value: 0.01, message: "Amount must be greater than 0" },
+                        validate: (value, formValues) =>
+                          !(formValues.discountType === "percentage" && value > 100) ||
+                          "Percentage cannot exceed 100%"
+                      }}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Discount Amount*</FormLabel>
+                          <FormControl>
+                            <Input
+                              {...field}
+                              type="number"
+                              step="0.01"
+                              min={0}
+                              onChange={(e) => field.onChange(Number(e.target.value))}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    {form.watch("discountType") === "percentage" && (
+                      <FormField
+                        control={form.control}
+                        name="maxDiscountAmount"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Maximum Discount</FormLabel>
+                            <FormControl>
+                              <Input
+                                {...field}
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                onChange={(e) => field.onChange(Number(e.target.value))}
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Cap on the discount per code (0 for no cap).
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    <FormField
+                      control={form.control}
+                      name="minimumCartValue"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Minimum Cart Value</FormLabel>
+                          <FormControl>
+                            <Input
+                              {...field}
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              onChange={(e) => field.onChange(Number(e.target.value))}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="startDate"
+                      rules={{ required: "Start date is required" }}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Start Date*</FormLabel>
+                          <FormControl>
+                            <DatePicker
+                              selected={field.value}
+                              onChange={(date: Date | null) => field.onChange(date || new Date())}
+                              dateFormat="MMMM d, yyyy"
+                              className="w-full"
+                              wrapperClassName="w-full"
+                              customInput={<Input />}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="endDate"
+                      rules={{
+                        required: "End date is required",
+                        validate: (value, formValues) =>
+                          !formValues.startDate || value > formValues.startDate ||
+                          "End date must be after start date"
+                      }}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>End Date*</FormLabel>
+                          <FormControl>
+                            <DatePicker
+                              selected={field.value}
+                              onChange={(date: Date | null) => field.onChange(date || new Date())}
+                              dateFormat="MMMM d, yyyy"
+                              className="w-full"
+                              wrapperClassName="w-full"
+                              customInput={<Input />}
+                              minDate={form.watch("startDate") || new Date()}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="firstOrderOnly"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between space-y-0 rounded-md border p-4">
+                          <div className="space-y-0.5">
+                            <FormLabel className="text-base">First Order Only</FormLabel>
+                            <FormDescription>
+                              Only customers without a previous order can use these codes.
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch checked={field.value} onCheckedChange={field.onChange} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="stacksWithSalePrice"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between space-y-0 rounded-md border p-4">
+                          <div className="space-y-0.5">
+                            <FormLabel className="text-base">Applies to Sale Items</FormLabel>
+                            <FormDescription>
+                              When off, items already selling below their list price are left out of the discount.
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch checked={field.value} onCheckedChange={field.onChange} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="stacksWithCoupons"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between space-y-0 rounded-md border p-4">
+                          <div className="space-y-0.5">
+                            <FormLabel className="text-base">Stacks with Other Coupons</FormLabel>
+                            <FormDescription>
+                              Allow these codes to be used together with other stackable coupons.
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch checked={field.value} onCheckedChange={field.onChange} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="isActive"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between space-y-0 rounded-md border p-4">
+                          <div className="space-y-0.5">
+                            <FormLabel className="text-base">Campaign Status</FormLabel>
+                            <FormDescription>
+                              Disabling a campaign disables all of its codes.
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch checked={field.value} onCheckedChange={field.onChange} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <CouponScopeFields
+                    value={{
+                      productIds: form.watch("productIds"),
+                      categoryIds: form.watch("categoryIds"),
+                      collectionIds: form.watch("collectionIds"),
+                      excludedProductIds: form.watch("excludedProductIds"),
+                      excludedCategoryIds: form.watch("excludedCategoryIds"),
+                      excludedCollectionIds: form.watch("excludedCollectionIds"),
+                    }}
+                    onChange={(scope) => {
+                      (Object.keys(scope) as (keyof CouponScopeValues)[]).forEach((key) =>
+                        form.setValue(key, scope[key], { shouldDirty: true })
+                      );
+                    }}
+                  />
+
+                  <div className="flex justify-end space-x-4 pt-4">
+                    {editingCampaign && (
+                      <Button type="button" variant="outline" onClick={cancelEdit}>
+                        Cancel Edit
+                      </Button>
+                    )}
+                    <Button type="submit" disabled={saving}>
+                      {saving ? "Saving..." : editingCampaign ? "Update Campaign" : "Generate Codes"}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Generate More Codes Dialog */}
+      <Dialog open={!!campaignToExtend} onOpenChange={(open) => !open && setCampaignToExtend(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Generate more codes for {campaignToExtend?.name}</DialogTitle>
+          </DialogHeader>
+          <Input
+            type="number"
+            min="1"
+            max="10000"
+            value={extraCodes}
+            onChange={(e) => setExtraCodes(Number(e.target.value))}
+          />
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancel</Button>
+            </DialogClose>
+            <Button onClick={handleGenerate} disabled={saving || extraCodes < 1}>
+              Generate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!campaignToDelete} onOpenChange={(open) => !open && setCampaignToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              Confirm Deletion
+            </DialogTitle>
+          </DialogHeader>
+          <p>Unused codes are deleted and used codes are disabled. This action cannot be undone.</p>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancel</Button>
+            </DialogClose>
+            <Button variant="destructive" onClick={handleDelete}>
+              Delete Campaign
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
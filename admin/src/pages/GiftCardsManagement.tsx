@@ -33,6 +33,17 @@ interface GiftCard {
   imageUrl?: string;
 }
 
+interface GiftCardTransaction {
+  _id: string;
+  type: 'debit' | 'credit';
+  amount: number;
+  balanceAfter: number;
+  reason: string;
+  orderId?: string;
+  status?: string;
+  createdAt: string;
+}
+
 export default function GiftCardsManagement() {
   const queryClient = useQueryClient();
   // require API URL from env
@@ -49,6 +60,7 @@ export default function GiftCardsManagement() {
   const [expiryDate, setExpiryDate] = useState<Date>(new Date());
   const [isActive, setIsActive] = useState<boolean>(true);
   const [imageFile, setImageFile] = useState<File | null>(null);
+  const [historyCard, setHistoryCard] = useState<GiftCard | null>(null);
 
   // Fetch gift cards with auth-check and data-sanity
   const fetchGiftCards = async (): Promise<GiftCard[]> => {
@@ -73,6 +85,15 @@ export default function GiftCardsManagement() {
     queryKey: ['giftcards'],
     queryFn: fetchGiftCards,
   });
+  const { data: transactions = [], isLoading: loadingHistory } = useQuery<GiftCardTransaction[]>({
+    queryKey: ['giftcard-transactions', historyCard?._id],
+    queryFn: async () => {
+      const res = await fetch(`${apiBase}/api/admin/giftcards/${historyCard!._id}/transactions`, { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch gift card history');
+      return res.json();
+    },
+    enabled: !!historyCard,
+  });
   // Commented out early returns to preserve hook order and fix React error #310
   // if (isLoading) return <div className="p-6">Loading gift cards...</div>;
   // if (isError) return <div className="p-6 text-red-500">Error fetching gift cards: {error?.message}</div>;
@@ -178,6 +199,9 @@ export default function GiftCardsManagement() {
                   <Button size="sm" variant="outline" onClick={() => openForm(c)}>
                     Edit
                   </Button>
+                  <Button size="sm" variant="outline" onClick={() => setHistoryCard(c)}>
+                    History
+                  </Button>
                   <Button size="sm" variant="destructive" onClick={() => deleteMutation.mutate(id)}>
                     Delete
                   </Button>
@@ -229,6 +253,45 @@ export default function GiftCardsManagement() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+      <Dialog open={!!historyCard} onOpenChange={(open) => { if (!open) setHistoryCard(null); }}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Gift Card {historyCard?.code} History</DialogTitle>
+          </DialogHeader>
+          {loadingHistory ? (
+            <div className="p-4">Loading...</div>
+          ) : transactions.length === 0 ? (
+            <div className="p-4 text-muted-foreground">No balance movements yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Movement</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transactions.map((t) => (
+                  <TableRow key={t._id}>
+                    <TableCell>{new Date(t.createdAt).toLocaleString()}</TableCell>
+                    <TableCell className={t.type === 'credit' ? 'text-green-600' : 'text-red-600'}>
+                      {t.type === 'credit' ? '+' : '-'}₹{t.amount.toFixed(2)}
+                    </TableCell>
+                    <TableCell className="capitalize">
+                      {t.reason.replace(/_/g, ' ')}{t.status ? ` (${t.status})` : ''}
+                    </TableCell>
+                    <TableCell>{t.orderId || '-'}</TableCell>
+                    <TableCell>₹{t.balanceAfter.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
       {isLoading && <div className="p-6">Loading gift cards...</div>}
       {isError && <div className="p-6 text-red-500">Error fetching gift cards: {error?.message}</div>}
     </div>
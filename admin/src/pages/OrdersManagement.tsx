@@ -1,6 +1,7 @@
 import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Order } from "@shared/schema";
+import { ORDER_STATUSES, getManualNextOrderStatuses, getOrderStatusLabel } from "@shared/orderStatus";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -31,6 +32,7 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import RefundPanel, { OrderItemWithProduct } from "@/components/orders/RefundPanel";
 
 export default function OrdersManagement() {
   const [page, setPage] = useState(1);
@@ -40,6 +42,7 @@ export default function OrdersManagement() {
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [isOrderDetailsOpen, setIsOrderDetailsOpen] = useState(false);
   const [statusToUpdate, setStatusToUpdate] = useState<string>("");
+  const [statusNote, setStatusNote] = useState<string>("");
   const [packageLength, setPackageLength] = useState<string>("");
   const [packageBreadth, setPackageBreadth] = useState<string>("");
   const [packageHeight, setPackageHeight] = useState<string>("");
@@ -48,6 +51,7 @@ export default function OrdersManagement() {
   const limit = 10;
 
   const apiBase = import.meta.env.DEV ? '' : (import.meta.env.VITE_API_URL ?? '');
+  const queryClient = useQueryClient();
 
   // Fetch orders
   const { data: ordersData, isLoading, isError } = useQuery({
@@ -63,6 +67,19 @@ export default function OrdersManagement() {
     },
   });
 
+  // Full order (items, refunds) for the details dialog
+  const { data: orderDetails } = useQuery<{ order: Order; items: OrderItemWithProduct[] }>({
+    queryKey: ['order-details', selectedOrder?.id],
+    enabled: isOrderDetailsOpen && !!selectedOrder?.id,
+    queryFn: async () => {
+      const res = await fetch(`${apiBase}/api/orders/${selectedOrder?.id}`, { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch order');
+      return res.json();
+    },
+  });
+  const detailedOrder = orderDetails?.order ? { ...orderDetails.order, id: orderDetails.order.id || selectedOrder?.id } : selectedOrder;
+  const orderItems = orderDetails?.items ?? [];
+
   // Defensive extraction of orders and pagination info
   const orders = Array.isArray(ordersData?.orders) ? ordersData.orders : [];
   const total = typeof ordersData?.total === 'number' ? ordersData.total : 0;
@@ -84,6 +101,9 @@ export default function OrdersManagement() {
     setPackageBreadth(order.packageBreadth?.toString() || "");
     setPackageHeight(order.packageHeight?.toString() || "");
     setPackageWeight(order.packageWeight?.toString() || "");
+    setStatusToUpdate("");
+    setStatusNote("");
+    updateOrderMutation.reset();
     setSelectedOrder(order);
     setIsOrderDetailsOpen(true);
   };
@@ -91,15 +111,21 @@ export default function OrdersManagement() {
   const getStatusBadgeClass = (status: string) => {
     switch (status) {
       case 'completed':
+      case 'delivered':
         return 'bg-green-100 text-green-800';
       case 'shipped':
         return 'bg-blue-100 text-blue-800';
+      case 'paid':
+        return 'bg-teal-100 text-teal-800';
       case 'processing':
         return 'bg-yellow-100 text-yellow-800';
       case 'pending':
         return 'bg-orange-100 text-orange-800';
       case 'cancelled':
         return 'bg-red-100 text-red-800';
+      case 'returned':
+      case 'refunded':
+        return 'bg-purple-100 text-purple-800';
       default:
         return 'bg-neutral-100 text-neutral-800';
     }
@@ -118,15 +144,20 @@ export default function OrdersManagement() {
       const res = await fetch(`${apiBase}/api/orders/${id}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
+        credentials: "include",
         body: JSON.stringify({
           status,
+          note: statusNote || undefined,
           packageLength: packageLength ? Number(packageLength) : undefined,
           packageBreadth: packageBreadth ? Number(packageBreadth) : undefined,
           packageHeight: packageHeight ? Number(packageHeight) : undefined,
           packageWeight: packageWeight ? Number(packageWeight) : undefined,
         }),
       });
-      if (!res.ok) throw new Error("Failed to update order");
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to update order");
+      }
       return res.json();
     },
     onSuccess: () => {
@@ -259,11 +290,9 @@ export default function OrdersManagement() {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Statuses</SelectItem>
-              <SelectItem value="pending">Pending</SelectItem>
-              <SelectItem value="processing">Processing</SelectItem>
-              <SelectItem value="shipped">Shipped</SelectItem>
-              <SelectItem value="delivered">Delivered</SelectItem>
-              <SelectItem value="cancelled">Cancelled</SelectItem>
+              {ORDER_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>{getOrderStatusLabel(status)}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
 
@@ -366,7 +395,7 @@ export default function OrdersManagement() {
                     <td>{order.paymentMethod === 'cod' ? 'COD' : 'Prepaid'}</td>
                     <td>
                       <span className={`inline-block px-2 py-1 text-xs rounded-full ${getStatusBadgeClass(order.status)}`}>
-                        {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                        {getOrderStatusLabel(order.status)}
                       </span>
                     </td>
                     <td>₹{typeof order.totalAmount === 'number' ? order.totalAmount.toFixed(2) : '0.00'}</td>
@@ -473,8 +502,8 @@ export default function OrdersManagement() {
                   <h3 className="font-heading text-sm text-muted-foreground mb-2">Payment Information</h3>
                   <div className="border rounded-md p-4">
                     <p className="font-medium">Payment Method: {selectedOrder.paymentMethod}</p>
-                    <p>Payment Status: Paid</p>
-                    <p>Transaction ID: TXNID123456</p>
+                    <p>Payment Status: {detailedOrder?.paymentStatus}</p>
+                    <p>Transaction ID: {detailedOrder?.paymentId || '-'}</p>
                   </div>
                 </div>
 
@@ -503,43 +532,61 @@ export default function OrdersManagement() {
                     </div>
 
                     <div className="space-y-2">
-                      {/* Sample order items */}
-                      <div className="flex justify-between items-center">
-                        <div className="flex items-center gap-2">
-                          <div className="h-10 w-10 bg-muted rounded"></div>
-                          <div>
-                            <p>Kumkumadi Face Oil</p>
-                            <p className="text-xs text-muted-foreground">Qty: 1 × ₹1,995.00</p>
+                      {orderItems.map((item) => (
+                        <div key={String(item._id || item.id)} className="flex justify-between items-center">
+                          <div className="flex items-center gap-2">
+                            {item.product?.imageUrl ? (
+                              <img src={item.product.imageUrl} alt={item.product.name} className="h-10 w-10 rounded object-cover" />
+                            ) : (
+                              <div className="h-10 w-10 bg-muted rounded"></div>
+                            )}
+                            <div>
+                              <p>{item.product?.name || item.productId}{item.variantLabel ? ` – ${item.variantLabel}` : ''}{item.isFree ? ' (free gift)' : ''}</p>
+                              <p className="text-xs text-muted-foreground">Qty: {item.quantity} × ₹{item.price.toFixed(2)}</p>
+                            </div>
                           </div>
+                          <span>₹{(item.price * item.quantity).toFixed(2)}</span>
                         </div>
-                        <span>₹1,995.00</span>
-                      </div>
-
-                      <div className="flex justify-between items-center">
-                        <div className="flex items-center gap-2">
-                          <div className="h-10 w-10 bg-muted rounded"></div>
-                          <div>
-                            <p>Rose Jasmine Face Cleanser</p>
-                            <p className="text-xs text-muted-foreground">Qty: 1 × ₹1,250.00</p>
-                          </div>
-                        </div>
-                        <span>₹1,250.00</span>
-                      </div>
+                      ))}
                     </div>
 
                     <div className="border-t pt-2 space-y-1">
                       <div className="flex justify-between">
                         <span>Subtotal</span>
-                        <span>₹3,245.00</span>
+                        <span>₹{(detailedOrder?.subtotal ?? 0).toFixed(2)}</span>
                       </div>
+                      {(detailedOrder?.promotions || []).filter(promotion => promotion.discount > 0).map(promotion => (
+                        <div key={promotion.promotionId} className="flex justify-between">
+                          <span>{promotion.name}</span>
+                          <span>-₹{promotion.discount.toFixed(2)}</span>
+                        </div>
+                      ))}
+                      {!!detailedOrder && (detailedOrder.discountAmount ?? 0) - (detailedOrder.promotionDiscount || 0) > 0.005 && (
+                        <div className="flex justify-between">
+                          <span>Discount{detailedOrder.couponCode ? ` (${detailedOrder.couponCode})` : ''}</span>
+                          <span>-₹{((detailedOrder.discountAmount ?? 0) - (detailedOrder.promotionDiscount || 0)).toFixed(2)}</span>
+                        </div>
+                      )}
                       <div className="flex justify-between">
                         <span>Shipping</span>
-                        <span>₹0.00</span>
+                        <span>₹{(detailedOrder?.shippingAmount ?? 0).toFixed(2)}</span>
                       </div>
                       <div className="flex justify-between">
                         <span>Tax</span>
-                        <span>₹584.10</span>
+                        <span>₹{(detailedOrder?.taxAmount ?? 0).toFixed(2)}</span>
                       </div>
+                      {!!detailedOrder?.giftCardAmount && (
+                        <div className="flex justify-between">
+                          <span>Paid by gift card ({detailedOrder.giftCardCode})</span>
+                          <span>₹{detailedOrder.giftCardAmount.toFixed(2)}</span>
+                        </div>
+                      )}
+                      {!!detailedOrder?.codFee && (
+                        <div className="flex justify-between">
+                          <span>COD fee</span>
+                          <span>₹{detailedOrder.codFee.toFixed(2)}</span>
+                        </div>
+                      )}
                       <div className="flex justify-between font-bold">
                         <span>Total</span>
                         <span>₹{typeof selectedOrder.totalAmount === 'number' ? selectedOrder.totalAmount.toFixed(2) : '0.00'}</span>
@@ -549,6 +596,48 @@ export default function OrdersManagement() {
                 </div>
               </div>
 
+              {detailedOrder && orderDetails && (
+                <div>
+                  <h3 className="font-heading text-sm text-muted-foreground mb-2">Refunds</h3>
+                  <div className="border rounded-md p-4">
+                    <RefundPanel
+                      order={detailedOrder}
+                      items={orderItems}
+                      onRefunded={() => {
+                        queryClient.invalidateQueries({ queryKey: ['order-details', selectedOrder.id] });
+                        queryClient.invalidateQueries({ queryKey: ['orders'] });
+                      }}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <h3 className="font-heading text-sm text-muted-foreground mb-2">Status History</h3>
+                <div className="border rounded-md p-4">
+                  {detailedOrder?.statusHistory && detailedOrder.statusHistory.length > 0 ? (
+                    <ol className="relative border-l border-neutral-200 ml-2 space-y-4">
+                      {[...detailedOrder.statusHistory].reverse().map((entry, index) => (
+                        <li key={index} className="ml-4">
+                          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-primary"></span>
+                          <div className="flex items-center gap-2">
+                            <span className={`inline-block px-2 py-0.5 text-xs rounded-full ${getStatusBadgeClass(entry.status)}`}>
+                              {getOrderStatusLabel(entry.status)}
+                            </span>
+                            <span className="text-xs text-muted-foreground">
+                              {new Date(entry.changedAt).toLocaleString('en-US')} · by {entry.actor}
+                            </span>
+                          </div>
+                          {entry.note && <p className="text-sm mt-1">{entry.note}</p>}
+                        </li>
+                      ))}
+                    </ol>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No status changes recorded for this order.</p>
+                  )}
+                </div>
+              </div>
+
               <div className="flex justify-between items-center border-t pt-4">
                 {statusToUpdate === 'shipped' && (
                   <div className="grid grid-cols-4 gap-4 mb-4">
@@ -578,26 +667,38 @@ export default function OrdersManagement() {
                     />
                   </div>
                 )}
-                <Select value={statusToUpdate || selectedOrder?.status} onValueChange={handleStatusChange}>
+                <Select
+                  value={statusToUpdate}
+                  onValueChange={handleStatusChange}
+                  disabled={getManualNextOrderStatuses(selectedOrder.status).length === 0}
+                >
                   <SelectTrigger className="w-[180px]">
                     <SelectValue placeholder="Change Status" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="processing">Processing</SelectItem>
-                    <SelectItem value="shipped">Shipped</SelectItem>
-                    <SelectItem value="delivered">Delivered</SelectItem>
-                    <SelectItem value="cancelled">Cancelled</SelectItem>
+                    {getManualNextOrderStatuses(selectedOrder.status).map((status) => (
+                      <SelectItem key={status} value={status}>{getOrderStatusLabel(status)}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
 
+                <Input
+                  placeholder="Note (optional)"
+                  value={statusNote}
+                  onChange={(e) => setStatusNote(e.target.value)}
+                  className="max-w-[220px]"
+                />
+
                 <div className="space-x-2">
                   <Button variant="outline">Print Invoice</Button>
-                  <Button className="bg-primary hover:bg-primary-light text-white" onClick={handleUpdateOrder} disabled={updateOrderMutation.isPending}>
+                  <Button className="bg-primary hover:bg-primary-light text-white" onClick={handleUpdateOrder} disabled={updateOrderMutation.isPending || !statusToUpdate}>
                     {updateOrderMutation.isPending ? "Updating..." : "Update Order"}
                   </Button>
                 </div>
               </div>
+              {updateOrderMutation.isError && (
+                <p className="text-sm text-red-600">{(updateOrderMutation.error as Error).message}</p>
+              )}
             </div>
           )}
         </DialogContent>
@@ -50,14 +50,21 @@ import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
 import { Info, AlertTriangle, Pencil, Trash2 } from "lucide-react";
 import { apiRequest } from "../lib/queryClient";
+import CouponScopeFields, { type CouponScopeValues } from "@/components/coupons/CouponScopeFields";
 
-interface CouponFormValues {
+interface CouponFormValues extends CouponScopeValues {
   code: string;
   description: string;
   discountAmount: number;
   discountType: 'percentage' | 'fixed';
   minimumCartValue: number;
+  maxDiscountAmount: number;
   maxUses: number;
+  perUserLimit: number;
+  firstOrderOnly: boolean;
+  stacksWithSalePrice: boolean;
+  stacksWithCoupons: boolean;
+  isPublic: boolean;
   startDate: Date;
   endDate: Date;
   isActive: boolean;
@@ -115,7 +122,19 @@ export default function PromoCoupon() {
       discountAmount: 10,
       discountType: "percentage",
       minimumCartValue: 0,
+      maxDiscountAmount: 0,
+      productIds: [],
+      categoryIds: [],
+      collectionIds: [],
+      excludedProductIds: [],
+      excludedCategoryIds: [],
+      excludedCollectionIds: [],
       maxUses: -1,
+      perUserLimit: 0,
+      firstOrderOnly: false,
+      stacksWithSalePrice: true,
+      stacksWithCoupons: false,
+      isPublic: false,
       startDate: new Date(),
       endDate: new Date(new Date().setMonth(new Date().getMonth() + 1)),
       isActive: true,
@@ -134,7 +153,19 @@ export default function PromoCoupon() {
         discountAmount: editingCoupon.discountAmount,
         discountType: editingCoupon.discountType,
         minimumCartValue: editingCoupon.minimumCartValue,
+        maxDiscountAmount: editingCoupon.maxDiscountAmount ?? 0,
+        productIds: editingCoupon.productIds ?? [],
+        categoryIds: editingCoupon.categoryIds ?? [],
+        collectionIds: editingCoupon.collectionIds ?? [],
+        excludedProductIds: editingCoupon.excludedProductIds ?? [],
+        excludedCategoryIds: editingCoupon.excludedCategoryIds ?? [],
+        excludedCollectionIds: editingCoupon.excludedCollectionIds ?? [],
         maxUses: editingCoupon.maxUses,
+        perUserLimit: editingCoupon.perUserLimit ?? 0,
+        firstOrderOnly: editingCoupon.firstOrderOnly ?? false,
+        stacksWithSalePrice: editingCoupon.stacksWithSalePrice ?? true,
+        stacksWithCoupons: editingCoupon.stacksWithCoupons ?? false,
+        isPublic: editingCoupon.isPublic ?? false,
         startDate: new Date(editingCoupon.startDate),
         endDate: new Date(editingCoupon.endDate),
         isActive: editingCoupon.isActive,
@@ -301,11 +332,29 @@ export default function PromoCoupon() {
                               {coupon.discountAmount}{coupon.discountType === 'percentage' ? '%' : ' $'}
                               <span className="text-xs text-muted-foreground block">
                                 {coupon.discountType === 'percentage' ? 'Percentage' : 'Fixed Amount'}
+                                {coupon.discountType === 'percentage' && coupon.maxDiscountAmount > 0 && ` · up to $${coupon.maxDiscountAmount}`}
                               </span>
+                              {(coupon.productIds?.length > 0 || coupon.categoryIds?.length > 0 || coupon.collectionIds?.length > 0) && (
+                                <span className="text-xs text-muted-foreground block">Selected items only</span>
+                              )}
+                              {coupon.stacksWithSalePrice === false && (
+                                <span className="text-xs text-muted-foreground block">Full-price items only</span>
+                              )}
+                              {coupon.stacksWithCoupons && (
+                                <span className="text-xs text-muted-foreground block">Stacks with other coupons</span>
+                              )}
+                              {coupon.isPublic && (
+                                <span className="text-xs text-muted-foreground block">Suggested at checkout</span>
+                              )}
                             </TableCell>
                             <TableCell>${coupon.minimumCartValue.toFixed(2)}</TableCell>
                             <TableCell>
                               {coupon.usedCount}/{coupon.maxUses === -1 ? '∞' : coupon.maxUses}
+                              {(coupon.perUserLimit > 0 || coupon.firstOrderOnly) && (
+                                <span className="text-xs text-muted-foreground block">
+                                  {coupon.firstOrderOnly ? 'First order only' : `${coupon.perUserLimit} per customer`}
+                                </span>
+                              )}
                             </TableCell>
                             <TableCell>
                               <div className="text-sm">
@@ -470,6 +519,37 @@ export default function PromoCoupon() {
                       )}
                     />
 
+                    {form.watch("discountType") === "percentage" && (
+                      <FormField
+                        control={form.control}
+                        name="maxDiscountAmount"
+                        rules={{ 
+                          min: {
+                            value: 0,
+                            message: "Maximum discount cannot be negative"
+                          }
+                        }}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Maximum Discount</FormLabel>
+                            <FormControl>
+                              <Input
+                                {...field}
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                onChange={(e) => field.onChange(Number(e.target.value))}
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Cap on the discount this percentage coupon can give (0 for no cap).
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
                     <FormField
                       control={form.control}
                       name="minimumCartValue"
@@ -526,6 +606,33 @@ export default function PromoCoupon() {
                       )}
                     />
 
+                    <FormField
+                      control={form.control}
+                      name="perUserLimit"
+                      rules={{ 
+                        validate: (value) => 
+                          value >= 0 || "Per-customer limit cannot be negative"
+                      }}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Uses Per Customer</FormLabel>
+                          <FormControl>
+                            <Input
+                              {...field}
+                              type="number"
+                              step="1"
+                              min="0"
+                              onChange={(e) => field.onChange(Number(e.target.value))}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            How many times one customer can use this coupon. Set to 0 for no limit.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
                     <FormField
                       control={form.control}
                       name="startDate"
@@ -582,6 +689,94 @@ export default function PromoCoupon() {
                       )}
                     />
 
+                    <FormField
+                      control={form.control}
+                      name="firstOrderOnly"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between space-y-0 rounded-md border p-4">
+                          <div className="space-y-0.5">
+                            <FormLabel className="text-base">First Order Only</FormLabel>
+                            <FormDescription>
+                              Only customers without a previous order can use this coupon.
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="stacksWithSalePrice"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between space-y-0 rounded-md border p-4">
+                          <div className="space-y-0.5">
+                            <FormLabel className="text-base">Applies to Sale Items</FormLabel>
+                            <FormDescription>
+                              When off, items already selling below their list price are left out of the discount.
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="stacksWithCoupons"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between space-y-0 rounded-md border p-4">
+                          <div className="space-y-0.5">
+                            <FormLabel className="text-base">Stacks with Other Coupons</FormLabel>
+                            <FormDescription>
+                              Allow this coupon to be used together with other stackable coupons on the same order.
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="isPublic"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between space-y-0 rounded-md border p-4">
+                          <div className="space-y-0.5">
+                            <FormLabel className="text-base">Suggest at Checkout</FormLabel>
+                            <FormDescription>
+                              Show this coupon to shoppers as an available offer, and suggest it when it is the best one.
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
                     <FormField
                       control={form.control}
                       name="isActive"
@@ -605,6 +800,22 @@ export default function PromoCoupon() {
                     />
                   </div>
 
+                  <CouponScopeFields
+                    value={{
+                      productIds: form.watch("productIds"),
+                      categoryIds: form.watch("categoryIds"),
+                      collectionIds: form.watch("collectionIds"),
+                      excludedProductIds: form.watch("excludedProductIds"),
+                      excludedCategoryIds: form.watch("excludedCategoryIds"),
+                      excludedCollectionIds: form.watch("excludedCollectionIds"),
+                    }}
+                    onChange={(scope) => {
+                      (Object.keys(scope) as (keyof CouponScopeValues)[]).forEach((key) =>
+                        form.setValue(key, scope[key], { shouldDirty: true })
+                      );
+                    }}
+                  />
+
                   <div className="flex justify-end space-x-4 pt-4">
                     {editingCoupon && (
                       <Button 
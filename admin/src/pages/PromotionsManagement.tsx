@@ -0,0 +1,783 @@
+import React, { useState, useEffect } from "react";
+import { SubmitHandler, useFieldArray, useForm } from "react-hook-form";
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { Info, AlertTriangle, Pencil, Trash2, Plus } from "lucide-react";
+import { apiRequest } from "../lib/queryClient";
+import { OptionChecklist, useCatalogOptions } from "@/components/coupons/CouponScopeFields";
+
+type PromotionType = 'buy_x_get_y' | 'spend_tier' | 'bundle' | 'free_shipping';
+
+interface PromotionFormValues {
+  name: string;
+  description: string;
+  type: PromotionType;
+  isActive: boolean;
+  startDate: Date | null;
+  endDate: Date | null;
+  priority: number;
+  exclusive: boolean;
+  combinesWithCoupons: boolean;
+  productIds: string[];
+  categoryIds: string[];
+  collectionIds: string[];
+  buyQuantity: number;
+  getQuantity: number;
+  getDiscountPercent: number;
+  tiers: { minSubtotal: number; discountPercent: number }[];
+  bundleItems: { productId: string; quantity: number }[];
+  bundlePrice: number;
+  minSubtotal: number;
+}
+
+interface Promotion extends Omit<PromotionFormValues, 'startDate' | 'endDate'> {
+  _id: string;
+  startDate?: string | null;
+  endDate?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const TYPE_LABELS: Record<PromotionType, string> = {
+  buy_x_get_y: "Buy X Get Y",
+  spend_tier: "Spend Tiers",
+  bundle: "Fixed-Price Bundle",
+  free_shipping: "Free Shipping",
+};
+
+const emptyPromotion: PromotionFormValues = {
+  name: "",
+  description: "",
+  type: "buy_x_get_y",
+  isActive: true,
+  startDate: null,
+  endDate: null,
+  priority: 0,
+  exclusive: false,
+  combinesWithCoupons: true,
+  productIds: [],
+  categoryIds: [],
+  collectionIds: [],
+  buyQuantity: 1,
+  getQuantity: 1,
+  getDiscountPercent: 100,
+  tiers: [{ minSubtotal: 1000, discountPercent: 5 }],
+  bundleItems: [],
+  bundlePrice: 0,
+  minSubtotal: 0,
+};
+
+const getPromotionStatusBadge = (promotion: Promotion) => {
+  const now = new Date();
+  if (promotion.endDate && now > new Date(promotion.endDate)) {
+    return { className: "bg-destructive/20 text-destructive", text: "Ended" };
+  }
+  if (promotion.startDate && now < new Date(promotion.startDate)) {
+    return { className: "bg-yellow-500/20 text-yellow-500", text: "Scheduled" };
+  }
+  if (!promotion.isActive) {
+    return { className: "bg-gray-500/20 text-gray-500", text: "Inactive" };
+  }
+  return { className: "", text: "Running" };
+};
+
+const describePromotion = (promotion: Promotion) => {
+  switch (promotion.type) {
+    case "buy_x_get_y":
+      return `Buy ${promotion.buyQuantity}, get ${promotion.getQuantity} ${promotion.getDiscountPercent >= 100 ? "free" : `${promotion.getDiscountPercent}% off`}`;
+    case "spend_tier":
+      return promotion.tiers.map(tier => `₹${tier.minSubtotal}+ → ${tier.discountPercent}%`).join(", ");
+    case "bundle":
+      return `${promotion.bundleItems.length} products for ₹${promotion.bundlePrice}`;
+    case "free_shipping":
+      return `Free shipping from ₹${promotion.minSubtotal}`;
+    default:
+      return "";
+  }
+};
+
+export default function PromotionsManagement() {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState<boolean>(false);
+  const [promotionToDelete, setPromotionToDelete] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<string>("list");
+  const { products, categories, collections } = useCatalogOptions();
+
+  const form = useForm<PromotionFormValues>({ defaultValues: emptyPromotion });
+  const tiers = useFieldArray({ control: form.control, name: "tiers" });
+  const bundleItems = useFieldArray({ control: form.control, name: "bundleItems" });
+  const type = form.watch("type");
+
+  useEffect(() => {
+    fetchPromotions();
+  }, []);
+
+  useEffect(() => {
+    if (editingPromotion) {
+      form.reset({
+        ...emptyPromotion,
+        ...editingPromotion,
+        startDate: editingPromotion.startDate ? new Date(editingPromotion.startDate) : null,
+        endDate: editingPromotion.endDate ? new Date(editingPromotion.endDate) : null,
+      });
+      setActiveTab("create");
+    }
+  }, [editingPromotion, form]);
+
+  const fetchPromotions = async () => {
+    setLoading(true);
+    try {
+      const response = await apiRequest('GET', '/api/admin/promotions');
+      const data = await response.json();
+      setPromotions(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error("Error fetching promotions:", error);
+      toast.error("Failed to fetch promotions");
+      setPromotions([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onSubmit: SubmitHandler<PromotionFormValues> = async (data) => {
+    try {
+      if (editingPromotion) {
+        await apiRequest('PUT', `/api/admin/promotions/${editingPromotion._id}`, data);
+        toast.success("Promotion updated successfully");
+      } else {
+        await apiRequest('POST', '/api/admin/promotions', data);
+        toast.success("Promotion created successfully");
+      }
+
+      form.reset(emptyPromotion);
+      setEditingPromotion(null);
+      setActiveTab("list");
+      fetchPromotions();
+    } catch (error: any) {
+      console.error("Error saving promotion:", error);
+      const message = String(error?.message || "").replace(/^\d+:\s*/, "");
+      let detail = "Failed to save promotion";
+      try {
+        detail = JSON.parse(message).message || detail;
+      } catch {}
+      toast.error(detail);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!promotionToDelete) return;
+
+    try {
+      await apiRequest('DELETE', `/api/admin/promotions/${promotionToDelete}`);
+      toast.success("Promotion deleted successfully");
+      fetchPromotions();
+      setDeleteDialogOpen(false);
+      setPromotionToDelete(null);
+    } catch (error) {
+      console.error("Error deleting promotion:", error);
+      toast.error("Failed to delete promotion");
+    }
+  };
+
+  const confirmDelete = (id: string) => {
+    setPromotionToDelete(id);
+    setDeleteDialogOpen(true);
+  };
+
+  const cancelEdit = () => {
+    setEditingPromotion(null);
+    form.reset(emptyPromotion);
+  };
+
+  const numberInput = (field: { value: number; onChange: (value: number) => void }, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+    <Input
+      {...props}
+      type="number"
+      value={field.value}
+      onChange={(e) => field.onChange(Number(e.target.value))}
+    />
+  );
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold">Promotions</h1>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList className="w-full mb-6">
+          <TabsTrigger value="list" className="flex-1">
+            View Promotions
+          </TabsTrigger>
+          <TabsTrigger value="create" className="flex-1">
+            {editingPromotion ? "Edit Promotion" : "Create Promotion"}
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="list">
+          <Card>
+            <CardHeader>
+              <CardTitle>All Promotions</CardTitle>
+              <CardDescription>
+                Automatic offers applied to the cart without a code, highest priority first.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="flex justify-center my-8">
+                  <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+                </div>
+              ) : promotions.length === 0 ? (
+                <div className="flex flex-col items-center justify-center p-8 text-center">
+                  <Info className="h-12 w-12 text-muted-foreground mb-2" />
+                  <h3 className="font-semibold text-lg">No promotions found</h3>
+                  <p className="text-muted-foreground">
+                    Click the "Create Promotion" tab to add your first promotion.
+                  </p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Offer</TableHead>
+                        <TableHead>Priority</TableHead>
+                        <TableHead>Schedule</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {promotions.map((promotion) => {
+                        const statusBadge = getPromotionStatusBadge(promotion);
+
+                        return (
+                          <TableRow key={promotion._id}>
+                            <TableCell>
+                              <Badge variant={statusBadge.text === "Running" ? "default" : "secondary"} className={statusBadge.className}>
+                                {statusBadge.text}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="font-medium">
+                              {promotion.name}
+                              <span className="text-xs text-muted-foreground block">{TYPE_LABELS[promotion.type]}</span>
+                            </TableCell>
+                            <TableCell>
+                              {describePromotion(promotion)}
+                              {(promotion.exclusive || !promotion.combinesWithCoupons) && (
+                                <span className="text-xs text-muted-foreground block">
+                                  {[promotion.exclusive && "Exclusive", !promotion.combinesWithCoupons && "No coupons"].filter(Boolean).join(" · ")}
+                                </span>
+                              )}
+                            </TableCell>
+                            <TableCell>{promotion.priority}</TableCell>
+                            <TableCell>
+                              <div className="text-sm">
+                                <div>From: {promotion.startDate ? new Date(promotion.startDate).toLocaleString() : "Now"}</div>
+                                <div>To: {promotion.endDate ? new Date(promotion.endDate).toLocaleString() : "No end"}</div>
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex space-x-2">
+                                <Button variant="outline" size="icon" onClick={() => setEditingPromotion(promotion)}>
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="icon"
+                                  className="text-destructive"
+                                  onClick={() => confirmDelete(promotion._id)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="create">
+          <Card>
+            <CardHeader>
+              <CardTitle>{editingPromotion ? "Edit Promotion" : "Create New Promotion"}</CardTitle>
+              <CardDescription>
+                {editingPromotion
+                  ? `Updating promotion: ${editingPromotion.name}`
+                  : "Set up an offer that applies automatically in the cart and at checkout."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <FormField
+                      control={form.control}
+                      name="name"
+                      rules={{ required: "Name is required" }}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Name*</FormLabel>
+                          <FormControl>
+                            <Input {...field} placeholder="Buy 2 Get 1 Free" />
+                          </FormControl>
+                          <FormDescription>
+                            Shown to customers in the cart and order summary.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="description"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Description</FormLabel>
+                          <FormControl>
+                            <Textarea {...field} placeholder="On all serums this week" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="type"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Promotion Type*</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select promotion type" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {(Object.keys(TYPE_LABELS) as PromotionType[]).map(key => (
+                                <SelectItem key={key} value={key}>{TYPE_LABELS[key]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="priority"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Priority</FormLabel>
+                          <FormControl>{numberInput(field, { step: "1" })}</FormControl>
+                          <FormDescription>
+                            Higher priority promotions are applied first.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="startDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Starts</FormLabel>
+                          <FormControl>
+                            <DatePicker
+                              selected={field.value}
+                              onChange={(date: Date | null) => field.onChange(date)}
+                              showTimeSelect
+                              isClearable
+                              dateFormat="MMMM d, yyyy h:mm aa"
+                              placeholderText="Immediately"
+                              className="w-full"
+                              wrapperClassName="w-full"
+                              customInput={<Input />}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="endDate"
+                      rules={{
+                        validate: (value, formValues) =>
+                          !value || !formValues.startDate || value > formValues.startDate ||
+                          "End date must be after start date"
+                      }}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Ends</FormLabel>
+                          <FormControl>
+                            <DatePicker
+                              selected={field.value}
+                              onChange={(date: Date | null) => field.onChange(date)}
+                              showTimeSelect
+                              isClearable
+                              dateFormat="MMMM d, yyyy h:mm aa"
+                              placeholderText="No end date"
+                              className="w-full"
+                              wrapperClassName="w-full"
+                              customInput={<Input />}
+                              minDate={form.watch("startDate") || undefined}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  {type === "buy_x_get_y" && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                      <FormField
+                        control={form.control}
+                        name="buyQuantity"
+                        rules={{ min: { value: 1, message: "Must be at least 1" } }}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Buy Quantity*</FormLabel>
+                            <FormControl>{numberInput(field, { step: "1", min: 1 })}</FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="getQuantity"
+                        rules={{ min: { value: 1, message: "Must be at least 1" } }}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Get Quantity*</FormLabel>
+                            <FormControl>{numberInput(field, { step: "1", min: 1 })}</FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="getDiscountPercent"
+                        rules={{ min: { value: 1, message: "Must be at least 1%" }, max: { value: 100, message: "Cannot exceed 100%" } }}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Discount on Free Items (%)</FormLabel>
+                            <FormControl>{numberInput(field, { step: "1", min: 1, max: 100 })}</FormControl>
+                            <FormDescription>
+                              100% makes them free. The cheapest qualifying items are discounted.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  )}
+
+                  {type === "spend_tier" && (
+                    <div className="space-y-3">
+                      <h3 className="font-medium">Spend Tiers</h3>
+                      <p className="text-sm text-muted-foreground">
+                        The highest tier reached by the qualifying subtotal applies.
+                      </p>
+                      {tiers.fields.map((tier, index) => (
+                        <div key={tier.id} className="flex items-end gap-4">
+                          <FormField
+                            control={form.control}
+                            name={`tiers.${index}.minSubtotal`}
+                            render={({ field }) => (
+                              <FormItem className="flex-1">
+                                <FormLabel>Spend at least (₹)</FormLabel>
+                                <FormControl>{numberInput(field, { step: "0.01", min: 0 })}</FormControl>
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name={`tiers.${index}.discountPercent`}
+                            render={({ field }) => (
+                              <FormItem className="flex-1">
+                                <FormLabel>Discount (%)</FormLabel>
+                                <FormControl>{numberInput(field, { step: "1", min: 0, max: 100 })}</FormControl>
+                              </FormItem>
+                            )}
+                          />
+                          <Button type="button" variant="outline" size="icon" className="text-destructive" onClick={() => tiers.remove(index)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      <Button type="button" variant="outline" onClick={() => tiers.append({ minSubtotal: 0, discountPercent: 0 })}>
+                        <Plus className="h-4 w-4 mr-2" /> Add Tier
+                      </Button>
+                    </div>
+                  )}
+
+                  {type === "bundle" && (
+                    <div className="space-y-3">
+                      <h3 className="font-medium">Bundle Products</h3>
+                      <p className="text-sm text-muted-foreground">
+                        Every complete set of these products in the cart costs the bundle price.
+                      </p>
+                      {bundleItems.fields.map((item, index) => (
+                        <div key={item.id} className="flex items-end gap-4">
+                          <FormField
+                            control={form.control}
+                            name={`bundleItems.${index}.productId`}
+                            rules={{ required: "Choose a product" }}
+                            render={({ field }) => (
+                              <FormItem className="flex-1">
+                                <FormLabel>Product</FormLabel>
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue placeholder="Select product" />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {products.map(product => (
+                                      <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name={`bundleItems.${index}.quantity`}
+                            render={({ field }) => (
+                              <FormItem className="w-32">
+                                <FormLabel>Quantity</FormLabel>
+                                <FormControl>{numberInput(field, { step: "1", min: 1 })}</FormControl>
+                              </FormItem>
+                            )}
+                          />
+                          <Button type="button" variant="outline" size="icon" className="text-destructive" onClick={() => bundleItems.remove(index)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      <Button type="button" variant="outline" onClick={() => bundleItems.append({ productId: "", quantity: 1 })}>
+                        <Plus className="h-4 w-4 mr-2" /> Add Product
+                      </Button>
+                      <FormField
+                        control={form.control}
+                        name="bundlePrice"
+                        rules={{ min: { value: 0, message: "Price cannot be negative" } }}
+                        render={({ field }) => (
+                          <FormItem className="max-w-xs">
+                            <FormLabel>Bundle Price (₹)*</FormLabel>
+                            <FormControl>{numberInput(field, { step: "0.01", min: 0 })}</FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  )}
+
+                  {type === "free_shipping" && (
+                    <FormField
+                      control={form.control}
+                      name="minSubtotal"
+                      rules={{ min: { value: 0, message: "Cannot be negative" } }}
+                      render={({ field }) => (
+                        <FormItem className="max-w-xs">
+                          <FormLabel>Minimum Subtotal (₹)</FormLabel>
+                          <FormControl>{numberInput(field, { step: "0.01", min: 0 })}</FormControl>
+                          <FormDescription>
+                            Qualifying subtotal needed for free delivery (0 for any order).
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  {type !== "bundle" && (
+                    <div>
+                      <h3 className="font-medium">Qualifying Items</h3>
+                      <p className="text-sm text-muted-foreground mb-3">
+                        Leave all three empty to count every item in the cart.
+                      </p>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <OptionChecklist
+                          label="Products"
+                          options={products}
+                          selected={form.watch("productIds")}
+                          onChange={(ids) => form.setValue("productIds", ids, { shouldDirty: true })}
+                        />
+                        <OptionChecklist
+                          label="Categories"
+                          options={categories}
+                          selected={form.watch("categoryIds")}
+                          onChange={(ids) => form.setValue("categoryIds", ids, { shouldDirty: true })}
+                        />
+                        <OptionChecklist
+                          label="Collections"
+                          options={collections}
+                          selected={form.watch("collectionIds")}
+                          onChange={(ids) => form.setValue("collectionIds", ids, { shouldDirty: true })}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <FormField
+                      control={form.control}
+                      name="exclusive"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between space-y-0 rounded-md border p-4">
+                          <div className="space-y-0.5">
+                            <FormLabel className="text-base">Exclusive</FormLabel>
+                            <FormDescription>
+                              Only applies when no other promotion has, and stops any after it.
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch checked={field.value} onCheckedChange={field.onChange} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="combinesWithCoupons"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between space-y-0 rounded-md border p-4">
+                          <div className="space-y-0.5">
+                            <FormLabel className="text-base">Allow Coupons</FormLabel>
+                            <FormDescription>
+                              Customers can add a coupon code on top of this offer.
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch checked={field.value} onCheckedChange={field.onChange} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="isActive"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between space-y-0 rounded-md border p-4">
+                          <div className="space-y-0.5">
+                            <FormLabel className="text-base">Promotion Status</FormLabel>
+                            <FormDescription>
+                              Enable or disable this promotion.
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch checked={field.value} onCheckedChange={field.onChange} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <div className="flex justify-end space-x-4 pt-4">
+                    {editingPromotion && (
+                      <Button type="button" variant="outline" onClick={cancelEdit}>
+                        Cancel Edit
+                      </Button>
+                    )}
+                    <Button type="submit">
+                      {editingPromotion ? "Update Promotion" : "Create Promotion"}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              Confirm Deletion
+            </DialogTitle>
+          </DialogHeader>
+          <p>Are you sure you want to delete this promotion? This action cannot be undone.</p>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancel</Button>
+            </DialogClose>
+            <Button variant="destructive" onClick={handleDelete}>
+              Delete Promotion
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+interface SearchQueryCount {
+  query: string;
+  searches: number;
+  lastSearchedAt: string;
+}
+
+interface ZeroResultSearchReport {
+  days: number;
+  totalSearches: number;
+  zeroResultSearches: number;
+  zeroResultRate: number;
+  queries: SearchQueryCount[];
+}
+
+export default function SearchInsights() {
+  const [days, setDays] = useState("30");
+
+  const { data, isLoading, isError } = useQuery<ZeroResultSearchReport>({
+    queryKey: ['/api/admin/search/zero-results', days],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/admin/search/zero-results?days=${days}`);
+      return res.json();
+    },
+  });
+
+  const { data: popular } = useQuery<{ searches: SearchQueryCount[] }>({
+    queryKey: ['/api/search/popular', 'admin'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', '/api/search/popular?limit=20');
+      return res.json();
+    },
+  });
+
+  const stats = [
+    { label: 'Searches', value: data?.totalSearches ?? 0 },
+    { label: 'With no results', value: data?.zeroResultSearches ?? 0 },
+    { label: 'Zero-result rate', value: `${data?.zeroResultRate ?? 0}%` },
+  ];
+  const queries = data?.queries ?? [];
+  const popularSearches = popular?.searches ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-end">
+        <div>
+          <h1 className="text-2xl font-heading text-primary mb-1">Search Insights</h1>
+          <p className="text-muted-foreground">What shoppers search for, and the searches that found no products</p>
+        </div>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Period" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">Last 7 days</SelectItem>
+            <SelectItem value="30">Last 30 days</SelectItem>
+            <SelectItem value="90">Last 90 days</SelectItem>
+            <SelectItem value="180">Last 180 days</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {stats.map((stat) => (
+          <Card key={stat.label}>
+            <CardHeader className="py-4">
+              <CardTitle className="text-lg">{stat.label}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold">{isLoading ? "..." : stat.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 border rounded-md">
+          <div className="p-4 border-b">
+            <h2 className="font-medium">Searches with no results</h2>
+            <p className="text-sm text-muted-foreground">Products to add, or names and descriptions to reword</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full data-table">
+              <thead>
+                <tr>
+                  <th>Search</th>
+                  <th>Times searched</th>
+                  <th>Last searched</th>
+                </tr>
+              </thead>
+              <tbody>
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={3} className="text-center py-6 text-muted-foreground">Loading...</td>
+                  </tr>
+                ) : isError ? (
+                  <tr>
+                    <td colSpan={3} className="text-center py-6 text-red-600">Failed to load the search report</td>
+                  </tr>
+                ) : queries.length > 0 ? (
+                  queries.map((entry) => (
+                    <tr key={entry.query}>
+                      <td className="font-medium">{entry.query}</td>
+                      <td>{entry.searches}</td>
+                      <td>{new Date(entry.lastSearchedAt).toLocaleString('en-US')}</td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={3} className="text-center py-6 text-muted-foreground">Every search in this period found products</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="border rounded-md">
+          <div className="p-4 border-b">
+            <h2 className="font-medium">Popular searches</h2>
+            <p className="text-sm text-muted-foreground">Last 30 days, shown to shoppers in the search bar</p>
+          </div>
+          <ul className="divide-y">
+            {popularSearches.length > 0 ? (
+              popularSearches.map((entry) => (
+                <li key={entry.query} className="flex justify-between px-4 py-2 text-sm">
+                  <span>{entry.query}</span>
+                  <span className="text-muted-foreground">{entry.searches}</span>
+                </li>
+              ))
+            ) : (
+              <li className="px-4 py-6 text-center text-sm text-muted-foreground">No searches yet</li>
+            )}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,11 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch as UiSwitch } from '@/components/ui/switch';
 
+// Comma, space or newline separated pincodes
+const parsePincodes = (value: string) => value.split(/[\s,]+/).map(p => p.trim()).filter(Boolean);
+// Hours between recovery emails, kept in sending order
+const parseDelays = (value: string) => parsePincodes(value).map(Number).filter(h => h > 0).sort((a, b) => a - b);
+
 export default function SettingsManagement() {
   const { toast } = useToast();
   const { data: settings, isLoading } = useQuery({
@@ -22,11 +27,22 @@ export default function SettingsManagement() {
   const [maintenanceMode, setMaintenanceMode] = useState(false);
   const [razorpayKeyId, setRazorpayKeyId] = useState('');
   const [razorpayKeySecret, setRazorpayKeySecret] = useState('');
+  const [razorpayWebhookSecret, setRazorpayWebhookSecret] = useState('');
   const [shiprocketApiKey, setShiprocketApiKey] = useState('');
   const [shiprocketApiSecret, setShiprocketApiSecret] = useState('');
   const [shiprocketSourcePincode, setShiprocketSourcePincode] = useState('');
   const [shiprocketPickupLocation, setShiprocketPickupLocation] = useState('');
   const [shiprocketChannelId, setShiprocketChannelId] = useState<number>(0);
+  const [codEnabled, setCodEnabled] = useState(true);
+  const [codMaxOrderValue, setCodMaxOrderValue] = useState<number>(0);
+  const [codFee, setCodFee] = useState<number>(0);
+  const [codCheckServiceability, setCodCheckServiceability] = useState(true);
+  const [codAllowedPincodes, setCodAllowedPincodes] = useState('');
+  const [codBlockedPincodes, setCodBlockedPincodes] = useState('');
+  const [abandonedCartEnabled, setAbandonedCartEnabled] = useState(false);
+  const [abandonedCartEmailDelays, setAbandonedCartEmailDelays] = useState('');
+  const [abandonedCartCouponPercent, setAbandonedCartCouponPercent] = useState<number>(0);
+  const [abandonedCartCouponValidDays, setAbandonedCartCouponValidDays] = useState<number>(7);
 
   useEffect(() => {
     if (settings) {
@@ -35,11 +51,22 @@ export default function SettingsManagement() {
       setMaintenanceMode(!!settings.maintenanceMode);
       setRazorpayKeyId(settings.razorpayKeyId || '');
       setRazorpayKeySecret(settings.razorpayKeySecret || '');
+      setRazorpayWebhookSecret(settings.razorpayWebhookSecret || '');
       setShiprocketApiKey(settings.shiprocketApiKey || '');
       setShiprocketApiSecret(settings.shiprocketApiSecret || '');
       setShiprocketSourcePincode(settings.shiprocketSourcePincode || '');
       setShiprocketPickupLocation(settings.shiprocketPickupLocation || '');
       setShiprocketChannelId(settings.shiprocketChannelId || 0);
+      setCodEnabled(settings.codEnabled !== false);
+      setCodMaxOrderValue(settings.codMaxOrderValue || 0);
+      setCodFee(settings.codFee || 0);
+      setCodCheckServiceability(settings.codCheckServiceability !== false);
+      setCodAllowedPincodes((settings.codAllowedPincodes || []).join(', '));
+      setCodBlockedPincodes((settings.codBlockedPincodes || []).join(', '));
+      setAbandonedCartEnabled(!!settings.abandonedCartEnabled);
+      setAbandonedCartEmailDelays((settings.abandonedCartEmailDelays || [1, 24, 72]).join(', '));
+      setAbandonedCartCouponPercent(settings.abandonedCartCouponPercent || 0);
+      setAbandonedCartCouponValidDays(settings.abandonedCartCouponValidDays || 7);
     }
   }, [settings]);
 
@@ -51,11 +78,22 @@ export default function SettingsManagement() {
         maintenanceMode, 
         razorpayKeyId, 
         razorpayKeySecret, 
+        razorpayWebhookSecret, 
         shiprocketApiKey, 
         shiprocketApiSecret, 
         shiprocketSourcePincode, 
         shiprocketPickupLocation, 
-        shiprocketChannelId 
+        shiprocketChannelId,
+        codEnabled,
+        codMaxOrderValue,
+        codFee,
+        codCheckServiceability,
+        codAllowedPincodes: parsePincodes(codAllowedPincodes),
+        codBlockedPincodes: parsePincodes(codBlockedPincodes),
+        abandonedCartEnabled,
+        abandonedCartEmailDelays: parseDelays(abandonedCartEmailDelays),
+        abandonedCartCouponPercent,
+        abandonedCartCouponValidDays
       };
       const res = await apiRequest('PUT', '/api/admin/settings', payload);
       return res.json();
@@ -111,6 +149,15 @@ export default function SettingsManagement() {
             onChange={e => setRazorpayKeySecret(e.target.value)}
           />
         </div>
+        <div>
+          <Label htmlFor="razorpayWebhookSecret">Razorpay Webhook Secret</Label>
+          <Input
+            id="razorpayWebhookSecret"
+            type="password"
+            value={razorpayWebhookSecret}
+            onChange={e => setRazorpayWebhookSecret(e.target.value)}
+          />
+        </div>
         <div>
           <Label htmlFor="shiprocketApiKey">Shiprocket API Key</Label>
           <Input
@@ -153,6 +200,95 @@ export default function SettingsManagement() {
             onChange={e => setShiprocketChannelId(Number(e.target.value))}
           />
         </div>
+        <div className="flex items-center space-x-2">
+          <UiSwitch
+            id="codEnabled"
+            checked={codEnabled}
+            onCheckedChange={() => setCodEnabled(!codEnabled)}
+          />
+          <Label htmlFor="codEnabled">Cash on Delivery</Label>
+        </div>
+        <div>
+          <Label htmlFor="codMaxOrderValue">COD Maximum Order Value (0 = no limit)</Label>
+          <Input
+            id="codMaxOrderValue"
+            type="number"
+            min={0}
+            value={codMaxOrderValue}
+            onChange={e => setCodMaxOrderValue(Number(e.target.value))}
+          />
+        </div>
+        <div>
+          <Label htmlFor="codFee">COD Fee</Label>
+          <Input
+            id="codFee"
+            type="number"
+            min={0}
+            value={codFee}
+            onChange={e => setCodFee(Number(e.target.value))}
+          />
+        </div>
+        <div className="flex items-center space-x-2">
+          <UiSwitch
+            id="codCheckServiceability"
+            checked={codCheckServiceability}
+            onCheckedChange={() => setCodCheckServiceability(!codCheckServiceability)}
+          />
+          <Label htmlFor="codCheckServiceability">Only offer COD where a Shiprocket courier collects cash</Label>
+        </div>
+        <div>
+          <Label htmlFor="codAllowedPincodes">COD Pincodes (leave empty for all)</Label>
+          <Input
+            id="codAllowedPincodes"
+            value={codAllowedPincodes}
+            onChange={e => setCodAllowedPincodes(e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="codBlockedPincodes">COD Blocked Pincodes</Label>
+          <Input
+            id="codBlockedPincodes"
+            value={codBlockedPincodes}
+            onChange={e => setCodBlockedPincodes(e.target.value)}
+          />
+        </div>
+        <div className="flex items-center space-x-2">
+          <UiSwitch
+            id="abandonedCartEnabled"
+            checked={abandonedCartEnabled}
+            onCheckedChange={() => setAbandonedCartEnabled(!abandonedCartEnabled)}
+          />
+          <Label htmlFor="abandonedCartEnabled">Abandoned Cart Emails</Label>
+        </div>
+        <div>
+          <Label htmlFor="abandonedCartEmailDelays">Abandoned Cart Email Delays (hours idle, comma separated)</Label>
+          <Input
+            id="abandonedCartEmailDelays"
+            value={abandonedCartEmailDelays}
+            onChange={e => setAbandonedCartEmailDelays(e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="abandonedCartCouponPercent">Recovery Coupon % in Last Email (0 = no coupon)</Label>
+          <Input
+            id="abandonedCartCouponPercent"
+            type="number"
+            min={0}
+            max={100}
+            value={abandonedCartCouponPercent}
+            onChange={e => setAbandonedCartCouponPercent(Number(e.target.value))}
+          />
+        </div>
+        <div>
+          <Label htmlFor="abandonedCartCouponValidDays">Recovery Coupon Validity (days)</Label>
+          <Input
+            id="abandonedCartCouponValidDays"
+            type="number"
+            min={1}
+            value={abandonedCartCouponValidDays}
+            onChange={e => setAbandonedCartCouponValidDays(Number(e.target.value))}
+          />
+        </div>
         <div className="flex items-center space-x-2">
           <UiSwitch
             id="maintenanceMode"
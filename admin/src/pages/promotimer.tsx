@@ -1,19 +1,67 @@
 import { useEffect, useState } from "react";
 import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
+import { OptionChecklist, useCatalogOptions } from "@/components/coupons/CouponScopeFields";
 
 interface PromoTimer {
   _id: string;
-  productId: string;
+  name?: string;
+  productId?: string;
+  productIds: string[];
+  startTime?: string;
   endTime: string;
   enabled: boolean;
+  discountType?: "percentage" | "price";
+  discountValue: number;
+  perCustomerLimit: number;
+  stockCap: number;
+  soldUnits?: Record<string, number>;
+}
+
+type TimerForm = Partial<Omit<PromoTimer, "discountType">> & { discountType?: PromoTimer["discountType"] | "" };
+
+const emptyForm: TimerForm = {
+  enabled: true,
+  productIds: [],
+  discountType: "",
+  discountValue: 0,
+  perCustomerLimit: 0,
+  stockCap: 0,
+};
+
+// datetime-local inputs work in local time without a zone suffix
+function toLocalInput(value?: string) {
+  if (!value) return "";
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+// The server's JSON error message from an apiRequest failure
+function getErrorMessage(error: unknown, fallback: string) {
+  const text = String((error as Error)?.message || "").replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(text).message || fallback;
+  } catch {
+    return text || fallback;
+  }
+}
+
+function getTimerStatus(timer: PromoTimer) {
+  const now = Date.now();
+  if (!timer.enabled) return "Disabled";
+  if (new Date(timer.endTime).getTime() <= now) return "Ended";
+  if (timer.startTime && new Date(timer.startTime).getTime() > now) return "Scheduled";
+  return "Running";
 }
 
 export default function PromoTimerPage(): JSX.Element {
   const [timers, setTimers] = useState<PromoTimer[]>([]);
   const [loading, setLoading] = useState(true);
-  const [form, setForm] = useState<Partial<PromoTimer>>({ enabled: true });
+  const [form, setForm] = useState<TimerForm>(emptyForm);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { products } = useCatalogOptions();
+  const productNames = new Map(products.map(product => [product.id, product.name]));
 
   useEffect(() => {
     fetchTimers();
@@ -28,24 +76,35 @@ export default function PromoTimerPage(): JSX.Element {
 
   function startEdit(timer: PromoTimer) {
     setEditingId(timer._id);
-    setForm({ ...timer });
+    setError(null);
+    setForm({ ...emptyForm, ...timer, discountType: timer.discountType || "" });
   }
 
   function resetForm() {
     setEditingId(null);
-    setForm({ enabled: true });
+    setError(null);
+    setForm(emptyForm);
   }
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
-    if (!form.productId || !form.endTime) return;
-    if (editingId) {
-      await apiRequest("PUT", `/api/promotimers/${editingId}`, form);
-    } else {
-      await apiRequest("POST", "/api/promotimers", form);
+    if (!form.endTime) return;
+    const payload = {
+      ...form,
+      discountType: form.discountType || null,
+      startTime: form.startTime || null,
+    };
+    try {
+      if (editingId) {
+        await apiRequest("PUT", `/api/promotimers/${editingId}`, payload);
+      } else {
+        await apiRequest("POST", "/api/promotimers", payload);
+      }
+      resetForm();
+      fetchTimers();
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to save promo timer"));
     }
-    resetForm();
-    fetchTimers();
   }
 
   async function handleDelete(id: string) {
@@ -53,30 +112,132 @@ export default function PromoTimerPage(): JSX.Element {
     fetchTimers();
   }
 
+  const describeProducts = (timer: PromoTimer) => {
+    const names = [...timer.productIds, timer.productId]
+      .filter((id): id is string => Boolean(id))
+      .map(id => productNames.get(id) || id);
+    return names.length > 2 ? `${names.slice(0, 2).join(", ")} +${names.length - 2} more` : names.join(", ");
+  };
+
+  const describeSale = (timer: PromoTimer) => {
+    if (!timer.discountType || !timer.discountValue) return "Countdown only";
+    const sale = timer.discountType === "percentage" ? `${timer.discountValue}% off` : `Sale price ₹${timer.discountValue}`;
+    return timer.perCustomerLimit > 0 ? `${sale} · max ${timer.perCustomerLimit} per customer` : sale;
+  };
+
+  const describeSold = (timer: PromoTimer) => {
+    const sold = Object.values(timer.soldUnits || {}).reduce((sum, units) => sum + units, 0);
+    return timer.stockCap > 0 ? `${sold} sold · cap ${timer.stockCap} per product` : `${sold} sold`;
+  };
+
   return (
-    <div className="max-w-3xl mx-auto p-6">
-      <h1 className="text-2xl font-bold mb-4">Promo Timer Management</h1>
+    <div className="max-w-4xl mx-auto p-6">
+      <h1 className="text-2xl font-bold mb-1">Promo Timers & Flash Sales</h1>
+      <p className="text-sm text-muted-foreground mb-4">
+        A timer with a sale price or percentage is a flash sale: its products switch to the sale price between the start and end time.
+      </p>
       <form onSubmit={handleSubmit} className="mb-8 bg-white rounded shadow p-4 flex flex-col gap-4">
         <div>
-          <label className="block text-sm font-medium mb-1">Product ID or Slug</label>
+          <label className="block text-sm font-medium mb-1">Name</label>
           <input
             className="input"
-            value={form.productId || ""}
-            onChange={e => setForm(f => ({ ...f, productId: e.target.value }))}
-            placeholder="Product ID or slug"
-            required
+            value={form.name || ""}
+            onChange={e => setForm(f => ({ ...f, name: e.target.value }))}
+            placeholder="e.g. Diwali Flash Sale"
           />
         </div>
-        <div>
-          <label className="block text-sm font-medium mb-1">End Time</label>
-          <input
-            className="input"
-            type="datetime-local"
-            value={form.endTime ? form.endTime.slice(0, 16) : ""}
-            onChange={e => setForm(f => ({ ...f, endTime: e.target.value }))}
-            required
-          />
+        <OptionChecklist
+          label="Products"
+          options={products}
+          selected={form.productIds || []}
+          onChange={productIds => setForm(f => ({ ...f, productIds }))}
+        />
+        {form.productId && (
+          <div>
+            <label className="block text-sm font-medium mb-1">Product ID or Slug</label>
+            <input
+              className="input"
+              value={form.productId}
+              onChange={e => setForm(f => ({ ...f, productId: e.target.value }))}
+              placeholder="Product ID or slug"
+            />
+          </div>
+        )}
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Start Time</label>
+            <input
+              className="input"
+              type="datetime-local"
+              value={toLocalInput(form.startTime)}
+              onChange={e => setForm(f => ({ ...f, startTime: e.target.value ? new Date(e.target.value).toISOString() : undefined }))}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">End Time</label>
+            <input
+              className="input"
+              type="datetime-local"
+              value={toLocalInput(form.endTime)}
+              onChange={e => setForm(f => ({ ...f, endTime: e.target.value ? new Date(e.target.value).toISOString() : undefined }))}
+              required
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Sale</label>
+            <select
+              className="input"
+              value={form.discountType || ""}
+              onChange={e => setForm(f => ({ ...f, discountType: e.target.value as TimerForm["discountType"] }))}
+            >
+              <option value="">Countdown only (no price change)</option>
+              <option value="percentage">Percentage off list price</option>
+              <option value="price">Fixed sale price</option>
+            </select>
+          </div>
+          {form.discountType && (
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                {form.discountType === "percentage" ? "Percent off" : "Sale price (₹)"}
+              </label>
+              <input
+                className="input"
+                type="number"
+                min={0}
+                value={form.discountValue ?? 0}
+                onChange={e => setForm(f => ({ ...f, discountValue: Number(e.target.value) }))}
+              />
+            </div>
+          )}
         </div>
+        {form.discountType && (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Limit per customer</label>
+              <input
+                className="input"
+                type="number"
+                min={0}
+                value={form.perCustomerLimit ?? 0}
+                onChange={e => setForm(f => ({ ...f, perCustomerLimit: Number(e.target.value) }))}
+              />
+              <p className="text-xs text-muted-foreground mt-1">Units of each product per customer. 0 for no limit.</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Sale stock cap</label>
+              <input
+                className="input"
+                type="number"
+                min={0}
+                value={form.stockCap ?? 0}
+                onChange={e => setForm(f => ({ ...f, stockCap: Number(e.target.value) }))}
+              />
+              <p className="text-xs text-muted-foreground mt-1">Units of each product sold at the sale price. 0 for no cap.</p>
+            </div>
+          </div>
+        )}
         <div className="flex items-center gap-2">
           <input
             type="checkbox"
@@ -86,6 +247,7 @@ export default function PromoTimerPage(): JSX.Element {
           />
           <label htmlFor="enabled" className="text-sm">Enabled</label>
         </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
         <div className="flex gap-2">
           <Button type="submit">{editingId ? "Update" : "Add"} Promo Timer</Button>
           {editingId && <Button type="button" variant="outline" onClick={resetForm}>Cancel</Button>}
@@ -98,18 +260,29 @@ export default function PromoTimerPage(): JSX.Element {
         <table className="w-full bg-white rounded shadow text-sm">
           <thead>
             <tr className="bg-gray-100">
-              <th className="p-2">Product</th>
-              <th className="p-2">End Time</th>
-              <th className="p-2">Enabled</th>
+              <th className="p-2">Name / Products</th>
+              <th className="p-2">Window</th>
+              <th className="p-2">Sale</th>
+              <th className="p-2">Status</th>
               <th className="p-2">Actions</th>
             </tr>
           </thead>
           <tbody>
             {timers.map(timer => (
               <tr key={timer._id} className="border-b">
-                <td className="p-2">{timer.productId}</td>
-                <td className="p-2">{new Date(timer.endTime).toLocaleString()}</td>
-                <td className="p-2">{timer.enabled ? "Yes" : "No"}</td>
+                <td className="p-2">
+                  {timer.name && <div className="font-medium">{timer.name}</div>}
+                  <div className="text-xs text-muted-foreground">{describeProducts(timer)}</div>
+                </td>
+                <td className="p-2">
+                  {timer.startTime && <div>From: {new Date(timer.startTime).toLocaleString()}</div>}
+                  <div>{timer.startTime ? "To" : "Ends"}: {new Date(timer.endTime).toLocaleString()}</div>
+                </td>
+                <td className="p-2">
+                  <div>{describeSale(timer)}</div>
+                  {timer.discountType && <div className="text-xs text-muted-foreground">{describeSold(timer)}</div>}
+                </td>
+                <td className="p-2">{getTimerStatus(timer)}</td>
                 <td className="p-2 flex gap-2">
                   <Button type="button" size="sm" onClick={() => startEdit(timer)}>Edit</Button>
                   <Button type="button" size="sm" variant="destructive" onClick={() => handleDelete(timer._id)}>Delete</Button>
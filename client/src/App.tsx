@@ -7,11 +7,13 @@ import Footer from "./components/layout/Footer";
 import { Toaster } from "./components/ui/toaster";
 import HomePage from "./pages/HomePage";
 import CartPage from "./pages/CartPage";
+import RestoreCartPage from "./pages/RestoreCartPage";
 import GiftCardsPage from "./pages/GiftCardsPage";
 import CheckoutPage from "./pages/CheckoutPage";
 import ThankYouPage from "./pages/ThankYouPage";
 import CollectionPage from "./pages/CollectionPage";
 import CategoryPage from "./pages/CategoryPage";
+import SearchPage from "./pages/SearchPage";
 import ProductPage from "./pages/ProductPage";
 import LoginPage from "./pages/LoginPage";
 import ForgotPasswordPage from "./pages/ForgotPasswordPage";
@@ -39,12 +41,14 @@ export default function App() {
       <main className={isCheckout ? "pt-[60px]" : "pt-[180px] mt-2"}>
         <Switch>
           <Route path="/" component={HomePage} />
+          <Route path="/cart/restore" component={RestoreCartPage} />
           <Route path="/cart" component={CartPage} />
           <Route path="/giftcards" component={GiftCardsPage} />
           <Route path="/checkout" component={CheckoutPage} />
           <Route path="/thank-you/:orderId" component={ThankYouPage} />
           <Route path="/collections/:slug" component={CollectionPage} />
           <Route path="/categories/:slug" component={CategoryPage} />
+          <Route path="/search" component={SearchPage} />
           <Route path="/products/:slug" component={ProductPage} />
           <Route path="/login" component={LoginPage} />
           <Route path="/forgot-password" component={ForgotPasswordPage} />
@@ -1,9 +1,10 @@
 import { useState, useEffect } from 'react';
-import { useLocation } from 'wouter';
-import { useCart } from '@/hooks/useCart';
 import { apiRequest } from '@/lib/queryClient';
 import { formatCurrency } from '@/lib/utils';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
+import RazorpayCheckout from './RazorpayCheckout';
 
 interface GiftCardTemplate {
   _id: string;
@@ -13,6 +14,18 @@ interface GiftCardTemplate {
   imageUrl?: string;
 }
 
+// apiRequest errors look like "400: {json}"
+function getErrorMessage(error: unknown): string | undefined {
+  if (!(error instanceof Error)) return undefined;
+  try {
+    return JSON.parse(error.message.replace(/^\d+:\s*/, '')).message;
+  } catch {
+    return undefined;
+  }
+}
+
+const todayInputValue = () => new Date().toISOString().split('T')[0];
+
 export default function GiftCardForm() {
   const [templates, setTemplates] = useState<GiftCardTemplate[]>([]);
   const [loading, setLoading] = useState(true);
@@ -23,8 +36,20 @@ export default function GiftCardForm() {
   const [receiverName, setReceiverName] = useState('');
   const [receiverEmail, setReceiverEmail] = useState('');
   const [message, setMessage] = useState('');
-  const { addItem } = useCart();
-  const [, navigate] = useLocation();
+  const [deliveryDate, setDeliveryDate] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [payment, setPayment] = useState<{ orderId: string; amount: number; currency: string } | null>(null);
+  const [confirmation, setConfirmation] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  // Prefill the sender from the signed-in account
+  useEffect(() => {
+    if (user) {
+      setSenderName(name => name || user.name || '');
+      setSenderEmail(email => email || user.email || '');
+    }
+  }, [user]);
 
   useEffect(() => {
     async function loadTemplates() {
@@ -53,18 +78,51 @@ export default function GiftCardForm() {
   if (loading) return <div className="text-center">Loading...</div>;
   if (!selectedTemplate) return <div className="text-center">No gift cards available.</div>;
 
-  const handleAddToBag = async () => {
-    await addItem({
-      _id: selectedTemplate._id,
-      name: `Gift Card ${formatCurrency(selectedTemplate.initialAmount)}`,
-      price: selectedTemplate.initialAmount,
-      imageUrl: selectedTemplate.imageUrl,
-    } as any);
+  const handleBuyNow = async () => {
+    if (!senderName || !senderEmail || !receiverName || !receiverEmail || !message) {
+      toast({ title: 'Missing details', description: 'Please fill in all required fields.', variant: 'destructive' });
+      return;
+    }
+    setSubmitting(true);
+    try {
+      // A future date schedules the email; today (or no date) sends it once paid
+      const deliverAt = deliveryDate && deliveryDate > todayInputValue() ? new Date(`${deliveryDate}T09:00:00`).toISOString() : undefined;
+      const res = await apiRequest('POST', '/api/giftcards/purchases', {
+        templateId: selectedTemplate._id,
+        senderName,
+        senderEmail,
+        recipientName: receiverName,
+        recipientEmail: receiverEmail,
+        message,
+        deliverAt,
+      });
+      const { orderId, amount: orderAmount, currency } = await res.json();
+      setPayment({ orderId, amount: orderAmount, currency });
+    } catch (error) {
+      toast({ title: 'Could not start payment', description: getErrorMessage(error), variant: 'destructive' });
+      setSubmitting(false);
+    }
   };
 
-  const handleBuyNow = async () => {
-    await handleAddToBag();
-    navigate('/checkout');
+  const handlePaymentSuccess = async (response: any) => {
+    try {
+      const res = await apiRequest('POST', '/api/giftcards/purchases/verify', response);
+      const data = await res.json();
+      if (!data.valid) throw new Error('Invalid payment');
+      const when = new Date(data.purchase.deliverAt) > new Date()
+        ? `on ${new Date(data.purchase.deliverAt).toLocaleDateString()}`
+        : 'shortly';
+      setConfirmation(`Your ${formatCurrency(data.purchase.amount)} gift card will be emailed to ${data.purchase.recipientEmail} ${when}.`);
+      setMessage('');
+      setReceiverName('');
+      setReceiverEmail('');
+      setDeliveryDate('');
+    } catch (error) {
+      toast({ title: 'Payment verification failed', description: getErrorMessage(error), variant: 'destructive' });
+    } finally {
+      setPayment(null);
+      setSubmitting(false);
+    }
   };
 
   return (
@@ -143,20 +201,42 @@ export default function GiftCardForm() {
           />
         </div>
         <textarea
-          className="border p-2 rounded w-full mb-4"
+          className="border p-2 rounded w-full mb-2"
           placeholder="Message*"
           value={message}
           onChange={(e) => setMessage(e.target.value)}
           rows={3}
+          maxLength={500}
+        />
+        <label className="block text-sm text-neutral-gray mb-1">Delivery date (leave empty to send right away)</label>
+        <input
+          className="border p-2 rounded w-full mb-4"
+          type="date"
+          min={todayInputValue()}
+          value={deliveryDate}
+          onChange={(e) => setDeliveryDate(e.target.value)}
         />
+        {confirmation && (
+          <p className="mb-4 p-3 rounded bg-green-50 text-green-800 text-sm">{confirmation}</p>
+        )}
         <div className="flex gap-4">
-          <Button className="bg-white text-black border border-black px-8" onClick={handleBuyNow}>
-            Buy Now
-          </Button>
-          <Button className="bg-black text-white px-8" onClick={handleAddToBag}>
-            Add To Bag
+          <Button className="bg-black text-white px-8" onClick={handleBuyNow} disabled={submitting}>
+            {submitting ? 'Processing...' : 'Buy Now'}
           </Button>
         </div>
+        {payment && (
+          <RazorpayCheckout
+            orderId={payment.orderId}
+            amount={payment.amount}
+            currency={payment.currency}
+            onSuccess={handlePaymentSuccess}
+            onError={(err) => {
+              toast({ title: 'Payment not completed', description: err?.error?.description || err?.message, variant: 'destructive' });
+              setPayment(null);
+              setSubmitting(false);
+            }}
+          />
+        )}
       </div>
     </div>
   );
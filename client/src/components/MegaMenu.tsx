@@ -39,9 +39,9 @@ export default function MegaMenu() {
     queryKey: bestsellers ? ['/api/collections/' + bestsellers.slug + '/products'] : [],
     queryFn: async () => {
       if (!bestsellers) return [];
-      const res = await fetch(`/api/collections/${bestsellers.slug}/products`);
+      const res = await fetch(`/api/collections/${bestsellers.slug}/products?limit=8`);
       const json = await res.json();
-      return json.data ?? json;
+      return json.products ?? [];
     },
     enabled: !!bestsellers,
   });
@@ -50,9 +50,9 @@ export default function MegaMenu() {
     queryKey: kumkumadi ? ['/api/collections/' + kumkumadi.slug + '/products'] : [],
     queryFn: async () => {
       if (!kumkumadi) return [];
-      const res = await fetch(`/api/collections/${kumkumadi.slug}/products`);
+      const res = await fetch(`/api/collections/${kumkumadi.slug}/products?limit=8`);
       const json = await res.json();
-      return json.data ?? json;
+      return json.products ?? [];
     },
     enabled: !!kumkumadi,
   });
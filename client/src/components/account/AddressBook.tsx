@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// An address from /api/addresses
+export type SavedAddress = {
+  _id: string;
+  label: string;
+  name: string;
+  phone: string;
+  address: string;
+  landmark?: string;
+  city: string;
+  state: string;
+  pincode: string;
+  isDefaultShipping: boolean;
+  isDefaultBilling: boolean;
+  serviceable: boolean | null;
+  codAvailable: boolean | null;
+};
+
+type AddressForm = Omit<SavedAddress, "_id" | "serviceable" | "codAvailable">;
+
+const emptyForm: AddressForm = {
+  label: "Home",
+  name: "",
+  phone: "",
+  address: "",
+  landmark: "",
+  city: "",
+  state: "",
+  pincode: "",
+  isDefaultShipping: false,
+  isDefaultBilling: false,
+};
+
+const labelOptions = ["Home", "Office", "Other"];
+
+// The server's JSON error message from an apiRequest failure
+function getErrorMessage(error: unknown, fallback: string) {
+  const text = String((error as Error)?.message || "").replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(text).message || fallback;
+  } catch {
+    return text || fallback;
+  }
+}
+
+export function useSavedAddresses(enabled = true) {
+  return useQuery<SavedAddress[]>({
+    queryKey: ["/api/addresses"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/addresses");
+      return res.json();
+    },
+    enabled,
+  });
+}
+
+export function formatSavedAddress(address: SavedAddress) {
+  return [address.address, address.landmark, `${address.city}, ${address.state} ${address.pincode}`]
+    .filter(Boolean)
+    .join(", ");
+}
+
+export default function AddressBook() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: addresses = [], isLoading } = useSavedAddresses();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<AddressForm>(emptyForm);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/addresses"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = editingId
+        ? await apiRequest("PUT", `/api/addresses/${editingId}`, form)
+        : await apiRequest("POST", "/api/addresses", form);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: editingId ? "Address updated" : "Address saved" });
+      closeForm();
+      refresh();
+    },
+    onError: (error) => {
+      toast({ title: getErrorMessage(error, "Could not save address"), variant: "destructive" });
+    },
+  });
+
+  const defaultMutation = useMutation({
+    mutationFn: async ({ id, type }: { id: string; type: "shipping" | "billing" }) => {
+      await apiRequest("POST", `/api/addresses/${id}/default`, { type });
+    },
+    onSuccess: refresh,
+    onError: (error) => {
+      toast({ title: getErrorMessage(error, "Could not update default address"), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/addresses/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Address deleted" });
+      refresh();
+    },
+    onError: (error) => {
+      toast({ title: getErrorMessage(error, "Could not delete address"), variant: "destructive" });
+    },
+  });
+
+  function openForm(address?: SavedAddress) {
+    setEditingId(address?._id || null);
+    setForm(address ? { ...emptyForm, ...address, landmark: address.landmark || "" } : emptyForm);
+    setShowForm(true);
+  }
+
+  function closeForm() {
+    setEditingId(null);
+    setForm(emptyForm);
+    setShowForm(false);
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  const field = (key: keyof AddressForm, placeholder: string, required = true) => (
+    <input
+      placeholder={placeholder}
+      value={String(form[key] ?? "")}
+      onChange={e => setForm({ ...form, [key]: e.target.value })}
+      className="w-full border px-3 py-2 rounded"
+      required={required}
+    />
+  );
+
+  if (showForm) {
+    return (
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex gap-2">
+          {labelOptions.map(label => (
+            <Button
+              key={label}
+              type="button"
+              size="sm"
+              variant={form.label === label ? "default" : "outline"}
+              onClick={() => setForm({ ...form, label })}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {field("name", "Full name")}
+          {field("phone", "10-digit mobile number")}
+        </div>
+        {field("address", "House no., building, street")}
+        {field("landmark", "Landmark (optional)", false)}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {field("city", "City")}
+          {field("state", "State")}
+          {field("pincode", "Pincode")}
+        </div>
+        <div className="flex flex-col gap-2 text-sm">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={form.isDefaultShipping}
+              onChange={e => setForm({ ...form, isDefaultShipping: e.target.checked })}
+            />
+            Default shipping address
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={form.isDefaultBilling}
+              onChange={e => setForm({ ...form, isDefaultBilling: e.target.checked })}
+            />
+            Default billing address
+          </label>
+        </div>
+        <div className="flex gap-2">
+          <Button type="submit" disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Checking pincode..." : "Save Address"}
+          </Button>
+          <Button type="button" variant="ghost" onClick={closeForm}>Cancel</Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <>
+      {isLoading ? (
+        <p className="text-neutral-gray mb-4">Loading...</p>
+      ) : addresses.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          {addresses.map(address => (
+            <div key={address._id} className="border border-neutral-sand rounded-md p-4 flex flex-col">
+              <div className="flex justify-between items-start mb-2">
+                <div className="flex flex-wrap gap-1">
+                  <Badge variant="outline">{address.label}</Badge>
+                  {address.isDefaultShipping && <Badge>Default shipping</Badge>}
+                  {address.isDefaultBilling && <Badge variant="secondary">Default billing</Badge>}
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" className="h-8 text-primary" onClick={() => openForm(address)}>Edit</Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 text-red-500"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(address._id)}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </div>
+              <p className="font-medium">{address.name}</p>
+              <p className="text-sm">{formatSavedAddress(address)}</p>
+              <p className="text-sm">{address.phone}</p>
+              {address.codAvailable === false && (
+                <p className="text-xs text-amber-700 mt-1">Cash on delivery is not available at this pincode</p>
+              )}
+              <div className="flex flex-wrap gap-2 mt-auto pt-3">
+                {!address.isDefaultShipping && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={defaultMutation.isPending}
+                    onClick={() => defaultMutation.mutate({ id: address._id, type: "shipping" })}
+                  >
+                    Use for shipping
+                  </Button>
+                )}
+                {!address.isDefaultBilling && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={defaultMutation.isPending}
+                    onClick={() => defaultMutation.mutate({ id: address._id, type: "billing" })}
+                  >
+                    Use for billing
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-neutral-gray mb-4">You don't have any saved addresses yet.</p>
+      )}
+      <Button className="bg-primary hover:bg-primary-light text-white" onClick={() => openForm()}>
+        Add New Address
+      </Button>
+    </>
+  );
+}
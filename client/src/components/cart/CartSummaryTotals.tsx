@@ -0,0 +1,56 @@
+import type { CartSummary } from "@shared/schema";
+import { formatCurrency } from "@/lib/utils";
+
+interface CartSummaryTotalsProps {
+  summary: CartSummary | undefined;
+  className?: string;
+}
+
+// The price rows of a cart summary, for the mini cart and the cart drawer
+export default function CartSummaryTotals({ summary, className = "" }: CartSummaryTotalsProps) {
+  if (!summary) {
+    return <div className={`text-sm text-muted-foreground ${className}`}>Calculating totals...</div>;
+  }
+
+  return (
+    <div className={`space-y-1.5 text-sm ${className}`}>
+      <div className="flex justify-between">
+        <span>Subtotal</span>
+        <span>{formatCurrency(summary.subtotal)}</span>
+      </div>
+      {summary.saleDiscount > 0 && (
+        <p className="text-xs text-green-600">Includes {formatCurrency(summary.saleDiscount)} off on sale items</p>
+      )}
+      {summary.promotions.filter(promotion => promotion.discount > 0).map(promotion => (
+        <div key={promotion.promotionId} className="flex justify-between text-green-600">
+          <span>{promotion.name}</span>
+          <span>-{formatCurrency(promotion.discount)}</span>
+        </div>
+      ))}
+      {summary.coupons.map(coupon => (
+        <div key={coupon.code} className="flex justify-between text-green-600">
+          <span>Coupon {coupon.code}</span>
+          <span>-{formatCurrency(coupon.discount)}</span>
+        </div>
+      ))}
+      {summary.couponError && <p className="text-xs text-red-600">{summary.couponError}</p>}
+      <div className="flex justify-between">
+        <span>Shipping</span>
+        <span>{summary.shippingAmount === 0 ? "Free" : formatCurrency(summary.shippingAmount)}</span>
+      </div>
+      {summary.amountToFreeShipping > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Add more than {formatCurrency(summary.amountToFreeShipping)} for free shipping
+        </p>
+      )}
+      <div className="flex justify-between">
+        <span>Tax ({Math.round(summary.taxRate * 100)}%)</span>
+        <span>{formatCurrency(summary.taxAmount)}</span>
+      </div>
+      <div className="flex justify-between font-semibold text-base pt-1.5 border-t border-gray-200">
+        <span>Total</span>
+        <span>{formatCurrency(summary.totalAmount)}</span>
+      </div>
+    </div>
+  );
+}
@@ -1,125 +1,227 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import axios from 'axios';
 import {
   AlertCircle,
   CheckCircle2,
+  Sparkles,
   Tag,
   X
 } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { formatCurrency } from "@/lib/utils";
+import type { AppliedCouponCode, CouponLineDiscount } from "@/hooks/useCoupon";
+
+// A public coupon checked against the cart by /api/coupons/suggestions
+interface CouponOffer {
+  code: string;
+  description: string;
+  discountValue: number;
+  valid: boolean;
+  message: string;
+}
 
 interface CouponFormProps {
   cartTotal: number;
-  onCouponApplied: (couponCode: string, discountAmount: number) => void;
+  // Cart lines, so coupons limited to certain products, categories or collections can be matched
+  items?: { productId: string; variantId?: string; quantity: number; isFree?: boolean }[];
+  // Checkout email, so per-customer limits can be checked for guests
+  email?: string;
+  onCouponApplied: (
+    couponCodes: string[],
+    discountAmount: number,
+    lineDiscounts?: CouponLineDiscount[],
+    coupons?: AppliedCouponCode[]
+  ) => void;
   onCouponRemoved: () => void;
   appliedCoupon: {
     code: string;
+    codes?: string[];
+    coupons?: AppliedCouponCode[];
     discountValue: number;
   } | null;
 }
 
-export function CouponForm({ 
-  cartTotal, 
-  onCouponApplied, 
+export function CouponForm({
+  cartTotal,
+  items,
+  email,
+  onCouponApplied,
   onCouponRemoved,
-  appliedCoupon 
+  appliedCoupon
 }: CouponFormProps) {
   const [couponCode, setCouponCode] = useState<string>('');
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [offers, setOffers] = useState<CouponOffer[]>([]);
+  const [bestOffer, setBestOffer] = useState<CouponOffer | null>(null);
 
-  const applyCoupon = async () => {
-    if (!couponCode) {
-      setError('Please enter a coupon code');
-      return;
-    }
+  const appliedCodes = appliedCoupon ? (appliedCoupon.codes || [appliedCoupon.code]) : [];
+  // The cart lines as a string, so the suggestions are only fetched again when they change
+  const itemsKey = JSON.stringify(items || []);
+
+  // Checks a full set of codes together, so stacking rules are applied by the server
+  const validateCodes = async (codes: string[]) => {
+    const response = await axios.post('/api/coupons/validate', {
+      code: codes[codes.length - 1],
+      appliedCodes: codes.slice(0, -1),
+      cartValue: cartTotal,
+      items,
+      email: email || undefined
+    });
+    const { coupons, discountValue, lineDiscounts, message } = response.data;
+    // Usage is counted when the order is placed
+    onCouponApplied(
+      coupons.map((coupon: AppliedCouponCode) => coupon.code),
+      discountValue,
+      lineDiscounts,
+      coupons
+    );
+    return message as string;
+  };
 
+  const applyCodes = async (codes: string[]) => {
     setLoading(true);
     setError(null);
     setSuccessMessage(null);
 
     try {
-      const response = await axios.post('/api/coupons/validate', {
-        code: couponCode,
-        cartValue: cartTotal
-      });
-
-      const { coupon, discountValue, message } = response.data;
-      
-      setSuccessMessage(message);
-      onCouponApplied(coupon.code, discountValue);
-      
-      // Apply the coupon in the backend
-      await axios.post('/api/coupons/apply', { code: coupon.code });
-      
+      setSuccessMessage(await validateCodes(codes));
+      setCouponCode('');
     } catch (error: any) {
+      // Whatever was applied before stays applied
       setError(error.response?.data?.message || 'Failed to apply coupon');
-      onCouponRemoved();
     } finally {
       setLoading(false);
     }
   };
 
-  const removeCoupon = () => {
-    setCouponCode('');
+  const applyCoupon = async () => {
+    const code = couponCode.trim().toUpperCase();
+    if (!code) {
+      setError('Please enter a coupon code');
+      return;
+    }
+    if (appliedCodes.includes(code)) {
+      setError(`${code} is already applied`);
+      return;
+    }
+    await applyCodes([...appliedCodes, code]);
+  };
+
+  const removeCoupon = async (code: string) => {
     setError(null);
     setSuccessMessage(null);
-    onCouponRemoved();
+    const remaining = appliedCodes.filter(applied => applied !== code);
+    if (remaining.length === 0) {
+      onCouponRemoved();
+      return;
+    }
+    setLoading(true);
+    try {
+      await validateCodes(remaining);
+    } catch (error: any) {
+      setError(error.response?.data?.message || 'Failed to update coupons');
+      onCouponRemoved();
+    } finally {
+      setLoading(false);
+    }
   };
 
+  // Refresh the suggested coupons whenever the cart or the customer changes
+  useEffect(() => {
+    const cartItems: CouponFormProps['items'] = JSON.parse(itemsKey);
+    if (!cartItems || cartItems.length === 0) {
+      setOffers([]);
+      setBestOffer(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await axios.post('/api/coupons/suggestions', {
+          items: cartItems,
+          cartValue: cartTotal,
+          email: email || undefined
+        });
+        if (cancelled) return;
+        setOffers(response.data.offers || []);
+        setBestOffer(response.data.best || null);
+      } catch {
+        if (!cancelled) {
+          setOffers([]);
+          setBestOffer(null);
+        }
+      }
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [itemsKey, email, cartTotal]);
+
+  // The best offer is only suggested; the shopper chooses whether to apply it
+  const canSwitchToBest = !!bestOffer
+    && !appliedCodes.includes(bestOffer.code)
+    && bestOffer.discountValue > (appliedCoupon?.discountValue || 0);
+
   return (
     <div className="mt-4 mb-6">
       <h3 className="font-medium text-sm mb-2 flex items-center">
-        <Tag className="w-4 h-4 mr-1.5" /> 
+        <Tag className="w-4 h-4 mr-1.5" />
         Apply Promo Code
       </h3>
 
-      {!appliedCoupon ? (
-        <div className="flex space-x-2">
-          <Input
-            placeholder="Enter coupon code"
-            value={couponCode}
-            onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
-            className="flex-1"
-            disabled={loading}
-          />
-          <Button 
-            onClick={applyCoupon} 
-            disabled={loading || !couponCode}
-            variant="outline"
-            className="border-primary text-primary hover:bg-primary hover:text-white"
-          >
-            {loading ? (
-              <span className="inline-block h-4 w-4 animate-spin rounded-full border-2 border-solid border-current border-r-transparent" />
-            ) : (
-              'Apply'
-            )}
-          </Button>
-        </div>
-      ) : (
-        <div className="border border-primary-light bg-green-50 rounded-md p-3 flex justify-between items-center">
-          <div className="flex items-center">
-            <CheckCircle2 className="text-green-600 h-4 w-4 mr-2" />
-            <div>
-              <p className="text-sm font-medium">{appliedCoupon.code}</p>
-              <p className="text-xs text-green-700">Discount applied: {new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(appliedCoupon.discountValue)}</p>
+      {appliedCoupon && (
+        <div className="space-y-2 mb-2">
+          {(appliedCoupon.coupons || [{ code: appliedCoupon.code, discountValue: appliedCoupon.discountValue }]).map(coupon => (
+            <div key={coupon.code} className="border border-primary-light bg-green-50 rounded-md p-3 flex justify-between items-center">
+              <div className="flex items-center">
+                <CheckCircle2 className="text-green-600 h-4 w-4 mr-2" />
+                <div>
+                  <p className="text-sm font-medium">{coupon.code}</p>
+                  <p className="text-xs text-green-700">Discount applied: {formatCurrency(coupon.discountValue)}</p>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 text-muted-foreground"
+                onClick={() => removeCoupon(coupon.code)}
+                disabled={loading}
+              >
+                <X className="h-4 w-4" />
+                <span className="sr-only">Remove coupon</span>
+              </Button>
             </div>
-          </div>
-          <Button
-            variant="ghost"
-            size="sm"
-            className="h-8 w-8 p-0 text-muted-foreground"
-            onClick={removeCoupon}
-          >
-            <X className="h-4 w-4" />
-            <span className="sr-only">Remove coupon</span>
-          </Button>
+          ))}
         </div>
       )}
 
+      <div className="flex space-x-2">
+        <Input
+          placeholder={appliedCoupon ? "Add another coupon code" : "Enter coupon code"}
+          value={couponCode}
+          onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+          className="flex-1"
+          disabled={loading}
+        />
+        <Button
+          onClick={applyCoupon}
+          disabled={loading || !couponCode}
+          variant="outline"
+          className="border-primary text-primary hover:bg-primary hover:text-white"
+        >
+          {loading ? (
+            <span className="inline-block h-4 w-4 animate-spin rounded-full border-2 border-solid border-current border-r-transparent" />
+          ) : (
+            'Apply'
+          )}
+        </Button>
+      </div>
+
       {error && (
         <Alert variant="destructive" className="mt-2">
           <AlertCircle className="h-4 w-4 mr-2" />
@@ -133,6 +235,56 @@ export function CouponForm({
           <AlertDescription>{successMessage}</AlertDescription>
         </Alert>
       )}
+
+      {canSwitchToBest && bestOffer && (
+        <div className="mt-3 rounded-md border border-dashed border-primary p-3 flex justify-between items-center">
+          <div className="flex items-start">
+            <Sparkles className="h-4 w-4 mr-2 mt-0.5 text-primary" />
+            <div>
+              <p className="text-sm font-medium">
+                Save {formatCurrency(bestOffer.discountValue)} with {bestOffer.code}
+              </p>
+              {bestOffer.description && <p className="text-xs text-muted-foreground">{bestOffer.description}</p>}
+            </div>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={loading}
+            onClick={() => applyCodes([bestOffer.code])}
+          >
+            {appliedCoupon ? 'Switch' : 'Apply'}
+          </Button>
+        </div>
+      )}
+
+      {offers.length > 0 && (
+        <details className="mt-3">
+          <summary className="text-xs text-primary cursor-pointer">Available offers ({offers.length})</summary>
+          <ul className="mt-2 space-y-2">
+            {offers.map(offer => (
+              <li key={offer.code} className="flex justify-between items-start text-xs">
+                <div className={offer.valid ? '' : 'text-muted-foreground'}>
+                  <span className="font-mono font-medium">{offer.code}</span>
+                  {offer.description && <span> – {offer.description}</span>}
+                  <p>{offer.valid ? `Saves ${formatCurrency(offer.discountValue)}` : offer.message}</p>
+                </div>
+                {offer.valid && !appliedCodes.includes(offer.code) && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 text-xs"
+                    disabled={loading}
+                    onClick={() => applyCodes([offer.code])}
+                  >
+                    Use
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+// The server's JSON error message from an apiRequest failure
+function getErrorMessage(error: unknown, fallback: string) {
+  const text = String((error as Error)?.message || "").replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(text).message || fallback;
+  } catch {
+    return text || fallback;
+  }
+}
+
+// A received gift card shows its full code and balance once the shopper enters
+// the code from the gift email, proving the card was sent to them
+export function ClaimGiftCardForm({ purchaseId }: { purchaseId: string }) {
+  const queryClient = useQueryClient();
+  const [code, setCode] = useState("");
+
+  const claimMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/giftcards/mine/${purchaseId}/claim`, { code });
+      return res.json();
+    },
+    onSuccess: () => {
+      setCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/giftcards/mine"] });
+    },
+  });
+
+  return (
+    <form
+      className="mt-2 space-y-1"
+      onSubmit={e => {
+        e.preventDefault();
+        claimMutation.mutate();
+      }}
+    >
+      <div className="flex gap-2">
+        <Input
+          value={code}
+          onChange={e => setCode(e.target.value)}
+          placeholder="Code from your gift card email"
+          className="max-w-xs"
+        />
+        <Button type="submit" variant="outline" disabled={!code.trim() || claimMutation.isPending}>
+          {claimMutation.isPending ? "Claiming..." : "Claim"}
+        </Button>
+      </div>
+      {claimMutation.isError && (
+        <p className="text-sm text-red-600">{getErrorMessage(claimMutation.error, "Could not claim this gift card")}</p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import {
+  AlertCircle,
+  CheckCircle2,
+  Gift,
+  X
+} from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { formatCurrency } from "@/lib/utils";
+
+export type AppliedGiftCard = {
+  code: string;
+  amount: number;
+  balance: number;
+  amountDue: number;
+};
+
+interface GiftCardRedeemFormProps {
+  orderTotal: number;
+  appliedGiftCard: AppliedGiftCard | null;
+  onGiftCardApplied: (giftCard: AppliedGiftCard) => void;
+  onGiftCardRemoved: () => void;
+}
+
+export function GiftCardRedeemForm({
+  orderTotal,
+  appliedGiftCard,
+  onGiftCardApplied,
+  onGiftCardRemoved
+}: GiftCardRedeemFormProps) {
+  const [code, setCode] = useState<string>('');
+  const [amount, setAmount] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const validate = async (giftCardCode: string, requestedAmount?: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await axios.post('/api/giftcards/validate', {
+        code: giftCardCode,
+        orderTotal,
+        amount: requestedAmount
+      });
+      const { code: validCode, amount: applied, balance, amountDue } = response.data;
+      onGiftCardApplied({ code: validCode, amount: applied, balance, amountDue });
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to apply gift card');
+      onGiftCardRemoved();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Re-quote when the order total changes (coupon applied, COD fee, cart edits)
+  useEffect(() => {
+    if (appliedGiftCard && orderTotal > 0 && Math.abs(appliedGiftCard.amount + appliedGiftCard.amountDue - orderTotal) > 0.01) {
+      validate(appliedGiftCard.code, amount ? Number(amount) : undefined);
+    }
+  }, [orderTotal]);
+
+  const applyGiftCard = () => {
+    if (!code) {
+      setError('Please enter a gift card code');
+      return;
+    }
+    const requested = amount ? Number(amount) : undefined;
+    if (requested !== undefined && (!Number.isFinite(requested) || requested <= 0)) {
+      setError('Enter a valid amount to redeem');
+      return;
+    }
+    validate(code, requested);
+  };
+
+  const removeGiftCard = () => {
+    setCode('');
+    setAmount('');
+    setError(null);
+    onGiftCardRemoved();
+  };
+
+  return (
+    <div className="mt-4 mb-6">
+      <h3 className="font-medium text-sm mb-2 flex items-center">
+        <Gift className="w-4 h-4 mr-1.5" />
+        Redeem Gift Card
+      </h3>
+
+      {!appliedGiftCard ? (
+        <div className="space-y-2">
+          <div className="flex space-x-2">
+            <Input
+              placeholder="Gift card code"
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              className="flex-1"
+              disabled={loading}
+            />
+            <Button
+              onClick={applyGiftCard}
+              disabled={loading || !code}
+              variant="outline"
+              className="border-primary text-primary hover:bg-primary hover:text-white"
+            >
+              {loading ? (
+                <span className="inline-block h-4 w-4 animate-spin rounded-full border-2 border-solid border-current border-r-transparent" />
+              ) : (
+                'Apply'
+              )}
+            </Button>
+          </div>
+          <Input
+            type="number"
+            min={0}
+            placeholder="Amount to use (optional, defaults to full balance)"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            disabled={loading}
+          />
+        </div>
+      ) : (
+        <div className="border border-primary-light bg-green-50 rounded-md p-3 flex justify-between items-center">
+          <div className="flex items-center">
+            <CheckCircle2 className="text-green-600 h-4 w-4 mr-2" />
+            <div>
+              <p className="text-sm font-medium">{appliedGiftCard.code}</p>
+              <p className="text-xs text-green-700">
+                Using {formatCurrency(appliedGiftCard.amount)} of {formatCurrency(appliedGiftCard.balance)}
+              </p>
+            </div>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0 text-muted-foreground"
+            onClick={removeGiftCard}
+          >
+            <X className="h-4 w-4" />
+            <span className="sr-only">Remove gift card</span>
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <Alert variant="destructive" className="mt-2">
+          <AlertCircle className="h-4 w-4 mr-2" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
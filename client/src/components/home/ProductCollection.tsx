@@ -2,7 +2,7 @@ import { useState, useRef } from "react";
 import { Link } from "wouter";
 import ProductCard from "@/components/products/ProductCard";
 import { useQuery } from "@tanstack/react-query";
-import { Product, Collection } from "@shared/schema";
+import { Product, Collection, ProductSearchResult } from "@shared/schema";
 import Slider from 'react-slick';
 import 'slick-carousel/slick/slick.css';
 import 'slick-carousel/slick/slick-theme.css';
@@ -22,8 +22,9 @@ export default function ProductCollection({ collectionSlug, title, slider = fals
     queryKey: [`/api/collections/${collectionSlug}`],
   });
   
-  const { data: products = [] } = useQuery<Product[]>({
-    queryKey: [`/api/collections/${collectionSlug}/products`],
+  const { data: products = [] } = useQuery<ProductSearchResult, Error, Product[]>({
+    queryKey: [`/api/collections/${collectionSlug}/products?limit=12`],
+    select: result => result.products,
   });
 
   // Define demo product data - used only when API returns no results
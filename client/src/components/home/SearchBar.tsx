@@ -1,22 +1,29 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { Link } from 'wouter';
-import { Product } from '@shared/schema';
+import { Link, useLocation } from 'wouter';
+import { SearchQueryCount } from '@shared/schema';
+import { MIN_SUGGEST_LENGTH, useSearchHistory, useSearchSuggestions } from '@/hooks/useSearch';
 
 export default function SearchBar({
   show,
   onClose
 }: { show: boolean; onClose: () => void }) {
+  const [, navigate] = useLocation();
   const [query, setQuery] = useState<string>('');
-  const { data = [], isLoading } = useQuery<Product[], Error>({
-    queryKey: ['search', query],
-    queryFn: async (): Promise<Product[]> => {
-      const res = await fetch(`/api/products?search=${encodeURIComponent(query)}`);
-      const json = await res.json();
-      return json.products || [];
-    },
-    enabled: show && query.length > 2,
-  });
+  const typed = query.trim();
+  const { data: suggestions, isFetching: isLoading } = useSearchSuggestions(query, show);
+  const { popular, recent, clearRecent } = useSearchHistory(show);
+  const hasSuggestions = !!suggestions && (
+    suggestions.products.length + suggestions.categories.length + suggestions.collections.length + suggestions.blogs.length > 0
+  );
+
+  // The full results page logs the search and lists every match
+  const runSearch = (text: string) => {
+    const q = text.trim();
+    if (!q) return;
+    navigate(`/search?q=${encodeURIComponent(q)}`);
+    setQuery('');
+    onClose();
+  };
 
   // --- Typewriter States ---
   const typewriterPhrases = [
@@ -65,14 +72,16 @@ export default function SearchBar({
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
             </svg>
           </div>
-          <input
-            type="text"
-            placeholder={placeholder}
-            value={query}
-            onChange={e => setQuery(e.target.value)}
-            className="w-full border-none outline-none px-12 py-4 bg-gray-50 rounded-md text-base focus:ring-2 focus:ring-green-500 focus:bg-white transition-all"
-            autoFocus
-          />
+          <form className="w-full" onSubmit={e => { e.preventDefault(); runSearch(query); }}>
+            <input
+              type="text"
+              placeholder={placeholder}
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              className="w-full border-none outline-none px-12 py-4 bg-gray-50 rounded-md text-base focus:ring-2 focus:ring-green-500 focus:bg-white transition-all"
+              autoFocus
+            />
+          </form>
           <button 
             onClick={onClose} 
             className="absolute right-4 p-2 text-gray-500 hover:text-green-600 rounded-full hover:bg-gray-100 transition-colors"
@@ -86,40 +95,121 @@ export default function SearchBar({
         {isLoading && (
           <div className="absolute right-16 top-5 animate-spin h-5 w-5 border-2 border-green-500 border-t-transparent rounded-full"></div>
         )}
-        {query.length > 2 && (
+        {typed.length < MIN_SUGGEST_LENGTH && (recent.length > 0 || popular.length > 0) && (
+          <div className="w-full bg-white shadow-xl rounded-md border border-gray-100 p-4 space-y-4">
+            {recent.length > 0 && (
+              <QueryChips title="Recent searches" searches={recent} onPick={runSearch} onClear={clearRecent} />
+            )}
+            {popular.length > 0 && (
+              <QueryChips title="Popular searches" searches={popular} onPick={runSearch} />
+            )}
+          </div>
+        )}
+        {typed.length >= MIN_SUGGEST_LENGTH && suggestions && (
           <div className="w-full bg-white shadow-xl max-h-96 overflow-auto rounded-md border border-gray-100 mt-0">
-            {data.length > 0 ? (
-              data.map((prod: Product) => (
-                <Link
-                  key={prod._id}
-                  href={`/products/${prod.slug}`}
-                  className="block pointer-events-auto"
-                  onClick={onClose}
-                >
-                  <div className="flex items-center p-4 hover:bg-gray-50 transition-colors">
-                    {prod.imageUrl && (
-                      <div className="w-16 h-16 flex-shrink-0 overflow-hidden rounded-md border border-gray-200">
-                        <img src={prod.imageUrl} alt={prod.name} className="w-full h-full object-cover" />
-                      </div>
-                    )}
-                    <div className="ml-4 flex-1">
-                      <p className="font-medium text-gray-900">{prod.name}</p>
-                      <p className="text-sm text-green-600 font-semibold">${prod.price.toFixed(2)}</p>
+            {hasSuggestions ? (
+              <>
+                {suggestions.products.map(prod => (
+                  <Link
+                    key={prod._id}
+                    href={`/products/${prod.slug}`}
+                    className="block pointer-events-auto"
+                    onClick={onClose}
+                  >
+                    <div className="flex items-center px-4 py-3 hover:bg-gray-50 transition-colors">
+                      {prod.imageUrl && (
+                        <div className="w-12 h-12 flex-shrink-0 overflow-hidden rounded-md border border-gray-200">
+                          <img src={prod.imageUrl} alt={prod.name} className="w-full h-full object-cover" />
+                        </div>
+                      )}
+                      <p className="ml-4 flex-1 font-medium text-gray-900">{prod.name}</p>
                     </div>
-                  </div>
-                </Link>
-              ))
+                  </Link>
+                ))}
+                <SuggestionLinks
+                  title="Categories"
+                  links={suggestions.categories.map(c => ({ key: c._id, label: c.name, href: `/categories/${c.slug}` }))}
+                  onClose={onClose}
+                />
+                <SuggestionLinks
+                  title="Collections"
+                  links={suggestions.collections.map(c => ({ key: c._id, label: c.name, href: `/collections/${c.slug}` }))}
+                  onClose={onClose}
+                />
+                <SuggestionLinks
+                  title="Articles"
+                  links={suggestions.blogs.map(b => ({ key: b._id, label: b.title, href: `/blogs/${b.slug}` }))}
+                  onClose={onClose}
+                />
+              </>
             ) : (
               <div className="flex flex-col items-center justify-center py-8 text-gray-500">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-gray-300 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9.172 16.172a4 4 0 015.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                <p>No products found</p>
+                <p>No matching names. Press Enter to search descriptions too.</p>
               </div>
             )}
+            <button
+              type="button"
+              onClick={() => runSearch(query)}
+              className="w-full text-left px-4 py-3 border-t border-gray-100 text-sm text-green-700 hover:bg-gray-50"
+            >
+              See all results for "{typed}"
+            </button>
           </div>
         )}
       </div>
     </div>
   );
 }
+
+function QueryChips({
+  title,
+  searches,
+  onPick,
+  onClear
+}: { title: string; searches: SearchQueryCount[]; onPick: (query: string) => void; onClear?: () => void }) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium text-gray-700">{title}</p>
+        {onClear && (
+          <button type="button" onClick={onClear} className="text-xs text-gray-500 hover:text-green-600">
+            Clear
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {searches.map(search => (
+          <button
+            key={search.query}
+            type="button"
+            onClick={() => onPick(search.query)}
+            className="text-sm px-3 py-1 rounded-full bg-gray-100 hover:bg-green-50 hover:text-green-700"
+          >
+            {search.query}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function SuggestionLinks({
+  title,
+  links,
+  onClose
+}: { title: string; links: { key: string; label: string; href: string }[]; onClose: () => void }) {
+  if (links.length === 0) return null;
+  return (
+    <div className="px-4 py-3 border-t border-gray-100">
+      <p className="text-xs uppercase tracking-wide text-gray-400 mb-2">{title}</p>
+      {links.map(link => (
+        <Link key={link.key} href={link.href} onClick={onClose} className="block py-1 text-gray-800 hover:text-green-600">
+          {link.label}
+        </Link>
+      ))}
+    </div>
+  );
+}
@@ -2,7 +2,9 @@ import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Link } from "wouter";
 import { useCart } from "@/hooks/useCart";
-import { Product } from "@shared/schema";
+import { useCoupon } from "@/hooks/useCoupon";
+import { useCartSummary } from "@/hooks/useCartSummary";
+import CartSummaryTotals from "@/components/cart/CartSummaryTotals";
 import { formatCurrency } from "@/lib/utils";
 import { Separator } from "@/components/ui/separator";
 import { useState } from "react";
@@ -37,7 +39,10 @@ const recommendedProducts = [
 ];
 
 export default function CartDrawer({ isOpen, onClose }: CartDrawerProps) {
-  const { cartItems, subtotal, removeItem, updateQuantity, isEmpty } = useCart();
+  const { cartItems, removeItem, updateQuantity, isEmpty } = useCart();
+  const { appliedCoupon } = useCoupon();
+  const { data: summary } = useCartSummary({ couponCodes: appliedCoupon?.codes }, isOpen);
+  const summaryLines = new Map((summary?.lines || []).map(line => [line.itemId, line]));
   const [recIndex, setRecIndex] = useState(0);
 
   const showRecommendations = isEmpty;
@@ -118,81 +123,79 @@ export default function CartDrawer({ isOpen, onClose }: CartDrawerProps) {
             </>
           ) : (
             <div className="divide-y divide-border">
-              {cartItems.map((item) => (
-                <div key={item.id} className="p-4">
-                  <div className="flex space-x-4">
-                    <div className="flex-shrink-0 w-20 h-20 bg-muted rounded-md overflow-hidden">
-                      <img
-                        src={item.product.imageUrl}
-                        alt={item.product.name}
-                        className="w-full h-full object-cover object-center"
-                      />
-                    </div>
-                    <div className="flex-1 flex flex-col">
-                      <div className="flex justify-between">
-                        <Link 
-                          href={`/products/${item.product.slug}`}
-                          className="font-heading text-sm text-primary hover:text-primary-light line-clamp-2"
-                          onClick={onClose}
-                        >
-                          {item.product.name}
-                        </Link>
-                        <button
-                          onClick={() => removeItem(item.id)}
-                          className="text-muted-foreground hover:text-foreground"
-                          aria-label="Remove item"
-                        >
-                          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                          </svg>
-                        </button>
+              {cartItems.map((item) => {
+                const line = summaryLines.get(String(item.id));
+                return (
+                  <div key={item.id} className="p-4">
+                    <div className="flex space-x-4">
+                      <div className="flex-shrink-0 w-20 h-20 bg-muted rounded-md overflow-hidden">
+                        <img
+                          src={item.product.imageUrl}
+                          alt={item.product.name}
+                          className="w-full h-full object-cover object-center"
+                        />
                       </div>
-                      <p className="text-xs text-muted-foreground mb-auto">
-                        {formatCurrency(item.product.price)}
-                      </p>
-                      <div className="flex justify-between items-center mt-2">
-                        <div className="flex items-center border border-border rounded-md">
-                          <button
-                            onClick={() => updateQuantity(item.id, item.quantity - 1)}
-                            className="w-7 h-7 flex items-center justify-center text-foreground"
-                            disabled={item.quantity <= 1}
-                            aria-label="Decrease quantity"
+                      <div className="flex-1 flex flex-col">
+                        <div className="flex justify-between">
+                          <Link 
+                            href={`/products/${item.product.slug}`}
+                            className="font-heading text-sm text-primary hover:text-primary-light line-clamp-2"
+                            onClick={onClose}
                           >
-                            <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
-                            </svg>
-                          </button>
-                          <span className="w-8 text-center text-sm">{item.quantity}</span>
+                            {item.product.name}
+                          </Link>
                           <button
-                            onClick={() => updateQuantity(item.id, item.quantity + 1)}
-                            className="w-7 h-7 flex items-center justify-center text-foreground"
-                            aria-label="Increase quantity"
+                            onClick={() => removeItem(item.id)}
+                            className="text-muted-foreground hover:text-foreground"
+                            aria-label="Remove item"
                           >
-                            <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                             </svg>
                           </button>
                         </div>
-                        <p className="font-medium text-foreground">
-                          {formatCurrency(item.product.price * item.quantity)}
+                        {item.variantLabel && <p className="text-xs text-muted-foreground">{item.variantLabel}</p>}
+                        <p className="text-xs text-muted-foreground mb-auto">
+                          {line ? (line.isFree ? "Free" : formatCurrency(line.unitPrice)) : "..."}
                         </p>
+                        <div className="flex justify-between items-center mt-2">
+                          <div className="flex items-center border border-border rounded-md">
+                            <button
+                              onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                              className="w-7 h-7 flex items-center justify-center text-foreground"
+                              disabled={item.quantity <= 1}
+                              aria-label="Decrease quantity"
+                            >
+                              <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
+                              </svg>
+                            </button>
+                            <span className="w-8 text-center text-sm">{item.quantity}</span>
+                            <button
+                              onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                              className="w-7 h-7 flex items-center justify-center text-foreground"
+                              aria-label="Increase quantity"
+                            >
+                              <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                              </svg>
+                            </button>
+                          </div>
+                          <p className="font-medium text-foreground">
+                            {line ? (line.isFree ? "Free" : formatCurrency(line.lineTotal)) : "..."}
+                          </p>
+                        </div>
                       </div>
                     </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </div>
         {!isEmpty && (
           <div className="border-t border-border mt-auto p-4 space-y-4">
-            <div className="flex justify-between items-center font-medium">
-              <span>Subtotal</span>
-              <span>{formatCurrency(subtotal)}</span>
-            </div>
-            <p className="text-xs text-muted-foreground">
-              Shipping, taxes, and discounts calculated at checkout
-            </p>
+            <CartSummaryTotals summary={summary} />
             <Separator />
             <Button
               className="w-full bg-primary hover:bg-primary-light text-white uppercase tracking-wider py-6 font-medium"
@@ -7,8 +7,12 @@ import { useQuery } from "@tanstack/react-query";
 import { Product } from "@/types/product";
 import OffersPopup from "@/components/offers/OffersPopup";
 import { useCoupon } from "@/hooks/useCoupon";
-import { useAuth } from "@/hooks/useAuth";
+import { getCartSummaryUrl, useCartSummary } from "@/hooks/useCartSummary";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { CartSummary } from "@shared/schema";
 import AuthModal from "../common/AuthModal";
+import CartSummaryTotals from "@/components/cart/CartSummaryTotals";
 
 interface MiniCartProps {
   isOpen: boolean;
@@ -16,8 +20,11 @@ interface MiniCartProps {
 }
 
 export default function MiniCart({ isOpen, onClose }: MiniCartProps) {
-  const { cartItems, updateQuantity, removeItem } = useCart();
-  const { applyCoupon } = useCoupon();
+  const { cartId, cartItems, updateQuantity, removeItem } = useCart();
+  const { appliedCoupon, applyCoupon } = useCoupon();
+  const { toast } = useToast();
+  const { data: summary } = useCartSummary({ couponCodes: appliedCoupon?.codes }, isOpen);
+  const summaryLines = new Map((summary?.lines || []).map(line => [line.itemId, line]));
   const [offersPopupOpen, setOffersPopupOpen] = useState(false);
   const [authModalOpen, setAuthModalOpen] = useState(false);
 
@@ -38,13 +45,28 @@ export default function MiniCart({ isOpen, onClose }: MiniCartProps) {
 
   if (!isOpen) return null;
 
+  // The cart summary checks the code together with any already applied, the same way checkout will
   const handleApplyCoupon = async (code: string) => {
-    const subtotal = cartItems.reduce((sum, item) =>
-      sum + (item.product && typeof item.product.price === 'number' ? item.product.price * item.quantity : 0)
-    , 0);
-    
-    applyCoupon(code, subtotal * 0.1); // Example discount calculation
     setOffersPopupOpen(false);
+    if (!cartId) return;
+    const codes = Array.from(new Set([...(appliedCoupon?.codes || []), code.trim().toUpperCase()]));
+    try {
+      const res = await apiRequest("GET", getCartSummaryUrl(cartId, { couponCodes: codes }));
+      const priced: CartSummary = await res.json();
+      if (priced.couponError) {
+        toast({ title: "Coupon not applied", description: priced.couponError, variant: "destructive" });
+        return;
+      }
+      applyCoupon(
+        priced.couponCodes,
+        priced.couponDiscount,
+        undefined,
+        priced.coupons.map(coupon => ({ code: coupon.code, discountValue: coupon.discount }))
+      );
+      toast({ title: "Coupon applied", description: `Coupon ${code} has been applied to your cart.` });
+    } catch {
+      toast({ title: "Coupon not applied", description: "This coupon could not be applied.", variant: "destructive" });
+    }
   };
 
   const handleApplyVoucher = async (code: string) => {
@@ -146,72 +168,81 @@ export default function MiniCart({ isOpen, onClose }: MiniCartProps) {
               </div>
             </>
           ) : (
-            cartItems.map((item) => (
-              <div key={item.id} className="flex items-center space-x-3 py-2">
-                {item.product && item.product.imageUrl ? (
-                  <img
-                    src={item.product.imageUrl}
-                    alt={item.product.name}
-                    className="w-12 h-12 object-cover rounded"
-                  />
-                ) : (
-                  <div className="w-12 h-12 bg-gray-200 rounded" />
-                )}
-                <div className="flex-1">
-                  <Link href={`/products/${item.product?.slug ?? ""}`} onClick={onClose}>
-                    <h4 className="text-sm font-medium text-gray-900">{item.product?.name ?? "Unknown Product"}</h4>
-                  </Link>
-                  {!item.product?.isFreeProduct ? (
-                    <div className="flex items-center gap-2 mt-1">
-                      <button
-                        className="w-6 h-6 flex items-center justify-center border rounded text-gray-600 hover:bg-gray-100"
-                        aria-label="Decrease quantity"
-                        onClick={() => updateQuantity(item.id, item.quantity - 1)}
-                        disabled={item.quantity <= 1}
-                      >
-                        -
-                      </button>
-                      <span className="px-2 text-sm">{item.quantity}</span>
-                      <button
-                        className="w-6 h-6 flex items-center justify-center border rounded text-gray-600 hover:bg-gray-100"
-                        aria-label="Increase quantity"
-                        onClick={() => updateQuantity(item.id, item.quantity + 1)}
-                      >
-                        +
-                      </button>
-                      <button
-                        className="ml-2 text-red-500 hover:text-red-700"
-                        aria-label="Remove item"
-                        onClick={() => removeItem(item.id)}
-                      >
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                        </svg>
-                      </button>
-                    </div>
+            cartItems.map((item) => {
+              const line = summaryLines.get(String(item.id));
+              return (
+                <div key={item.id} className="flex items-center space-x-3 py-2">
+                  {item.product && item.product.imageUrl ? (
+                    <img
+                      src={item.product.imageUrl}
+                      alt={item.product.name}
+                      className="w-12 h-12 object-cover rounded"
+                    />
                   ) : (
-                    <div className="flex items-center gap-2 mt-1">
-                      <span className="text-xs text-primary font-medium">Free Product</span>
-                      <button
-                        className="ml-2 text-red-500 hover:text-red-700"
-                        aria-label="Remove item"
-                        onClick={() => removeItem(item.id)}
-                      >
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                        </svg>
-                      </button>
-                    </div>
+                    <div className="w-12 h-12 bg-gray-200 rounded" />
                   )}
-                  <p className="text-xs text-gray-500">
-                    {item.quantity} &times; {item.product?.isFreeProduct ? "Free" : formatCurrency(item.product?.price ?? 0)}
+                  <div className="flex-1">
+                    <Link href={`/products/${item.product?.slug ?? ""}`} onClick={onClose}>
+                      <h4 className="text-sm font-medium text-gray-900">{item.product?.name ?? "Unknown Product"}</h4>
+                    </Link>
+                    {item.variantLabel && <p className="text-xs text-gray-500">{item.variantLabel}</p>}
+                    {!item.product?.isFreeProduct ? (
+                      <div className="flex items-center gap-2 mt-1">
+                        <button
+                          className="w-6 h-6 flex items-center justify-center border rounded text-gray-600 hover:bg-gray-100"
+                          aria-label="Decrease quantity"
+                          onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                          disabled={item.quantity <= 1}
+                        >
+                          -
+                        </button>
+                        <span className="px-2 text-sm">{item.quantity}</span>
+                        <button
+                          className="w-6 h-6 flex items-center justify-center border rounded text-gray-600 hover:bg-gray-100"
+                          aria-label="Increase quantity"
+                          onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                        >
+                          +
+                        </button>
+                        <button
+                          className="ml-2 text-red-500 hover:text-red-700"
+                          aria-label="Remove item"
+                          onClick={() => removeItem(item.id)}
+                        >
+                          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2 mt-1">
+                        <span className="text-xs text-primary font-medium">Free Product</span>
+                        <button
+                          className="ml-2 text-red-500 hover:text-red-700"
+                          aria-label="Remove item"
+                          onClick={() => removeItem(item.id)}
+                        >
+                          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      </div>
+                    )}
+                    {line && (
+                      <p className="text-xs text-gray-500">
+                        {item.quantity} &times; {line.isFree ? "Free" : formatCurrency(line.unitPrice)}
+                        {line.saleDiscount > 0 && (
+                          <span className="ml-1 line-through">{formatCurrency(line.listPrice)}</span>
+                        )}
+                      </p>
+                    )}
+                  </div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {line ? (line.isFree ? "Free" : formatCurrency(line.lineTotal)) : "..."}
                   </p>
                 </div>
-                <p className="text-sm font-medium text-gray-900">
-                  {item.product?.isFreeProduct ? "Free" : formatCurrency((item.product?.price ?? 0) * item.quantity)}
-                </p>
-              </div>
-            ))
+              );
+            })
           )}
         </div>
         {/* Sticky Footer for Cart Items */}
@@ -228,13 +259,8 @@ export default function MiniCart({ isOpen, onClose }: MiniCartProps) {
               APPLY OFFERS
             </button>
             
-            {/* Subtotal with border */}
-            <div className="flex justify-between items-center font-medium mb-4 py-3 border-y border-gray-200">
-              <span>Subtotal</span>
-              <span>{formatCurrency(cartItems.reduce((sum, item) =>
-                sum + (item.product && typeof item.product.price === 'number' ? item.product.price * item.quantity : 0)
-              , 0))}</span>
-            </div>
+            {/* Totals, as the server prices the cart */}
+            <CartSummaryTotals summary={summary} className="mb-4 py-3 border-y border-gray-200" />
             
             {/* Checkout button */}
             <Link href="/checkout">
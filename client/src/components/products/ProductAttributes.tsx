@@ -0,0 +1,115 @@
+import type { ProductAttributes } from "@shared/attributes";
+import {
+  certificationLabels,
+  concernLabels,
+  formatVolume,
+  getUsageSteps,
+  hairTypeLabels,
+  skinTypeLabels,
+} from "@shared/attributes";
+import { Badge } from "@/components/ui/badge";
+
+const labelled = (values: string[], labels: Record<string, string>) =>
+  values.map(value => labels[value]).filter(Boolean);
+
+export function hasIngredients(attributes?: ProductAttributes) {
+  return (attributes?.ingredients.length || 0) > 0;
+}
+
+export function hasUsage(attributes?: ProductAttributes) {
+  return getUsageSteps(attributes?.usage).length > 0 || !!attributes?.volume || !!attributes?.shelfLifeMonths;
+}
+
+// Certification badges and who the product suits, shown beside the price
+export function ProductHighlights({ attributes }: { attributes?: ProductAttributes }) {
+  if (!attributes) return null;
+  const certifications = labelled(attributes.certifications, certificationLabels);
+  const suitability = [
+    { title: "Skin type", values: labelled(attributes.skinTypes, skinTypeLabels) },
+    { title: "Hair type", values: labelled(attributes.hairTypes, hairTypeLabels) },
+    { title: "Good for", values: labelled(attributes.concerns, concernLabels) },
+  ].filter(row => row.values.length > 0);
+  if (certifications.length === 0 && suitability.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-3">
+      {certifications.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {certifications.map(label => (
+            <Badge key={label} variant="outline" className="border-primary text-primary font-normal">{label}</Badge>
+          ))}
+        </div>
+      )}
+      {suitability.length > 0 && (
+        <dl className="text-sm text-neutral-gray space-y-1">
+          {suitability.map(row => (
+            <div key={row.title} className="flex gap-2">
+              <dt className="font-medium text-primary">{row.title}:</dt>
+              <dd>{row.values.join(", ")}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
+
+// Key ingredients with what they do, then the full list as printed on the label
+export function ProductIngredients({ attributes }: { attributes: ProductAttributes }) {
+  const keyIngredients = attributes.ingredients.filter(ingredient => ingredient.isKey);
+  return (
+    <div className="space-y-6 text-neutral-gray">
+      {keyIngredients.length > 0 && (
+        <div>
+          <h3 className="text-primary font-heading text-lg mb-3">Key Ingredients</h3>
+          <ul className="grid gap-4 md:grid-cols-2">
+            {keyIngredients.map(ingredient => (
+              <li key={ingredient.name} className="border border-neutral-sand p-4">
+                <p className="font-medium text-primary">{ingredient.name}</p>
+                {ingredient.inciName && <p className="text-xs italic">{ingredient.inciName}</p>}
+                {ingredient.benefit && <p className="text-sm mt-2">{ingredient.benefit}</p>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div>
+        <h3 className="text-primary font-heading text-lg mb-2">Full Ingredient List</h3>
+        <p className="text-sm">
+          {attributes.ingredients
+            .map(ingredient => ingredient.inciName ? `${ingredient.name} (${ingredient.inciName})` : ingredient.name)
+            .join(", ")}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// Usage steps, and the pack size and shelf life
+export function ProductUsage({ attributes }: { attributes: ProductAttributes }) {
+  const steps = getUsageSteps(attributes.usage);
+  const details = [
+    { title: "Net quantity", value: formatVolume(attributes.volume) },
+    { title: "Shelf life", value: attributes.shelfLifeMonths ? `${attributes.shelfLifeMonths} months from manufacture` : "" },
+  ].filter(detail => detail.value);
+
+  return (
+    <div className="prose prose-sm max-w-none text-neutral-gray">
+      {steps.length > 0 && (
+        <ol>
+          {steps.map((step, index) => <li key={index}>{step}</li>)}
+        </ol>
+      )}
+      {details.length > 0 && (
+        <dl className="not-prose text-sm space-y-1 mt-4">
+          {details.map(detail => (
+            <div key={detail.title} className="flex gap-2">
+              <dt className="font-medium text-primary">{detail.title}:</dt>
+              <dd>{detail.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { Link } from "wouter";
 import { Product } from "@shared/schema";
 import RatingStars from "./RatingStars";
 import PromoTimerBadge from "./PromoTimerBadge";
+import WishlistButton from "./WishlistButton";
 import { useCart } from "@/hooks/useCart";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
@@ -49,15 +50,21 @@ export default function ProductCard({ product, showAddToCart = false }: ProductC
 
   const discountPercentage = calculateDiscountPercentage();
 
-  // Find promo timer for this product
-  const promoTimers = (window as any).PROMO_TIMERS as { productId: string; endTime: string; enabled: boolean }[] | undefined;
-  const promoTimer = promoTimers?.find(t => t.enabled && (t.productId === product._id || t.productId === product.slug));
+  // A running flash sale counts down to its end; otherwise look for a plain promo timer that has started
+  const promoTimers = (window as any).PROMO_TIMERS as { productId?: string; startTime?: string; endTime: string; enabled: boolean }[] | undefined;
+  const promoTimer = promoTimers?.find(t =>
+    t.enabled &&
+    (t.productId === product._id || t.productId === product.slug) &&
+    (!t.startTime || new Date(t.startTime).getTime() <= Date.now())
+  );
 
   return (
     <div className="product-card bg-white border border-neutral-sand hover:shadow-lg transition-all duration-300 flex flex-col h-full">
       <div className="relative pt-6 px-6 flex flex-col items-center">
         {/* Promo Timer Badge */}
-        {promoTimer && <PromoTimerBadge endTime={promoTimer.endTime} />}
+        {product.flashSale ? (
+          <PromoTimerBadge endTime={String(product.flashSale.endTime)} label={product.flashSale.name} />
+        ) : promoTimer && <PromoTimerBadge endTime={promoTimer.endTime} />}
         {/* Badge */}
         {product.isNew && (
           <span className="absolute top-2 left-2 bg-[#A72B1D] text-white text-xs px-2 py-1 uppercase tracking-wider z-10 rounded">
@@ -76,11 +83,7 @@ export default function ProductCard({ product, showAddToCart = false }: ProductC
           </span>
         )}
         {/* Wishlist Heart */}
-        <button className="absolute top-14 right-2 p-1 rounded-full hover:bg-neutral-cream transition-colors group" aria-label="Add to Wishlist">
-          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-neutral-gray group-hover:text-primary" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 016.364 0L12 7.636l1.318-1.318a4.5 4.5 0 116.364 6.364L12 21.364l-7.682-7.682a4.5 4.5 0 010-6.364z" />
-          </svg>
-        </button>
+        <WishlistButton product={product} className="absolute top-14 right-2" />
         {/* Video Icon - show only if videoUrl exists */}
         {product.videoUrl && (
           <button
@@ -0,0 +1,93 @@
+import { ProductSearchResult } from "@shared/schema";
+import { ListingQuery } from "@shared/listing";
+import ProductCard from "@/components/products/ProductCard";
+import SearchFacets from "@/components/products/SearchFacets";
+import { Button } from "@/components/ui/button";
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/components/ui/select";
+
+interface ProductListingProps {
+  result?: ProductSearchResult;
+  isLoading: boolean;
+  query: ListingQuery;
+  onChange: (changes: Partial<ListingQuery>) => void;
+  hideCategories?: boolean;
+  hideCollections?: boolean;
+  emptyMessage?: string;
+}
+
+// The body of a category, collection or search page: count and sort, facets,
+// the product grid and page links. The server sorts, filters and pages.
+export default function ProductListing({
+  result,
+  isLoading,
+  query,
+  onChange,
+  hideCategories = false,
+  hideCollections = false,
+  emptyMessage = "No products match these filters.",
+}: ProductListingProps) {
+  if (isLoading && !result) {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-6">
+        {Array.from({ length: 8 }).map((_, i) => (
+          <div key={i} className="border border-neutral-sand p-6 animate-pulse">
+            <div className="mb-4 w-full h-64 bg-neutral-sand"></div>
+            <div className="w-full h-5 bg-neutral-sand mb-1"></div>
+            <div className="w-16 h-4 bg-neutral-sand"></div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const products = result?.products ?? [];
+  const goToPage = (page: number) => {
+    onChange({ page });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  return (
+    <>
+      <div className="flex flex-col md:flex-row justify-between items-center mb-8">
+        <p className="text-neutral-gray mb-4 md:mb-0">{result?.total ?? 0} products</p>
+        <Select value={query.sort ?? result?.sort} onValueChange={value => onChange({ sort: value as ListingQuery["sort"] })}>
+          <SelectTrigger className="w-[180px]"><SelectValue placeholder="Sort by" /></SelectTrigger>
+          <SelectContent>
+            {(result?.sortOptions ?? []).map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex flex-col md:flex-row gap-8">
+        {result && (
+          <SearchFacets
+            facets={result.facets}
+            query={query}
+            onChange={onChange}
+            hideCategories={hideCategories}
+            hideCollections={hideCollections}
+          />
+        )}
+        <div className="flex-1">
+          {products.length === 0 ? (
+            <p className="text-center text-neutral-gray py-12">{emptyMessage}</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {products.map(product => (
+                <ProductCard key={product._id!} product={product} showAddToCart />
+              ))}
+            </div>
+          )}
+          {result && result.totalPages > 1 && (
+            <div className="flex justify-center items-center gap-4 mt-10">
+              <Button variant="outline" disabled={result.page <= 1} onClick={() => goToPage(result.page - 1)}>Previous</Button>
+              <span className="text-neutral-gray text-sm">Page {result.page} of {result.totalPages}</span>
+              <Button variant="outline" disabled={result.page >= result.totalPages} onClick={() => goToPage(result.page + 1)}>Next</Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -2,6 +2,8 @@ import { useEffect, useState } from "react";
 
 interface PromoTimerBadgeProps {
   endTime: string;
+  // Shown before the countdown, e.g. the flash sale's name
+  label?: string;
 }
 
 function getTimeLeft(endTime: string) {
@@ -13,7 +15,7 @@ function getTimeLeft(endTime: string) {
   return { hours, minutes, seconds };
 }
 
-export default function PromoTimerBadge({ endTime }: PromoTimerBadgeProps) {
+export default function PromoTimerBadge({ endTime, label }: PromoTimerBadgeProps) {
   const [timeLeft, setTimeLeft] = useState(() => getTimeLeft(endTime));
 
   useEffect(() => {
@@ -30,6 +32,7 @@ export default function PromoTimerBadge({ endTime }: PromoTimerBadgeProps) {
   return (
     <div className="absolute top-2 left-2 z-30 bg-[#8b5cf6] text-white text-xs px-3 py-1 rounded shadow flex items-center gap-1 border-2 border-[#a78bfa] font-semibold" style={{letterSpacing:1}}>
       <svg width="16" height="16" fill="none" viewBox="0 0 24 24" stroke="#fff" strokeWidth="2" className="mr-1"><path d="M12 8v4l3 1"/><circle cx="12" cy="12" r="9"/></svg>
+      {label && <span className="mr-1">{label}</span>}
       {timeLeft.hours}h {timeLeft.minutes}m {timeLeft.seconds}s
     </div>
   );
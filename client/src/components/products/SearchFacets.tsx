@@ -0,0 +1,143 @@
+import type { ProductSearchFacets, SearchFacetValue } from "@shared/schema";
+import { ListingQuery, hasListingFilters } from "@shared/listing";
+import { attributeFacets } from "@shared/attributes";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { formatCurrency } from "@/lib/utils";
+
+interface SearchFacetsProps {
+  facets: ProductSearchFacets;
+  query: ListingQuery;
+  onChange: (changes: Partial<ListingQuery>) => void;
+  // A category or collection page is already narrowed to it
+  hideCategories?: boolean;
+  hideCollections?: boolean;
+}
+
+const toggle = (ids: string[], id: string) => (ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id]);
+
+function FacetGroup({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="border-b border-neutral-sand pb-4 mb-4">
+      <h3 className="font-medium text-primary mb-3">{title}</h3>
+      <div className="space-y-2">{children}</div>
+    </div>
+  );
+}
+
+function ValueList({ values, selected, onToggle }: { values: SearchFacetValue[]; selected: string[]; onToggle: (id: string) => void }) {
+  return (
+    <>
+      {values.map(value => (
+        <label key={value._id} className="flex items-center gap-2 text-sm cursor-pointer">
+          <Checkbox checked={selected.includes(value._id)} onCheckedChange={() => onToggle(value._id)} />
+          <span className="flex-1">{value.name}</span>
+          <span className="text-neutral-gray">{value.count}</span>
+        </label>
+      ))}
+    </>
+  );
+}
+
+// Filters for a product listing, with how many products each choice leaves
+export default function SearchFacets({ facets, query, onChange, hideCategories = false, hideCollections = false }: SearchFacetsProps) {
+  const isPriceRange = (min: number, max: number | null) =>
+    query.minPrice === min && query.maxPrice === (max ?? undefined);
+  const clearAll = () => onChange({
+    categoryId: [], collectionId: [], minPrice: undefined, maxPrice: undefined, minRating: undefined, inStock: false,
+    skinType: [], hairType: [], concern: [], certification: [],
+  });
+
+  return (
+    <aside className="w-full md:w-64 flex-shrink-0">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="font-heading text-lg text-primary">Filter</h2>
+        {hasListingFilters(query) && (
+          <Button variant="link" size="sm" className="px-0" onClick={clearAll}>
+            Clear all
+          </Button>
+        )}
+      </div>
+
+      <FacetGroup title="Availability">
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <Checkbox checked={query.inStock} onCheckedChange={checked => onChange({ inStock: checked === true })} />
+          <span className="flex-1">In stock only</span>
+          <span className="text-neutral-gray">{facets.availability.inStock}</span>
+        </label>
+      </FacetGroup>
+
+      {facets.price.ranges.length > 0 && (
+        <FacetGroup title="Price">
+          {facets.price.ranges.map(range => (
+            <label key={range.min} className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={isPriceRange(range.min, range.max)}
+                onCheckedChange={() => isPriceRange(range.min, range.max)
+                  ? onChange({ minPrice: undefined, maxPrice: undefined })
+                  : onChange({ minPrice: range.min, maxPrice: range.max ?? undefined })}
+              />
+              <span className="flex-1">
+                {range.max === null ? `${formatCurrency(range.min)} and above` : `${formatCurrency(range.min)} - ${formatCurrency(range.max)}`}
+              </span>
+              <span className="text-neutral-gray">{range.count}</span>
+            </label>
+          ))}
+        </FacetGroup>
+      )}
+
+      {!hideCategories && facets.categories.length > 0 && (
+        <FacetGroup title="Category">
+          <ValueList
+            values={facets.categories}
+            selected={query.categoryId}
+            onToggle={id => onChange({ categoryId: toggle(query.categoryId, id) })}
+          />
+        </FacetGroup>
+      )}
+
+      {!hideCollections && facets.collections.length > 0 && (
+        <FacetGroup title="Collection">
+          <ValueList
+            values={facets.collections}
+            selected={query.collectionId}
+            onToggle={id => onChange({ collectionId: toggle(query.collectionId, id) })}
+          />
+        </FacetGroup>
+      )}
+
+      {attributeFacets.map(facet => {
+        const values = facets.attributes[facet.key];
+        const selected: string[] = query[facet.param];
+        if (values.length === 0) return null;
+        return (
+          <FacetGroup key={facet.key} title={facet.title}>
+            {values.map(value => (
+              <label key={value.value} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={selected.includes(value.value)}
+                  onCheckedChange={() => onChange({ [facet.param]: toggle(selected, value.value) } as Partial<ListingQuery>)}
+                />
+                <span className="flex-1">{value.label}</span>
+                <span className="text-neutral-gray">{value.count}</span>
+              </label>
+            ))}
+          </FacetGroup>
+        );
+      })}
+
+      <FacetGroup title="Rating">
+        {facets.ratings.map(rating => (
+          <label key={rating.min} className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox
+              checked={query.minRating === rating.min}
+              onCheckedChange={() => onChange({ minRating: query.minRating === rating.min ? undefined : rating.min })}
+            />
+            <span className="flex-1">{rating.min} stars & up</span>
+            <span className="text-neutral-gray">{rating.count}</span>
+          </label>
+        ))}
+      </FacetGroup>
+    </aside>
+  );
+}
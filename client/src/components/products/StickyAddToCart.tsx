@@ -1,14 +1,26 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import VariantSelector from "@/components/products/VariantSelector";
 
 interface StickyAddToCartProps {
-  product: any;
+  product: any; // shown as the selected variant
   quantity: number;
   setQuantity: (q: number) => void;
   onAddToCart: () => void;
+  selectedOptions?: Record<string, string>;
+  onSelectOption?: (name: string, value: string) => void;
+  disabled?: boolean;
 }
 
-export default function StickyAddToCart({ product, quantity, setQuantity, onAddToCart }: StickyAddToCartProps) {
+export default function StickyAddToCart({
+  product,
+  quantity,
+  setQuantity,
+  onAddToCart,
+  selectedOptions = {},
+  onSelectOption,
+  disabled = false,
+}: StickyAddToCartProps) {
   const [visible, setVisible] = useState(true);
 
   // Show only if product is loaded
@@ -26,6 +38,9 @@ export default function StickyAddToCart({ product, quantity, setQuantity, onAddT
           <div className="font-semibold truncate text-base text-primary">{product.name}</div>
           <div className="text-base font-bold text-green-700 md:text-lg">₹{product.price}</div>
         </div>
+        {onSelectOption && (
+          <VariantSelector product={product} selected={selectedOptions} onSelect={onSelectOption} compact />
+        )}
         <div className="hidden md:flex items-center gap-2">
           <button
             className="w-10 h-10 md:w-8 md:h-8 rounded-full bg-neutral-100 flex items-center justify-center text-lg font-bold text-primary border hover:bg-neutral-200"
@@ -45,6 +60,7 @@ export default function StickyAddToCart({ product, quantity, setQuantity, onAddT
           size="lg"
           className="h-[80px] md:h-12 ml-0 md:ml-4 px-4 md:px-8 bg-primary hover:bg-primary-dark text-white font-bold shadow-md w-full md:w-auto"
           onClick={onAddToCart}
+          disabled={disabled}
         >
           Add to Cart
         </Button>
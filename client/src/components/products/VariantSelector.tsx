@@ -0,0 +1,87 @@
+import type { Product } from "@shared/schema";
+import { findVariantByOptions } from "@shared/variants";
+
+type SelectedOptions = Record<string, string>;
+
+interface VariantSelectorProps {
+  product: Product;
+  selected: SelectedOptions;
+  onSelect: (name: string, value: string) => void;
+  // Dropdowns instead of buttons, for the sticky add-to-cart bar
+  compact?: boolean;
+}
+
+// The selection after picking a value. When no variant pairs it with the other
+// picks, the selection moves to the first variant that has the value.
+export function pickOption(product: Product, selected: SelectedOptions, name: string, value: string): SelectedOptions {
+  const next = { ...selected, [name]: value };
+  if (findVariantByOptions(product, next)) return next;
+  const fallback = (product.variants || []).find(variant => variant.options[name] === value);
+  return fallback ? { ...fallback.options } : next;
+}
+
+export default function VariantSelector({ product, selected, onSelect, compact = false }: VariantSelectorProps) {
+  const options = product.options || [];
+  if (options.length === 0) return null;
+
+  const variantFor = (name: string, value: string) => findVariantByOptions(product, { ...selected, [name]: value });
+
+  if (compact) {
+    return (
+      <div className="flex gap-2">
+        {options.map(option => (
+          <select
+            key={option.name}
+            aria-label={option.name}
+            value={selected[option.name] || ""}
+            onChange={e => onSelect(option.name, e.target.value)}
+            className="border border-neutral-sand rounded px-2 py-1 text-sm bg-white"
+          >
+            {option.values.map(value => {
+              const variant = variantFor(option.name, value);
+              return (
+                <option key={value} value={value}>
+                  {value}{variant && variant.stock <= 0 ? " (sold out)" : ""}
+                </option>
+              );
+            })}
+          </select>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 mb-6">
+      {options.map(option => (
+        <div key={option.name}>
+          <p className="text-sm text-neutral-gray mb-2">
+            {option.name}: <span className="text-primary font-medium">{selected[option.name]}</span>
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {option.values.map(value => {
+              const variant = variantFor(option.name, value);
+              const isSelected = selected[option.name] === value;
+              const soldOut = !!variant && variant.stock <= 0;
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  aria-pressed={isSelected}
+                  onClick={() => onSelect(option.name, value)}
+                  className={`px-4 py-2 border rounded-md text-sm transition-colors ${
+                    isSelected
+                      ? "border-primary bg-primary text-white"
+                      : "border-neutral-sand text-foreground hover:border-primary"
+                  } ${soldOut ? "line-through opacity-60" : ""} ${variant ? "" : "border-dashed"}`}
+                >
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
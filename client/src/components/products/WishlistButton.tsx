@@ -0,0 +1,54 @@
+import { Product } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { getProductId, useWishlist } from "@/hooks/useWishlist";
+
+interface WishlistButtonProps {
+  product: Product;
+  className?: string;
+}
+
+export default function WishlistButton({ product, className = "" }: WishlistButtonProps) {
+  const { isWishlisted, toggleWishlist, isUpdating } = useWishlist();
+  const { toast } = useToast();
+  const saved = isWishlisted(getProductId(product));
+
+  const handleClick = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    try {
+      const added = await toggleWishlist(product);
+      toast({
+        title: added ? "Added to wishlist" : "Removed from wishlist",
+        description: added
+          ? `We'll let you know when ${product.name} drops in price or comes back in stock.`
+          : `${product.name} has been removed from your wishlist.`
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Could not update your wishlist. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      className={`p-1 rounded-full hover:bg-neutral-cream transition-colors group ${className}`}
+      aria-label={saved ? "Remove from Wishlist" : "Add to Wishlist"}
+      aria-pressed={saved}
+      disabled={isUpdating}
+      onClick={handleClick}
+    >
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        className={`h-6 w-6 ${saved ? "text-red-600" : "text-neutral-gray group-hover:text-primary"}`}
+        fill={saved ? "currentColor" : "none"}
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+      >
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 016.364 0L12 7.636l1.318-1.318a4.5 4.5 0 116.364 6.364L12 21.364l-7.682-7.682a4.5 4.5 0 010-6.364z" />
+      </svg>
+    </button>
+  );
+}
@@ -80,9 +80,11 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   // Login function
   const login = async (email: string, password: string): Promise<User> => {
     try {
+      // The guest session lets the server keep the shopper's guest wishlist
       const response = await apiRequest("POST", "/api/auth/login", {
         email,
         password,
+        sessionId: localStorage.getItem("cartSessionId"),
       });
       
       const rawUser = await response.json();
@@ -94,6 +96,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
       
       // Invalidate relevant queries
       queryClient.invalidateQueries({ queryKey: ['/api/cart'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/wishlist'] });
       
       return userData;
     } catch (error) {
@@ -113,6 +116,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
         name,
         email,
         password,
+        sessionId: localStorage.getItem("cartSessionId"),
       });
       
       const rawUser = await response.json();
@@ -121,6 +125,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
       // Store user data
       localStorage.setItem("user", JSON.stringify(userData));
       setUser(userData);
+      queryClient.invalidateQueries({ queryKey: ['/api/wishlist'] });
       
       return userData;
     } catch (error) {
@@ -139,6 +144,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
       setUser(null);
       // Invalidate relevant queries
       queryClient.invalidateQueries({ queryKey: ['/api/cart'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/wishlist'] });
     } catch (error) {
       console.error("Logout failed:", error);
       throw error;
@@ -1,37 +1,71 @@
 import { createContext, useState, useEffect, ReactNode } from "react";
-import { Product } from "@shared/schema";
+import { Product, ProductVariant } from "@shared/schema";
+import { applyVariant, getDefaultVariant, getVariantLabel } from "@shared/variants";
 import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
 
 interface CartItem {
   id: number;
+  // Shown as the variant the line holds: its price, stock and images
   product: Product;
   quantity: number;
+  variantId?: string;
+  variantLabel?: string;
 }
 
+// Automatic promotions for the current cart, as evaluated by /api/promotions/evaluate
+export interface CartPromotions {
+  subtotal: number;
+  discountAmount: number;
+  freeShipping: boolean;
+  couponBlockedBy: string | null;
+  applied: { promotionId: string; name: string; type: string; discount: number; freeShipping: boolean }[];
+  lines: { productId: string; quantity: number; price: number; discount: number }[];
+  freeGifts: Product[];
+}
+
+const NO_PROMOTIONS: CartPromotions = {
+  subtotal: 0,
+  discountAmount: 0,
+  freeShipping: false,
+  couponBlockedBy: null,
+  applied: [],
+  lines: [],
+  freeGifts: [],
+};
+
 interface CartContextType {
+  cartId: string | null;
+  cartVersion: number;
   cartItems: CartItem[];
-  addItem: (product: Product) => Promise<void>;
+  // Products with variants are added as the given variant, or their default one
+  addItem: (product: Product, variant?: ProductVariant) => Promise<void>;
   removeItem: (itemId: number) => Promise<void>;
   updateQuantity: (itemId: number, quantity: number) => Promise<void>;
   clearCart: () => Promise<void>;
-  subtotal: number;
+  // Fetch the cart again, e.g. after the server changed it
+  reloadCart: () => Promise<void>;
   totalItems: number;
   isEmpty: boolean;
   freeProducts: Product[];
   eligibleFreeProducts: Product[];
+  promotions: CartPromotions;
 }
 
 export const CartContext = createContext<CartContextType>({
+  cartId: null,
+  cartVersion: 0,
   cartItems: [],
   addItem: async () => {},
   removeItem: async () => {},
   updateQuantity: async () => {},
   clearCart: async () => {},
-  subtotal: 0,
+  reloadCart: async () => {},
   totalItems: 0,
   isEmpty: true,
   freeProducts: [],
   eligibleFreeProducts: [],
+  promotions: NO_PROMOTIONS,
 });
 
 interface CartProviderProps {
@@ -39,23 +73,48 @@ interface CartProviderProps {
 }
 
 export const CartProvider = ({ children }: CartProviderProps) => {
+  const { user, isLoading: authLoading } = useAuth();
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
   const [cartId, setCartId] = useState<string | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
+  // Bumped each time a change to the cart has been saved, so server-side prices can be refetched
+  const [cartVersion, setCartVersion] = useState(0);
+  const markSaved = () => setCartVersion(version => version + 1);
   const [freeProducts, setFreeProducts] = useState<Product[]>([]);
   const [eligibleFreeProducts, setEligibleFreeProducts] = useState<Product[]>([]);
+  // Promotions along with the cart contents they were evaluated for
+  const [promotionState, setPromotionState] = useState<{ key: string; promotions: CartPromotions }>({ key: "", promotions: NO_PROMOTIONS });
 
-  // Calculate derived values
-  const subtotal = cartItems.reduce(
-    (total, item) =>
-      total +
-      (item.product && typeof item.product.price === 'number'
-        ? item.product.price * item.quantity
-        : 0),
-    0
-  );
+  // What the cart costs is priced by the server; see useCartSummary
   const totalItems = cartItems.reduce((total, item) => total + item.quantity, 0);
   const isEmpty = cartItems.length === 0;
+  const paidItems = cartItems
+    .filter(item => item.product && !item.product.isFreeProduct)
+    .map(item => ({
+      productId: String((item.product as any)._id ?? (item.product as any).id),
+      variantId: item.variantId,
+      quantity: item.quantity,
+    }));
+  const paidItemsKey = paidItems.map(item => `${item.productId}:${item.variantId || ""}:${item.quantity}`).join(",");
+  const promotions = promotionState.key === paidItemsKey ? promotionState.promotions : NO_PROMOTIONS;
+
+  // Promotions and free gifts are worked out by the server, the same way checkout prices the order
+  useEffect(() => {
+    if (!paidItemsKey) {
+      setPromotionState({ key: "", promotions: NO_PROMOTIONS });
+      return;
+    }
+    let cancelled = false;
+    apiRequest("POST", "/api/promotions/evaluate", { items: paidItems })
+      .then(res => res.json())
+      .then((data: CartPromotions) => {
+        if (!cancelled) setPromotionState({ key: paidItemsKey, promotions: data });
+      })
+      .catch(error => console.error("Failed to evaluate promotions:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [paidItemsKey]);
 
   // Load free products
   useEffect(() => {
@@ -92,11 +151,11 @@ export const CartProvider = ({ children }: CartProviderProps) => {
     loadFreeProducts();
   }, []);
 
-  // Check for eligible free products when subtotal changes and manage free products
+  // Add and remove free gifts as the promotions evaluation for the cart changes
   useEffect(() => {
-    const eligible = freeProducts.filter(
-      (product) => product && typeof product.minOrderValue === 'number' && product.minOrderValue <= subtotal
-    );
+    // Wait until the evaluation matches what is in the cart
+    if (paidItemsKey && promotionState.key !== paidItemsKey) return;
+    const eligible = promotionState.promotions.freeGifts;
     setEligibleFreeProducts(eligible);
 
     // Get non-free items in cart
@@ -117,7 +176,7 @@ export const CartProvider = ({ children }: CartProviderProps) => {
       if (!product?._id) return;
       
       const isInCart = cartItems.some(
-        item => item.product?._id === product._id
+        item => item.product?.isFreeProduct && item.product._id === product._id
       );
 
       if (!isInCart) {
@@ -140,45 +199,47 @@ export const CartProvider = ({ children }: CartProviderProps) => {
         removeItem(item.id);
       }
     });
-  }, [subtotal, freeProducts, cartItems]);
+  }, [promotionState, paidItemsKey, cartItems]);
 
-  // Initialize cart on component mount
-  useEffect(() => {
-    const initializeCart = async () => {
-      try {
-        // Generate a unique session ID if we don't have one
-        let sessionId = localStorage.getItem("cartSessionId");
-        if (!sessionId) {
-          sessionId = `session_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-          localStorage.setItem("cartSessionId", sessionId);
-        }
+  const loadCart = async () => {
+    try {
+      // Generate a unique session ID if we don't have one
+      let sessionId = localStorage.getItem("cartSessionId");
+      if (!sessionId) {
+        sessionId = `session_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+        localStorage.setItem("cartSessionId", sessionId);
+      }
 
-        // Fetch cart from API
-        const response = await fetch(`/api/cart?sessionId=${sessionId}`, {
-          credentials: "include",
-        });
-        
-        if (response.ok) {
-          const data = await response.json();
-          setCartId(data.id);
-          
-          if (data.items && Array.isArray(data.items)) {
-            setCartItems(data.items);
-          }
-        }
-      } catch (error) {
-        console.error("Failed to initialize cart:", error);
-      } finally {
-        setIsInitialized(true);
+      // Fetch cart from API
+      const response = await fetch(`/api/cart?sessionId=${sessionId}`, {
+        credentials: "include",
+      });
+      
+      if (response.ok) {
+        const data = await response.json();
+        setCartId(data.id);
+        setCartItems(Array.isArray(data.items) ? data.items : []);
+        markSaved();
       }
-    };
+    } catch (error) {
+      console.error("Failed to initialize cart:", error);
+    } finally {
+      setIsInitialized(true);
+    }
+  };
 
-    initializeCart();
-  }, []);
+  // Load the cart on mount and whenever the shopper logs in or out. On login the
+  // server has already merged the guest cart into the user's, so adopt its id.
+  useEffect(() => {
+    if (authLoading) return;
+    loadCart();
+  }, [authLoading, user?.id]);
 
   // Add item to cart with optimistic updates
-  const addItem = async (product: Product) => {
+  const addItem = async (product: Product, chosenVariant?: ProductVariant) => {
     const previousItems = [...cartItems];
+    // Free gifts go in as whatever the server picks, their default variant
+    const variant = product.isFreeProduct ? undefined : chosenVariant || getDefaultVariant(product);
     try {
       // Ensure cartId is available before proceeding
       let currentCartId = cartId;
@@ -191,12 +252,13 @@ export const CartProvider = ({ children }: CartProviderProps) => {
       }
       if (!currentCartId) throw new Error("Cart ID not initialized");
 
-      // Find if the item already exists
+      // Find if the item already exists (a free gift is a separate line)
       const existingItemIndex = cartItems.findIndex(
         (item) => {
           const itemId = (item.product as any).id ?? (item.product as any)._id;
           const prodId = (product as any).id ?? (product as any)._id;
-          return itemId === prodId;
+          return itemId === prodId && item.variantId === variant?._id &&
+            !!item.product.isFreeProduct === !!product.isFreeProduct;
         }
       );
 
@@ -210,22 +272,29 @@ export const CartProvider = ({ children }: CartProviderProps) => {
         await apiRequest("PUT", `/api/cart/items/${cartItems[existingItemIndex].id}`, {
           quantity: updatedItems[existingItemIndex].quantity,
         });
+        markSaved();
       } else {
         // Create a temporary item for new addition
         const tempItem: CartItem = {
           id: Date.now(),
-          product,
+          product: applyVariant(product, variant),
           quantity: 1,
+          variantId: variant?._id,
+          variantLabel: getVariantLabel(product, variant) || undefined,
         };
         setCartItems([...cartItems, tempItem]);
 
-        // Add to API
+        // Add to API; free gifts are checked against the promotion that grants them
         const prodId = (product as any).id ?? (product as any)._id;
-        const response = await apiRequest("POST", "/api/cart/items", {
-          cartId: currentCartId,
-          productId: prodId,
-          quantity: 1,
-        });
+        const freeProductId = (product as { freeProductId?: string }).freeProductId;
+        const response = product.isFreeProduct && freeProductId
+          ? await apiRequest("POST", `/api/cart/${currentCartId}/add-free-product`, { productId: prodId, freeProductId })
+          : await apiRequest("POST", "/api/cart/items", {
+              cartId: currentCartId,
+              productId: prodId,
+              variantId: variant?._id,
+              quantity: 1,
+            });
         // Defensive: handle empty or invalid JSON
         let data: any = {};
         try {
@@ -239,6 +308,7 @@ export const CartProvider = ({ children }: CartProviderProps) => {
             item.id === tempItem.id ? { ...item, id: (data as any)?.id ?? item.id } : item
           )
         );
+        markSaved();
       }
     } catch (error) {
       console.error("Failed to add item to cart:", error);
@@ -259,6 +329,7 @@ export const CartProvider = ({ children }: CartProviderProps) => {
       // Remove from API
       if (cartId) {
         await apiRequest("DELETE", `/api/cart/items/${itemId}`, null);
+        markSaved();
       }
     } catch (error) {
       console.error("Failed to remove item from cart:", error);
@@ -288,6 +359,7 @@ export const CartProvider = ({ children }: CartProviderProps) => {
       // Update in API
       if (cartId) {
         await apiRequest("PUT", `/api/cart/items/${itemId}`, { quantity });
+        markSaved();
       }
     } catch (error) {
       console.error("Failed to update cart item quantity:", error);
@@ -317,6 +389,7 @@ export const CartProvider = ({ children }: CartProviderProps) => {
       // Clear in API
       if (cartId) {
         await apiRequest("DELETE", `/api/cart/${cartId}`, null);
+        markSaved();
       }
     } catch (error) {
       console.error("Failed to clear cart:", error);
@@ -328,16 +401,19 @@ export const CartProvider = ({ children }: CartProviderProps) => {
   return (
     <CartContext.Provider
       value={{
+        cartId,
+        cartVersion,
         cartItems,
         addItem,
         removeItem,
         updateQuantity,
         clearCart,
-        subtotal,
+        reloadCart: loadCart,
         totalItems,
         isEmpty,
         freeProducts,
         eligibleFreeProducts,
+        promotions,
       }}
     >
       {children}
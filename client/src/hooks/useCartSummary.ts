@@ -0,0 +1,40 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import type { CartSummary } from "@shared/schema";
+import { useCart } from "@/hooks/useCart";
+
+// What the summary is priced with besides the cart's lines
+export interface CartSummaryOptions {
+  couponCodes?: string[];
+  // Checkout email, so per-customer coupon limits can be checked for guests
+  email?: string;
+  giftCardCode?: string;
+  giftCardAmount?: number;
+  paymentMethod?: string;
+  // Delivery pincode, for cash on delivery eligibility
+  pincode?: string;
+}
+
+export function getCartSummaryUrl(cartId: string, options: CartSummaryOptions = {}) {
+  const params = new URLSearchParams();
+  if (options.couponCodes?.length) params.set("coupons", options.couponCodes.join(","));
+  if (options.email) params.set("email", options.email);
+  if (options.giftCardCode) params.set("giftCard", options.giftCardCode);
+  if (options.giftCardAmount) params.set("giftCardAmount", String(options.giftCardAmount));
+  if (options.paymentMethod) params.set("paymentMethod", options.paymentMethod);
+  if (options.pincode) params.set("pincode", options.pincode);
+  const query = params.toString();
+  return `/api/cart/${cartId}/summary${query ? `?${query}` : ""}`;
+}
+
+// The server's price breakdown of the cart. It is fetched again each time a cart
+// change is saved, and the last breakdown stays on screen while it loads.
+export function useCartSummary(options: CartSummaryOptions = {}, enabled = true) {
+  const { cartId, cartVersion } = useCart();
+  return useQuery<CartSummary>({
+    queryKey: [getCartSummaryUrl(cartId || "", options), cartVersion],
+    enabled: enabled && !!cartId,
+    // Sale prices and promotions change over time, so each time it is shown it is priced again
+    staleTime: 0,
+    placeholderData: keepPreviousData,
+  });
+}
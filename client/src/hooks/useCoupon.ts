@@ -1,22 +1,71 @@
-import { useState } from 'react';
+import { useCallback, useState } from 'react';
+
+// A coupon's saving on one cart line, as returned by /api/coupons/validate
+export interface CouponLineDiscount {
+  productId: string;
+  quantity: number;
+  lineTotal: number;
+  discount: number;
+}
+
+// One code in the applied set and what it saves
+export interface AppliedCouponCode {
+  code: string;
+  description?: string;
+  discountValue: number;
+}
 
 interface CouponState {
+  // Display label; several stacked codes are joined with " + "
   code: string;
+  codes: string[];
+  coupons: AppliedCouponCode[];
   discountValue: number;
+  lineDiscounts?: CouponLineDiscount[];
+}
+
+// Coupons saved before stacking only had a single code
+function readSavedCoupon(): CouponState | null {
+  const savedCoupon = localStorage.getItem('appliedCoupon');
+  if (!savedCoupon) return null;
+  try {
+    const parsed = JSON.parse(savedCoupon);
+    const codes: string[] = Array.isArray(parsed.codes) ? parsed.codes : [parsed.code].filter(Boolean);
+    if (codes.length === 0) return null;
+    return {
+      ...parsed,
+      code: codes.join(' + '),
+      codes,
+      coupons: Array.isArray(parsed.coupons)
+        ? parsed.coupons
+        : [{ code: codes[0], discountValue: parsed.discountValue || 0 }],
+    };
+  } catch {
+    return null;
+  }
 }
 
 export function useCoupon() {
-  const [appliedCoupon, setAppliedCoupon] = useState<CouponState | null>(() => {
-    // Check if we have a coupon in localStorage
-    const savedCoupon = localStorage.getItem('appliedCoupon');
-    return savedCoupon ? JSON.parse(savedCoupon) : null;
-  });
-
-  const applyCoupon = (code: string, discountValue: number) => {
-    const coupon = { code, discountValue };
+  const [appliedCoupon, setAppliedCoupon] = useState<CouponState | null>(readSavedCoupon);
+
+  // Stable across renders, so effects can depend on it
+  const applyCoupon = useCallback((
+    codes: string | string[],
+    discountValue: number,
+    lineDiscounts?: CouponLineDiscount[],
+    coupons?: AppliedCouponCode[]
+  ) => {
+    const codeList = Array.isArray(codes) ? codes : [codes];
+    const coupon: CouponState = {
+      code: codeList.join(' + '),
+      codes: codeList,
+      coupons: coupons || codeList.map(code => ({ code, discountValue: codeList.length === 1 ? discountValue : 0 })),
+      discountValue,
+      lineDiscounts,
+    };
     setAppliedCoupon(coupon);
     localStorage.setItem('appliedCoupon', JSON.stringify(coupon));
-  };
+  }, []);
 
   const removeCoupon = () => {
     setAppliedCoupon(null);
@@ -25,7 +74,7 @@ export function useCoupon() {
 
   const calculateDiscountedTotal = (subtotal: number): number => {
     if (!appliedCoupon) return subtotal;
-    
+
     // Ensure we don't discount below zero
     return Math.max(subtotal - appliedCoupon.discountValue, 0);
   };
@@ -36,4 +85,4 @@ export function useCoupon() {
     removeCoupon,
     calculateDiscountedTotal
   };
-} 
\ No newline at end of file
+}
@@ -0,0 +1,40 @@
+import { useMemo } from "react";
+import { useLocation, useSearch } from "wouter";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { ProductSearchResult } from "@shared/schema";
+import { ListingQuery, parseListingSearch, toListingSearch } from "@shared/listing";
+
+// A product listing's sort, filters and page, kept in the URL so links and the back
+// button bring back the same view
+export function useListingQuery() {
+  const search = useSearch();
+  const [location, navigate] = useLocation();
+  const query = useMemo(() => parseListingSearch(search), [search]);
+
+  // Any change other than turning the page starts again from page one
+  const setQuery = (changes: Partial<ListingQuery>) => {
+    const next = toListingSearch({ ...query, page: undefined, ...changes });
+    navigate(next ? `${location}?${next}` : location);
+  };
+
+  return { query, setQuery };
+}
+
+// One page of a listing endpoint: /api/search/products, /api/categories/:slug/products
+// or /api/collections/:slug/products
+export function useProductListing(endpoint: string | null, query: Partial<ListingQuery>, extraParams: Record<string, string> = {}) {
+  const params = new URLSearchParams(toListingSearch(query));
+  Object.entries(extraParams).forEach(([key, value]) => params.set(key, value));
+  const search = params.toString();
+
+  return useQuery<ProductSearchResult>({
+    queryKey: [endpoint, search],
+    queryFn: async () => {
+      const res = await fetch(search ? `${endpoint}?${search}` : endpoint!);
+      if (!res.ok) throw new Error("Failed to load products");
+      return res.json();
+    },
+    enabled: !!endpoint,
+    placeholderData: keepPreviousData,
+  });
+}
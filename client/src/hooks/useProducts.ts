@@ -1,5 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
-import { Product, Category, Collection } from "@shared/schema";
+import { Product, Category, Collection, ProductSearchResult } from "@shared/schema";
 
 interface UseProductsOptions {
   limit?: number;
@@ -90,9 +90,11 @@ export const useCollection = (slug: string) => {
   });
 };
 
+// The first page of a collection's products
 export const useCollectionProducts = (slug: string) => {
-  return useQuery<Product[]>({
+  return useQuery<ProductSearchResult, Error, Product[]>({
     queryKey: [`/api/collections/${slug}/products`],
     enabled: !!slug,
+    select: result => result.products,
   });
 };
@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { SearchQueryCount, SearchSuggestions } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+
+const SUGGEST_DELAY_MS = 200;
+export const MIN_SUGGEST_LENGTH = 2;
+
+// Guests share the cart's session id, so the search log can tell their searches apart
+export function getSearchSessionId() {
+  let sessionId = localStorage.getItem("cartSessionId");
+  if (!sessionId) {
+    sessionId = `session_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    localStorage.setItem("cartSessionId", sessionId);
+  }
+  return sessionId;
+}
+
+// Autocomplete for the text typed so far, once typing pauses
+export function useSearchSuggestions(text: string, enabled = true) {
+  const [query, setQuery] = useState(text.trim());
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(text.trim()), SUGGEST_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [text]);
+
+  return useQuery<SearchSuggestions>({
+    queryKey: ["/api/search/suggest", query],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/search/suggest?q=${encodeURIComponent(query)}`);
+      return res.json();
+    },
+    enabled: enabled && query.length >= MIN_SUGGEST_LENGTH,
+    staleTime: 60_000,
+    placeholderData: keepPreviousData,
+  });
+}
+
+// Popular searches across the store, and the shopper's own recent ones
+export function useSearchHistory(enabled = true) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const sessionId = getSearchSessionId();
+  const recentKey = ["/api/search/recent", user?.id || sessionId];
+
+  const { data: popular } = useQuery<{ searches: SearchQueryCount[] }>({
+    queryKey: ["/api/search/popular"],
+    enabled,
+    staleTime: 5 * 60_000,
+  });
+
+  const { data: recent } = useQuery<{ searches: SearchQueryCount[] }>({
+    queryKey: recentKey,
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/search/recent?sessionId=${encodeURIComponent(sessionId)}`);
+      return res.json();
+    },
+    enabled,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/search/recent?sessionId=${encodeURIComponent(sessionId)}`);
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(recentKey, { searches: [] });
+    },
+  });
+
+  return {
+    popular: popular?.searches ?? [],
+    recent: recent?.searches ?? [],
+    clearRecent: () => clearMutation.mutate(),
+  };
+}
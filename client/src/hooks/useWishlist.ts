@@ -0,0 +1,69 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Product } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+
+// A saved product as returned by /api/wishlist
+export interface WishlistItem {
+  productId: string;
+  addedAt: string;
+  product: Product;
+}
+
+// Guests share the cart's session id, so their wishlist follows them into their account on login
+function getSessionId() {
+  let sessionId = localStorage.getItem("cartSessionId");
+  if (!sessionId) {
+    sessionId = `session_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    localStorage.setItem("cartSessionId", sessionId);
+  }
+  return sessionId;
+}
+
+export const getProductId = (product: Product) => String(product._id ?? (product as { id?: string }).id);
+
+export function useWishlist() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const sessionId = getSessionId();
+  const queryKey = ["/api/wishlist", user?.id || sessionId];
+
+  const { data, isLoading } = useQuery<{ items: WishlistItem[] }>({
+    queryKey,
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/wishlist?sessionId=${encodeURIComponent(sessionId)}`);
+      return res.json();
+    },
+  });
+  const items = data?.items ?? [];
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ productId, saved }: { productId: string; saved: boolean }) => {
+      const res = saved
+        ? await apiRequest("DELETE", `/api/wishlist/items/${productId}?sessionId=${encodeURIComponent(sessionId)}`)
+        : await apiRequest("POST", "/api/wishlist/items", { productId, sessionId });
+      return res.json();
+    },
+    onSuccess: (result: { items: WishlistItem[] }) => {
+      queryClient.setQueryData(queryKey, result);
+    },
+  });
+
+  const isWishlisted = (productId: string) => items.some(item => item.productId === productId);
+
+  // Resolves to true when the product is now saved
+  const toggleWishlist = async (product: Product) => {
+    const productId = getProductId(product);
+    const saved = isWishlisted(productId);
+    await toggleMutation.mutateAsync({ productId, saved });
+    return !saved;
+  };
+
+  return {
+    items,
+    isLoading,
+    isWishlisted,
+    toggleWishlist,
+    isUpdating: toggleMutation.isPending,
+  };
+}
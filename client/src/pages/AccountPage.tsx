@@ -8,6 +8,42 @@ import { Helmet } from 'react-helmet';
 import { useState, useEffect } from "react";
 import { apiRequest } from "@/lib/queryClient"; // Assuming apiRequest is defined in this file
 import { useToast } from "@/hooks/use-toast"; // Assuming useToast is defined in this file
+import AddressBook from "@/components/account/AddressBook";
+import ProductCard from "@/components/products/ProductCard";
+import { useWishlist } from "@/hooks/useWishlist";
+import { ClaimGiftCardForm } from "@/components/giftcard/ClaimGiftCardForm";
+
+type SentGiftCard = {
+  _id: string;
+  amount: number;
+  recipientName: string;
+  recipientEmail: string;
+  message?: string;
+  deliverAt: string;
+  sentAt?: string;
+  status: 'issued' | 'sending' | 'sent' | 'failed';
+  createdAt: string;
+};
+
+type ReceivedGiftCard = {
+  _id: string;
+  amount: number;
+  senderName: string;
+  message?: string;
+  sentAt?: string;
+  claimed: boolean;
+  code: string; // masked until claimed
+  balance: number | null; // null until claimed
+  expiryDate?: string;
+  isActive: boolean;
+};
+
+const giftCardStatusLabels: Record<SentGiftCard['status'], string> = {
+  issued: 'Scheduled',
+  sending: 'Sending',
+  sent: 'Delivered',
+  failed: 'Delivery failed',
+};
 
 export default function AccountPage() {
   const { user, isAuthenticated, isLoading: authLoading, logout, updateProfile } = useAuth();
@@ -35,29 +71,18 @@ export default function AccountPage() {
     refetchInterval: 10000, // auto-refresh orders every 10 seconds
   });
   
-  const [editingAddress, setEditingAddress] = useState(false);
-  const [formData, setFormData] = useState({
-    address: "",
-    city: "",
-    state: "",
-    zipCode: "",
-    phone: "",
+  const { data: giftCards, isLoading: giftCardsLoading } = useQuery<{ sent: SentGiftCard[]; received: ReceivedGiftCard[] }>({
+    queryKey: ['/api/giftcards/mine'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', '/api/giftcards/mine');
+      return res.json();
+    },
+    enabled: isAuthenticated,
   });
-  useEffect(() => {
-    if (user) setFormData({
-      address: user.address || "",
-      city: user.city || "",
-      state: user.state || "",
-      zipCode: user.zipCode || "",
-      phone: user.phone || "",
-    });
-  }, [user]);
-  const handleAddressSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    await updateProfile(formData);
-    setEditingAddress(false);
-  };
-  
+  const { items: wishlistItems, isLoading: wishlistLoading } = useWishlist();
+  const sentGiftCards = giftCards?.sent ?? [];
+  const receivedGiftCards = giftCards?.received ?? [];
+
   // --- Edit Profile State ---
   const [editingProfile, setEditingProfile] = useState(false);
   const [profileForm, setProfileForm] = useState({
@@ -161,6 +186,18 @@ export default function AccountPage() {
             >
               Addresses
             </TabsTrigger>
+            <TabsTrigger 
+              value="wishlist" 
+              className="font-heading text-sm text-primary data-[state=active]:bg-primary data-[state=active]:text-white rounded-md flex-1 max-w-[200px] py-3"
+            >
+              Wishlist
+            </TabsTrigger>
+            <TabsTrigger 
+              value="giftcards" 
+              className="font-heading text-sm text-primary data-[state=active]:bg-primary data-[state=active]:text-white rounded-md flex-1 max-w-[200px] py-3"
+            >
+              Gift Cards
+            </TabsTrigger>
           </TabsList>
           
           <TabsContent value="profile" className="mt-0">
@@ -402,69 +439,127 @@ export default function AccountPage() {
                 <h2 className="font-heading text-lg text-primary">Saved Addresses</h2>
               </div>
               <div className="p-6">
-                {editingAddress ? (
-                  <form onSubmit={handleAddressSubmit} className="space-y-4">
-                    <input
-                      placeholder="Address"
-                      value={formData.address}
-                      onChange={e => setFormData({ ...formData, address: e.target.value })}
-                      className="w-full border px-3 py-2 rounded"
-                      required
-                    />
-                    <input
-                      placeholder="City"
-                      value={formData.city}
-                      onChange={e => setFormData({ ...formData, city: e.target.value })}
-                      className="w-full border px-3 py-2 rounded"
-                      required
-                    />
-                    <input
-                      placeholder="State"
-                      value={formData.state}
-                      onChange={e => setFormData({ ...formData, state: e.target.value })}
-                      className="w-full border px-3 py-2 rounded"
-                      required
-                    />
-                    <input
-                      placeholder="Zip Code"
-                      value={formData.zipCode}
-                      onChange={e => setFormData({ ...formData, zipCode: e.target.value })}
-                      className="w-full border px-3 py-2 rounded"
-                      required
-                    />
-                    <input
-                      placeholder="Phone"
-                      value={formData.phone}
-                      onChange={e => setFormData({ ...formData, phone: e.target.value })}
-                      className="w-full border px-3 py-2 rounded"
-                      required
-                    />
-                    <div className="flex gap-2">
-                      <Button type="submit">Save Address</Button>
-                      <Button variant="ghost" onClick={() => setEditingAddress(false)}>Cancel</Button>
-                    </div>
-                  </form>
-                ) : user?.address ? (
-                  <div className="border border-neutral-sand rounded-md p-4 mb-4">
-                    <div className="flex justify-between mb-2">
-                      <p className="font-medium">Default Address</p>
-                      <div className="flex gap-2">
-                        <Button variant="ghost" size="sm" className="h-8 text-primary" onClick={() => setEditingAddress(true)}>Edit</Button>
-                        <Button variant="ghost" size="sm" className="h-8 text-red-500">Delete</Button>
-                      </div>
-                    </div>
-                    <p>{user.name}</p>
-                    <p>{user.address}</p>
-                    <p>{user.city}, {user.state} {user.zipCode}</p>
-                    <p>{user.phone}</p>
+                <AddressBook />
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="wishlist" className="mt-0">
+            <div className="border border-neutral-sand rounded-md overflow-hidden">
+              <div className="bg-neutral-cream p-4 border-b border-neutral-sand">
+                <h2 className="font-heading text-lg text-primary">Your Wishlist</h2>
+                <p className="text-sm text-neutral-gray mt-1">We'll email you when a saved product drops in price or comes back in stock.</p>
+              </div>
+              <div className="p-6">
+                {wishlistLoading ? (
+                  <p className="text-neutral-gray">Loading...</p>
+                ) : wishlistItems.length > 0 ? (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {wishlistItems.map(item => (
+                      <ProductCard key={item.productId} product={item.product} />
+                    ))}
                   </div>
                 ) : (
-                  <p className="text-neutral-gray mb-4">You don't have any saved addresses yet.</p>
+                  <div className="text-center py-8">
+                    <p className="text-neutral-gray mb-4">Your wishlist is empty. Tap the heart on any product to save it here.</p>
+                    <Button 
+                      asChild
+                      className="bg-primary hover:bg-primary-light text-white"
+                    >
+                      <a href="/collections/all">Start Shopping</a>
+                    </Button>
+                  </div>
                 )}
-                {!editingAddress && (
-                  <Button className="bg-primary hover:bg-primary-light text-white" onClick={() => setEditingAddress(true)}>
-                    Add New Address
-                  </Button>
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="giftcards" className="mt-0 space-y-8">
+            <div className="border border-neutral-sand rounded-md overflow-hidden">
+              <div className="bg-neutral-cream p-4 border-b border-neutral-sand">
+                <h2 className="font-heading text-lg text-primary">Received Gift Cards</h2>
+              </div>
+              <div className="p-6">
+                {giftCardsLoading ? (
+                  <p className="text-neutral-gray">Loading...</p>
+                ) : receivedGiftCards.length > 0 ? (
+                  <div className="divide-y divide-neutral-sand">
+                    {receivedGiftCards.map((card) => {
+                      const expired = card.expiryDate ? new Date(card.expiryDate) < new Date() : false;
+                      return (
+                        <div key={card._id} className="py-4 flex flex-col md:flex-row justify-between gap-2">
+                          <div>
+                            <p className="font-heading text-primary tracking-wider">{card.code}</p>
+                            <p className="text-sm text-neutral-gray">
+                              From {card.senderName}{card.sentAt ? ` on ${new Date(card.sentAt).toLocaleDateString()}` : ''}
+                            </p>
+                            {card.message && <p className="text-sm italic mt-1">"{card.message}"</p>}
+                            {!card.claimed && <ClaimGiftCardForm purchaseId={card._id} />}
+                          </div>
+                          <div className="md:text-right">
+                            {card.balance === null ? (
+                              <p><span className="font-medium">Value:</span> ₹{card.amount.toFixed(2)}</p>
+                            ) : (
+                              <p><span className="font-medium">Balance:</span> ₹{card.balance.toFixed(2)} of ₹{card.amount.toFixed(2)}</p>
+                            )}
+                            {card.expiryDate && (
+                              <p className={`text-sm ${expired ? 'text-red-600' : 'text-neutral-gray'}`}>
+                                {expired ? 'Expired' : 'Valid until'} {new Date(card.expiryDate).toLocaleDateString()}
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <p className="text-neutral-gray text-center py-4">You haven't received any gift cards yet.</p>
+                )}
+              </div>
+            </div>
+
+            <div className="border border-neutral-sand rounded-md overflow-hidden">
+              <div className="bg-neutral-cream p-4 border-b border-neutral-sand">
+                <h2 className="font-heading text-lg text-primary">Sent Gift Cards</h2>
+              </div>
+              <div className="p-6">
+                {giftCardsLoading ? (
+                  <p className="text-neutral-gray">Loading...</p>
+                ) : sentGiftCards.length > 0 ? (
+                  <div className="divide-y divide-neutral-sand">
+                    {sentGiftCards.map((card) => (
+                      <div key={card._id} className="py-4 flex flex-col md:flex-row justify-between gap-2">
+                        <div>
+                          <p className="font-heading text-primary">₹{card.amount.toFixed(2)} to {card.recipientName}</p>
+                          <p className="text-sm text-neutral-gray">{card.recipientEmail}</p>
+                          <p className="text-sm text-neutral-gray">
+                            {card.sentAt
+                              ? `Delivered ${new Date(card.sentAt).toLocaleDateString()}`
+                              : `Delivery on ${new Date(card.deliverAt).toLocaleDateString()}`}
+                          </p>
+                        </div>
+                        <div>
+                          <span className={`inline-block px-2 py-1 text-xs rounded-full ${
+                            card.status === 'sent' ? 'bg-green-100 text-green-800' :
+                            card.status === 'failed' ? 'bg-red-100 text-red-800' :
+                            'bg-yellow-100 text-yellow-800'
+                          }`}>
+                            {giftCardStatusLabels[card.status]}
+                          </span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center py-4">
+                    <p className="text-neutral-gray mb-4">You haven't sent any gift cards yet.</p>
+                    <Button 
+                      asChild
+                      className="bg-primary hover:bg-primary-light text-white"
+                    >
+                      <a href="/giftcards">Send a Gift Card</a>
+                    </Button>
+                  </div>
                 )}
               </div>
             </div>
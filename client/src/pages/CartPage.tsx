@@ -1,24 +1,28 @@
-import { useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { useCart } from "@/hooks/useCart";
 import { useCoupon } from "@/hooks/useCoupon";
+import { getCartSummaryUrl, useCartSummary } from "@/hooks/useCartSummary";
 import { useAuth } from "@/hooks/useAuth";
 import { CouponForm } from "@/components/coupon/CouponForm";
 import OffersPopup from "@/components/offers/OffersPopup";
 import { formatCurrency } from "@/lib/utils";
 import { Helmet } from 'react-helmet';
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { CartSummary } from "@shared/schema";
 import AuthModal from '@/components/common/AuthModal';
 
 export default function CartPage() {
-  const { cartItems, removeItem, updateQuantity, subtotal, isEmpty, totalItems } = useCart();
-  const { appliedCoupon, applyCoupon, removeCoupon, calculateDiscountedTotal } = useCoupon();
+  const { cartId, cartItems, removeItem, updateQuantity, isEmpty, totalItems } = useCart();
+  const { appliedCoupon, applyCoupon } = useCoupon();
   const { toast } = useToast();
   const [offersPopupOpen, setOffersPopupOpen] = useState(false);
   const [authModalOpen, setAuthModalOpen] = useState(false);
-  
-  const finalTotal = calculateDiscountedTotal(subtotal);
+  // Prices, discounts and the total are the server's, worked out the way checkout will charge them
+  const { data: summary } = useCartSummary({ couponCodes: appliedCoupon?.codes });
+  const summaryLines = new Map((summary?.lines || []).map(line => [line.itemId, line]));
   
   const handleRemove = async (itemId: number) => {
     try {
@@ -37,11 +41,44 @@ export default function CartPage() {
     }
   };
   
-  const handleApplyCoupon = async (code: string) => {
-    applyCoupon(code, subtotal * 0.1); // Example discount calculation
+  // The cart summary checks the code together with any already applied, so stacking rules hold
+  const handleApplyCoupon = useCallback(async (code: string) => {
     setOffersPopupOpen(false);
-    toast({ title: "Coupon applied", description: `Coupon ${code} has been applied to your cart.` });
-  };
+    if (!cartId) return;
+    const codes = Array.from(new Set([...(appliedCoupon?.codes || []), code.trim().toUpperCase()]));
+    try {
+      const res = await apiRequest("GET", getCartSummaryUrl(cartId, { couponCodes: codes }));
+      const priced: CartSummary = await res.json();
+      if (priced.couponError) {
+        toast({ title: "Coupon not applied", description: priced.couponError, variant: "destructive" });
+        return;
+      }
+      applyCoupon(
+        priced.couponCodes,
+        priced.couponDiscount,
+        undefined,
+        priced.coupons.map(coupon => ({ code: coupon.code, discountValue: coupon.discount }))
+      );
+      toast({ title: "Coupon applied", description: `Coupon ${code} has been applied to your cart.` });
+    } catch {
+      toast({ title: "Coupon not applied", description: "This coupon could not be applied.", variant: "destructive" });
+    }
+  }, [cartId, appliedCoupon, applyCoupon, toast]);
+
+  // A restored abandoned cart links here with its recovery coupon, applied once the cart has loaded.
+  // The ref keeps it to a single attempt, however often the dependencies change.
+  const linkedCouponHandled = useRef(false);
+  useEffect(() => {
+    if (linkedCouponHandled.current || !cartId || cartItems.length === 0) return;
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get("coupon");
+    if (!code) return;
+    linkedCouponHandled.current = true;
+    params.delete("coupon");
+    const query = params.toString();
+    window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}`);
+    if (!appliedCoupon?.codes.includes(code.toUpperCase())) handleApplyCoupon(code);
+  }, [cartId, cartItems.length, appliedCoupon, handleApplyCoupon]);
 
   const handleApplyVoucher = async (code: string) => {
     toast({ title: "Voucher applied", description: `Voucher ${code} has been applied to your account.` });
@@ -100,101 +137,114 @@ export default function CartPage() {
                 </div>
                 
                 <div className="divide-y divide-neutral-sand">
-                  {cartItems.map((item) => (
-                    <div key={item.id} className="p-4 md:p-6">
-                      <div className="flex flex-col md:flex-row gap-4">
-                        <div className="w-full md:w-24 h-24 bg-neutral-sand rounded-md overflow-hidden">
-                          <img
-                            src={item.product?.imageUrl || item.product?.images?.[0] || '/placeholder.jpg'}
-                            alt={item.product?.name || 'Product'}
-                            className="w-full h-full object-cover object-center"
-                          />
-                        </div>
-                        <div className="flex-1">
-                          <div className="flex justify-between">
-                            <div>
-                              <div className="flex items-center gap-2">
-                                <h3 className="font-medium">{item.product?.name}</h3>
-                                {item.product?.isFreeProduct && (
-                                  <span className="text-xs px-2 py-1 bg-green-100 text-green-700 rounded-full">
-                                    Free Gift
-                                  </span>
+                  {cartItems.map((item) => {
+                    const line = summaryLines.get(String(item.id));
+                    return (
+                      <div key={item.id} className="p-4 md:p-6">
+                        <div className="flex flex-col md:flex-row gap-4">
+                          <div className="w-full md:w-24 h-24 bg-neutral-sand rounded-md overflow-hidden">
+                            <img
+                              src={item.product?.imageUrl || item.product?.images?.[0] || '/placeholder.jpg'}
+                              alt={item.product?.name || 'Product'}
+                              className="w-full h-full object-cover object-center"
+                            />
+                          </div>
+                          <div className="flex-1">
+                            <div className="flex justify-between">
+                              <div>
+                                <div className="flex items-center gap-2">
+                                  <h3 className="font-medium">{item.product?.name}</h3>
+                                  {item.product?.isFreeProduct && (
+                                    <span className="text-xs px-2 py-1 bg-green-100 text-green-700 rounded-full">
+                                      Free Gift
+                                    </span>
+                                  )}
+                                </div>
+                                {item.variantLabel && (
+                                  <p className="text-sm text-neutral-gray">{item.variantLabel}</p>
+                                )}
+                                {item.product?.shortDescription && (
+                                  <p className="text-sm text-muted-foreground">
+                                    {item.product.shortDescription}
+                                  </p>
                                 )}
                               </div>
-                              {item.product?.shortDescription && (
-                                <p className="text-sm text-muted-foreground">
-                                  {item.product.shortDescription}
-                                </p>
-                              )}
-                            </div>
-                            {!item.product?.isFreeProduct && (
-                              <button
-                                onClick={() => handleRemove(item.id)}
-                                className="text-muted-foreground hover:text-foreground"
-                                aria-label="Remove item"
-                              >
-                                <svg
-                                  xmlns="http://www.w3.org/2000/svg"
-                                  className="h-5 w-5"
-                                  fill="none"
-                                  viewBox="0 0 24 24"
-                                  stroke="currentColor"
-                                >
-                                  <path
-                                    strokeLinecap="round"
-                                    strokeLinejoin="round"
-                                    strokeWidth={2}
-                                    d="M6 18L18 6M6 6l12 12"
-                                  />
-                                </svg>
-                              </button>
-                            )}
-                          </div>
-                          <div className="flex justify-between items-end mt-4">
-                            {!item.product?.isFreeProduct && (
-                              <div className="flex items-center border border-neutral-sand rounded-md">
+                              {!item.product?.isFreeProduct && (
                                 <button
-                                  onClick={() => handleUpdateQuantity(item.id, item.quantity - 1)}
-                                  className="w-8 h-8 flex items-center justify-center text-foreground"
-                                  disabled={item.quantity <= 1}
-                                  aria-label="Decrease quantity"
+                                  onClick={() => handleRemove(item.id)}
+                                  className="text-muted-foreground hover:text-foreground"
+                                  aria-label="Remove item"
                                 >
-                                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
+                                  <svg
+                                    xmlns="http://www.w3.org/2000/svg"
+                                    className="h-5 w-5"
+                                    fill="none"
+                                    viewBox="0 0 24 24"
+                                    stroke="currentColor"
+                                  >
+                                    <path
+                                      strokeLinecap="round"
+                                      strokeLinejoin="round"
+                                      strokeWidth={2}
+                                      d="M6 18L18 6M6 6l12 12"
+                                    />
                                   </svg>
                                 </button>
-                                <span className="w-8 text-center text-sm">{item.quantity}</span>
-                                <button
-                                  onClick={() => handleUpdateQuantity(item.id, item.quantity + 1)}
-                                  className="w-8 h-8 flex items-center justify-center text-foreground"
-                                  disabled={!!item.product?.stock && item.quantity >= item.product.stock}
-                                  aria-label="Increase quantity"
-                                >
-                                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-                                  </svg>
-                                </button>
-                              </div>
-                            )}
-                            <div className="text-right">
-                              {item.product?.isFreeProduct ? (
-                                <p className="font-medium text-green-600 text-sm">Free Gift</p>
-                              ) : (
-                                <>
-                                  <p className="font-medium text-primary">
-                                    {formatCurrency((item.product?.price ?? 0) * item.quantity)}
-                                  </p>
-                                  <p className="text-xs text-muted-foreground">
-                                    {formatCurrency(item.product?.price ?? 0)} each
-                                  </p>
-                                </>
                               )}
                             </div>
+                            <div className="flex justify-between items-end mt-4">
+                              {!item.product?.isFreeProduct && (
+                                <div className="flex items-center border border-neutral-sand rounded-md">
+                                  <button
+                                    onClick={() => handleUpdateQuantity(item.id, item.quantity - 1)}
+                                    className="w-8 h-8 flex items-center justify-center text-foreground"
+                                    disabled={item.quantity <= 1}
+                                    aria-label="Decrease quantity"
+                                  >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
+                                    </svg>
+                                  </button>
+                                  <span className="w-8 text-center text-sm">{item.quantity}</span>
+                                  <button
+                                    onClick={() => handleUpdateQuantity(item.id, item.quantity + 1)}
+                                    className="w-8 h-8 flex items-center justify-center text-foreground"
+                                    disabled={!!item.product?.stock && item.quantity >= item.product.stock}
+                                    aria-label="Increase quantity"
+                                  >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                                    </svg>
+                                  </button>
+                                </div>
+                              )}
+                              <div className="text-right">
+                                {item.product?.isFreeProduct ? (
+                                  <p className="font-medium text-green-600 text-sm">Free Gift</p>
+                                ) : (
+                                  <>
+                                    <p className="font-medium text-primary">
+                                      {line ? formatCurrency(line.lineTotal) : "..."}
+                                    </p>
+                                    {line && line.saleDiscount > 0 && (
+                                      <p className="text-xs text-muted-foreground line-through">
+                                        {formatCurrency(line.listPrice * line.quantity)}
+                                      </p>
+                                    )}
+                                    {line && (
+                                      <p className="text-xs text-muted-foreground">
+                                        {formatCurrency(line.unitPrice)} each
+                                      </p>
+                                    )}
+                                  </>
+                                )}
+                              </div>
+                            </div>
                           </div>
                         </div>
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </div>
               
@@ -218,7 +268,7 @@ export default function CartPage() {
                   <div className="space-y-4">
                     <div className="flex justify-between items-center">
                       <span className="text-neutral-gray">Subtotal</span>
-                      <span className="font-medium">{formatCurrency(subtotal)}</span>
+                      <span className="font-medium">{summary ? formatCurrency(summary.subtotal) : "..."}</span>
                     </div>
                     
                     {/* Apply Offers Button */}
@@ -233,24 +283,36 @@ export default function CartPage() {
                       APPLY OFFERS
                     </Button>
                     
-                    {appliedCoupon && (
-                      <div className="flex justify-between items-center text-green-600">
-                        <span>Discount</span>
-                        <span>-{formatCurrency(appliedCoupon.discountValue)}</span>
-                      </div>
+                    {summary && summary.saleDiscount > 0 && (
+                      <p className="text-xs text-green-600">Includes {formatCurrency(summary.saleDiscount)} off on sale items</p>
                     )}
+
+                    {(summary?.promotions || []).filter(promotion => promotion.discount > 0).map(promotion => (
+                      <div key={promotion.promotionId} className="flex justify-between items-center text-green-600">
+                        <span>{promotion.name}</span>
+                        <span>-{formatCurrency(promotion.discount)}</span>
+                      </div>
+                    ))}
+
+                    {(summary?.coupons || []).map(coupon => (
+                      <div key={coupon.code} className="flex justify-between items-center text-green-600">
+                        <span>Coupon {coupon.code}</span>
+                        <span>-{formatCurrency(coupon.discount)}</span>
+                      </div>
+                    ))}
+                    {summary?.couponError && <p className="text-xs text-red-600">{summary.couponError}</p>}
                     
                     <div className="flex justify-between items-center">
                       <span className="text-neutral-gray">Shipping</span>
-                      <span>Calculated at checkout</span>
+                      <span>{summary ? (summary.shippingAmount === 0 ? "Free" : formatCurrency(summary.shippingAmount)) : "..."}</span>
                     </div>
                     <div className="flex justify-between items-center">
-                      <span className="text-neutral-gray">Tax</span>
-                      <span>Calculated at checkout</span>
+                      <span className="text-neutral-gray">Tax{summary ? ` (${Math.round(summary.taxRate * 100)}%)` : ""}</span>
+                      <span>{summary ? formatCurrency(summary.taxAmount) : "..."}</span>
                     </div>
                     <div className="border-t border-neutral-sand pt-4 flex justify-between items-center">
                       <span className="font-heading text-primary">Total</span>
-                      <span className="font-heading text-xl text-primary">{formatCurrency(finalTotal)}</span>
+                      <span className="font-heading text-xl text-primary">{summary ? formatCurrency(summary.totalAmount) : "..."}</span>
                     </div>
                   </div>
                   
@@ -6,6 +6,7 @@ import { z } from "zod";
 import { useCart } from "@/hooks/useCart";
 import { useAuth } from "@/hooks/useAuth";
 import { useCoupon } from "@/hooks/useCoupon";
+import { useCartSummary } from "@/hooks/useCartSummary";
 import { formatCurrency } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -66,8 +67,10 @@ const CheckoutPage = () => {
   const [shippingWeight, setShippingWeight] = useState(1);
   const [shippingCodFlag, setShippingCodFlag] = useState(false);
   const [authModalOpen, setAuthModalOpen] = useState(false);
-  const { cartItems, subtotal, clearCart, isEmpty } = useCart();
+  const { cartItems, clearCart, isEmpty } = useCart();
   const { appliedCoupon, applyCoupon, removeCoupon, calculateDiscountedTotal } = useCoupon();
+  const { data: summary } = useCartSummary();
+  const subtotal = summary?.subtotal ?? 0;
   const { user, isAuthenticated } = useAuth();
   const { toast } = useToast();
   const [, navigate] = useLocation();
@@ -6,11 +6,13 @@ import { z } from "zod";
 import { useCart } from "@/hooks/useCart";
 import { useAuth } from "@/hooks/useAuth";
 import { useCoupon } from "@/hooks/useCoupon";
+import { useCartSummary } from "@/hooks/useCartSummary";
 import { formatCurrency } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { CouponForm } from "@/components/coupon/CouponForm";
+import { GiftCardRedeemForm, type AppliedGiftCard } from "@/components/giftcard/GiftCardRedeemForm";
 import {
   Form,
   FormControl,
@@ -38,6 +40,7 @@ import RazorpayCheckout from '../components/RazorpayCheckout';
 import { Label } from "@/components/ui/label";
 import { Switch as UiSwitch } from "@/components/ui/switch";
 import AuthModal from '@/components/common/AuthModal';
+import { formatSavedAddress, useSavedAddresses, type SavedAddress } from "@/components/account/AddressBook";
 
 const checkoutSchema = z.object({
   name: z.string().min(2, "Name is required"),
@@ -57,17 +60,36 @@ const checkoutSchema = z.object({
 
 type CheckoutFormValues = z.infer<typeof checkoutSchema>;
 
+// apiRequest errors look like "409: {json}"; surface the server's message when there is one
+function getOrderErrorMessage(error: unknown): string | undefined {
+  if (!(error instanceof Error)) return undefined;
+  const body = error.message.replace(/^\d+:\s*/, '');
+  try {
+    return JSON.parse(body).message;
+  } catch {
+    return undefined;
+  }
+}
+
+// The order form has one address box, so a saved address's landmark goes on the end of it
+function formatStreet(address: SavedAddress) {
+  return address.landmark ? `${address.address}, ${address.landmark}` : address.address;
+}
+
+// A stable empty list, so effects that depend on the saved addresses don't re-run every render
+const noSavedAddresses: SavedAddress[] = [];
+
 export default function CheckoutPage() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [razorpayOrder, setRazorpayOrder] = useState<{orderId:string;amount:number;currency:string} | null>(null);
-  const [pendingOrderPayload, setPendingOrderPayload] = useState<any>(null);
   const [shippingCheck, setShippingCheck] = useState<{serviceable: boolean; details: any} | null>(null);
   const [checkingShipping, setCheckingShipping] = useState(false);
   const [shippingWeight, setShippingWeight] = useState(1);
   const [shippingCodFlag, setShippingCodFlag] = useState(false);
   const [authModalOpen, setAuthModalOpen] = useState(false);
-  const { cartItems, subtotal, clearCart, isEmpty } = useCart();
-  const { appliedCoupon, applyCoupon, removeCoupon, calculateDiscountedTotal } = useCoupon();
+  const [appliedGiftCard, setAppliedGiftCard] = useState<AppliedGiftCard | null>(null);
+  const { cartId, cartItems, clearCart, isEmpty } = useCart();
+  const { appliedCoupon, applyCoupon, removeCoupon } = useCoupon();
   const { user, isAuthenticated } = useAuth();
   const { toast } = useToast();
   const [, navigate] = useLocation();
@@ -93,35 +115,119 @@ export default function CheckoutPage() {
   
   const sameAsBilling = form.watch("sameAsBilling");
   const paymentMethod = form.watch("paymentMethod");
+  const billingZipCode = form.watch("zipCode");
+  const shippingZipCode = form.watch("shippingZipCode");
+  const checkoutEmail = form.watch("email");
+  const deliveryPincode = ((sameAsBilling ? billingZipCode : shippingZipCode) || "").trim();
   
-  // Automatically refresh form values when user logs in/registers
+  const { data: savedAddressData } = useSavedAddresses(isAuthenticated);
+  const savedAddresses = savedAddressData ?? noSavedAddresses;
+  const [billingAddressId, setBillingAddressId] = useState<string>("new");
+  const [shippingAddressId, setShippingAddressId] = useState<string>("new");
+
+  // Automatically refresh form values when user logs in/registers,
+  // starting from their default saved addresses when they have any
   useEffect(() => {
     if (user) {
+      const billing = savedAddresses.find(address => address.isDefaultBilling);
+      const shipping = savedAddresses.find(address => address.isDefaultShipping);
+      const shipsElsewhere = !!billing && !!shipping && shipping._id !== billing._id;
       form.reset({
-        name: user.name || "",
+        name: billing?.name || user.name || "",
         email: user.email || "",
-        phone: user.phone || "",
-        address: user.address || "",
-        city: user.city || "",
-        state: user.state || "",
-        zipCode: user.zipCode || "",
+        phone: billing?.phone || user.phone || "",
+        address: billing ? formatStreet(billing) : user.address || "",
+        city: billing?.city || user.city || "",
+        state: billing?.state || user.state || "",
+        zipCode: billing?.pincode || user.zipCode || "",
         paymentMethod: "card",
-        sameAsBilling: true,
-        shippingAddress: "",
-        shippingCity: "",
-        shippingState: "",
-        shippingZipCode: "",
+        sameAsBilling: !shipsElsewhere,
+        shippingAddress: shipsElsewhere ? formatStreet(shipping) : "",
+        shippingCity: shipsElsewhere ? shipping.city : "",
+        shippingState: shipsElsewhere ? shipping.state : "",
+        shippingZipCode: shipsElsewhere ? shipping.pincode : "",
       });
+      setBillingAddressId(billing?._id || "new");
+      setShippingAddressId(shipsElsewhere ? shipping._id : "new");
+    }
+  }, [user, savedAddresses]);
+
+  // Remember a guest's email on their cart, so it can be recovered if they leave before paying
+  useEffect(() => {
+    const email = (checkoutEmail || "").trim();
+    if (user || !cartId || !z.string().email().safeParse(email).success) return;
+    const timer = setTimeout(() => {
+      apiRequest("POST", `/api/cart/${cartId}/email`, { email }).catch(() => {});
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [checkoutEmail, cartId, user]);
+
+  // Fill the billing or shipping fields from a saved address
+  const selectSavedAddress = (type: "billing" | "shipping", id: string) => {
+    const address = savedAddresses.find(saved => saved._id === id);
+    if (type === "billing") {
+      setBillingAddressId(id);
+      if (!address) return;
+      form.setValue("name", address.name);
+      form.setValue("phone", address.phone);
+      form.setValue("address", formatStreet(address));
+      form.setValue("city", address.city);
+      form.setValue("state", address.state);
+      form.setValue("zipCode", address.pincode, { shouldValidate: true });
+    } else {
+      setShippingAddressId(id);
+      if (!address) return;
+      form.setValue("shippingAddress", formatStreet(address));
+      form.setValue("shippingCity", address.city);
+      form.setValue("shippingState", address.state);
+      form.setValue("shippingZipCode", address.pincode, { shouldValidate: true });
     }
-  }, [user]);
+  };
 
-  // Calculate final total with discount
-  const finalTotal = calculateDiscountedTotal(subtotal);
+  const renderSavedAddressPicker = (type: "billing" | "shipping") => savedAddresses.length > 0 && (
+    <div className="space-y-2">
+      <Label>Saved addresses</Label>
+      <Select
+        value={type === "billing" ? billingAddressId : shippingAddressId}
+        onValueChange={value => selectSavedAddress(type, value)}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Choose a saved address" />
+        </SelectTrigger>
+        <SelectContent>
+          {savedAddresses.map(address => (
+            <SelectItem key={address._id} value={address._id}>
+              {address.label} – {address.name}, {formatSavedAddress(address)}
+            </SelectItem>
+          ))}
+          <SelectItem value="new">Enter a new address</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  // Every figure on this page comes from the server's summary of the cart, priced the
+  // way the order will be: sale prices, promotions, coupons, shipping, tax, COD fee, gift card
+  const summaryEmail = (checkoutEmail || "").trim();
+  const { data: summary, isFetching: pricingCart } = useCartSummary({
+    couponCodes: appliedCoupon?.codes,
+    email: z.string().email().safeParse(summaryEmail).success ? summaryEmail : undefined,
+    giftCardCode: appliedGiftCard?.code,
+    giftCardAmount: appliedGiftCard?.amount,
+    paymentMethod,
+    pincode: /^\d{6}$/.test(deliveryPincode) ? deliveryPincode : undefined,
+  });
+  const summaryLines = new Map((summary?.lines || []).map(line => [line.itemId, line]));
+  const codEligibility = summary?.cod ?? undefined;
+  const paidByGiftCard = !!summary?.giftCard && summary.amountDue <= 0;
 
   const onSubmit = async (values: CheckoutFormValues) => {
+    if (!summary) {
+      toast({ title: 'Still pricing your cart', description: 'Please try again in a moment.' });
+      return;
+    }
     setIsSubmitting(true);
-    // Update to use finalTotal which includes any applied discounts
-    const totalAmount = finalTotal + (finalTotal > 500 ? 0 : 50) + finalTotal * 0.18;
+    const { totalAmount, discountAmount } = summary;
     const payload = {
       order: {
         userId: user?.id || '',
@@ -145,14 +251,60 @@ export default function CheckoutPage() {
         paymentMethod: values.paymentMethod,
         paymentStatus: values.paymentMethod === 'cod' ? 'unpaid' : 'pending',
         // Coupon and discount
-        couponCode: appliedCoupon?.code || null,
-        discountAmount: appliedCoupon?.discountValue || 0,
+        // Only the codes the summary could apply, so the order is priced as shown
+        couponCode: summary.couponCodes[0] || null,
+        couponCodes: summary.couponCodes,
+        discountAmount,
+        giftCardCode: appliedGiftCard?.code,
+        giftCardAmount: summary.giftCard?.amount,
       },
-      items: cartItems.map(i => ({ productId: i.product._id!, quantity: i.quantity, price: i.product.price })),
+      items: cartItems.map(i => ({
+        productId: i.product._id!,
+        variantId: i.variantId,
+        quantity: i.quantity,
+        price: summaryLines.get(String(i.id))?.unitPrice ?? 0,
+        isFree: !!i.product.isFreeProduct,
+      })),
     };
+    if (paidByGiftCard) {
+      try {
+        const res = await apiRequest('POST', '/api/orders', {
+          ...payload,
+          order: { ...payload.order, paymentMethod: 'giftcard', paymentStatus: 'paid' }
+        });
+        const data = await res.json() as { order: { id: string }; items: any[] };
+        const orderId = data.order.id;
+        toast({ title: 'Order placed!', description: `Your order #${orderId} has been paid with your gift card.` });
+        clearCart();
+        navigate(`/thank-you/${orderId}`);
+      } catch (error) {
+        console.error('Checkout error:', error);
+        toast({ title: 'Order failed', description: getOrderErrorMessage(error), variant: 'destructive' });
+      } finally {
+        setIsSubmitting(false);
+      }
+      return;
+    }
     if (values.paymentMethod === 'cod') {
+      if (appliedGiftCard) {
+        toast({
+          title: 'Cash on delivery unavailable',
+          description: 'Gift cards cannot be combined with cash on delivery. Pay the rest online.',
+          variant: 'destructive'
+        });
+        setIsSubmitting(false);
+        return;
+      }
+      if (!codEligibility?.eligible) {
+        toast({
+          title: 'Cash on delivery unavailable',
+          description: codEligibility?.reason || 'Enter your delivery pincode to check cash on delivery.',
+          variant: 'destructive'
+        });
+        setIsSubmitting(false);
+        return;
+      }
       try {
-        // Dev: skip serviceability; place COD order directly
         const res = await apiRequest('POST', '/api/orders', payload);
         const data = await res.json() as { order: { id: string }; items: any[] };
         const orderId = data.order.id;
@@ -161,23 +313,29 @@ export default function CheckoutPage() {
         navigate(`/thank-you/${orderId}`);
       } catch (error) {
         console.error('Checkout error:', error);
-        toast({ title: 'Order failed', variant: 'destructive' });
+        toast({ title: 'Order failed', description: getOrderErrorMessage(error), variant: 'destructive' });
       } finally {
         setIsSubmitting(false);
       }
       return;
     }
     try {
-      const { orderId, amount: amt, currency: curr } = await apiRequest('POST','/api/razorpay/order',{ amount: Math.round(totalAmount*100), currency: 'INR' }).then(r=>r.json());
-      setPendingOrderPayload(payload);
+      // The server keeps this checkout and turns it into an order once the payment is verified
+      const { orderId, amount: amt, currency: curr } = await apiRequest('POST','/api/razorpay/order',{ ...payload, currency: 'INR', sessionId: localStorage.getItem("cartSessionId") || undefined }).then(r=>r.json());
       setRazorpayOrder({ orderId, amount: amt, currency: curr });
     } catch (err) {
       console.error('Payment init error:', err);
-      toast({ title: 'Payment init failed', variant: 'destructive' });
+      toast({ title: 'Payment init failed', description: getOrderErrorMessage(err), variant: 'destructive' });
       setIsSubmitting(false);
     }
   };
 
+  // Give back stock held for a Razorpay order the shopper walked away from
+  const releaseReservation = (razorpayOrderId: string) => {
+    apiRequest('POST', `/api/razorpay/order/${razorpayOrderId}/release`, { sessionId: localStorage.getItem("cartSessionId") || undefined })
+      .catch(err => console.error('Failed to release stock reservation:', err));
+  };
+
   if (isEmpty) {
     return (
       <div className="container mx-auto px-4 py-12 text-center">
@@ -193,7 +351,7 @@ export default function CheckoutPage() {
     );
   }
 
-  if (razorpayOrder && pendingOrderPayload) {
+  if (razorpayOrder) {
     return (
       <>
         <Helmet>
@@ -221,20 +379,16 @@ export default function CheckoutPage() {
               onSuccess={async res => {
                 setIsSubmitting(true);
                 try {
-                  const valid = await apiRequest('POST','/api/razorpay/verify',res).then(r=>r.json());
-                  if (!valid.valid) throw new Error('Invalid');
-                  pendingOrderPayload.order.paymentStatus = 'paid';
-                  pendingOrderPayload.order.paymentId = res.razorpay_payment_id;
-                  const data = await apiRequest('POST','/api/orders',pendingOrderPayload).then(r=>r.json());
+                  const data = await apiRequest('POST','/api/razorpay/verify',res).then(r=>r.json());
+                  if (!data.valid) throw new Error('Invalid');
                   const orderId = data.order.id;
                   toast({ title: 'Payment successful!', description: `Your order #${orderId} has been placed.` });
                   clearCart();
                   navigate(`/thank-you/${orderId}`);
-                } catch {
-                  toast({ title: 'Payment failed', variant: 'destructive' });
+                } catch (error) {
+                  toast({ title: 'Payment failed', description: getOrderErrorMessage(error), variant: 'destructive' });
                   // Reset payment state if payment fails
                   setRazorpayOrder(null);
-                  setPendingOrderPayload(null);
                 } finally { 
                   setIsSubmitting(false); 
                 }
@@ -242,16 +396,16 @@ export default function CheckoutPage() {
               onError={err => {
                 toast({ title: 'Payment error', description: err.error?.description||err.message, variant: 'destructive' });
                 // Reset payment state when payment is canceled or errors out
+                releaseReservation(razorpayOrder.orderId);
                 setRazorpayOrder(null);
-                setPendingOrderPayload(null);
                 setIsSubmitting(false);
               }}
             />
             
             <button 
               onClick={() => {
+                releaseReservation(razorpayOrder.orderId);
                 setRazorpayOrder(null);
-                setPendingOrderPayload(null);
                 setIsSubmitting(false);
               }}
               className="mt-4 text-gray-600 hover:text-primary underline text-sm"
@@ -317,6 +471,8 @@ export default function CheckoutPage() {
                       <h2 className="font-heading text-lg text-primary">Billing Information</h2>
                     </div>
                     <div className="p-6 space-y-6">
+                      {renderSavedAddressPicker("billing")}
+
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                         <FormField
                           control={form.control}
@@ -442,6 +598,8 @@ export default function CheckoutPage() {
                       {!sameAsBilling && (
                         <div className="border-t border-neutral-sand pt-6 space-y-6">
                           <h3 className="font-heading text-primary">Shipping Information</h3>
+
+                          {renderSavedAddressPicker("shipping")}
                           
                           <FormField
                             control={form.control}
@@ -539,12 +697,32 @@ export default function CheckoutPage() {
                                 </FormItem>
                                 <FormItem className="flex items-center space-x-3 space-y-0">
                                   <FormControl>
-                                    <RadioGroupItem value="cod" />
+                                    <RadioGroupItem value="cod" disabled={!!appliedGiftCard} />
                                   </FormControl>
                                   <FormLabel className="font-normal cursor-pointer">
                                     Cash on Delivery
                                   </FormLabel>
                                 </FormItem>
+                                {appliedGiftCard && (
+                                  <p className="text-sm pl-7 text-neutral-gray">
+                                    {paidByGiftCard
+                                      ? "Your gift card covers this order; no further payment is needed."
+                                      : "Cash on delivery cannot be combined with a gift card."}
+                                  </p>
+                                )}
+                                {field.value === "cod" && !appliedGiftCard && (
+                                  <p className={`text-sm pl-7 ${codEligibility && !codEligibility.eligible ? "text-red-600" : "text-neutral-gray"}`}>
+                                    {!/^\d{6}$/.test(deliveryPincode)
+                                      ? "Enter your delivery pincode to check cash on delivery."
+                                      : pricingCart
+                                        ? "Checking cash on delivery for your pincode..."
+                                        : codEligibility?.eligible
+                                          ? codEligibility.fee > 0
+                                            ? `Available. A ${formatCurrency(codEligibility.fee)} cash handling fee applies.`
+                                            : "Available for your pincode."
+                                          : codEligibility?.reason}
+                                  </p>
+                                )}
                               </RadioGroup>
                             </FormControl>
                             <FormMessage />
@@ -584,78 +762,146 @@ export default function CheckoutPage() {
                   <div className="space-y-4">
                     {/* Product List */}
                     <div className="divide-y divide-neutral-sand">
-                      {cartItems.map((item) => (
-                        <div key={item.id} className="flex items-start gap-4 py-4 first:pt-0 last:pb-4">
-                          {item.product?.imageUrl && (
-                            <img 
-                              src={item.product.imageUrl} 
-                              alt={item.product.name} 
-                              className="w-20 h-20 object-cover rounded bg-neutral-50"
-                            />
-                          )}
-                          <div className="flex-1 min-w-0">
-                            <h4 className="text-sm font-medium text-gray-900 leading-snug mb-1">
-                              {item.product?.name}
-                            </h4>
-                            <div className="flex items-center gap-2 mb-1">
-                              <span className="text-xs text-gray-500 bg-neutral-50 px-2 py-1 rounded">
-                                Qty: {item.quantity}
-                              </span>
-                              {item.product?.isFreeProduct && (
-                                <span className="text-xs text-primary bg-primary/5 px-2 py-1 rounded font-medium">
-                                  Free Gift
+                      {cartItems.map((item) => {
+                        const line = summaryLines.get(String(item.id));
+                        return (
+                          <div key={item.id} className="flex items-start gap-4 py-4 first:pt-0 last:pb-4">
+                            {item.product?.imageUrl && (
+                              <img 
+                                src={item.product.imageUrl} 
+                                alt={item.product.name} 
+                                className="w-20 h-20 object-cover rounded bg-neutral-50"
+                              />
+                            )}
+                            <div className="flex-1 min-w-0">
+                              <h4 className="text-sm font-medium text-gray-900 leading-snug mb-1">
+                                {item.product?.name}
+                              </h4>
+                              {item.variantLabel && (
+                                <p className="text-xs text-gray-500 mb-1">{item.variantLabel}</p>
+                              )}
+                              <div className="flex items-center gap-2 mb-1">
+                                <span className="text-xs text-gray-500 bg-neutral-50 px-2 py-1 rounded">
+                                  Qty: {item.quantity}
                                 </span>
+                                {item.product?.isFreeProduct && (
+                                  <span className="text-xs text-primary bg-primary/5 px-2 py-1 rounded font-medium">
+                                    Free Gift
+                                  </span>
+                                )}
+                              </div>
+                              <p className="text-sm font-medium text-gray-900">
+                                {item.product?.isFreeProduct ? (
+                                  <span className="text-primary">Free</span>
+                                ) : line ? (
+                                  <>
+                                    {formatCurrency(line.lineTotal)}
+                                    {line.saleDiscount > 0 && (
+                                      <span className="ml-2 text-xs text-gray-500 line-through">
+                                        {formatCurrency(line.listPrice * line.quantity)}
+                                      </span>
+                                    )}
+                                  </>
+                                ) : (
+                                  "..."
+                                )}
+                              </p>
+                              {line && !line.isFree && line.discountAmount > 0 && (
+                                <p className="text-xs text-green-600 mt-1">
+                                  Offers and coupons save {formatCurrency(line.discountAmount)}
+                                </p>
                               )}
                             </div>
-                            <p className="text-sm font-medium text-gray-900">
-                              {item.product?.isFreeProduct ? (
-                                <span className="text-primary">Free</span>
-                              ) : (
-                                formatCurrency((item.product?.price ?? 0) * item.quantity)
-                              )}
-                            </p>
                           </div>
-                        </div>
-                      ))}
+                        );
+                      })}
                     </div>
 
                     {/* Order Summary */}
                     <div className="flex justify-between items-center">
                       <span className="text-neutral-gray">Subtotal</span>
-                      <span className="font-medium">{formatCurrency(subtotal)}</span>
+                      <span className="font-medium">{summary ? formatCurrency(summary.subtotal) : "..."}</span>
                     </div>
                     
                     {/* Add Coupon Form */}
                     <CouponForm
-                      cartTotal={subtotal}
+                      cartTotal={summary?.subtotal ?? 0}
+                      items={cartItems.map(i => ({ productId: i.product._id!, variantId: i.variantId, quantity: i.quantity, isFree: !!i.product.isFreeProduct }))}
+                      email={form.watch("email")}
                       onCouponApplied={applyCoupon}
                       onCouponRemoved={removeCoupon}
                       appliedCoupon={appliedCoupon}
                     />
                     
-                    {appliedCoupon && (
+                    <GiftCardRedeemForm
+                      orderTotal={summary?.totalAmount ?? 0}
+                      appliedGiftCard={appliedGiftCard}
+                      onGiftCardApplied={setAppliedGiftCard}
+                      onGiftCardRemoved={() => setAppliedGiftCard(null)}
+                    />
+
+                    {(summary?.promotions || []).filter(promotion => promotion.discount > 0).map(promotion => (
+                      <div key={promotion.promotionId} className="flex justify-between items-center text-green-600">
+                        <span>{promotion.name}</span>
+                        <span>-{formatCurrency(promotion.discount)}</span>
+                      </div>
+                    ))}
+
+                    {summary && summary.couponDiscount > 0 && (
                       <div className="flex justify-between items-center text-green-600">
-                        <span>Discount</span>
-                        <span>-{formatCurrency(appliedCoupon.discountValue)}</span>
+                        <span>Discount ({summary.couponCodes.join(" + ")})</span>
+                        <span>-{formatCurrency(summary.couponDiscount)}</span>
                       </div>
                     )}
+                    {summary?.couponError && (
+                      <p className="text-sm text-red-600">{summary.couponError}</p>
+                    )}
                     
-                    <div className="flex justify-between items-center">
-                      <span className="text-neutral-gray">Shipping</span>
-                      <span>{finalTotal > 500 ? "Free" : formatCurrency(50)}</span>
-                    </div>
-                    
-                    <div className="flex justify-between items-center">
-                      <span className="text-neutral-gray">Tax (18%)</span>
-                      <span>{formatCurrency(finalTotal * 0.18)}</span>
-                    </div>
-                    
-                    <div className="border-t border-neutral-sand pt-4 flex justify-between items-center">
-                      <span className="font-heading text-primary">Total</span>
-                      <span className="font-heading text-xl text-primary">
-                        {formatCurrency(finalTotal + (finalTotal > 500 ? 0 : 50) + finalTotal * 0.18)}
-                      </span>
-                    </div>
+                    {summary ? (
+                      <>
+                        <div className="flex justify-between items-center">
+                          <span className="text-neutral-gray">Shipping</span>
+                          <span>{summary.shippingAmount === 0 ? "Free" : formatCurrency(summary.shippingAmount)}</span>
+                        </div>
+                        
+                        <div className="flex justify-between items-center">
+                          <span className="text-neutral-gray">Tax ({Math.round(summary.taxRate * 100)}%)</span>
+                          <span>{formatCurrency(summary.taxAmount)}</span>
+                        </div>
+
+                        {summary.codFee > 0 && (
+                          <div className="flex justify-between items-center">
+                            <span className="text-neutral-gray">Cash on delivery fee</span>
+                            <span>{formatCurrency(summary.codFee)}</span>
+                          </div>
+                        )}
+                        
+                        <div className="border-t border-neutral-sand pt-4 flex justify-between items-center">
+                          <span className="font-heading text-primary">Total</span>
+                          <span className="font-heading text-xl text-primary">
+                            {formatCurrency(summary.totalAmount)}
+                          </span>
+                        </div>
+
+                        {summary.giftCard && (
+                          <>
+                            <div className="flex justify-between items-center text-green-600">
+                              <span>Gift card ({summary.giftCard.code})</span>
+                              <span>-{formatCurrency(summary.giftCard.amount)}</span>
+                            </div>
+                            <div className="flex justify-between items-center">
+                              <span className="font-heading text-primary">To pay</span>
+                              <span className="font-heading text-xl text-primary">{formatCurrency(summary.amountDue)}</span>
+                            </div>
+                          </>
+                        )}
+                        {summary.giftCardError && (
+                          <p className="text-sm text-red-600">{summary.giftCardError}</p>
+                        )}
+                      </>
+                    ) : (
+                      <p className="text-sm text-neutral-gray">Calculating your total...</p>
+                    )}
                   </div>
                 </div>
               </div>
@@ -1,29 +1,31 @@
-import { useState, useEffect } from "react";
+import { useEffect } from "react";
 import { useParams } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import { Product, Collection } from "@shared/schema";
-import ProductCard from "@/components/products/ProductCard";
+import { Collection } from "@shared/schema";
+import { ListingFlag } from "@shared/listing";
+import ProductListing from "@/components/products/ProductListing";
+import { useListingQuery, useProductListing } from "@/hooks/useListing";
 import { Button } from "@/components/ui/button";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
 import { Helmet } from 'react-helmet';
 import CollectionBanner from '@/components/layout/CollectionBanner';
 import GreenBoxSlider from '@/components/home/GreenBoxSlider';
 
+// Listings of flagged products that read like collections
+const specialSlugs: Record<string, ListingFlag> = {
+  featured: "featured",
+  bestsellers: "bestseller",
+  new: "new",
+};
+
 export default function CollectionPage() {
   const { slug } = useParams();
   
   if (!slug) return null;
 
-  const [sortBy, setSortBy] = useState("featured");
+  const { query, setQuery } = useListingQuery();
   
-  const specialSlugs = ["featured", "bestsellers", "new"];
-  const isSpecial = specialSlugs.includes(slug);
+  const flag = specialSlugs[slug];
+  const isSpecial = !!flag;
   
   const { data: collection, isLoading: collectionLoading } = !isSpecial
     ? useQuery<Collection>({
@@ -32,58 +34,10 @@ export default function CollectionPage() {
       })
     : { data: undefined, isLoading: false as boolean };
   
-  const productsQuery = isSpecial
-    ? useQuery<Product[]>({
-        queryKey: [`/api/products/${slug}`],
-        queryFn: async () => {
-          const res = await fetch(`/api/products/${slug}`);
-          const json = await res.json();
-          return (json.data ?? json) as Product[];
-        },
-        enabled: !!slug,
-        staleTime: 0,
-        refetchOnMount: true,
-      })
-    : useQuery<Product[]>({
-        queryKey: [`/api/collections/${slug}/products`],
-        queryFn: async () => {
-          const res = await fetch(`/api/collections/${slug}/products`);
-          const json = await res.json();
-          return (json.data ?? json) as Product[];
-        },
-        enabled: !!slug,
-        staleTime: 0,
-        refetchOnMount: true,
-      });
-  const products = Array.isArray(productsQuery.data) ? productsQuery.data : [];
-  const productsLoading = productsQuery.isLoading;
-  
-  // Sort products based on selected option
-  const sortedProducts = [...products].sort((a, b) => {
-    switch (sortBy) {
-      case "price-low":
-        return a.price - b.price;
-      case "price-high":
-        return b.price - a.price;
-      case "name-asc":
-        return a.name.localeCompare(b.name);
-      case "name-desc":
-        return b.name.localeCompare(a.name);
-      case "rating":
-        return (b.rating ?? 0) - (a.rating ?? 0);
-      default:
-        // featured - show featured products first, then bestsellers, then new
-        if (a.featured && !b.featured) return -1;
-        if (!a.featured && b.featured) return 1;
-        if (a.bestseller && !b.bestseller) return -1;
-        if (!a.bestseller && b.bestseller) return 1;
-        if (a.isNew && !b.isNew) return -1;
-        if (!a.isNew && b.isNew) return 1;
-        return 0;
-    }
-  });
-  
-  const isLoading = collectionLoading || productsLoading;
+  const productsQuery = useProductListing(
+    isSpecial ? "/api/search/products" : `/api/collections/${slug}/products`,
+    isSpecial ? { ...query, flag } : query
+  );
   
   useEffect(() => {
     async function fetchPromoTimers() {
@@ -94,7 +48,7 @@ export default function CollectionPage() {
     fetchPromoTimers();
   }, []);
 
-  if (isLoading) {
+  if (collectionLoading) {
     return (
       <div className="container mx-auto px-4 py-12">
         <div className="animate-pulse h-10 w-1/3 bg-neutral-sand mb-6"></div>
@@ -166,38 +120,14 @@ export default function CollectionPage() {
       </div>
       
       <div className="container mx-auto px-4 py-12">
-        <div className="flex flex-col md:flex-row justify-between items-center mb-8">
-          <p className="text-neutral-gray mb-4 md:mb-0">{sortedProducts.length} products</p>
-          
-          <Select value={sortBy} onValueChange={setSortBy}>
-            <SelectTrigger className="w-[180px]">
-              <SelectValue placeholder="Sort by" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="featured">Featured</SelectItem>
-              <SelectItem value="price-low">Price, low to high</SelectItem>
-              <SelectItem value="price-high">Price, high to low</SelectItem>
-              <SelectItem value="name-asc">Name, A-Z</SelectItem>
-              <SelectItem value="name-desc">Name, Z-A</SelectItem>
-              <SelectItem value="rating">Best Rating</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
-        
-        {sortedProducts.length > 0 ? (
-          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-6">
-            {sortedProducts.map((product) => (
-              <ProductCard key={product._id!} product={product} showAddToCart />
-            ))}
-          </div>
-        ) : (
-          <div className="text-center py-12">
-            <p className="text-neutral-gray mb-6">No products found in this collection.</p>
-            <Button className="bg-primary hover:bg-primary-light text-white">
-              Continue Shopping
-            </Button>
-          </div>
-        )}
+        <ProductListing
+          result={productsQuery.data}
+          isLoading={productsQuery.isLoading}
+          query={query}
+          onChange={setQuery}
+          hideCollections={!isSpecial}
+          emptyMessage={isSpecial ? "No products found." : "No products found in this collection."}
+        />
       </div>
       <GreenBoxSlider />
     </>
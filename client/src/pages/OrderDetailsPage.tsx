@@ -2,6 +2,8 @@ import { useParams } from "wouter";
 import { useEffect, useState } from "react";
 import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
+import { getOrderStatusLabel } from "@shared/orderStatus";
+import type { OrderStatusChange } from "@shared/schema";
 
 export default function OrderDetailsPage() {
   const params = useParams();
@@ -11,9 +13,15 @@ export default function OrderDetailsPage() {
 
   useEffect(() => {
     async function fetchOrder() {
-      const res = await apiRequest("GET", `/api/orders/${orderId}`);
-      setOrder(await res.json());
-      setLoading(false);
+      try {
+        const res = await apiRequest("GET", `/api/orders/${orderId}`);
+        const data = await res.json();
+        setOrder(data.order ?? null);
+      } catch {
+        setOrder(null);
+      } finally {
+        setLoading(false);
+      }
     }
     fetchOrder();
   }, [orderId]);
@@ -21,14 +29,30 @@ export default function OrderDetailsPage() {
   if (loading) return <div className="container mx-auto p-8">Loading...</div>;
   if (!order) return <div className="container mx-auto p-8">Order not found.</div>;
 
+  const history: OrderStatusChange[] = Array.isArray(order.statusHistory) ? order.statusHistory : [];
+
   return (
     <div className="container mx-auto p-8">
       <h1 className="text-2xl font-heading mb-4">Order Details</h1>
       <p><b>Order ID:</b> {order.id}</p>
-      <p><b>Status:</b> {order.status}</p>
+      <p><b>Status:</b> {getOrderStatusLabel(order.status)}</p>
       <p><b>Total:</b> ₹{order.totalAmount}</p>
       <p><b>Placed on:</b> {new Date(order.createdAt).toLocaleDateString()}</p>
-      {/* Add more details as needed */}
+      {history.length > 0 && (
+        <div className="mt-6">
+          <h2 className="text-lg font-heading mb-3">Order Timeline</h2>
+          <ol className="relative border-l border-neutral-200 ml-2 space-y-4">
+            {history.map((entry, index) => (
+              <li key={index} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-primary"></span>
+                <p className="font-medium">{getOrderStatusLabel(entry.status)}</p>
+                <p className="text-xs text-neutral-500">{new Date(entry.changedAt).toLocaleString()}</p>
+                {entry.note && <p className="text-sm mt-1">{entry.note}</p>}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
       <Button asChild className="mt-4">
         <a href="/account">Back to Account</a>
       </Button>
@@ -45,7 +45,8 @@ const ProductDetail: React.FC = () => {
       const cartValue = product ? product.price : 0;
       const response = await axios.post('/api/coupons/validate', {
         code: couponCode,
-        cartValue
+        cartValue,
+        items: id ? [{ productId: id, quantity: 1 }] : undefined
       });
       if (response.data.valid) {
         const discountAmount = response.data.discountValue;
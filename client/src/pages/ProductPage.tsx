@@ -2,6 +2,7 @@ import { useState } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { Product, Review } from "@shared/schema";
+import { applyVariant, findVariant, findVariantByOptions, hasVariants } from "@shared/variants";
 // Extend Review type with server-enriched fields
 type EnrichedReview = Review & { _id?: string; userName?: string };
 import ReviewForm from "@/components/product/ReviewForm";
@@ -17,6 +18,9 @@ import { useEffect } from "react";
 import StickyAddToCart from "@/components/products/StickyAddToCart";
 import { apiRequest } from "@/lib/queryClient";
 import SocialShare from "@/components/products/SocialShare";
+import WishlistButton from "@/components/products/WishlistButton";
+import VariantSelector, { pickOption } from "@/components/products/VariantSelector";
+import { ProductHighlights, ProductIngredients, ProductUsage, hasIngredients, hasUsage } from "@/components/products/ProductAttributes";
 
 export default function ProductPage() {
   const { slug } = useParams();
@@ -34,11 +38,31 @@ export default function ProductPage() {
   const [serviceLoading, setServiceLoading] = useState(false);
   const [serviceError, setServiceError] = useState('');
   const [couponApplied, setCouponApplied] = useState(false);
+  const [selectedOptions, setSelectedOptions] = useState<Record<string, string>>({});
   
   const { data: product, isLoading: productLoading, error } = useQuery<Product>({
     queryKey: [`/api/products/${slug}`],
     enabled: !!slug,
   });
+
+  // Open on the variant named in ?variant=, else the default one
+  useEffect(() => {
+    if (!product || !hasVariants(product)) return;
+    const requested = new URLSearchParams(window.location.search).get("variant");
+    const initial = (requested && findVariant(product, requested)) || findVariant(product);
+    setSelectedOptions(initial ? { ...initial.options } : {});
+    setSelectedImageIndex(0);
+  }, [product?._id]);
+
+  const variant = product ? findVariantByOptions(product, selectedOptions) : undefined;
+  // A product with variants can only be bought once a combination that exists is picked
+  const variantUnavailable = !!product && hasVariants(product) && !variant;
+
+  const handleSelectOption = (name: string, value: string) => {
+    if (!product) return;
+    setSelectedOptions(pickOption(product, selectedOptions, name, value));
+    setSelectedImageIndex(0);
+  };
   
   const { data: reviews = [], isLoading: reviewsLoading } = useQuery<EnrichedReview[]>({
     queryKey: [`/api/products/${product?._id}/reviews`],
@@ -72,15 +96,18 @@ export default function ProductPage() {
     }
   }, [product?._id, toast, couponApplied]);
   
+  // Flash sales may limit how many units one customer can buy at the sale price
+  const maxQuantity = product?.flashSale?.perCustomerLimit ? Math.min(product.flashSale.perCustomerLimit, 10) : 10;
+
   const handleQuantityChange = (newQuantity: number) => {
-    if (newQuantity >= 1 && newQuantity <= 10) {
+    if (newQuantity >= 1 && newQuantity <= maxQuantity) {
       setQuantity(newQuantity);
     }
   };
   
   const handleAddToCart = () => {
     for (let i = 0; i < quantity; i++) {
-      addItem(product!);
+      addItem(product!, variant);
     }
     
     (toast as any)(`Added to cart`);
@@ -89,7 +116,7 @@ export default function ProductPage() {
   const handleBuyNow = async (product: Product) => {
     try {
       for (let i = 0; i < quantity; i++) {
-        await addItem(product);
+        await addItem(product, variant);
       }
       (toast as any)('Added to cart');
       navigate('/checkout');
@@ -174,6 +201,9 @@ export default function ProductPage() {
     );
   }
   
+  // Price, stock and images of the selected variant
+  const shown = applyVariant(product, variant);
+
   return (
     <>
       <Helmet>
@@ -181,7 +211,7 @@ export default function ProductPage() {
         <meta name="description" content={product!.shortDescription || product!.description.substring(0, 160)} />
         <meta property="og:title" content={product!.name} />
         <meta property="og:description" content={product!.shortDescription || product!.description.substring(0, 160)} />
-        <meta property="og:image" content={product!.images?.[selectedImageIndex] || product!.imageUrl} />
+        <meta property="og:image" content={shown.images?.[selectedImageIndex] || shown.imageUrl} />
         <meta property="og:url" content={window.location.href} />
         <meta property="og:type" content="product" />
       </Helmet>
@@ -199,13 +229,13 @@ export default function ProductPage() {
           <div className="w-full md:w-1/2">
             <div className="border border-neutral-sand p-8 rounded-md">
               <img
-                src={product!.images?.[selectedImageIndex] || product!.imageUrl}
+                src={shown.images?.[selectedImageIndex] || shown.imageUrl}
                 alt={product!.name}
                 className="w-full h-auto max-h-[500px] object-contain mx-auto"
               />
-              {product!.images && product!.images.length > 1 && (
+              {shown.images && shown.images.length > 1 && (
                 <div className="flex mt-4 space-x-2 justify-center">
-                  {product!.images.map((img, idx) => (
+                  {shown.images.map((img, idx) => (
                     <img
                       key={idx}
                       src={img}
@@ -221,7 +251,10 @@ export default function ProductPage() {
           
           {/* Product Details */}
           <div className="w-full md:w-1/2">
-            <h1 className="font-heading text-2xl md:text-3xl text-primary mb-2">{product!.name}</h1>
+            <div className="flex items-start justify-between gap-4">
+              <h1 className="font-heading text-2xl md:text-3xl text-primary mb-2">{product!.name}</h1>
+              <WishlistButton product={product!} className="shrink-0 mt-1" />
+            </div>
             
             <RatingStars rating={product!.rating} reviews={product!.totalReviews} size="md" />
             
@@ -229,20 +262,40 @@ export default function ProductPage() {
             
             <div className="mb-6">
               <p className="font-heading text-xl text-primary">
-                ₹{product!.price?.toFixed(2) ?? '0.00'}
-                {product!.discountedPrice && (
+                ₹{shown.price?.toFixed(2) ?? '0.00'}
+                {shown.discountedPrice && (
                   <span className="ml-3 text-base text-neutral-gray line-through">
-                    ₹{product!.discountedPrice?.toFixed(2) ?? '0.00'}
+                    ₹{shown.discountedPrice?.toFixed(2) ?? '0.00'}
                   </span>
                 )}
               </p>
-              {product!.stock > 0 ? (
+              {/* The product's flash sale is priced on its default variant */}
+              {product!.flashSale && (!variant || variant === findVariant(product!)) && (
+                <div className="mt-2 inline-flex flex-col gap-1 rounded border border-[#a78bfa] bg-[#f5f3ff] px-3 py-2 text-sm">
+                  <span className="font-semibold text-[#6d28d9]">
+                    {product!.flashSale.name}: ₹{product!.flashSale.salePrice.toFixed(2)} until {new Date(product!.flashSale.endTime).toLocaleString()}
+                  </span>
+                  {product!.flashSale.perCustomerLimit > 0 && (
+                    <span className="text-xs text-neutral-gray">Limit {product!.flashSale.perCustomerLimit} per customer at the sale price</span>
+                  )}
+                  {product!.flashSale.remaining !== null && (
+                    <span className="text-xs text-neutral-gray">Only {product!.flashSale.remaining} left at this price</span>
+                  )}
+                </div>
+              )}
+              {variantUnavailable ? (
+                <p className="text-sm text-red-500 mt-1">This combination is not available</p>
+              ) : shown.stock > 0 ? (
                 <p className="text-sm text-green-600 mt-1">In Stock</p>
               ) : (
-                <p className="text-sm text-red-500 mt-1">Out of Stock</p>
+                <p className="text-sm text-red-500 mt-1">Out of Stock – add it to your wishlist to hear when it's back</p>
               )}
             </div>
             
+            <ProductHighlights attributes={product!.attributes} />
+
+            <VariantSelector product={product!} selected={selectedOptions} onSelect={handleSelectOption} />
+
             <div className="mb-8">
               <div className="flex items-center mb-4">
                 <label htmlFor="quantity" className="mr-4 text-neutral-gray">Quantity:</label>
@@ -261,7 +314,7 @@ export default function ProductPage() {
                     type="number"
                     id="quantity"
                     min="1"
-                    max="10"
+                    max={maxQuantity}
                     value={quantity}
                     onChange={(e) => handleQuantityChange(parseInt(e.target.value) || 1)}
                     className="w-12 text-center border-x border-neutral-sand focus:outline-none"
@@ -269,7 +322,7 @@ export default function ProductPage() {
                   <button
                     onClick={() => handleQuantityChange(quantity + 1)}
                     className="w-10 h-10 flex items-center justify-center text-foreground"
-                    disabled={quantity >= 10}
+                    disabled={quantity >= maxQuantity}
                     aria-label="Increase quantity"
                   >
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -283,12 +336,13 @@ export default function ProductPage() {
                 <Button
                   onClick={handleAddToCart}
                   className="w-full bg-black hover:bg-primary-light text-white uppercase tracking-wider py-6 font-medium"
-                  disabled={product!.stock <= 0}
+                  disabled={variantUnavailable || shown.stock <= 0}
                 >
-                  {product!.stock <= 0 ? "Out of Stock" : "Add to Cart"}
+                  {variantUnavailable ? "Unavailable" : shown.stock <= 0 ? "Out of Stock" : "Add to Cart"}
                 </Button>
                 <Button
                   onClick={() => handleBuyNow(product!)}
+                  disabled={variantUnavailable}
                   className="w-full bg-primary hover:bg-primary-light text-white uppercase tracking-wider py-6 font-medium"
                 >
                   Buy Now
@@ -298,7 +352,7 @@ export default function ProductPage() {
                 url={window.location.href}
                 title={product!.name}
                 description={product!.shortDescription || product!.description}
-                image={product!.images?.[selectedImageIndex] || product!.imageUrl}
+                image={shown.images?.[selectedImageIndex] || shown.imageUrl}
               />
             </div>
             {/* Serviceability Check */}
@@ -441,39 +495,43 @@ export default function ProductPage() {
             </TabsContent>
             
             <TabsContent value="ingredients" className="pt-6">
-              <div className="prose prose-sm max-w-none text-neutral-gray">
-                <p>
-                  Our products are crafted with authentic Ayurvedic ingredients sourced directly 
-                  from trusted suppliers across India. Each ingredient is carefully selected for 
-                  its potency and purity, and is processed according to traditional Ayurvedic methods.
-                </p>
-                <p>
-                  The key ingredients in this product include [placeholder for specific product ingredients], 
-                  known for their [placeholder for benefits].
-                </p>
-                <p>
-                  All Kama Ayurveda products are free from parabens, petroleum derivatives, synthetic colors, 
-                  and fragrances. Our formulations are cruelty-free and environmentally conscious.
-                </p>
-              </div>
+              {hasIngredients(product!.attributes) ? (
+                <ProductIngredients attributes={product!.attributes!} />
+              ) : (
+                <div className="prose prose-sm max-w-none text-neutral-gray">
+                  <p>
+                    Our products are crafted with authentic Ayurvedic ingredients sourced directly 
+                    from trusted suppliers across India. Each ingredient is carefully selected for 
+                    its potency and purity, and is processed according to traditional Ayurvedic methods.
+                  </p>
+                  <p>
+                    All Kama Ayurveda products are free from parabens, petroleum derivatives, synthetic colors, 
+                    and fragrances. Our formulations are cruelty-free and environmentally conscious.
+                  </p>
+                </div>
+              )}
             </TabsContent>
             
             <TabsContent value="how-to-use" className="pt-6">
-              <div className="prose prose-sm max-w-none text-neutral-gray">
-                <p>
-                  For optimal results, follow these simple steps:
-                </p>
-                <ol>
-                  <li>Start with clean skin/hair</li>
-                  <li>Apply a small amount of product</li>
-                  <li>Gently massage in circular motions</li>
-                  <li>Leave on for recommended time if applicable</li>
-                  <li>Follow with complementary products in your routine</li>
-                </ol>
-                <p>
-                  For detailed instructions specific to this product, please refer to the packaging.
-                </p>
-              </div>
+              {hasUsage(product!.attributes) ? (
+                <ProductUsage attributes={product!.attributes!} />
+              ) : (
+                <div className="prose prose-sm max-w-none text-neutral-gray">
+                  <p>
+                    For optimal results, follow these simple steps:
+                  </p>
+                  <ol>
+                    <li>Start with clean skin/hair</li>
+                    <li>Apply a small amount of product</li>
+                    <li>Gently massage in circular motions</li>
+                    <li>Leave on for recommended time if applicable</li>
+                    <li>Follow with complementary products in your routine</li>
+                  </ol>
+                  <p>
+                    For detailed instructions specific to this product, please refer to the packaging.
+                  </p>
+                </div>
+              )}
             </TabsContent>
           </Tabs>
         </div>
@@ -487,10 +545,13 @@ export default function ProductPage() {
         </div>
       </div>
       <StickyAddToCart
-        product={product!}
+        product={shown}
         quantity={quantity}
         setQuantity={setQuantity}
         onAddToCart={handleAddToCart}
+        selectedOptions={selectedOptions}
+        onSelectOption={handleSelectOption}
+        disabled={variantUnavailable || shown.stock <= 0}
       />
     </>
   );
@@ -0,0 +1,73 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useLocation } from "wouter";
+import { Helmet } from 'react-helmet';
+import { Button } from "@/components/ui/button";
+import { useCart } from "@/hooks/useCart";
+import { apiRequest } from "@/lib/queryClient";
+
+// The server's JSON error message from an apiRequest failure
+function getErrorMessage(error: unknown, fallback: string) {
+  const text = String((error as Error)?.message || "").replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(text).message || fallback;
+  } catch {
+    return text || fallback;
+  }
+}
+
+// Landing page for the link in an abandoned cart email: puts the items back in
+// the cart and sends the shopper on to it, with the recovery coupon if there is one
+export default function RestoreCartPage() {
+  const { cartId, reloadCart } = useCart();
+  const [, navigate] = useLocation();
+  const [error, setError] = useState<string | null>(null);
+  const started = useRef(false);
+
+  useEffect(() => {
+    // Wait for the cart to load, so a guest has a session for the items to go into
+    if (!cartId || started.current) return;
+    started.current = true;
+    const token = new URLSearchParams(window.location.search).get("token");
+    if (!token) {
+      setError("This cart link is incomplete.");
+      return;
+    }
+    (async () => {
+      try {
+        const response = await apiRequest("POST", "/api/cart/restore", {
+          token,
+          sessionId: localStorage.getItem("cartSessionId") || undefined,
+        });
+        const { couponCode } = await response.json();
+        await reloadCart();
+        navigate(couponCode ? `/cart?coupon=${encodeURIComponent(couponCode)}` : "/cart");
+      } catch (err) {
+        setError(getErrorMessage(err, "We couldn't restore your cart."));
+      }
+    })();
+  }, [cartId]);
+
+  return (
+    <>
+      <Helmet>
+        <title>Restoring your cart | Kama Ayurveda</title>
+      </Helmet>
+      <div className="container mx-auto px-4 py-16 text-center">
+        {error ? (
+          <>
+            <h1 className="text-2xl font-heading text-primary mb-3">Your cart couldn't be restored</h1>
+            <p className="text-neutral-gray mb-6">{error}</p>
+            <Button asChild className="bg-primary hover:bg-primary-light text-white">
+              <Link href="/collections/all">Continue Shopping</Link>
+            </Button>
+          </>
+        ) : (
+          <>
+            <span className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent mb-4" />
+            <p className="text-neutral-gray">Restoring your cart...</p>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
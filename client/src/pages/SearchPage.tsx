@@ -0,0 +1,49 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import ProductListing from '@/components/products/ProductListing';
+import { useListingQuery, useProductListing } from '@/hooks/useListing';
+import { getSearchSessionId } from '@/hooks/useSearch';
+import { Helmet } from 'react-helmet';
+
+export default function SearchPage() {
+  const { query, setQuery } = useListingQuery();
+  const q = query.q || '';
+  const queryClient = useQueryClient();
+
+  const searchQuery = useProductListing(q ? '/api/search/products' : null, query, { sessionId: getSearchSessionId() });
+  const result = searchQuery.data;
+
+  // The search just ran is now one of the shopper's recent searches
+  useEffect(() => {
+    if (result?.query) queryClient.invalidateQueries({ queryKey: ['/api/search/recent'] });
+  }, [result?.query]);
+
+  return (
+    <>
+      <Helmet>
+        <title>{q ? `Search results for "${q}"` : 'Search'} | Shop</title>
+        <meta name="robots" content="noindex" />
+      </Helmet>
+      <div className="bg-neutral-cream py-10">
+        <div className="container mx-auto px-4 text-center">
+          <h1 className="font-heading text-3xl md:text-4xl text-primary">
+            {q ? `Results for "${q}"` : 'Search'}
+          </h1>
+        </div>
+      </div>
+      <div className="container mx-auto px-4 py-12">
+        {!q ? (
+          <p className="text-center text-neutral-gray">Type what you are looking for in the search bar.</p>
+        ) : (
+          <ProductListing
+            result={result}
+            isLoading={searchQuery.isLoading}
+            query={query}
+            onChange={setQuery}
+            emptyMessage="No products found. Try a different spelling or fewer filters."
+          />
+        )}
+      </div>
+    </>
+  );
+}
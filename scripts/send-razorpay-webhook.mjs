@@ -0,0 +1,53 @@
+// Sign a Razorpay webhook fixture with a local secret and post it to the API
+// Usage: RAZORPAY_WEBHOOK_SECRET=secret node scripts/send-razorpay-webhook.mjs <event> [razorpayOrderId] [paymentId] [amountPaise]
+//   e.g. node scripts/send-razorpay-webhook.mjs payment.captured order_Nx1 pay_Nx1 118000
+// Set WEBHOOK_URL to target another server and EVENT_ID to replay a specific delivery.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const [eventName, razorpayOrderId, paymentId, amount] = process.argv.slice(2);
+const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+const url = process.env.WEBHOOK_URL || 'http://localhost:5000/api/razorpay/webhook';
+
+if (!eventName || !secret) {
+  console.error('Usage: RAZORPAY_WEBHOOK_SECRET=secret node scripts/send-razorpay-webhook.mjs <event> [razorpayOrderId] [paymentId] [amountPaise]');
+  process.exit(1);
+}
+
+const fixturePath = path.join(__dirname, 'razorpay-webhook-fixtures', `${eventName}.json`);
+const event = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+
+// Point the fixture at a real checkout
+const payment = event.payload.payment?.entity;
+const refund = event.payload.refund?.entity;
+if (payment && razorpayOrderId) payment.order_id = razorpayOrderId;
+if (paymentId) {
+  if (payment) payment.id = paymentId;
+  if (refund) refund.payment_id = paymentId;
+}
+if (amount) {
+  if (payment) payment.amount = Number(amount);
+  if (refund) refund.amount = Number(amount);
+}
+
+const body = JSON.stringify(event);
+const signature = crypto.createHmac('sha256', secret).update(body).digest('hex');
+const eventId = process.env.EVENT_ID || `evt_${crypto.randomBytes(7).toString('hex')}`;
+
+const res = await fetch(url, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    'X-Razorpay-Signature': signature,
+    'X-Razorpay-Event-Id': eventId,
+  },
+  body,
+});
+console.log(`${eventName} (${eventId}) -> ${res.status}`);
+console.log(await res.text());
@@ -0,0 +1,159 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import AddressModel from '../models/Address';
+import { AuthRequest } from '../middleware/auth';
+import {
+  AddressBookError,
+  MAX_ADDRESSES,
+  checkPincodeServiceability,
+  ensureDefaultAddresses,
+  getAddressBook,
+  setDefaultAddress,
+} from '../utils/addressBook';
+
+const addressSchema = z.object({
+  label: z.string().trim().max(30).optional().default('Home').transform(label => label || 'Home'),
+  name: z.string().trim().min(1, 'Name is required'),
+  phone: z.string().trim().regex(/^[6-9]\d{9}$/, 'Enter a valid 10-digit mobile number'),
+  address: z.string().trim().min(1, 'Address is required'),
+  landmark: z.string().trim().optional(),
+  city: z.string().trim().min(1, 'City is required'),
+  state: z.string().trim().min(1, 'State is required'),
+  pincode: z.string().trim().regex(/^\d{6}$/, 'Enter a valid 6-digit pincode'),
+  isDefaultShipping: z.boolean().optional().default(false),
+  isDefaultBilling: z.boolean().optional().default(false),
+});
+
+const defaultSchema = z.object({
+  type: z.enum(['shipping', 'billing']),
+});
+
+function sendValidationError(res: Response, error: z.ZodError) {
+  return res.status(400).json({ message: error.errors[0]?.message || 'Invalid input', errors: error.errors });
+}
+
+// Check the pincode before anything is saved; addresses we cannot deliver to are refused
+async function checkDeliverable(pincode: string) {
+  const serviceability = await checkPincodeServiceability(pincode);
+  if (serviceability.serviceable === false) {
+    throw new AddressBookError(`We do not deliver to pincode ${pincode} yet`, 422);
+  }
+  return { ...serviceability, serviceabilityCheckedAt: new Date() };
+}
+
+async function findOwnAddress(req: AuthRequest) {
+  if (!mongoose.isValidObjectId(req.params.id)) return null;
+  return AddressModel.findOne({ _id: req.params.id, userId: req.user.id });
+}
+
+// List the signed-in customer's saved addresses
+export const getAddresses = async (req: AuthRequest, res: Response) => {
+  try {
+    const addresses = await getAddressBook(req.user.id);
+    return res.status(200).json(addresses);
+  } catch (error) {
+    console.error('Error fetching addresses:', error);
+    return res.status(500).json({ message: 'Error fetching addresses' });
+  }
+};
+
+// Save a new address. The first one becomes the default for shipping and billing.
+export const createAddress = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user.id;
+    const data = addressSchema.parse(req.body);
+    const count = await AddressModel.countDocuments({ userId });
+    if (count >= MAX_ADDRESSES) {
+      return res.status(400).json({ message: `You can save up to ${MAX_ADDRESSES} addresses` });
+    }
+    const address = await AddressModel.create({
+      ...data,
+      ...(await checkDeliverable(data.pincode)),
+      userId,
+      isDefaultShipping: false,
+      isDefaultBilling: false,
+    });
+    const addressId = String(address._id);
+    if (data.isDefaultShipping || count === 0) await setDefaultAddress(userId, addressId, 'shipping');
+    if (data.isDefaultBilling || count === 0) await setDefaultAddress(userId, addressId, 'billing');
+    return res.status(201).json(await AddressModel.findById(address._id));
+  } catch (error) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    if (error instanceof AddressBookError) return res.status(error.status).json({ message: error.message });
+    console.error('Error creating address:', error);
+    return res.status(500).json({ message: 'Error creating address' });
+  }
+};
+
+// Update an address; the pincode is checked again only when it changes
+export const updateAddress = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user.id;
+    const data = addressSchema.parse(req.body);
+    const address = await findOwnAddress(req);
+    if (!address) {
+      return res.status(404).json({ message: 'Address not found' });
+    }
+    const serviceability = address.pincode !== data.pincode ? await checkDeliverable(data.pincode) : {};
+    const { isDefaultShipping, isDefaultBilling, ...fields } = data;
+    address.set({ ...fields, ...serviceability });
+    await address.save();
+    const addressId = String(address._id);
+    if (isDefaultShipping) await setDefaultAddress(userId, addressId, 'shipping');
+    if (isDefaultBilling) await setDefaultAddress(userId, addressId, 'billing');
+    return res.status(200).json(await AddressModel.findById(address._id));
+  } catch (error) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    if (error instanceof AddressBookError) return res.status(error.status).json({ message: error.message });
+    console.error('Error updating address:', error);
+    return res.status(500).json({ message: 'Error updating address' });
+  }
+};
+
+// Make an address the default for shipping or billing
+export const makeDefaultAddress = async (req: AuthRequest, res: Response) => {
+  try {
+    const { type } = defaultSchema.parse(req.body);
+    const address = await findOwnAddress(req);
+    if (!address) {
+      return res.status(404).json({ message: 'Address not found' });
+    }
+    await setDefaultAddress(req.user.id, String(address._id), type);
+    return res.status(200).json(await getAddressBook(req.user.id));
+  } catch (error) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    console.error('Error setting default address:', error);
+    return res.status(500).json({ message: 'Error setting default address' });
+  }
+};
+
+// Delete an address; a default it held passes to the most recent remaining address
+export const deleteAddress = async (req: AuthRequest, res: Response) => {
+  try {
+    const address = await findOwnAddress(req);
+    if (!address) {
+      return res.status(404).json({ message: 'Address not found' });
+    }
+    await address.deleteOne();
+    await ensureDefaultAddresses(req.user.id);
+    return res.status(200).json({ message: 'Address deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting address:', error);
+    return res.status(500).json({ message: 'Error deleting address' });
+  }
+};
+
+// Check a pincode before the customer saves it
+export const checkAddressPincode = async (req: AuthRequest, res: Response) => {
+  try {
+    const pincode = String(req.query.pincode || '').trim();
+    if (!/^\d{6}$/.test(pincode)) {
+      return res.status(400).json({ message: 'Enter a valid 6-digit pincode' });
+    }
+    return res.status(200).json(await checkPincodeServiceability(pincode));
+  } catch (error) {
+    console.error('Error checking pincode:', error);
+    return res.status(500).json({ message: 'Error checking pincode' });
+  }
+};
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
-import jwt, { Secret, SignOptions } from 'jsonwebtoken';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { getJwtSecret, verifyToken } from '../middleware/auth';
 import bcrypt from 'bcrypt';
 import UserModel from '../models/User';
 
@@ -48,7 +49,7 @@ export const adminLogin = async (req: Request, res: Response) => {
     console.log('Generating JWT token');
     const token = jwt.sign(
       { id: admin._id, isAdmin: admin.isAdmin, email: admin.email },
-      (process.env.JWT_SECRET as Secret) || 'default_secret',
+      getJwtSecret(),
       { expiresIn: process.env.JWT_EXPIRES_IN || '7d' } as SignOptions
     );
 
@@ -96,7 +97,7 @@ export const verifyAdminToken = (req: Request, res: Response) => {
       return res.status(401).json({ message: 'Not authenticated', isAuthenticated: false });
     }
 
-    const decoded = jwt.verify(token, (process.env.JWT_SECRET as Secret) || 'default_secret');
+    const decoded = verifyToken(token);
     return res.status(200).json({ 
       message: 'Authenticated', 
       isAuthenticated: true, 
@@ -0,0 +1,39 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth';
+import { getRequestedCouponCodes } from '../utils/coupons';
+import { CartSummaryError, summarizeCart } from '../utils/cartSummary';
+
+const summaryQuerySchema = z.object({
+  coupons: z.string().optional(), // comma separated
+  email: z.string().trim().email('Enter a valid email address').optional(),
+  giftCard: z.string().trim().min(1).optional(),
+  giftCardAmount: z.coerce.number().positive('Enter a valid amount to redeem').optional(),
+  paymentMethod: z.enum(['card', 'upi', 'cod', 'giftcard']).optional(),
+  pincode: z.string().trim().regex(/^\d{6}$/, 'Enter a valid 6 digit pincode').optional(),
+});
+
+function sendValidationError(res: Response, error: z.ZodError) {
+  return res.status(400).json({ message: error.errors[0]?.message || 'Invalid input', errors: error.errors });
+}
+
+// The cart's full price breakdown; the mini cart and checkout show only what this returns
+export const getCartSummary = async (req: AuthRequest, res: Response) => {
+  try {
+    const query = summaryQuerySchema.parse(req.query);
+    const summary = await summarizeCart(req.params.id, {
+      couponCodes: getRequestedCouponCodes((query.coupons || '').split(',')),
+      customer: { userId: req.user?.id, email: query.email },
+      giftCardCode: query.giftCard,
+      giftCardAmount: query.giftCardAmount,
+      paymentMethod: query.paymentMethod,
+      pincode: query.pincode,
+    });
+    return res.status(200).json(summary);
+  } catch (error) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    if (error instanceof CartSummaryError) return res.status(error.status).json({ message: error.message });
+    console.error('Error pricing cart:', error);
+    return res.status(500).json({ message: 'Error pricing cart' });
+  }
+};
@@ -0,0 +1,63 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import CartModel from '../models/Cart';
+import { AuthRequest } from '../middleware/auth';
+import { CartRecoveryError, getCartRecoveryReport, restoreCart } from '../utils/cartRecovery';
+
+const restoreSchema = z.object({
+  token: z.string().min(1, 'token is required'),
+  sessionId: z.string().optional(),
+});
+
+const emailSchema = z.object({
+  email: z.string().trim().email('Enter a valid email address'),
+});
+
+function sendValidationError(res: Response, error: z.ZodError) {
+  return res.status(400).json({ message: error.errors[0]?.message || 'Invalid input', errors: error.errors });
+}
+
+// Open a recovery email's link: the abandoned items go back into the shopper's current cart
+export const restoreAbandonedCart = async (req: AuthRequest, res: Response) => {
+  try {
+    const { token, sessionId } = restoreSchema.parse(req.body);
+    const result = await restoreCart(token, req.user?.id ? { userId: req.user.id } : { sessionId });
+    return res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    if (error instanceof CartRecoveryError) return res.status(error.status).json({ message: error.message });
+    console.error('Error restoring cart:', error);
+    return res.status(500).json({ message: 'Error restoring cart' });
+  }
+};
+
+// Remember the email typed at checkout, so a guest's cart can be recovered if they leave
+export const captureCartEmail = async (req: AuthRequest, res: Response) => {
+  try {
+    const { email } = emailSchema.parse(req.body);
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Cart not found' });
+    }
+    const result = await CartModel.updateOne({ _id: req.params.id }, { $set: { email } });
+    if (result.matchedCount === 0) {
+      return res.status(404).json({ message: 'Cart not found' });
+    }
+    return res.status(204).end();
+  } catch (error) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    console.error('Error saving cart email:', error);
+    return res.status(500).json({ message: 'Error saving cart email' });
+  }
+};
+
+// Admin: abandoned cart emails sent and the revenue recovered from them
+export const getAbandonedCartReport = async (req: AuthRequest, res: Response) => {
+  try {
+    const days = Math.min(Math.max(parseInt(req.query.days as string, 10) || 30, 1), 365);
+    return res.status(200).json(await getCartRecoveryReport(days));
+  } catch (error) {
+    console.error('Error building abandoned cart report:', error);
+    return res.status(500).json({ message: 'Error building abandoned cart report' });
+  }
+};
@@ -0,0 +1,181 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import Coupon from '../models/Coupon';
+import CouponCampaignModel from '../models/CouponCampaign';
+import {
+  campaignCouponFields,
+  generateCampaignCodes,
+  getCampaignCodeRows,
+  getCampaignStats,
+  normalizePattern,
+} from '../utils/couponCampaigns';
+
+// Enough random characters that thousands of codes rarely collide
+const MIN_RANDOM_CHARS = 6;
+const MAX_CODES_PER_REQUEST = 10000;
+
+const idList = z.array(z.string().trim().min(1)).default([]);
+
+const campaignSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string().optional().default(''),
+  pattern: z.string().trim().min(1, 'Code pattern is required')
+    .transform(normalizePattern)
+    .refine(pattern => /^[A-Z0-9_#-]+$/.test(pattern), 'Patterns may only use letters, numbers, -, _ and #')
+    .refine(pattern => (pattern.match(/#/g) || []).length >= MIN_RANDOM_CHARS, `Patterns need at least ${MIN_RANDOM_CHARS} # placeholders`),
+  discountAmount: z.coerce.number().positive('Discount must be greater than 0'),
+  discountType: z.enum(['percentage', 'fixed']).default('percentage'),
+  minimumCartValue: z.coerce.number().min(0).default(0),
+  maxDiscountAmount: z.coerce.number().min(0).default(0),
+  productIds: idList,
+  categoryIds: idList,
+  collectionIds: idList,
+  excludedProductIds: idList,
+  excludedCategoryIds: idList,
+  excludedCollectionIds: idList,
+  firstOrderOnly: z.boolean().optional().default(false),
+  stacksWithSalePrice: z.boolean().optional().default(true),
+  stacksWithCoupons: z.boolean().optional().default(false),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  isActive: z.boolean().optional().default(true),
+}).superRefine((data, ctx) => {
+  if (data.startDate >= data.endDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endDate'], message: 'End date must be after start date' });
+  }
+  if (data.discountType === 'percentage' && data.discountAmount > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['discountAmount'], message: 'Percentage discount must be between 1 and 100' });
+  }
+});
+
+const quantitySchema = z.coerce.number().int()
+  .min(1, 'Generate at least one code')
+  .max(MAX_CODES_PER_REQUEST, `At most ${MAX_CODES_PER_REQUEST} codes can be generated at once`);
+
+function sendValidationError(res: Response, error: z.ZodError) {
+  return res.status(400).json({ message: error.errors[0]?.message || 'Invalid input', errors: error.errors });
+}
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// List campaigns with their issued vs redeemed report
+export const getAllCampaigns = async (req: Request, res: Response) => {
+  try {
+    const campaigns = await CouponCampaignModel.find().sort({ createdAt: -1 });
+    const stats = await getCampaignStats(campaigns.map(campaign => String(campaign._id)));
+    return res.status(200).json(campaigns.map(campaign => ({
+      ...campaign.toObject(),
+      stats: stats.get(String(campaign._id)),
+    })));
+  } catch (error) {
+    console.error('Error fetching coupon campaigns:', error);
+    return res.status(500).json({ message: 'Error fetching coupon campaigns' });
+  }
+};
+
+// Create a campaign and issue its first batch of codes
+export const createCampaign = async (req: Request, res: Response) => {
+  try {
+    const data = campaignSchema.parse(req.body);
+    const quantity = quantitySchema.parse(req.body.quantity);
+    const campaign = await CouponCampaignModel.create(data);
+    campaign.issuedCount = await generateCampaignCodes(campaign, quantity);
+    return res.status(201).json(campaign);
+  } catch (error) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    console.error('Error creating coupon campaign:', error);
+    return res.status(500).json({ message: 'Error creating coupon campaign' });
+  }
+};
+
+// Update a campaign's shared rules; its codes pick them up immediately
+export const updateCampaign = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Campaign not found' });
+    }
+    const data = campaignSchema.parse(req.body);
+    const campaign = await CouponCampaignModel.findByIdAndUpdate(req.params.id, data, { new: true, runValidators: true });
+    if (!campaign) {
+      return res.status(404).json({ message: 'Campaign not found' });
+    }
+    await Coupon.updateMany({ campaignId: String(campaign._id) }, { $set: campaignCouponFields(campaign) });
+    return res.status(200).json(campaign);
+  } catch (error) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    console.error('Error updating coupon campaign:', error);
+    return res.status(500).json({ message: 'Error updating coupon campaign' });
+  }
+};
+
+// Issue more codes for an existing campaign
+export const generateCodes = async (req: Request, res: Response) => {
+  try {
+    const quantity = quantitySchema.parse(req.body.quantity);
+    const campaign = mongoose.isValidObjectId(req.params.id)
+      ? await CouponCampaignModel.findById(req.params.id)
+      : null;
+    if (!campaign) {
+      return res.status(404).json({ message: 'Campaign not found' });
+    }
+    const issuedCount = await generateCampaignCodes(campaign, quantity);
+    return res.status(200).json({ issuedCount });
+  } catch (error) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    console.error('Error generating campaign codes:', error);
+    return res.status(500).json({ message: 'Error generating campaign codes' });
+  }
+};
+
+// Download every code in a campaign with its redemption status
+export const exportCampaignCodes = async (req: Request, res: Response) => {
+  try {
+    const campaign = mongoose.isValidObjectId(req.params.id)
+      ? await CouponCampaignModel.findById(req.params.id)
+      : null;
+    if (!campaign) {
+      return res.status(404).json({ message: 'Campaign not found' });
+    }
+    const rows = await getCampaignCodeRows(String(campaign._id));
+    const header = ['code', 'status', 'orderId', 'email', 'discountAmount', 'redeemedAt'].join(',');
+    const lines = rows.map(row => [
+      row.code,
+      row.status,
+      row.orderId,
+      row.email,
+      row.discountAmount,
+      row.redeemedAt ? row.redeemedAt.toISOString() : '',
+    ].map(csvCell).join(','));
+    const filename = campaign.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'campaign';
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}-codes.csv"`);
+    return res.send([header, ...lines].join('\n'));
+  } catch (error) {
+    console.error('Error exporting campaign codes:', error);
+    return res.status(500).json({ message: 'Error exporting campaign codes' });
+  }
+};
+
+// Delete a campaign. Unused codes go with it; codes already used stay (disabled)
+// so past orders and redemptions still point at a coupon.
+export const deleteCampaign = async (req: Request, res: Response) => {
+  try {
+    const campaign = mongoose.isValidObjectId(req.params.id)
+      ? await CouponCampaignModel.findByIdAndDelete(req.params.id)
+      : null;
+    if (!campaign) {
+      return res.status(404).json({ message: 'Campaign not found' });
+    }
+    const campaignId = String(campaign._id);
+    await Coupon.deleteMany({ campaignId, usedCount: 0 });
+    await Coupon.updateMany({ campaignId }, { $set: { isActive: false } });
+    return res.status(200).json({ message: 'Campaign deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting coupon campaign:', error);
+    return res.status(500).json({ message: 'Error deleting coupon campaign' });
+  }
+};
@@ -1,10 +1,19 @@
 import { Request, Response } from 'express';
 import Coupon from '../models/Coupon';
+import { AuthRequest } from '../middleware/auth';
+import { evaluateCoupon, evaluateCoupons, getCouponOffers, getRequestedCouponCodes, priceCouponLines, type CouponLine } from '../utils/coupons';
+import { evaluatePromotions, getLinesAfterPromotions } from '../utils/promotions';
+
+// Product, category and collection id lists arrive as arrays of strings
+function toIdList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string' && id.trim() !== '') : [];
+}
 
 // Get all coupons
 export const getAllCoupons = async (req: Request, res: Response) => {
   try {
-    const coupons = await Coupon.find().sort({ createdAt: -1 });
+    // Campaign codes are managed, exported and reported on per campaign
+    const coupons = await Coupon.find({ campaignId: { $exists: false } }).sort({ createdAt: -1 });
     return res.status(200).json(coupons);
   } catch (error) {
     console.error('Error fetching coupons:', error);
@@ -35,7 +44,19 @@ export const createCoupon = async (req: Request, res: Response) => {
       discountAmount,
       discountType,
       minimumCartValue,
+      maxDiscountAmount,
+      productIds,
+      categoryIds,
+      collectionIds,
+      excludedProductIds,
+      excludedCategoryIds,
+      excludedCollectionIds,
       maxUses,
+      perUserLimit,
+      firstOrderOnly,
+      stacksWithSalePrice,
+      stacksWithCoupons,
+      isPublic,
       startDate,
       endDate,
       isActive
@@ -70,7 +91,19 @@ export const createCoupon = async (req: Request, res: Response) => {
       discountAmount,
       discountType,
       minimumCartValue: minimumCartValue || 0,
+      maxDiscountAmount: maxDiscountAmount || 0,
+      productIds: toIdList(productIds),
+      categoryIds: toIdList(categoryIds),
+      collectionIds: toIdList(collectionIds),
+      excludedProductIds: toIdList(excludedProductIds),
+      excludedCategoryIds: toIdList(excludedCategoryIds),
+      excludedCollectionIds: toIdList(excludedCollectionIds),
       maxUses: maxUses || -1,
+      perUserLimit: perUserLimit || 0,
+      firstOrderOnly: Boolean(firstOrderOnly),
+      stacksWithSalePrice: stacksWithSalePrice !== undefined ? Boolean(stacksWithSalePrice) : true,
+      stacksWithCoupons: Boolean(stacksWithCoupons),
+      isPublic: Boolean(isPublic),
       startDate,
       endDate,
       isActive: isActive !== undefined ? isActive : true,
@@ -94,7 +127,19 @@ export const updateCoupon = async (req: Request, res: Response) => {
       discountAmount,
       discountType,
       minimumCartValue,
+      maxDiscountAmount,
+      productIds,
+      categoryIds,
+      collectionIds,
+      excludedProductIds,
+      excludedCategoryIds,
+      excludedCollectionIds,
       maxUses,
+      perUserLimit,
+      firstOrderOnly,
+      stacksWithSalePrice,
+      stacksWithCoupons,
+      isPublic,
       startDate,
       endDate,
       isActive
@@ -141,7 +186,19 @@ export const updateCoupon = async (req: Request, res: Response) => {
         ...(discountAmount && { discountAmount }),
         ...(discountType && { discountType }),
         ...(minimumCartValue !== undefined && { minimumCartValue }),
+        ...(maxDiscountAmount !== undefined && { maxDiscountAmount }),
+        ...(productIds !== undefined && { productIds: toIdList(productIds) }),
+        ...(categoryIds !== undefined && { categoryIds: toIdList(categoryIds) }),
+        ...(collectionIds !== undefined && { collectionIds: toIdList(collectionIds) }),
+        ...(excludedProductIds !== undefined && { excludedProductIds: toIdList(excludedProductIds) }),
+        ...(excludedCategoryIds !== undefined && { excludedCategoryIds: toIdList(excludedCategoryIds) }),
+        ...(excludedCollectionIds !== undefined && { excludedCollectionIds: toIdList(excludedCollectionIds) }),
         ...(maxUses !== undefined && { maxUses }),
+        ...(perUserLimit !== undefined && { perUserLimit }),
+        ...(firstOrderOnly !== undefined && { firstOrderOnly }),
+        ...(stacksWithSalePrice !== undefined && { stacksWithSalePrice }),
+        ...(stacksWithCoupons !== undefined && { stacksWithCoupons }),
+        ...(isPublic !== undefined && { isPublic }),
         ...(startDate && { startDate }),
         ...(endDate && { endDate }),
         ...(isActive !== undefined && { isActive })
@@ -170,66 +227,61 @@ export const deleteCoupon = async (req: Request, res: Response) => {
   }
 };
 
-// Validate coupon for a user
-export const validateCoupon = async (req: Request, res: Response) => {
+// Cart lines for a coupon check. Carts send their items so scoped coupons can be
+// matched and automatic promotions taken off first, as at checkout; a bare
+// cartValue is still accepted and only matches cart-wide coupons.
+async function getCouponLines(items: unknown, cartValue: unknown): Promise<{ lines: CouponLine[]; blockedBy: string | null }> {
+  if (Array.isArray(items) && items.length > 0) {
+    const requested = items
+      .filter(item => item && typeof item.productId === 'string' && !item.isFree)
+      .map(item => ({
+        productId: item.productId as string,
+        variantId: typeof item.variantId === 'string' ? item.variantId : undefined,
+        quantity: Math.max(1, Math.floor(Number(item.quantity) || 1)),
+      }));
+    const lines = await priceCouponLines(requested);
+    const promotions = await evaluatePromotions(lines);
+    return { lines: getLinesAfterPromotions(lines, promotions), blockedBy: promotions.couponBlockedBy };
+  }
+  return { lines: [{ quantity: 1, price: Number(cartValue) || 0 }], blockedBy: null };
+}
+
+// Validate coupon for a user. `appliedCodes` are coupons already on the cart;
+// the new code is checked together with them, so stacking rules apply.
+export const validateCoupon = async (req: AuthRequest, res: Response) => {
   try {
     console.log('Received request to validate coupon:', req.body);
-    const { code, cartValue } = req.body;
+    const { code, appliedCodes, cartValue, items, email } = req.body;
     
     if (!code) {
       console.log('No coupon code provided');
       return res.status(400).json({ message: 'Coupon code is required' });
     }
 
-    const coupon = await Coupon.findOne({ code: code.toUpperCase() });
-    
-    if (!coupon) {
-      console.log('Coupon not found:', code);
-      return res.status(404).json({ message: 'Invalid coupon code' });
-    }
-
-    // Check if coupon is active
-    if (!coupon.isActive) {
-      console.log('Coupon is inactive:', code);
-      return res.status(400).json({ message: 'This coupon is inactive' });
+    const codes = getRequestedCouponCodes(Array.isArray(appliedCodes) ? appliedCodes : [], code);
+    const { lines, blockedBy } = await getCouponLines(items, cartValue);
+    if (blockedBy) {
+      return res.status(400).json({ code, message: `Coupons cannot be combined with the ${blockedBy} offer` });
     }
-
-    // Check dates
-    const now = new Date();
-    if (now < coupon.startDate || now > coupon.endDate) {
-      console.log('Coupon is not active within the given dates:', code);
-      return res.status(400).json({ message: 'This coupon has expired or is not yet active' });
-    }
-
-    // Check usage limit
-    if (coupon.maxUses !== -1 && coupon.usedCount >= coupon.maxUses) {
-      console.log('Coupon has reached its usage limit:', code);
-      return res.status(400).json({ message: 'This coupon has reached its usage limit' });
-    }
-
-    // Check minimum cart value
-    if (cartValue < coupon.minimumCartValue) {
-      console.log('Minimum cart value not met:', code);
-      return res.status(400).json({ 
-        message: `Minimum cart value of ${coupon.minimumCartValue} required for this coupon`,
-        minimumCartValue: coupon.minimumCartValue
-      });
-    }
-
-    // Calculate discount
-    let discountValue = 0;
-    if (coupon.discountType === 'percentage') {
-      discountValue = (cartValue * coupon.discountAmount) / 100;
-    } else {
-      discountValue = coupon.discountAmount;
+    const result = await evaluateCoupons(codes, lines, {
+      userId: req.user?.id,
+      email: typeof email === 'string' ? email : undefined
+    });
+    if (!result.valid) {
+      console.log('Coupon rejected:', result.code, result.message);
+      const { status, valid, ...body } = result;
+      return res.status(status).json(body);
     }
+    const { coupons, discountValue, lineDiscounts } = result;
 
     console.log('Coupon is valid:', code);
     return res.status(200).json({
       valid: true,
-      coupon,
+      coupon: coupons[coupons.length - 1].coupon,
+      coupons: coupons.map(entry => ({ code: entry.coupon.code, description: entry.coupon.description, discountValue: entry.discountValue })),
       discountValue,
-      message: 'Coupon applied successfully'
+      lineDiscounts,
+      message: coupons.length > 1 ? 'Coupons applied successfully' : 'Coupon applied successfully'
     });
   } catch (error) {
     console.error('Error validating coupon:', error);
@@ -237,26 +289,51 @@ export const validateCoupon = async (req: Request, res: Response) => {
   }
 };
 
-// Apply coupon - increment usage counter
-export const applyCoupon = async (req: Request, res: Response) => {
+// Public coupons checked against the shopper's cart, best saving first, with the
+// reason each one that does not apply was turned down
+export const getCouponSuggestions = async (req: AuthRequest, res: Response) => {
   try {
-    const { code } = req.body;
-    
-    const coupon = await Coupon.findOne({ code: code.toUpperCase() });
-    if (!coupon) {
-      return res.status(404).json({ message: 'Coupon not found' });
+    const { items, cartValue, email } = req.body;
+    const { lines, blockedBy } = await getCouponLines(items, cartValue);
+    if (blockedBy) {
+      return res.status(200).json({ best: null, offers: [], blockedBy });
+    }
+    const offers = await getCouponOffers(lines, {
+      userId: req.user?.id,
+      email: typeof email === 'string' ? email : undefined
+    });
+    return res.status(200).json({ best: offers.find(offer => offer.valid) ?? null, offers, blockedBy: null });
+  } catch (error) {
+    console.error('Error fetching coupon suggestions:', error);
+    return res.status(500).json({ message: 'Error fetching coupon suggestions' });
+  }
+};
+
+// Apply coupon. Usage is counted when an order using the coupon is placed,
+// so this only re-checks the code for the signed-in customer.
+export const applyCoupon = async (req: AuthRequest, res: Response) => {
+  try {
+    const { code, cartValue } = req.body;
+    if (!code) {
+      return res.status(400).json({ message: 'Coupon code is required' });
     }
 
-    // Increment used count
-    coupon.usedCount += 1;
-    await coupon.save();
+    const { lines, blockedBy } = await getCouponLines(req.body.items, cartValue);
+    if (blockedBy) {
+      return res.status(400).json({ message: `Coupons cannot be combined with the ${blockedBy} offer` });
+    }
+    const result = await evaluateCoupon(code, lines, { userId: req.user?.id });
+    if (!result.valid) {
+      const { status, valid, ...body } = result;
+      return res.status(status).json(body);
+    }
 
     return res.status(200).json({ 
       message: 'Coupon applied successfully',
-      coupon
+      coupon: result.coupon
     });
   } catch (error) {
     console.error('Error applying coupon:', error);
     return res.status(500).json({ message: 'Error applying coupon', error });
   }
-}; 
\ No newline at end of file
+};
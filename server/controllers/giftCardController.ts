@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import GiftCard from '../models/GiftCard';
-import { v4 as uuidv4 } from 'uuid';
+import GiftCardTransaction from '../models/GiftCardTransaction';
+import { quoteGiftCard, issueGiftCard, GiftCardError } from '../utils/giftCards';
 
 // Get all gift cards
 export const getAllGiftCards = async (req: Request, res: Response) => {
@@ -29,20 +30,13 @@ export const getGiftCardById = async (req: Request, res: Response) => {
 export const createGiftCard = async (req: Request, res: Response) => {
   try {
     const { initialAmount, expiryDate, isActive } = req.body;
-    const code = uuidv4().split('-')[0].toUpperCase();
-    // Build data object, include uploaded image if present
-    const cardData: any = {
-      code,
-      initialAmount,
-      balance: initialAmount,
+    // Multipart bodies arrive as strings
+    const card = await issueGiftCard({
+      amount: Number(initialAmount),
       expiryDate: new Date(expiryDate),
-      isActive
-    };
-    if ((req as any).file) {
-      cardData.imageUrl = `/uploads/${(req as any).file.filename}`;
-    }
-    const card = new GiftCard(cardData);
-    await card.save();
+      isActive: isActive === undefined ? true : isActive === true || isActive === 'true',
+      imageUrl: (req as any).file ? `/uploads/${(req as any).file.filename}` : undefined,
+    });
     return res.status(201).json(card);
   } catch (error) {
     console.error('Error creating gift card:', error);
@@ -58,6 +52,7 @@ export const updateGiftCard = async (req: Request, res: Response) => {
     if (!card) return res.status(404).json({ message: 'Gift card not found' });
     // Update fields if provided
     if (initialAmount !== undefined) card.initialAmount = initialAmount;
+    const adjustment = balance !== undefined ? Number(balance) - card.balance : 0;
     if (balance !== undefined) card.balance = balance;
     if (expiryDate) card.expiryDate = new Date(expiryDate);
     if (isActive !== undefined) card.isActive = isActive;
@@ -66,6 +61,17 @@ export const updateGiftCard = async (req: Request, res: Response) => {
       card.imageUrl = `/uploads/${(req as any).file.filename}`;
     }
     await card.save();
+    // Manual balance changes go on the ledger too
+    if (adjustment !== 0) {
+      await GiftCardTransaction.create({
+        giftCardId: String(card._id),
+        code: card.code,
+        type: adjustment > 0 ? 'credit' : 'debit',
+        amount: Math.abs(adjustment),
+        balanceAfter: card.balance,
+        reason: 'adjustment',
+      });
+    }
     return res.status(200).json(card);
   } catch (error) {
     console.error('Error updating gift card:', error);
@@ -84,3 +90,35 @@ export const deleteGiftCard = async (req: Request, res: Response) => {
     return res.status(500).json({ message: 'Error deleting gift card', error });
   }
 };
+
+// Get the balance ledger of a gift card
+export const getGiftCardTransactions = async (req: Request, res: Response) => {
+  try {
+    const card = await GiftCard.findById(req.params.id);
+    if (!card) return res.status(404).json({ message: 'Gift card not found' });
+    const transactions = await GiftCardTransaction.find({ giftCardId: String(card._id) }).sort({ createdAt: -1 });
+    return res.status(200).json(transactions);
+  } catch (error) {
+    console.error('Error fetching gift card transactions:', error);
+    return res.status(500).json({ message: 'Error fetching gift card transactions', error });
+  }
+};
+
+// Check a gift card at checkout and work out how much of it applies to the order
+export const validateGiftCard = async (req: Request, res: Response) => {
+  try {
+    const { code, orderTotal, amount } = req.body;
+    if (!code) return res.status(400).json({ message: 'Gift card code is required' });
+    if (typeof orderTotal !== 'number' || orderTotal <= 0) {
+      return res.status(400).json({ message: 'Order total is required' });
+    }
+    const quote = await quoteGiftCard(code, orderTotal, typeof amount === 'number' ? amount : undefined);
+    return res.status(200).json({ valid: true, ...quote, message: 'Gift card applied' });
+  } catch (error) {
+    if (error instanceof GiftCardError) {
+      return res.status(error.status).json({ valid: false, message: error.message });
+    }
+    console.error('Error validating gift card:', error);
+    return res.status(500).json({ message: 'Error validating gift card', error });
+  }
+};
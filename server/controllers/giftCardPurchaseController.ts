@@ -0,0 +1,167 @@
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import { z } from 'zod';
+import SettingModel from '../models/Setting';
+import UserModel from '../models/User';
+import GiftCard from '../models/GiftCard';
+import GiftCardPurchase from '../models/GiftCardPurchase';
+import { AuthRequest, verifyToken } from '../middleware/auth';
+import { createGiftCardPurchase, completeGiftCardPurchase, claimReceivedGiftCard, GiftCardPurchaseError } from '../utils/giftCardPurchases';
+import { maskGiftCardCode } from '../utils/giftCards';
+
+const purchaseSchema = z.object({
+  templateId: z.string(),
+  senderName: z.string().trim().min(1, 'Sender name is required'),
+  senderEmail: z.string().trim().email('Enter a valid sender email'),
+  recipientName: z.string().trim().min(1, 'Recipient name is required'),
+  recipientEmail: z.string().trim().email('Enter a valid recipient email'),
+  message: z.string().max(500).optional(),
+  deliverAt: z.coerce.date().optional(),
+});
+
+// Purchases made while signed in show up in the buyer's account
+function getOptionalUserId(req: Request): string | undefined {
+  const token = req.cookies?.token;
+  if (!token) return undefined;
+  try {
+    const decoded = verifyToken<{ id?: string }>(token);
+    return decoded.id;
+  } catch {
+    return undefined;
+  }
+}
+
+// Start a gift card purchase and open its Razorpay order
+export const purchaseGiftCard = async (req: Request, res: Response) => {
+  try {
+    const input = purchaseSchema.parse(req.body);
+    const { purchase, razorpayOrder } = await createGiftCardPurchase(input, getOptionalUserId(req));
+    return res.status(201).json({
+      purchaseId: purchase._id,
+      orderId: razorpayOrder.id,
+      amount: razorpayOrder.amount,
+      currency: razorpayOrder.currency,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors[0]?.message || 'Invalid input', errors: error.errors });
+    }
+    if (error instanceof GiftCardPurchaseError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Error purchasing gift card:', error);
+    return res.status(500).json({ message: 'Error purchasing gift card' });
+  }
+};
+
+// Verify the Razorpay payment for a gift card purchase and issue the card
+export const verifyGiftCardPurchase = async (req: Request, res: Response) => {
+  try {
+    const { razorpay_order_id, razorpay_payment_id, razorpay_signature } = req.body;
+    const settings = await SettingModel.findOne();
+    const secret = settings?.razorpayKeySecret || process.env.RAZORPAY_KEY_SECRET;
+    if (!secret) {
+      return res.status(500).json({ message: 'Razorpay secret missing' });
+    }
+    const generatedSignature = crypto.createHmac('sha256', secret)
+      .update(`${razorpay_order_id}|${razorpay_payment_id}`)
+      .digest('hex');
+    if (generatedSignature !== razorpay_signature) {
+      return res.status(400).json({ valid: false, message: 'Invalid payment signature' });
+    }
+    const purchase = await completeGiftCardPurchase(razorpay_order_id, razorpay_payment_id);
+    return res.status(200).json({
+      valid: true,
+      purchase: {
+        _id: purchase._id,
+        amount: purchase.amount,
+        recipientName: purchase.recipientName,
+        recipientEmail: purchase.recipientEmail,
+        deliverAt: purchase.deliverAt,
+        status: purchase.status,
+      },
+    });
+  } catch (error) {
+    if (error instanceof GiftCardPurchaseError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Error verifying gift card purchase:', error);
+    return res.status(500).json({ message: 'Verification failed' });
+  }
+};
+
+// Gift cards the signed-in customer has sent and received
+export const getMyGiftCards = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await UserModel.findById(req.user?.id);
+    if (!user) return res.status(404).json({ message: 'User not found' });
+
+    const [sentPurchases, receivedPurchases] = await Promise.all([
+      GiftCardPurchase.find({ purchaserId: String(user._id), status: { $ne: 'pending_payment' } }).sort({ createdAt: -1 }),
+      GiftCardPurchase.find({
+        recipientEmail: user.email.toLowerCase(),
+        status: 'sent',
+        $or: [{ claimedBy: { $exists: false } }, { claimedBy: String(user._id) }],
+      }).sort({ sentAt: -1 }),
+    ]);
+    const cardIds = receivedPurchases.map(p => p.giftCardId).filter(Boolean);
+    const cards = await GiftCard.find({ _id: { $in: cardIds } });
+    const cardsById = new Map(cards.map(card => [String(card._id), card]));
+
+    // The sender never sees the code; the recipient sees it, with the live balance,
+    // once they have claimed the card with the code from their email
+    const sent = sentPurchases.map(p => ({
+      _id: p._id,
+      amount: p.amount,
+      recipientName: p.recipientName,
+      recipientEmail: p.recipientEmail,
+      message: p.message,
+      deliverAt: p.deliverAt,
+      sentAt: p.sentAt,
+      status: p.status,
+      createdAt: p.createdAt,
+    }));
+    const received = receivedPurchases.map(p => {
+      const card = p.giftCardId ? cardsById.get(p.giftCardId) : undefined;
+      const claimed = p.claimedBy === String(user._id);
+      return {
+        _id: p._id,
+        amount: p.amount,
+        senderName: p.senderName,
+        message: p.message,
+        sentAt: p.sentAt,
+        claimed,
+        code: claimed ? p.giftCardCode : maskGiftCardCode(p.giftCardCode || ''),
+        balance: claimed ? card?.balance ?? 0 : null,
+        expiryDate: card?.expiryDate,
+        isActive: card?.isActive ?? false,
+      };
+    });
+    return res.status(200).json({ sent, received });
+  } catch (error) {
+    console.error('Error fetching account gift cards:', error);
+    return res.status(500).json({ message: 'Error fetching gift cards' });
+  }
+};
+
+const claimSchema = z.object({ code: z.string().trim().min(1, 'Enter the code from your gift card email') });
+
+// Link a received gift card to the signed-in account by entering its code
+export const claimGiftCard = async (req: AuthRequest, res: Response) => {
+  try {
+    const { code } = claimSchema.parse(req.body);
+    const user = await UserModel.findById(req.user?.id);
+    if (!user) return res.status(404).json({ message: 'User not found' });
+    const purchase = await claimReceivedGiftCard(req.params.id, { id: String(user._id), email: user.email }, code);
+    return res.status(200).json({ _id: purchase._id, claimed: true, code: purchase.giftCardCode });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors[0]?.message || 'Invalid input', errors: error.errors });
+    }
+    if (error instanceof GiftCardPurchaseError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Error claiming gift card:', error);
+    return res.status(500).json({ message: 'Error claiming gift card' });
+  }
+};
@@ -0,0 +1,37 @@
+import { Response } from 'express';
+import PendingCheckoutModel from '../models/PendingCheckout';
+import { AuthRequest } from '../middleware/auth';
+
+const STATUSES = ['pending', 'completed', 'failed', 'expired'];
+
+// List checkouts opened with Razorpay; failed and expired ones are the abandoned payments
+export async function getPendingCheckouts(req: AuthRequest, res: Response) {
+  try {
+    const { status, page, limit } = req.query;
+    const query: Record<string, any> = {};
+    if (typeof status === 'string' && STATUSES.includes(status)) {
+      query.status = status;
+    } else if (status === 'abandoned') {
+      query.status = { $in: ['failed', 'expired'] };
+    }
+    const pageNum = Math.max(parseInt(page as string, 10) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(limit as string, 10) || 20, 1), 100);
+
+    const [checkouts, total, counts] = await Promise.all([
+      PendingCheckoutModel.find(query)
+        .select('-pricing')
+        .sort({ createdAt: -1 })
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum),
+      PendingCheckoutModel.countDocuments(query),
+      PendingCheckoutModel.aggregate([{ $group: { _id: '$status', count: { $sum: 1 } } }]),
+    ]);
+    const summary: Record<string, number> = Object.fromEntries(STATUSES.map(s => [s, 0]));
+    for (const row of counts) summary[row._id] = row.count;
+
+    res.json({ checkouts, total, summary });
+  } catch (error) {
+    console.error('Get pending checkouts error:', error);
+    res.status(500).json({ message: 'Error fetching pending checkouts' });
+  }
+}
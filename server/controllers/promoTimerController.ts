@@ -1,31 +1,93 @@
 import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { z } from 'zod';
 import PromoTimer from '../models/PromoTimer';
 
+const optionalText = z.string().trim().optional().transform(value => value || undefined);
+
+// A timer without a discount is a plain countdown; with one it is a flash sale
+const timerSchema = z.object({
+  name: optionalText,
+  productId: optionalText,
+  productIds: z.array(z.string().trim().min(1)).default([]),
+  startTime: z.coerce.date().nullable().optional().transform(value => value ?? undefined),
+  endTime: z.coerce.date({ errorMap: () => ({ message: 'End time is required' }) }),
+  enabled: z.boolean().optional().default(true),
+  discountType: z.enum(['percentage', 'price']).nullable().optional().transform(value => value ?? undefined),
+  discountValue: z.coerce.number().min(0).default(0),
+  perCustomerLimit: z.coerce.number().int().min(0).default(0),
+  stockCap: z.coerce.number().int().min(0).default(0),
+}).superRefine((data, ctx) => {
+  if (!data.productId && data.productIds.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['productIds'], message: 'Choose at least one product' });
+  }
+  if (data.startTime && data.startTime >= data.endTime) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endTime'], message: 'End time must be after start time' });
+  }
+  if (data.discountType && data.discountValue <= 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['discountValue'], message: 'Enter the sale price or percentage' });
+  }
+  if (data.discountType === 'percentage' && data.discountValue > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['discountValue'], message: 'Percentage must be between 1 and 100' });
+  }
+});
+
+function sendValidationError(res: Response, error: z.ZodError) {
+  return res.status(400).json({ message: error.errors[0]?.message || 'Invalid input', errors: error.errors });
+}
+
 // Get all promo timers
 export async function getPromoTimers(req: Request, res: Response) {
-  const timers = await PromoTimer.find();
-  res.json(timers);
+  try {
+    const timers = await PromoTimer.find().sort({ endTime: 1 });
+    res.json(timers);
+  } catch (error) {
+    console.error('Error fetching promo timers:', error);
+    res.status(500).json({ message: 'Error fetching promo timers' });
+  }
 }
 
-// Create new promo timer
+// Create new promo timer or flash sale
 export async function createPromoTimer(req: Request, res: Response) {
-  const { productId, endTime, enabled } = req.body;
-  const timer = new PromoTimer({ productId, endTime, enabled });
-  await timer.save();
-  res.status(201).json(timer);
+  try {
+    const data = timerSchema.parse(req.body);
+    const timer = new PromoTimer(data);
+    await timer.save();
+    res.status(201).json(timer);
+  } catch (error) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    console.error('Error creating promo timer:', error);
+    res.status(500).json({ message: 'Error creating promo timer' });
+  }
 }
 
-// Update promo timer
+// Update promo timer. Units already sold stay counted against the stock cap.
 export async function updatePromoTimer(req: Request, res: Response) {
-  const { id } = req.params;
-  const { productId, endTime, enabled } = req.body;
-  const timer = await PromoTimer.findByIdAndUpdate(id, { productId, endTime, enabled }, { new: true });
-  res.json(timer);
+  try {
+    const { id } = req.params;
+    const data = timerSchema.parse(req.body);
+    const timer = mongoose.isValidObjectId(id) ? await PromoTimer.findById(id) : null;
+    if (!timer) {
+      return res.status(404).json({ message: 'Promo timer not found' });
+    }
+    timer.set(data);
+    await timer.save();
+    res.json(timer);
+  } catch (error) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    console.error('Error updating promo timer:', error);
+    res.status(500).json({ message: 'Error updating promo timer' });
+  }
 }
 
 // Delete promo timer
 export async function deletePromoTimer(req: Request, res: Response) {
-  const { id } = req.params;
-  await PromoTimer.findByIdAndDelete(id);
-  res.json({ success: true });
+  try {
+    const { id } = req.params;
+    await PromoTimer.findByIdAndDelete(id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting promo timer:', error);
+    res.status(500).json({ message: 'Error deleting promo timer' });
+  }
 }
@@ -0,0 +1,167 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import PromotionModel from '../models/Promotion';
+import ProductModel from '../models/Product';
+import { evaluateCartPromotions, getActivePromotions } from '../utils/promotions';
+
+const idList = z.array(z.string().trim().min(1)).default([]);
+
+const promotionSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string().optional().default(''),
+  type: z.enum(['buy_x_get_y', 'spend_tier', 'bundle', 'free_shipping']),
+  isActive: z.boolean().optional().default(true),
+  startDate: z.coerce.date().nullable().optional(),
+  endDate: z.coerce.date().nullable().optional(),
+  priority: z.coerce.number().int().default(0),
+  exclusive: z.boolean().optional().default(false),
+  combinesWithCoupons: z.boolean().optional().default(true),
+  productIds: idList,
+  categoryIds: idList,
+  collectionIds: idList,
+  buyQuantity: z.coerce.number().int().min(0).default(0),
+  getQuantity: z.coerce.number().int().min(0).default(0),
+  getDiscountPercent: z.coerce.number().min(0).max(100).default(100),
+  tiers: z.array(z.object({
+    minSubtotal: z.coerce.number().min(0),
+    discountPercent: z.coerce.number().min(0).max(100),
+  })).default([]),
+  bundleItems: z.array(z.object({
+    productId: z.string().trim().min(1),
+    quantity: z.coerce.number().int().min(1).default(1),
+  })).default([]),
+  bundlePrice: z.coerce.number().min(0).default(0),
+  minSubtotal: z.coerce.number().min(0).default(0),
+}).superRefine((data, ctx) => {
+  if (data.startDate && data.endDate && data.startDate >= data.endDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endDate'], message: 'End date must be after start date' });
+  }
+  if (data.type === 'buy_x_get_y' && (data.buyQuantity < 1 || data.getQuantity < 1)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['buyQuantity'], message: 'Buy and get quantities must be at least 1' });
+  }
+  if (data.type === 'spend_tier' && data.tiers.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['tiers'], message: 'Add at least one spend tier' });
+  }
+  if (data.type === 'bundle' && data.bundleItems.length < 2) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['bundleItems'], message: 'A bundle needs at least two products' });
+  }
+});
+
+const evaluateSchema = z.object({
+  items: z.array(z.object({
+    productId: z.string(),
+    variantId: z.string().optional(),
+    quantity: z.coerce.number().int().min(1),
+    isFree: z.boolean().optional(),
+  })),
+});
+
+function sendValidationError(res: Response, error: z.ZodError) {
+  return res.status(400).json({ message: error.errors[0]?.message || 'Invalid input', errors: error.errors });
+}
+
+// Get all promotions (admin)
+export const getAllPromotions = async (req: Request, res: Response) => {
+  try {
+    const promotions = await PromotionModel.find().sort({ priority: -1, createdAt: -1 });
+    return res.status(200).json(promotions);
+  } catch (error) {
+    console.error('Error fetching promotions:', error);
+    return res.status(500).json({ message: 'Error fetching promotions' });
+  }
+};
+
+// Create a promotion
+export const createPromotion = async (req: Request, res: Response) => {
+  try {
+    const data = promotionSchema.parse(req.body);
+    const promotion = await PromotionModel.create(data);
+    return res.status(201).json(promotion);
+  } catch (error) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    console.error('Error creating promotion:', error);
+    return res.status(500).json({ message: 'Error creating promotion' });
+  }
+};
+
+// Update a promotion
+export const updatePromotion = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Promotion not found' });
+    }
+    const data = promotionSchema.parse(req.body);
+    const promotion = await PromotionModel.findByIdAndUpdate(req.params.id, data, { new: true, runValidators: true });
+    if (!promotion) {
+      return res.status(404).json({ message: 'Promotion not found' });
+    }
+    return res.status(200).json(promotion);
+  } catch (error) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    console.error('Error updating promotion:', error);
+    return res.status(500).json({ message: 'Error updating promotion' });
+  }
+};
+
+// Delete a promotion
+export const deletePromotion = async (req: Request, res: Response) => {
+  try {
+    const promotion = mongoose.isValidObjectId(req.params.id)
+      ? await PromotionModel.findByIdAndDelete(req.params.id)
+      : null;
+    if (!promotion) {
+      return res.status(404).json({ message: 'Promotion not found' });
+    }
+    return res.status(200).json({ message: 'Promotion deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting promotion:', error);
+    return res.status(500).json({ message: 'Error deleting promotion' });
+  }
+};
+
+// Promotions running now, for banners and the cart
+export const getActivePromotionList = async (req: Request, res: Response) => {
+  try {
+    const promotions = await getActivePromotions();
+    return res.status(200).json(promotions.map(promotion => ({
+      _id: promotion._id,
+      name: promotion.name,
+      description: promotion.description,
+      type: promotion.type,
+      endDate: promotion.endDate,
+      minSubtotal: promotion.minSubtotal,
+      tiers: promotion.tiers,
+      combinesWithCoupons: promotion.combinesWithCoupons,
+    })));
+  } catch (error) {
+    console.error('Error fetching active promotions:', error);
+    return res.status(500).json({ message: 'Error fetching promotions' });
+  }
+};
+
+// Price a set of cart items with the current promotions
+export const evaluateCart = async (req: Request, res: Response) => {
+  try {
+    const { items } = evaluateSchema.parse(req.body);
+    const { subtotal, lines, result } = await evaluateCartPromotions(items);
+    const giftProducts = await ProductModel.find({ _id: { $in: result.freeGifts.map(gift => gift.productId) } });
+    const giftProductsById = new Map(giftProducts.map(p => [String(p._id), p]));
+    return res.status(200).json({
+      subtotal,
+      discountAmount: result.discountAmount,
+      freeShipping: result.freeShipping,
+      couponBlockedBy: result.couponBlockedBy,
+      applied: result.applied,
+      lines,
+      freeGifts: result.freeGifts.flatMap(gift => {
+        const product = giftProductsById.get(gift.productId);
+        return product ? [{ ...product.toObject(), freeProductId: gift.freeProductId, minOrderValue: gift.minOrderValue }] : [];
+      }),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    console.error('Error evaluating promotions:', error);
+    return res.status(500).json({ message: 'Error evaluating promotions' });
+  }
+};
@@ -0,0 +1,51 @@
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import {
+  getWebhookSecret,
+  verifyWebhookSignature,
+  processWebhookEvent,
+  PaymentReconciliationError,
+  type RazorpayWebhookEvent,
+} from '../utils/razorpayWebhook';
+
+// Receive a signed Razorpay webhook. Razorpay retries anything that is not a 2xx,
+// so only transient failures answer 500; duplicates and unrecoverable events answer 200.
+export async function handleRazorpayWebhook(req: Request, res: Response) {
+  try {
+    // Left unparsed by express.raw() in index.ts
+    const rawBody = Buffer.isBuffer(req.body) ? req.body : undefined;
+    if (!rawBody || rawBody.length === 0) {
+      return res.status(400).json({ message: 'Missing request body' });
+    }
+    const secret = await getWebhookSecret();
+    if (!secret) {
+      console.error('Razorpay webhook received but no webhook secret is configured');
+      return res.status(500).json({ message: 'Webhook secret not configured' });
+    }
+    if (!verifyWebhookSignature(rawBody, req.header('x-razorpay-signature'), secret)) {
+      return res.status(400).json({ message: 'Invalid signature' });
+    }
+
+    let event: RazorpayWebhookEvent | undefined;
+    try {
+      event = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      event = undefined;
+    }
+    if (!event?.event || !event.payload) {
+      return res.status(400).json({ message: 'Malformed event' });
+    }
+    // Razorpay sends a stable id per event; fall back to the body hash for hand-made payloads
+    const eventId = req.header('x-razorpay-event-id') || crypto.createHash('sha256').update(rawBody).digest('hex');
+
+    const { duplicate, result } = await processWebhookEvent(eventId, event);
+    return res.json({ received: true, duplicate, result });
+  } catch (error) {
+    if (error instanceof PaymentReconciliationError) {
+      console.error('Razorpay webhook reconciliation error:', error.message);
+      return res.json({ received: true, error: error.message });
+    }
+    console.error('Razorpay webhook error:', error);
+    return res.status(500).json({ message: 'Failed to process webhook' });
+  }
+}
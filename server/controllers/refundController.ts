@@ -0,0 +1,36 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth';
+import { refundOrder, RefundError } from '../utils/refunds';
+
+const refundSchema = z.object({
+  full: z.boolean().optional().default(false),
+  lines: z.array(z.object({
+    itemId: z.string(),
+    quantity: z.number().int().min(1),
+  })).optional(),
+  reason: z.string().trim().max(500).optional(),
+  restock: z.boolean().optional().default(true),
+});
+
+// Refund a whole order or selected quantities of its lines
+export async function createOrderRefund(req: AuthRequest, res: Response) {
+  try {
+    const input = refundSchema.parse(req.body);
+    const { order, refund } = await refundOrder(req.params.id, {
+      ...input,
+      actor: 'admin',
+      actorId: req.user?.id,
+    });
+    res.status(201).json({ order, refund });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+    }
+    if (error instanceof RefundError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Create refund error:', error);
+    res.status(500).json({ message: 'Error creating refund' });
+  }
+}
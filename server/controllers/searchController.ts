@@ -0,0 +1,137 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth';
+import CategoryModel from '../models/Category';
+import CollectionModel from '../models/Collection';
+import { hasListingFilters, listingQuerySchema } from '../../shared/listing';
+import { ProductSearchError, fromListingQuery, getSearchSuggestions, searchProducts } from '../utils/productSearch';
+import {
+  clearRecentSearches,
+  getPopularSearches,
+  getRecentSearches,
+  getZeroResultReport,
+  recordSearch,
+  type SearchOwner,
+} from '../utils/searchQueries';
+
+const searchQuerySchema = listingQuerySchema.extend({
+  sessionId: z.string().optional(),
+});
+
+const suggestQuerySchema = z.object({
+  q: z.string().trim().max(100, 'Search text is too long').default(''),
+  limit: z.coerce.number().int().min(1).max(10).optional(),
+});
+
+function sendValidationError(res: Response, error: z.ZodError) {
+  return res.status(400).json({ message: error.errors[0]?.message || 'Invalid input', errors: error.errors });
+}
+
+// Signed-in customers always get their own searches; guests are identified by their session id
+function getOwner(req: AuthRequest, sessionId?: unknown): SearchOwner {
+  if (req.user?.id) return { userId: req.user.id };
+  return { sessionId: typeof sessionId === 'string' && sessionId ? sessionId : undefined };
+}
+
+// Storefront product search: a page of ranked results with facet counts and sort options.
+// The first page of a query with no filters is logged for popular and recent searches;
+// narrowing it down afterwards is not a new search.
+export const getProductSearch = async (req: AuthRequest, res: Response) => {
+  try {
+    const query = searchQuerySchema.parse(req.query);
+    const result = await searchProducts(fromListingQuery(query));
+    if (query.q && (query.page || 1) === 1 && !query.flag && !hasListingFilters(query)) {
+      recordSearch(getOwner(req, query.sessionId), query.q, result.total)
+        .catch(error => console.error('Error logging search:', error));
+    }
+    return res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    if (error instanceof ProductSearchError) return res.status(error.status).json({ message: error.message });
+    console.error('Error searching products:', error);
+    return res.status(500).json({ message: 'Error searching products' });
+  }
+};
+
+// A category's products, sorted, filtered and paged like a search
+export const getCategoryListing = async (req: Request, res: Response) => {
+  try {
+    const query = listingQuerySchema.parse(req.query);
+    const category = await CategoryModel.findOne({ slug: req.params.slug });
+    if (!category) return res.status(404).json({ message: 'Category not found' });
+    return res.status(200).json(await searchProducts({ ...fromListingQuery(query), categoryIds: [String(category._id)] }));
+  } catch (error) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    if (error instanceof ProductSearchError) return res.status(error.status).json({ message: error.message });
+    console.error('Error fetching category products:', error);
+    return res.status(500).json({ message: 'Error fetching products for category' });
+  }
+};
+
+// A collection's products, sorted, filtered and paged like a search
+export const getCollectionListing = async (req: Request, res: Response) => {
+  try {
+    const query = listingQuerySchema.parse(req.query);
+    const collection = await CollectionModel.findOne({ slug: req.params.slug });
+    if (!collection) return res.status(404).json({ message: 'Collection not found' });
+    return res.status(200).json(await searchProducts({ ...fromListingQuery(query), collectionIds: [String(collection._id)] }));
+  } catch (error) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    if (error instanceof ProductSearchError) return res.status(error.status).json({ message: error.message });
+    console.error('Error fetching collection products:', error);
+    return res.status(500).json({ message: 'Error fetching products for collection' });
+  }
+};
+
+// Storefront autocomplete as the shopper types
+export const getSuggestions = async (req: Request, res: Response) => {
+  try {
+    const query = suggestQuerySchema.parse(req.query);
+    return res.status(200).json(await getSearchSuggestions(query.q, query.limit));
+  } catch (error) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    console.error('Error fetching search suggestions:', error);
+    return res.status(500).json({ message: 'Error fetching search suggestions' });
+  }
+};
+
+export const getPopular = async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 8, 1), 20);
+    return res.status(200).json({ searches: await getPopularSearches(limit) });
+  } catch (error) {
+    console.error('Error fetching popular searches:', error);
+    return res.status(500).json({ message: 'Error fetching popular searches' });
+  }
+};
+
+// The signed-in customer's or guest session's latest searches
+export const getRecent = async (req: AuthRequest, res: Response) => {
+  try {
+    return res.status(200).json({ searches: await getRecentSearches(getOwner(req, req.query.sessionId)) });
+  } catch (error) {
+    console.error('Error fetching recent searches:', error);
+    return res.status(500).json({ message: 'Error fetching recent searches' });
+  }
+};
+
+export const deleteRecent = async (req: AuthRequest, res: Response) => {
+  try {
+    await clearRecentSearches(getOwner(req, req.query.sessionId));
+    return res.status(204).end();
+  } catch (error) {
+    console.error('Error clearing recent searches:', error);
+    return res.status(500).json({ message: 'Error clearing recent searches' });
+  }
+};
+
+// Admin: searches that found nothing, to show gaps in the catalogue
+export const getZeroResultSearchReport = async (req: AuthRequest, res: Response) => {
+  try {
+    const days = Math.min(Math.max(parseInt(req.query.days as string, 10) || 30, 1), 365);
+    return res.status(200).json(await getZeroResultReport(days));
+  } catch (error) {
+    console.error('Error building zero-result search report:', error);
+    return res.status(500).json({ message: 'Error building zero-result search report' });
+  }
+};
@@ -0,0 +1,81 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth';
+import {
+  WishlistError,
+  addToWishlist,
+  getWishlistProducts,
+  mergeGuestWishlist,
+  removeFromWishlist,
+  type WishlistOwner,
+} from '../utils/wishlists';
+
+const itemSchema = z.object({
+  productId: z.string().min(1, 'productId is required'),
+  sessionId: z.string().optional(),
+});
+
+const mergeSchema = z.object({
+  sessionId: z.string().min(1, 'sessionId is required'),
+});
+
+function sendValidationError(res: Response, error: z.ZodError) {
+  return res.status(400).json({ message: error.errors[0]?.message || 'Invalid input', errors: error.errors });
+}
+
+// Signed-in customers always use their own wishlist; guests are identified by their session id
+function getOwner(req: AuthRequest, sessionId?: unknown): WishlistOwner {
+  if (req.user?.id) return { userId: req.user.id };
+  return { sessionId: typeof sessionId === 'string' && sessionId ? sessionId : undefined };
+}
+
+// The wishlist with its products, for the signed-in customer or a guest session
+export const getWishlist = async (req: AuthRequest, res: Response) => {
+  try {
+    const items = await getWishlistProducts(getOwner(req, req.query.sessionId));
+    return res.status(200).json({ items });
+  } catch (error) {
+    if (error instanceof WishlistError) return res.status(error.status).json({ message: error.message });
+    console.error('Error fetching wishlist:', error);
+    return res.status(500).json({ message: 'Error fetching wishlist' });
+  }
+};
+
+export const addWishlistItem = async (req: AuthRequest, res: Response) => {
+  try {
+    const { productId, sessionId } = itemSchema.parse(req.body);
+    const owner = getOwner(req, sessionId);
+    await addToWishlist(owner, productId);
+    return res.status(200).json({ items: await getWishlistProducts(owner) });
+  } catch (error) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    if (error instanceof WishlistError) return res.status(error.status).json({ message: error.message });
+    console.error('Error adding to wishlist:', error);
+    return res.status(500).json({ message: 'Error adding to wishlist' });
+  }
+};
+
+export const removeWishlistItem = async (req: AuthRequest, res: Response) => {
+  try {
+    const owner = getOwner(req, req.query.sessionId);
+    await removeFromWishlist(owner, req.params.productId);
+    return res.status(200).json({ items: await getWishlistProducts(owner) });
+  } catch (error) {
+    if (error instanceof WishlistError) return res.status(error.status).json({ message: error.message });
+    console.error('Error removing from wishlist:', error);
+    return res.status(500).json({ message: 'Error removing from wishlist' });
+  }
+};
+
+// Fold a guest session's wishlist into the signed-in customer's
+export const mergeWishlist = async (req: AuthRequest, res: Response) => {
+  try {
+    const { sessionId } = mergeSchema.parse(req.body);
+    await mergeGuestWishlist(req.user.id, sessionId);
+    return res.status(200).json({ items: await getWishlistProducts({ userId: req.user.id }) });
+  } catch (error) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    console.error('Error merging wishlist:', error);
+    return res.status(500).json({ message: 'Error merging wishlist' });
+  }
+};
@@ -7,10 +7,17 @@ import promoTimerRoutes from './routes/promoTimerRoutes';
 import storeRoutes from './routes/storeRoutes';
 import { setupVite, serveStatic, log } from "./vite";
 import { connectToDatabase, closeDatabaseConnection } from "./db";
+import { startStockReservationSweeper } from "./utils/inventory";
+import { startPendingCheckoutSweeper } from "./utils/pendingCheckouts";
+import { startGiftCardDeliverySweeper } from "./utils/giftCardPurchases";
+import { startWishlistAlertSweeper } from "./utils/wishlists";
+import { startAbandonedCartSweeper } from "./utils/cartRecovery";
 import cors from 'cors';
 import cookieParser from 'cookie-parser';
 
 const app = express();
+// Webhook bodies stay as the exact bytes received; their signatures are computed over the raw payload
+app.use('/api/razorpay/webhook', express.raw({ type: '*/*' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 app.use(cookieParser());
@@ -79,6 +86,11 @@ app.use((req, res, next) => {
     if (connection) {
       log('MongoDB connected successfully', 'mongodb');
       dbConnected = true;
+      startStockReservationSweeper();
+      startPendingCheckoutSweeper();
+      startGiftCardDeliverySweeper();
+      startWishlistAlertSweeper();
+      startAbandonedCartSweeper();
     } else {
       log('MongoDB connection failed but continuing with limited functionality', 'mongodb');
     }
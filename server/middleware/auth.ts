@@ -1,11 +1,21 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import jwt, { JwtPayload, Secret } from 'jsonwebtoken';
 
 // Extended request interface with user property
 export interface AuthRequest extends Request {
   user?: any;
 }
 
+// The secret every auth token is signed and checked with
+export function getJwtSecret(): Secret {
+  return process.env.JWT_SECRET || 'default_secret';
+}
+
+// The payload of a token signed with getJwtSecret; throws when it is invalid or expired
+export function verifyToken<T extends object = JwtPayload>(token: string): T {
+  return jwt.verify(token, getJwtSecret()) as T;
+}
+
 // Authentication middleware
 export const authenticateJWT = (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -14,9 +24,7 @@ export const authenticateJWT = (req: AuthRequest, res: Response, next: NextFunct
       return res.status(401).json({ message: 'Authentication required' });
     }
     
-    const jwtSecret = process.env.JWT_SECRET || 'default_secret';
-    const decoded = jwt.verify(token, jwtSecret);
-    req.user = decoded;
+    req.user = verifyToken(token);
     next();
   } catch (error) {
     console.error('Authentication error:', error);
@@ -31,3 +39,16 @@ export const isAdmin = (req: AuthRequest, res: Response, next: NextFunction) =>
   }
   next();
 };
+
+// Attach the signed-in user when there is a valid token, but let anonymous requests through
+export const optionalAuth = (req: AuthRequest, res: Response, next: NextFunction) => {
+  const token = req.cookies?.token;
+  if (token) {
+    try {
+      req.user = verifyToken(token);
+    } catch {
+      req.user = undefined;
+    }
+  }
+  next();
+};
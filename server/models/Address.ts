@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// An entry in a customer's address book. At most one address per user is the
+// default for shipping and one for billing; the address book keeps that true.
+export interface IAddress extends Document {
+  userId: string;
+  label: string; // e.g. Home, Office
+  name: string;
+  phone: string;
+  address: string;
+  landmark?: string;
+  city: string;
+  state: string;
+  pincode: string;
+  isDefaultShipping: boolean;
+  isDefaultBilling: boolean;
+  // Result of the courier check when the address was saved; null when it could not be checked
+  serviceable: boolean | null;
+  codAvailable: boolean | null;
+  serviceabilityCheckedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AddressSchema = new Schema(
+  {
+    userId: { type: String, required: true, index: true },
+    label: { type: String, default: 'Home', trim: true },
+    name: { type: String, required: true, trim: true },
+    phone: { type: String, default: '', trim: true },
+    address: { type: String, required: true, trim: true },
+    landmark: { type: String, trim: true },
+    city: { type: String, required: true, trim: true },
+    state: { type: String, default: '', trim: true },
+    pincode: { type: String, required: true, trim: true },
+    isDefaultShipping: { type: Boolean, default: false },
+    isDefaultBilling: { type: Boolean, default: false },
+    serviceable: { type: Boolean, default: null },
+    codAvailable: { type: Boolean, default: null },
+    serviceabilityCheckedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+export default mongoose.model<IAddress>('Address', AddressSchema);
@@ -3,12 +3,14 @@ import mongoose, { Schema, Document } from 'mongoose';
 export interface ICart extends Document {
   userId?: string;
   sessionId?: string;
+  email?: string; // captured at checkout, so guest carts can be recovered
   createdAt: Date;
 }
 
 const CartSchema: Schema = new Schema({
   userId: { type: String },
   sessionId: { type: String },
+  email: { type: String, lowercase: true, trim: true },
   createdAt: { type: Date, default: Date.now }
 });
 
@@ -3,18 +3,22 @@ import mongoose, { Schema, Document } from 'mongoose';
 export interface ICartItem extends Document {
   cartId: string;
   productId: string;
+  variantId?: string;
   quantity: number;
   isFree: boolean;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 const CartItemSchema: Schema = new Schema({
   cartId: { type: String, required: true },
   productId: { type: String, required: true },
+  variantId: { type: String },
   quantity: { type: Number, required: true, min: 1 },
   isFree: { type: Boolean, required: true, default: false }
-});
+}, { timestamps: true }); // updatedAt tells the abandoned cart job when the cart was last touched
 
-// Ensure unique per cartId/productId/isFree
-CartItemSchema.index({ cartId: 1, productId: 1, isFree: 1 }, { unique: true });
+// Ensure unique per cartId/productId/variantId/isFree
+CartItemSchema.index({ cartId: 1, productId: 1, variantId: 1, isFree: 1 }, { unique: true });
 
 export default mongoose.model<ICartItem>('CartItem', CartItemSchema);
\ No newline at end of file
@@ -0,0 +1,69 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ICartRecoveryItem {
+  productId: string;
+  variantId?: string;
+  name: string;
+  imageUrl?: string;
+  quantity: number;
+  price: number;
+}
+
+// One abandoned-cart email sequence. A sequence starts when a cart with a known
+// email has been idle long enough, and ends when the emails run out, the shopper
+// changes the cart, or an order is attributed to it.
+export interface ICartRecovery extends Document {
+  cartId: string;
+  userId?: string;
+  email: string;
+  items: ICartRecoveryItem[];
+  cartValue: number;
+  // The cart's last activity when the sequence started
+  cartUpdatedAt: Date;
+  emailsSent: number;
+  lastEmailAt?: Date;
+  couponCode?: string;
+  status: 'active' | 'completed' | 'recovered' | 'closed';
+  closeReason?: string;
+  restoredAt?: Date;
+  orderId?: string;
+  recoveredRevenue: number;
+  recoveredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CartRecoveryItemSchema = new Schema(
+  {
+    productId: { type: String, required: true },
+    variantId: { type: String },
+    name: { type: String, required: true },
+    imageUrl: { type: String },
+    quantity: { type: Number, required: true },
+    price: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const CartRecoverySchema = new Schema(
+  {
+    cartId: { type: String, required: true, index: true },
+    userId: { type: String, index: true },
+    email: { type: String, required: true, lowercase: true, trim: true, index: true },
+    items: { type: [CartRecoveryItemSchema], default: [] },
+    cartValue: { type: Number, required: true },
+    cartUpdatedAt: { type: Date, required: true },
+    emailsSent: { type: Number, default: 0 },
+    lastEmailAt: { type: Date },
+    couponCode: { type: String },
+    status: { type: String, enum: ['active', 'completed', 'recovered', 'closed'], default: 'active', index: true },
+    closeReason: { type: String },
+    restoredAt: { type: Date },
+    orderId: { type: String },
+    recoveredRevenue: { type: Number, default: 0 },
+    recoveredAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+export default mongoose.model<ICartRecovery>('CartRecovery', CartRecoverySchema);
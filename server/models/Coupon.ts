@@ -6,11 +6,27 @@ export interface ICoupon extends Document {
   discountAmount: number;
   discountType: 'percentage' | 'fixed';
   minimumCartValue: number;
+  maxDiscountAmount: number;
+  productIds: string[];
+  categoryIds: string[];
+  collectionIds: string[];
+  excludedProductIds: string[];
+  excludedCategoryIds: string[];
+  excludedCollectionIds: string[];
   maxUses: number;
   usedCount: number;
+  perUserLimit: number;
+  firstOrderOnly: boolean;
+  // Whether the coupon also discounts items already on sale (a discounted price or a running promo timer)
+  stacksWithSalePrice: boolean;
+  // Whether the coupon can be used together with other coupons that allow it too
+  stacksWithCoupons: boolean;
+  // Public coupons are offered to shoppers as suggestions at checkout
+  isPublic: boolean;
   startDate: Date;
   endDate: Date;
   isActive: boolean;
+  campaignId?: string; // set on codes generated for a coupon campaign
   createdAt: Date;
   updatedAt: Date;
 }
@@ -22,11 +38,25 @@ const CouponSchema = new Schema(
     discountAmount: { type: Number, required: true, min: 0 },
     discountType: { type: String, enum: ['percentage', 'fixed'], default: 'percentage' },
     minimumCartValue: { type: Number, default: 0, min: 0 },
+    maxDiscountAmount: { type: Number, default: 0, min: 0 }, // cap for percentage coupons, 0 means no cap
+    // Lines the coupon applies to; with all three empty it applies to the whole cart
+    productIds: { type: [String], default: [] },
+    categoryIds: { type: [String], default: [] },
+    collectionIds: { type: [String], default: [] },
+    excludedProductIds: { type: [String], default: [] },
+    excludedCategoryIds: { type: [String], default: [] },
+    excludedCollectionIds: { type: [String], default: [] },
     maxUses: { type: Number, default: -1 }, // -1 means unlimited
     usedCount: { type: Number, default: 0 },
+    perUserLimit: { type: Number, default: 0, min: 0 }, // 0 means no per-customer limit
+    firstOrderOnly: { type: Boolean, default: false },
+    stacksWithSalePrice: { type: Boolean, default: true },
+    stacksWithCoupons: { type: Boolean, default: false },
+    isPublic: { type: Boolean, default: false },
     startDate: { type: Date, required: true },
     endDate: { type: Date, required: true },
     isActive: { type: Boolean, default: true },
+    campaignId: { type: String, index: true },
   },
   { timestamps: true }
 );
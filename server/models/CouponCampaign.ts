@@ -0,0 +1,58 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// A batch of unique single-use coupon codes sharing one set of rules, for
+// influencer and print campaigns. Each code is its own Coupon tagged with the
+// campaign id, so checkout treats it like any other coupon.
+export interface ICouponCampaign extends Document {
+  name: string;
+  description: string;
+  // Code pattern; every '#' becomes a random character, e.g. "INSTA-########"
+  pattern: string;
+  discountAmount: number;
+  discountType: 'percentage' | 'fixed';
+  minimumCartValue: number;
+  maxDiscountAmount: number;
+  productIds: string[];
+  categoryIds: string[];
+  collectionIds: string[];
+  excludedProductIds: string[];
+  excludedCategoryIds: string[];
+  excludedCollectionIds: string[];
+  firstOrderOnly: boolean;
+  stacksWithSalePrice: boolean;
+  stacksWithCoupons: boolean;
+  startDate: Date;
+  endDate: Date;
+  isActive: boolean;
+  issuedCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CouponCampaignSchema = new Schema(
+  {
+    name: { type: String, required: true, trim: true },
+    description: { type: String, default: '' },
+    pattern: { type: String, required: true, uppercase: true, trim: true },
+    discountAmount: { type: Number, required: true, min: 0 },
+    discountType: { type: String, enum: ['percentage', 'fixed'], default: 'percentage' },
+    minimumCartValue: { type: Number, default: 0, min: 0 },
+    maxDiscountAmount: { type: Number, default: 0, min: 0 },
+    productIds: { type: [String], default: [] },
+    categoryIds: { type: [String], default: [] },
+    collectionIds: { type: [String], default: [] },
+    excludedProductIds: { type: [String], default: [] },
+    excludedCategoryIds: { type: [String], default: [] },
+    excludedCollectionIds: { type: [String], default: [] },
+    firstOrderOnly: { type: Boolean, default: false },
+    stacksWithSalePrice: { type: Boolean, default: true },
+    stacksWithCoupons: { type: Boolean, default: false },
+    startDate: { type: Date, required: true },
+    endDate: { type: Date, required: true },
+    isActive: { type: Boolean, default: true },
+    issuedCount: { type: Number, default: 0 },
+  },
+  { timestamps: true }
+);
+
+export default mongoose.model<ICouponCampaign>('CouponCampaign', CouponCampaignSchema);
@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type CouponRedemptionStatus = 'reserved' | 'redeemed' | 'released';
+
+// One use of a coupon by a customer. A checkout reserves the use (counting it
+// against the coupon's limits) before the order exists; it becomes redeemed
+// with the order, or is released if the checkout fails or the order is cancelled.
+// `slot` numbers the customer's active uses of the coupon and is unique per
+// customer, which is what enforces per-customer limits under concurrency.
+export interface ICouponRedemption extends Document {
+  couponId: string;
+  campaignId?: string;
+  code: string;
+  customerKey: string; // user id, or "email:<address>" for guest checkouts
+  userId?: string;
+  email?: string;
+  reference: string;
+  orderId?: string;
+  discountAmount: number;
+  status: CouponRedemptionStatus;
+  slot?: number;
+  releaseReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CouponRedemptionSchema = new Schema(
+  {
+    couponId: { type: String, required: true, index: true },
+    campaignId: { type: String, index: true },
+    code: { type: String, required: true, uppercase: true },
+    customerKey: { type: String, required: true },
+    userId: { type: String, index: true },
+    email: { type: String, lowercase: true, trim: true },
+    reference: { type: String, required: true, index: true },
+    orderId: { type: String, index: true },
+    discountAmount: { type: Number, default: 0 },
+    status: { type: String, enum: ['reserved', 'redeemed', 'released'], default: 'reserved' },
+    slot: { type: Number },
+    releaseReason: { type: String },
+  },
+  { timestamps: true }
+);
+
+CouponRedemptionSchema.index(
+  { couponId: 1, customerKey: 1, slot: 1 },
+  { unique: true, partialFilterExpression: { slot: { $exists: true } } }
+);
+
+export default mongoose.model<ICouponRedemption>('CouponRedemption', CouponRedemptionSchema);
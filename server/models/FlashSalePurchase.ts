@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type FlashSalePurchaseStatus = 'reserved' | 'purchased' | 'released';
+
+// Units of a product bought at a flash sale price. A checkout reserves them
+// (counting against the sale's stock cap) before the order exists; they become
+// purchased with the order, or are released if the checkout fails or the order
+// is cancelled. When the sale limits units per customer each unit is its own
+// entry and `slot` numbers it, unique per customer, which is what enforces the
+// limit under concurrency.
+export interface IFlashSalePurchase extends Document {
+  saleId: string;
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  customerKey: string; // user id, or "email:<address>" for guest checkouts
+  userId?: string;
+  email?: string;
+  reference: string;
+  orderId?: string;
+  price: number;
+  status: FlashSalePurchaseStatus;
+  slot?: number;
+  releaseReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const FlashSalePurchaseSchema = new Schema(
+  {
+    saleId: { type: String, required: true, index: true },
+    productId: { type: String, required: true },
+    variantId: { type: String },
+    quantity: { type: Number, required: true, min: 1 },
+    customerKey: { type: String, required: true },
+    userId: { type: String },
+    email: { type: String, lowercase: true, trim: true },
+    reference: { type: String, required: true, index: true },
+    orderId: { type: String, index: true },
+    price: { type: Number, required: true },
+    status: { type: String, enum: ['reserved', 'purchased', 'released'], default: 'reserved' },
+    slot: { type: Number },
+    releaseReason: { type: String },
+  },
+  { timestamps: true }
+);
+
+FlashSalePurchaseSchema.index(
+  { saleId: 1, productId: 1, customerKey: 1, slot: 1 },
+  { unique: true, partialFilterExpression: { slot: { $exists: true } } }
+);
+
+export default mongoose.model<IFlashSalePurchase>('FlashSalePurchase', FlashSalePurchaseSchema);
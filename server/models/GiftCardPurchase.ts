@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type GiftCardPurchaseStatus = 'pending_payment' | 'issued' | 'sending' | 'sent' | 'failed';
+
+// A customer buying a gift card from a template. Once the Razorpay payment is
+// verified (or captured via the webhook) a GiftCard is issued and emailed to the
+// recipient, immediately or on the scheduled delivery date.
+export interface IGiftCardPurchase extends Document {
+  templateId: string;
+  amount: number;
+  purchaserId?: string;
+  senderName: string;
+  senderEmail: string;
+  recipientName: string;
+  recipientEmail: string;
+  message?: string;
+  deliverAt: Date;
+  status: GiftCardPurchaseStatus;
+  razorpayOrderId: string;
+  paymentId?: string;
+  giftCardId?: string;
+  giftCardCode?: string;
+  sentAt?: Date;
+  // The account that proved it received the card by entering its code
+  claimedBy?: string;
+  claimedAt?: Date;
+  deliveryAttempts: number;
+  deliveryError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GiftCardPurchaseSchema = new Schema(
+  {
+    templateId: { type: String, required: true },
+    amount: { type: Number, required: true, min: 0 },
+    purchaserId: { type: String, index: true },
+    senderName: { type: String, required: true },
+    senderEmail: { type: String, required: true, lowercase: true, trim: true },
+    recipientName: { type: String, required: true },
+    recipientEmail: { type: String, required: true, lowercase: true, trim: true, index: true },
+    message: { type: String, default: '' },
+    deliverAt: { type: Date, required: true },
+    status: {
+      type: String,
+      enum: ['pending_payment', 'issued', 'sending', 'sent', 'failed'],
+      default: 'pending_payment'
+    },
+    razorpayOrderId: { type: String, required: true, unique: true },
+    paymentId: { type: String },
+    giftCardId: { type: String },
+    giftCardCode: { type: String },
+    sentAt: { type: Date },
+    claimedBy: { type: String },
+    claimedAt: { type: Date },
+    deliveryAttempts: { type: Number, default: 0 },
+    deliveryError: { type: String },
+  },
+  { timestamps: true }
+);
+
+GiftCardPurchaseSchema.index({ status: 1, deliverAt: 1 });
+
+export default mongoose.model<IGiftCardPurchase>('GiftCardPurchase', GiftCardPurchaseSchema);
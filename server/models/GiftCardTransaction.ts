@@ -0,0 +1,41 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type GiftCardTransactionType = 'debit' | 'credit';
+export type GiftCardDebitStatus = 'held' | 'committed' | 'released';
+
+// Ledger of gift card balance movements. A checkout debits the card once
+// (keyed by its checkout reference) while the order is placed; the debit is
+// committed to the order or released back to the card if the order never
+// happens. Refunds credit the card with one entry per refund record.
+export interface IGiftCardTransaction extends Document {
+  giftCardId: string;
+  code: string;
+  type: GiftCardTransactionType;
+  amount: number;
+  balanceAfter: number;
+  reason: string;
+  key?: string;
+  reference?: string;
+  orderId?: string;
+  status?: GiftCardDebitStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GiftCardTransactionSchema = new Schema(
+  {
+    giftCardId: { type: String, required: true, index: true },
+    code: { type: String, required: true, uppercase: true, index: true },
+    type: { type: String, enum: ['debit', 'credit'], required: true },
+    amount: { type: Number, required: true, min: 0 },
+    balanceAfter: { type: Number, required: true },
+    reason: { type: String, required: true },
+    key: { type: String, unique: true, sparse: true },
+    reference: { type: String, index: true },
+    orderId: { type: String, index: true },
+    status: { type: String, enum: ['held', 'committed', 'released'] },
+  },
+  { timestamps: true }
+);
+
+export default mongoose.model<IGiftCardTransaction>('GiftCardTransaction', GiftCardTransactionSchema);
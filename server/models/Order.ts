@@ -1,8 +1,58 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export interface IOrderStatusChange {
+  status: string;
+  previousStatus?: string;
+  actor: string; // 'customer', 'admin', 'system' or a payment provider
+  actorId?: string;
+  note?: string;
+  changedAt: Date;
+}
+
+export interface IOrderRefundLine {
+  itemId: string;
+  productId: string;
+  quantity: number;
+  amount: number;
+}
+
+// An automatic promotion that applied when the order was priced
+export interface IOrderPromotion {
+  promotionId: string;
+  name: string;
+  type: string;
+  discount: number;
+  freeShipping: boolean;
+}
+
+export type OrderRefundStatus = 'pending' | 'processed' | 'failed';
+
+export interface IOrderRefund {
+  _id?: mongoose.Types.ObjectId;
+  refundId?: string; // Razorpay refund id
+  amount: number;
+  giftCardAmount?: number; // part of `amount` credited back to the order's gift card
+  lines: IOrderRefundLine[]; // empty for whole-order refunds made outside the admin
+  reason?: string;
+  status: OrderRefundStatus;
+  gateway: string; // 'razorpay', 'stub', 'giftcard' or 'manual'
+  restocked: boolean;
+  actor: string;
+  actorId?: string;
+  error?: string;
+  createdAt: Date;
+}
+
 export interface IOrder extends Document {
   userId: string;
   status: string;
+  statusHistory: IOrderStatusChange[];
+  refunds: IOrderRefund[];
+  refundedAmount: number;
+  subtotal?: number;
+  shippingAmount?: number;
+  taxAmount?: number;
+  codFee?: number;
   totalAmount: number;
   shippingAddress: string;
   shippingCity?: string;
@@ -24,16 +74,64 @@ export interface IOrder extends Document {
   packageHeight?: number;
   packageWeight?: number;
   shiprocketOrderId?: string;
+  razorpayOrderId?: string;
+  paymentId?: string;
   paymentMethod: string;
   paymentStatus: string;
   couponCode: string | null;
-  discountAmount: number;
+  couponCodes: string[]; // every coupon on the order when codes were stacked
+  discountAmount: number; // coupon and promotion discounts together
+  promotionDiscount?: number; // part of discountAmount from automatic promotions
+  promotions?: IOrderPromotion[];
+  giftCardCode?: string;
+  giftCardAmount?: number; // paid with the gift card; the rest went through paymentMethod
+  giftCardRefundedAmount?: number;
   createdAt: Date;
 }
 
+const OrderStatusChangeSchema = new Schema({
+  status: { type: String, required: true },
+  previousStatus: { type: String },
+  actor: { type: String, required: true },
+  actorId: { type: String },
+  note: { type: String },
+  changedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+const OrderRefundSchema = new Schema({
+  refundId: { type: String },
+  amount: { type: Number, required: true },
+  giftCardAmount: { type: Number, default: 0 },
+  lines: {
+    type: [{
+      itemId: { type: String, required: true },
+      productId: { type: String, required: true },
+      quantity: { type: Number, required: true },
+      amount: { type: Number, required: true },
+      _id: false
+    }],
+    default: []
+  },
+  reason: { type: String },
+  status: { type: String, enum: ['pending', 'processed', 'failed'], default: 'pending' },
+  gateway: { type: String, required: true },
+  restocked: { type: Boolean, default: false },
+  actor: { type: String, required: true },
+  actorId: { type: String },
+  error: { type: String },
+  createdAt: { type: Date, default: Date.now }
+});
+
 const OrderSchema: Schema = new Schema({
-  userId: { type: String, required: true },
+  userId: { type: String, default: '' }, // empty for guest checkouts
   status: { type: String, required: true, default: 'pending' },
+  statusHistory: { type: [OrderStatusChangeSchema], default: [] },
+  refunds: { type: [OrderRefundSchema], default: [] },
+  refundedAmount: { type: Number, default: 0 },
+  subtotal: { type: Number },
+  shippingAmount: { type: Number },
+  taxAmount: { type: Number },
+  codFee: { type: Number, default: 0 },
   totalAmount: { type: Number, required: true },
   shippingAddress: { type: String, required: true },
   shippingCity: { type: String },
@@ -55,10 +153,28 @@ const OrderSchema: Schema = new Schema({
   packageHeight: { type: Number },
   packageWeight: { type: Number },
   shiprocketOrderId: { type: String },
+  razorpayOrderId: { type: String, index: { unique: true, sparse: true } },
+  paymentId: { type: String, index: true },
   paymentMethod: { type: String, required: true },
   paymentStatus: { type: String, required: true, default: 'pending' },
   couponCode: { type: String, default: null },
+  couponCodes: { type: [String], default: [] },
   discountAmount: { type: Number, default: 0 },
+  promotionDiscount: { type: Number, default: 0 },
+  promotions: {
+    type: [{
+      _id: false,
+      promotionId: { type: String, required: true },
+      name: { type: String, required: true },
+      type: { type: String, required: true },
+      discount: { type: Number, default: 0 },
+      freeShipping: { type: Boolean, default: false },
+    }],
+    default: [],
+  },
+  giftCardCode: { type: String },
+  giftCardAmount: { type: Number, default: 0 },
+  giftCardRefundedAmount: { type: Number, default: 0 },
   createdAt: { type: Date, default: Date.now }
 });
 
@@ -5,13 +5,26 @@ export interface IOrderItem extends Document {
   productId: string;
   quantity: number;
   price: number;
+  isFree: boolean;
+  discountAmount?: number;
+  flashSaleId?: string;
+  variantId?: string;
+  variantLabel?: string;
 }
 
 const OrderItemSchema: Schema = new Schema({
   orderId: { type: String, required: true },
   productId: { type: String, required: true },
   quantity: { type: Number, required: true },
-  price: { type: Number, required: true }
+  price: { type: Number, required: true },
+  isFree: { type: Boolean, default: false },
+  // Coupon discount taken off this line as a whole; missing on orders placed before per-line discounts
+  discountAmount: { type: Number },
+  // Flash sale whose price this line was sold at
+  flashSaleId: { type: String },
+  // The variant ordered, and its option values as they read when the order was placed
+  variantId: { type: String },
+  variantLabel: { type: String }
 });
 
 export default mongoose.model<IOrderItem>('OrderItem', OrderItemSchema);
\ No newline at end of file
@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type PaymentEventStatus = 'received' | 'processed' | 'ignored' | 'failed';
+
+// One row per Razorpay webhook delivery, keyed by the event id Razorpay sends
+// in the x-razorpay-event-id header so retries are applied only once.
+export interface IPaymentEvent extends Document {
+  eventId: string;
+  event: string;
+  razorpayOrderId?: string;
+  paymentId?: string;
+  refundId?: string;
+  status: PaymentEventStatus;
+  result?: string;
+  error?: string;
+  attempts: number;
+  payload: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PaymentEventSchema = new Schema(
+  {
+    eventId: { type: String, required: true, unique: true },
+    event: { type: String, required: true },
+    razorpayOrderId: { type: String, index: true },
+    paymentId: { type: String, index: true },
+    refundId: { type: String },
+    status: { type: String, enum: ['received', 'processed', 'ignored', 'failed'], default: 'received' },
+    result: { type: String },
+    error: { type: String },
+    attempts: { type: Number, default: 0 },
+    payload: { type: Schema.Types.Mixed, required: true },
+  },
+  { timestamps: true }
+);
+
+export default mongoose.model<IPaymentEvent>('PaymentEvent', PaymentEventSchema);
@@ -0,0 +1,73 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type PendingCheckoutStatus = 'pending' | 'completed' | 'failed' | 'expired';
+
+export interface IPendingCheckoutItem {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  isFree?: boolean;
+}
+
+// Snapshot of a checkout taken when its Razorpay order is opened. Payment
+// verification (or the webhook, if the shopper's browser never returns) promotes
+// it to a real order; unpaid ones expire and show up as abandoned payments.
+// The order is built from `pricing`, the prices Razorpay was asked to charge,
+// so edits to the catalogue while the shopper pays don't change what they bought.
+export interface IPendingCheckout extends Document {
+  razorpayOrderId: string;
+  receipt: string;
+  userId?: string; // unset for guest checkouts, which are keyed by sessionId or email
+  sessionId?: string; // the cart session that opened it, for guests
+  email?: string; // the billing email, lower-cased
+  order: Record<string, any>;
+  items: IPendingCheckoutItem[];
+  pricing?: Record<string, any>; // the PricedOrder the amount was charged from
+  amount: number; // paise
+  currency: string;
+  status: PendingCheckoutStatus;
+  expiresAt: Date;
+  orderId?: string;
+  paymentId?: string;
+  failureReason?: string;
+  refundRequired?: boolean; // paid, but no order could be created for the payment
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PendingCheckoutItemSchema = new Schema({
+  productId: { type: String, required: true },
+  variantId: { type: String },
+  quantity: { type: Number, required: true, min: 1 },
+  isFree: { type: Boolean, default: false },
+}, { _id: false });
+
+const PendingCheckoutSchema = new Schema(
+  {
+    razorpayOrderId: { type: String, required: true, unique: true },
+    receipt: { type: String, required: true },
+    userId: { type: String },
+    sessionId: { type: String },
+    email: { type: String },
+    order: { type: Schema.Types.Mixed, required: true },
+    items: { type: [PendingCheckoutItemSchema], default: [] },
+    pricing: { type: Schema.Types.Mixed },
+    amount: { type: Number, required: true },
+    currency: { type: String, default: 'INR' },
+    status: { type: String, enum: ['pending', 'completed', 'failed', 'expired'], default: 'pending' },
+    expiresAt: { type: Date, required: true },
+    orderId: { type: String },
+    paymentId: { type: String },
+    failureReason: { type: String },
+    refundRequired: { type: Boolean, default: false },
+  },
+  { timestamps: true }
+);
+
+PendingCheckoutSchema.index({ status: 1, createdAt: -1 });
+PendingCheckoutSchema.index({ status: 1, expiresAt: 1 });
+PendingCheckoutSchema.index({ userId: 1 }, { sparse: true });
+PendingCheckoutSchema.index({ sessionId: 1 }, { sparse: true });
+PendingCheckoutSchema.index({ email: 1 }, { sparse: true });
+
+export default mongoose.model<IPendingCheckout>('PendingCheckout', PendingCheckoutSchema);
@@ -1,5 +1,40 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export interface IProductOption {
+  name: string;
+  values: string[];
+}
+
+// A subdocument, so its _id is the variantId cart and order lines carry
+export interface IProductVariant {
+  _id: mongoose.Types.ObjectId;
+  sku: string;
+  options: Record<string, string>;
+  price: number;
+  discountedPrice?: number;
+  stock: number;
+  images: string[];
+  isDefault: boolean;
+}
+
+export interface IProductIngredient {
+  name: string;
+  inciName?: string;
+  benefit?: string;
+  isKey: boolean;
+}
+
+export interface IProductAttributes {
+  ingredients: IProductIngredient[];
+  skinTypes: string[];
+  hairTypes: string[];
+  concerns: string[];
+  certifications: string[];
+  usage?: string;
+  volume?: { value: number; unit: string } | null;
+  shelfLifeMonths?: number | null;
+}
+
 export interface IProduct extends Document {
   name: string;
   sku: string;
@@ -19,8 +54,48 @@ export interface IProduct extends Document {
   createdAt: Date;
   images: string[];
   videoUrl: string;
+  options: IProductOption[];
+  variants: IProductVariant[];
+  attributes?: IProductAttributes;
 }
 
+const ProductOptionSchema = new Schema({
+  name: { type: String, required: true, trim: true },
+  values: { type: [String], default: [] },
+}, { _id: false });
+
+const ProductVariantSchema = new Schema({
+  sku: { type: String, required: true, trim: true },
+  options: { type: Schema.Types.Mixed, default: {} },
+  price: { type: Number, required: true },
+  discountedPrice: { type: Number },
+  stock: { type: Number, required: true, default: 0 },
+  images: { type: [String], default: [] },
+  isDefault: { type: Boolean, default: false },
+});
+
+const ProductIngredientSchema = new Schema({
+  name: { type: String, required: true, trim: true },
+  inciName: { type: String, trim: true },
+  benefit: { type: String, trim: true },
+  isKey: { type: Boolean, default: false },
+}, { _id: false });
+
+// Values come from the vocabularies in shared/attributes, checked when a product is saved
+const ProductAttributesSchema = new Schema({
+  ingredients: { type: [ProductIngredientSchema], default: [] },
+  skinTypes: { type: [String], default: [] },
+  hairTypes: { type: [String], default: [] },
+  concerns: { type: [String], default: [] },
+  certifications: { type: [String], default: [] },
+  usage: { type: String },
+  volume: {
+    type: new Schema({ value: { type: Number, required: true }, unit: { type: String, required: true } }, { _id: false }),
+    default: null,
+  },
+  shelfLifeMonths: { type: Number, default: null },
+}, { _id: false });
+
 const ProductSchema: Schema = new Schema({
   name: { type: String, required: true },
   sku: { type: String, required: true, unique: true },
@@ -40,6 +115,17 @@ const ProductSchema: Schema = new Schema({
   createdAt: { type: Date, default: Date.now },
   images: { type: [String], default: [] },
   videoUrl: { type: String, default: '' },
+  // With variants, sku/price/discountedPrice mirror the default variant and stock is their total
+  options: { type: [ProductOptionSchema], default: [] },
+  variants: { type: [ProductVariantSchema], default: [] },
+  attributes: { type: ProductAttributesSchema },
 });
 
+ProductSchema.index({ 'variants.sku': 1 }, { unique: true, partialFilterExpression: { 'variants.sku': { $exists: true } } });
+// Storefront search ranks name matches above short description matches above the rest
+ProductSchema.index(
+  { name: 'text', shortDescription: 'text', description: 'text' },
+  { name: 'product_search', weights: { name: 10, shortDescription: 4, description: 1 } }
+);
+
 export default mongoose.model<IProduct>('Product', ProductSchema);
\ No newline at end of file
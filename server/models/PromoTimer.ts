@@ -1,15 +1,35 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+// A countdown shown on product cards. Timers that also set a discount are flash
+// sales: between startTime and endTime their products sell at the sale price,
+// optionally limited per customer and capped at `stockCap` sale units per product.
 export interface IPromoTimer extends Document {
-  productId: string; // Reference to Product._id or slug
+  name?: string;
+  productId?: string; // Reference to Product._id or slug (single-product countdowns)
+  productIds: string[]; // Products in a flash sale, by _id or slug
+  startTime?: Date; // Missing on countdown-only timers, which run until endTime
   endTime: Date;
   enabled: boolean;
+  // 'percentage' takes discountValue percent off the list price; 'price' sells at discountValue
+  discountType?: 'percentage' | 'price';
+  discountValue: number;
+  perCustomerLimit: number; // units of each product one customer may buy at the sale price; 0 = no limit
+  stockCap: number; // sale-price units available per product; 0 = no cap
+  soldUnits: Map<string, number>; // sale-price units reserved or sold, by product id
 }
 
 const PromoTimerSchema: Schema = new Schema({
-  productId: { type: String, required: true },
+  name: { type: String, trim: true },
+  productId: { type: String },
+  productIds: { type: [String], default: [] },
+  startTime: { type: Date },
   endTime: { type: Date, required: true },
   enabled: { type: Boolean, default: true },
-});
+  discountType: { type: String, enum: ['percentage', 'price'] },
+  discountValue: { type: Number, default: 0, min: 0 },
+  perCustomerLimit: { type: Number, default: 0, min: 0 },
+  stockCap: { type: Number, default: 0, min: 0 },
+  soldUnits: { type: Map, of: Number, default: {} },
+}, { timestamps: true });
 
 export default mongoose.model<IPromoTimer>('PromoTimer', PromoTimerSchema);
@@ -0,0 +1,88 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type PromotionType = 'buy_x_get_y' | 'spend_tier' | 'bundle' | 'free_shipping';
+
+export interface IPromotionTier {
+  minSubtotal: number;
+  discountPercent: number;
+}
+
+export interface IPromotionBundleItem {
+  productId: string;
+  quantity: number;
+}
+
+// An automatic cart promotion. Promotions apply without a code, highest priority
+// first; an exclusive promotion only applies when nothing has applied before it
+// and stops any further promotions.
+export interface IPromotion extends Document {
+  name: string;
+  description: string;
+  type: PromotionType;
+  isActive: boolean;
+  startDate?: Date;
+  endDate?: Date;
+  priority: number;
+  exclusive: boolean;
+  combinesWithCoupons: boolean;
+  // Lines the promotion looks at; with all three empty every line counts
+  productIds: string[];
+  categoryIds: string[];
+  collectionIds: string[];
+  // buy_x_get_y: for every buyQuantity + getQuantity qualifying units, the cheapest getQuantity are discounted
+  buyQuantity: number;
+  getQuantity: number;
+  getDiscountPercent: number;
+  // spend_tier: the highest tier reached by the qualifying subtotal applies
+  tiers: IPromotionTier[];
+  // bundle: each complete set of bundleItems costs bundlePrice
+  bundleItems: IPromotionBundleItem[];
+  bundlePrice: number;
+  // free_shipping: qualifying subtotal needed for free delivery
+  minSubtotal: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PromotionSchema = new Schema(
+  {
+    name: { type: String, required: true, trim: true },
+    description: { type: String, default: '' },
+    type: { type: String, enum: ['buy_x_get_y', 'spend_tier', 'bundle', 'free_shipping'], required: true },
+    isActive: { type: Boolean, default: true },
+    startDate: { type: Date },
+    endDate: { type: Date },
+    priority: { type: Number, default: 0 },
+    exclusive: { type: Boolean, default: false },
+    combinesWithCoupons: { type: Boolean, default: true },
+    productIds: { type: [String], default: [] },
+    categoryIds: { type: [String], default: [] },
+    collectionIds: { type: [String], default: [] },
+    buyQuantity: { type: Number, default: 0, min: 0 },
+    getQuantity: { type: Number, default: 0, min: 0 },
+    getDiscountPercent: { type: Number, default: 100, min: 0, max: 100 },
+    tiers: {
+      type: [{
+        _id: false,
+        minSubtotal: { type: Number, required: true, min: 0 },
+        discountPercent: { type: Number, required: true, min: 0, max: 100 },
+      }],
+      default: [],
+    },
+    bundleItems: {
+      type: [{
+        _id: false,
+        productId: { type: String, required: true },
+        quantity: { type: Number, default: 1, min: 1 },
+      }],
+      default: [],
+    },
+    bundlePrice: { type: Number, default: 0, min: 0 },
+    minSubtotal: { type: Number, default: 0, min: 0 },
+  },
+  { timestamps: true }
+);
+
+PromotionSchema.index({ isActive: 1, priority: -1 });
+
+export default mongoose.model<IPromotion>('Promotion', PromotionSchema);
@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// One storefront search, for popular and recent searches and the zero-result
+// report. Repeats of a query by the same shopper within a few minutes update the
+// entry rather than adding another.
+export interface ISearchQuery extends Document {
+  query: string;
+  normalized: string; // lowercased with single spaces, what searches are grouped by
+  userId?: string;
+  sessionId?: string;
+  resultCount: number;
+  hiddenFromRecent: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Days a search is kept for reporting
+export const SEARCH_QUERY_RETENTION_DAYS = 180;
+
+const SearchQuerySchema = new Schema(
+  {
+    query: { type: String, required: true, trim: true },
+    normalized: { type: String, required: true },
+    userId: { type: String },
+    sessionId: { type: String },
+    resultCount: { type: Number, required: true, default: 0 },
+    hiddenFromRecent: { type: Boolean, default: false },
+    createdAt: { type: Date, default: Date.now, expires: SEARCH_QUERY_RETENTION_DAYS * 24 * 60 * 60 },
+  },
+  { timestamps: true }
+);
+
+SearchQuerySchema.index({ normalized: 1, createdAt: -1 });
+SearchQuerySchema.index({ resultCount: 1, createdAt: -1 });
+SearchQuerySchema.index({ userId: 1, updatedAt: -1 }, { partialFilterExpression: { userId: { $exists: true } } });
+SearchQuerySchema.index({ sessionId: 1, updatedAt: -1 }, { partialFilterExpression: { sessionId: { $exists: true } } });
+
+export default mongoose.model<ISearchQuery>('SearchQuery', SearchQuerySchema);
@@ -6,11 +6,22 @@ export interface ISetting extends Document {
   supportEmail: string;
   razorpayKeyId: string;
   razorpayKeySecret: string;
+  razorpayWebhookSecret?: string;
   shiprocketApiKey: string;
   shiprocketApiSecret: string;
   shiprocketSourcePincode: string;
   shiprocketPickupLocation: string;
   shiprocketChannelId: number;
+  codEnabled: boolean;
+  codMaxOrderValue: number;
+  codFee: number;
+  codCheckServiceability: boolean;
+  codAllowedPincodes: string[];
+  codBlockedPincodes: string[];
+  abandonedCartEnabled: boolean;
+  abandonedCartEmailDelays: number[];
+  abandonedCartCouponPercent: number;
+  abandonedCartCouponValidDays: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -22,11 +33,22 @@ const SettingSchema = new Schema<ISetting>(
     supportEmail: { type: String, required: true },
     razorpayKeyId: { type: String, required: true },
     razorpayKeySecret: { type: String, required: true },
+    razorpayWebhookSecret: { type: String },
     shiprocketApiKey: { type: String, required: true },
     shiprocketApiSecret: { type: String, required: true },
     shiprocketSourcePincode: { type: String, required: true },
     shiprocketPickupLocation: { type: String, required: true },
     shiprocketChannelId: { type: Number, required: true },
+    codEnabled: { type: Boolean, default: true },
+    codMaxOrderValue: { type: Number, default: 0 }, // 0 = no limit
+    codFee: { type: Number, default: 0 },
+    codCheckServiceability: { type: Boolean, default: true },
+    codAllowedPincodes: { type: [String], default: [] }, // empty = every pincode
+    codBlockedPincodes: { type: [String], default: [] },
+    abandonedCartEnabled: { type: Boolean, default: false },
+    abandonedCartEmailDelays: { type: [Number], default: [1, 24, 72] }, // hours idle before each recovery email
+    abandonedCartCouponPercent: { type: Number, default: 0 }, // 0 = no coupon in the last email
+    abandonedCartCouponValidDays: { type: Number, default: 7 },
   },
   { timestamps: true }
 );
@@ -0,0 +1,36 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type StockReservationStatus = 'reserved' | 'committed' | 'released';
+
+export interface IStockReservation extends Document {
+  reference: string; // Razorpay order id while payment is pending, otherwise a checkout reference
+  orderId?: string;
+  productId: string;
+  variantId?: string; // stock is held on the variant when the product has them
+  quantity: number;
+  status: StockReservationStatus;
+  expiresAt?: Date;
+  releaseReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StockReservationSchema = new Schema(
+  {
+    reference: { type: String, required: true },
+    orderId: { type: String },
+    productId: { type: String, required: true },
+    variantId: { type: String },
+    quantity: { type: Number, required: true, min: 1 },
+    status: { type: String, enum: ['reserved', 'committed', 'released'], default: 'reserved' },
+    expiresAt: { type: Date },
+    releaseReason: { type: String },
+  },
+  { timestamps: true }
+);
+
+StockReservationSchema.index({ reference: 1, status: 1 });
+StockReservationSchema.index({ orderId: 1, status: 1 });
+StockReservationSchema.index({ status: 1, expiresAt: 1 });
+
+export default mongoose.model<IStockReservation>('StockReservation', StockReservationSchema);
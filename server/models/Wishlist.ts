@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// A saved product and what it looked like when alerts were last checked
+export interface IWishlistItem {
+  productId: string;
+  addedAt: Date;
+  // Price and stock as last seen by the alert job; alerts fire when these change for the better
+  lastPrice?: number;
+  lastStock?: number;
+}
+
+// A signed-in customer's wishlist, or a guest's keyed by the storefront session id.
+// A guest wishlist is merged into the customer's when they sign in.
+export interface IWishlist extends Document {
+  userId?: string;
+  sessionId?: string;
+  items: IWishlistItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WishlistItemSchema = new Schema(
+  {
+    productId: { type: String, required: true },
+    addedAt: { type: Date, default: Date.now },
+    lastPrice: { type: Number },
+    lastStock: { type: Number },
+  },
+  { _id: false }
+);
+
+const WishlistSchema = new Schema(
+  {
+    userId: { type: String },
+    sessionId: { type: String },
+    items: { type: [WishlistItemSchema], default: [] },
+  },
+  { timestamps: true }
+);
+
+WishlistSchema.index({ userId: 1 }, { unique: true, partialFilterExpression: { userId: { $type: 'string' } } });
+WishlistSchema.index({ sessionId: 1 }, { unique: true, partialFilterExpression: { sessionId: { $type: 'string' } } });
+
+// At least one of userId or sessionId must be present
+WishlistSchema.pre('validate', function(next) {
+  if (!this.userId && !this.sessionId) {
+    this.invalidate('userId', 'Either userId or sessionId must be provided');
+  }
+  next();
+});
+
+export default mongoose.model<IWishlist>('Wishlist', WishlistSchema);
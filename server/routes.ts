@@ -1,5 +1,6 @@
 import { createServer, type Server } from "http";
 import express, { Application, Request, Response, NextFunction } from "express";
+import mongoose from "mongoose";
 import { MongoDBStorage } from "./storage/MongoDBStorage";
 const storage = new MongoDBStorage();
 import UserModel from "./models/User";
@@ -12,6 +13,7 @@ import BannerModel from "./models/Banner"; // Import BannerModel
 import ScannerModel from "./models/Scanner"; // Import ScannerModel
 import TestimonialModel from "./models/Testimonial"; // Import TestimonialModel for seeding
 import FreeProductModel from "./models/FreeProduct"; // Import FreeProductModel
+import PendingCheckoutModel from "./models/PendingCheckout";
 
 import { v4 as uuidv4 } from "uuid"; // Import uuid
 import { z } from "zod";
@@ -22,9 +24,27 @@ type InsertProduct = Omit<Product, 'id' | '_id' | 'createdAt'>;
 import { sendMail } from "./utils/mailer";
 import upload from "./utils/upload";
 import crypto from "crypto";
-import { getServiceability, createShipment, cancelShipment, trackShipment } from "./utils/shiprocket";
+import { getServiceability, createShipment, cancelShipment, trackShipment, getDeliveryPincode } from "./utils/shiprocket";
+import { checkCodEligibility, CodUnavailableError } from "./utils/cod";
+import { quoteGiftCard, debitGiftCard, releaseGiftCardDebit, GiftCardError } from "./utils/giftCards";
+import { reserveCouponRedemptions, releaseCouponRedemption, getRequestedCouponCodes, CouponError } from "./utils/coupons";
+import { mergeGuestWishlist } from "./utils/wishlists";
+import { reserveFlashSaleUnits, releaseFlashSaleUnits, withFlashSalePrice, withFlashSalePrices, FlashSaleError } from "./utils/flashSales";
+import { evaluateCartPromotions } from "./utils/promotions";
+import { priceOrder, OrderPricingError } from "./utils/orderPricing";
+import { roundCurrency } from "@shared/pricing";
+import { applyVariant, findVariant, getVariantLabel, hasVariants } from "@shared/variants";
+import { isManualOrderStatus, isOrderStatus } from "@shared/orderStatus";
+import { parseVariantFields, VariantError } from "./utils/variants";
+import { parseAttributeFields, ProductAttributeError } from "./utils/productAttributes";
+import { searchProducts } from "./utils/productSearch";
+import { promotePendingCheckout, failPendingCheckout, CheckoutPromotionError } from "./utils/pendingCheckouts";
+import { placeOrder, OrderTotalMismatchError } from "./utils/orderPlacement";
+import { reserveStock, releaseStock, InsufficientStockError, RESERVATION_TTL_MINUTES } from "./utils/inventory";
+import { checkOrderStatusTransition, transitionOrderStatus, OrderStatusError } from "./utils/orderStatus";
 import bcrypt from "bcrypt";
-import jwt, { Secret } from "jsonwebtoken";
+import jwt from "jsonwebtoken";
+import { authenticateJWT, isAdmin, getJwtSecret, verifyToken, type AuthRequest } from "./middleware/auth";
 import { getPopupSetting, updatePopupSetting } from "./controllers/popupSettingController";
 import { subscribeNewsletter, getNewsletterSubscribers } from "./controllers/newsletterController";
 import fs from "fs";
@@ -52,6 +72,7 @@ function getCookieDomain(req: Request): string | undefined {
 const cartItemInsertSchema = z.object({
   cartId: z.string(),
   productId: z.string(),
+  variantId: z.string().optional(),
   quantity: z.number().min(1),
   isFree: z.boolean().optional()
 });
@@ -59,12 +80,13 @@ const cartItemInsertSchema = z.object({
 // Order input validation
 const orderInsertSchema = z.object({
   userId: z.string(),
-  status: z.string(),
+  status: z.string().optional(), // ignored; the server sets the initial status
   totalAmount: z.number(),
   shippingAddress: z.string(),
   paymentMethod: z.string(),
   paymentStatus: z.string(),
   couponCode: z.string().nullable().optional(),
+  couponCodes: z.array(z.string()).optional(),
   discountAmount: z.number().optional().default(0),
   shippingCity: z.string().optional(),
   shippingState: z.string().optional(),
@@ -80,19 +102,46 @@ const orderInsertSchema = z.object({
   billingPincode: z.string().optional(),
   billingEmail: z.string().optional(),
   billingPhone: z.string().optional(),
+  razorpayOrderId: z.string().optional(),
+  paymentId: z.string().optional(),
+  giftCardCode: z.string().optional(),
+  giftCardAmount: z.number().min(0).optional(),
 });
+// Item prices are recomputed server-side; a client-sent price is accepted but ignored
 const orderItemInsertSchema = z.object({
   productId: z.string(),
-  quantity: z.number().min(1),
-  price: z.number(),
+  variantId: z.string().optional(),
+  quantity: z.number().int().min(1),
+  price: z.number().optional(),
+  isFree: z.boolean().optional(),
 });
 
+// Who is making a request, read from the auth cookie when present
+function getRequestActor(req: Request, fallback: string): { actor: string; actorId?: string } {
+  const token = req.cookies?.token;
+  if (!token) return { actor: fallback };
+  try {
+    const decoded = verifyToken<{ id?: string; isAdmin?: boolean }>(token);
+    return { actor: decoded.isAdmin ? 'admin' : 'customer', actorId: decoded.id };
+  } catch {
+    return { actor: fallback };
+  }
+}
+
 // Payload schema: nested order and items
 const orderPayloadSchema = z.object({
   order: orderInsertSchema,
   items: z.array(orderItemInsertSchema),
 });
 
+// A checkout payload, owned by the signed-in customer rather than the userId it
+// names, so coupon limits per customer can't be dodged by sending another id
+function parseOrderPayload(req: Request) {
+  const payload = orderPayloadSchema.parse(req.body);
+  const { actorId } = getRequestActor(req, 'guest');
+  return { ...payload, order: { ...payload.order, userId: actorId || '' } };
+}
+
 // Banner input validation schema
 const bannerObjectSchema = z.object({
   title: z.string(),
@@ -118,11 +167,22 @@ const bannerUpdateSchema = bannerObjectSchema.partial();
 import couponRoutes from './routes/couponRoutes';
 import giftCardRoutes from './routes/giftCardRoutes';
 import giftCardTemplateRoutes from './routes/giftCardTemplateRoutes';
+import giftCardPurchaseRoutes from './routes/giftCardPurchaseRoutes';
 import authRoutes from './routes/authRoutes'; // Import auth routes
 import scannerRoutes from './routes/scannerRoutes'; // Import scanner routes
 import testimonialRoutes from './routes/testimonialRoutes'; // Import testimonial routes
 import freeProductRoutes from './routes/freeProductRoutes'; // Import freeProduct routes
 import reviewRoutes from './routes/reviewRoutes'; // Import review routes
+import razorpayWebhookRoutes from './routes/razorpayWebhookRoutes';
+import pendingCheckoutRoutes from './routes/pendingCheckoutRoutes';
+import refundRoutes from './routes/refundRoutes';
+import promotionRoutes from './routes/promotionRoutes';
+import couponCampaignRoutes from './routes/couponCampaignRoutes';
+import addressRoutes from './routes/addressRoutes';
+import wishlistRoutes from './routes/wishlistRoutes';
+import cartRecoveryRoutes from './routes/cartRecoveryRoutes';
+import cartRoutes from './routes/cartRoutes';
+import searchRoutes from './routes/searchRoutes';
 
 // Import controllers for coupons
 
@@ -136,10 +196,21 @@ export async function registerRoutes(app: Application): Promise<Server> {
   app.use('/api', couponRoutes);
   app.use('/api', giftCardRoutes);
   app.use('/api', giftCardTemplateRoutes);
+  app.use('/api', giftCardPurchaseRoutes);
   app.use('/api', scannerRoutes);
   app.use('/api', testimonialRoutes);
   app.use('/api', freeProductRoutes);
   app.use('/api', reviewRoutes); // Add review routes
+  app.use('/api', razorpayWebhookRoutes);
+  app.use('/api', pendingCheckoutRoutes);
+  app.use('/api', refundRoutes);
+  app.use('/api', promotionRoutes);
+  app.use('/api', couponCampaignRoutes);
+  app.use('/api', addressRoutes);
+  app.use('/api', wishlistRoutes);
+  app.use('/api', cartRecoveryRoutes);
+  app.use('/api', cartRoutes);
+  app.use('/api', searchRoutes);
   // ensure upload directory exists in public/uploads
   const uploadDir = path.join(__dirname, '../public/uploads');
   if (!fs.existsSync(uploadDir)) fs.mkdirSync(uploadDir, { recursive: true });
@@ -176,7 +247,7 @@ export async function registerRoutes(app: Application): Promise<Server> {
   // Auth routes
   app.post("/api/auth/register", async (req, res) => {
     try {
-      const validatedData = req.body; // add validation with Zod schema
+      const { sessionId, ...validatedData } = req.body; // add validation with Zod schema
       
       // Check if user already exists
       const existingUser = await storage.getUserByEmail(validatedData.email);
@@ -199,11 +270,16 @@ export async function registerRoutes(app: Application): Promise<Server> {
       
       const token = jwt.sign(
         { id: userWithoutPassword.id, isAdmin: userWithoutPassword.isAdmin },
-        process.env.JWT_SECRET as Secret,
+        getJwtSecret(),
         { expiresIn: process.env.JWT_EXPIRES_IN as any }
       );
       const maxAge = Number(process.env.COOKIE_MAX_AGE) || 86400000;
       res.cookie('token', token, { httpOnly: true, secure: process.env.NODE_ENV==='production', sameSite: 'none', maxAge, domain: getCookieDomain(req) });
+      // Keep what the shopper saved and put in their bag as a guest
+      await mergeGuestWishlist(userWithoutPassword.id, sessionId).catch(err => console.error("Wishlist merge error:", err));
+      if (sessionId) {
+        await storage.mergeGuestCart(userWithoutPassword.id, sessionId).catch(err => console.error("Cart merge error:", err));
+      }
       return res.status(201).json(userWithoutPassword);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -215,7 +291,7 @@ export async function registerRoutes(app: Application): Promise<Server> {
   
   app.post("/api/auth/login", async (req, res) => {
     try {
-      const { email, password } = req.body;
+      const { email, password, sessionId } = req.body;
       
       console.log(`Login attempt with email: ${email}`);
       
@@ -238,11 +314,16 @@ export async function registerRoutes(app: Application): Promise<Server> {
       console.log("Login successful");
       const token = jwt.sign(
         { id: userWithoutPassword.id, isAdmin: userWithoutPassword.isAdmin },
-        process.env.JWT_SECRET as Secret,
+        getJwtSecret(),
         { expiresIn: process.env.JWT_EXPIRES_IN as any }
       );
       const maxAge = Number(process.env.COOKIE_MAX_AGE) || 86400000;
       res.cookie('token', token, { httpOnly: true, secure: process.env.NODE_ENV==='production', sameSite: 'none', maxAge, domain: getCookieDomain(req) });
+      // Keep what the shopper saved and put in their bag as a guest
+      await mergeGuestWishlist(userWithoutPassword.id, sessionId).catch(err => console.error("Wishlist merge error:", err));
+      if (sessionId) {
+        await storage.mergeGuestCart(userWithoutPassword.id, sessionId).catch(err => console.error("Cart merge error:", err));
+      }
       return res.status(200).json(userWithoutPassword);
     } catch (error) {
       console.error("Login error:", error);
@@ -266,7 +347,7 @@ export async function registerRoutes(app: Application): Promise<Server> {
       // Fetch user document directly from MongoDB to ensure persistence
       const user = await UserModel.findOne({ email });
       if (!user) return res.status(200).json({ message: "If that email is registered, you will receive a password reset link" });
-      const token = jwt.sign({ id: user.id }, process.env.JWT_SECRET as Secret, { expiresIn: process.env.RESET_PASSWORD_EXPIRES_IN as any || "1h" });
+      const token = jwt.sign({ id: user.id }, getJwtSecret(), { expiresIn: process.env.RESET_PASSWORD_EXPIRES_IN as any || "1h" });
       // Save token and expiry on Mongoose document
       if (!user) {
         console.error('Forgot-password: no user found for update', email);
@@ -294,7 +375,7 @@ export async function registerRoutes(app: Application): Promise<Server> {
       }
       let payload;
       try {
-        payload = jwt.verify(token, process.env.JWT_SECRET as Secret) as { id: string };
+        payload = verifyToken<{ id: string }>(token);
       } catch (err) {
         return res.status(400).json({ message: "Invalid or expired token" });
       }
@@ -392,22 +473,6 @@ export async function registerRoutes(app: Application): Promise<Server> {
     }
   });
 
-  // Collection products route
-  app.get('/api/collections/:slug/products', async (req, res) => {
-    try {
-      const { slug } = req.params;
-      const collection = await storage.getCollectionBySlug(slug);
-      if (!collection) {
-        return res.status(404).json({ message: 'Collection not found' });
-      }
-      const products = await storage.getCollectionProducts(collection._id!);
-      return res.status(200).json(products);
-    } catch (error) {
-      console.error('Get collection products error:', error);
-      return res.status(500).json({ message: 'Error fetching products for collection' });
-    }
-  });
-
   // Collection routes
   app.get('/api/collections', async (req, res) => {
     try {
@@ -472,20 +537,6 @@ export async function registerRoutes(app: Application): Promise<Server> {
     }
   });
 
-  // Fetch products in a collection
-  app.get('/api/collections/:slug/products', async (req, res) => {
-    try {
-      const { slug } = req.params;
-      const col = await storage.getCollectionBySlug(slug);
-      if (!col) return res.status(404).json({ message: 'Collection not found' });
-      // use getProducts with collectionId to fetch from Mongo
-      const products = await storage.getProducts({ collectionId: col._id! });
-      return res.status(200).json(products);
-    } catch (err) {
-      console.error('Fetch collection products error:', err);
-      return res.status(500).json({ message: 'Server error' });
-    }
-  });
   // Add product to collection
   app.post('/api/collections/:slug/products', async (req, res) => {
     try {
@@ -520,7 +571,7 @@ export async function registerRoutes(app: Application): Promise<Server> {
     try {
       const limit = parseInt((req.query.limit as string) || '', 10) || undefined;
       const products = await storage.getFeaturedProducts(limit);
-      return res.status(200).json(products);
+      return res.status(200).json(await withFlashSalePrices(products));
     } catch (error) {
       console.error('Fetch featured products error:', error);
       return res.status(500).json({ message: 'Server error' });
@@ -530,7 +581,7 @@ export async function registerRoutes(app: Application): Promise<Server> {
     try {
       const limit = parseInt((req.query.limit as string) || '', 10) || undefined;
       const products = await storage.getBestsellerProducts(limit);
-      return res.status(200).json(products);
+      return res.status(200).json(await withFlashSalePrices(products));
     } catch (error) {
       console.error('Fetch bestseller products error:', error);
       return res.status(500).json({ message: 'Server error' });
@@ -540,7 +591,7 @@ export async function registerRoutes(app: Application): Promise<Server> {
     try {
       const limit = parseInt((req.query.limit as string) || '', 10) || undefined;
       const products = await storage.getNewProducts(limit);
-      return res.status(200).json(products);
+      return res.status(200).json(await withFlashSalePrices(products));
     } catch (error) {
       console.error('Fetch new products error:', error);
       return res.status(500).json({ message: 'Server error' });
@@ -555,24 +606,34 @@ export async function registerRoutes(app: Application): Promise<Server> {
       const categoryId = req.query.categoryId as string | undefined;
       const collectionId = req.query.collectionId as string | undefined;
 
-      // Fetch all matching products for accurate count and search
-      const allProducts = await storage.getProducts({ categoryId, collectionId });
-      let filteredProducts = allProducts;
-      if (search) {
-        const lower = search.toLowerCase();
-        filteredProducts = allProducts.filter(p =>
-          p.name.toLowerCase().includes(lower) ||
-          (p.description?.toLowerCase().includes(lower))
-        );
+      // Searches go through the text index, ranked by relevance
+      if (search.trim()) {
+        const result = await searchProducts({
+          q: search,
+          categoryIds: categoryId ? [categoryId] : undefined,
+          collectionIds: collectionId ? [collectionId] : undefined,
+          page,
+          limit,
+        });
+        return res.status(200).json({
+          products: result.products,
+          total: result.total,
+          page: result.page,
+          totalPages: result.totalPages,
+          totalItems: result.totalItems
+        });
       }
 
+      // Fetch all matching products for accurate count
+      const filteredProducts = await storage.getProducts({ categoryId, collectionId });
+
       const total = filteredProducts.length;
       const totalPages = Math.ceil(total / limit);
       const start = (page - 1) * limit;
       const paginated = filteredProducts.slice(start, start + limit);
 
       return res.status(200).json({
-        products: paginated,
+        products: await withFlashSalePrices(paginated),
         total,
         page,
         totalPages,
@@ -607,7 +668,7 @@ export async function registerRoutes(app: Application): Promise<Server> {
       return res.status(404).json({ message: 'Product not found' });
     }
 
-    return res.status(200).json(product);
+    return res.status(200).json(await withFlashSalePrice(product));
     } catch (error) {
       console.error('Fetch product detail error:', error);
       return res.status(500).json({ message: 'Server error' });
@@ -730,7 +791,7 @@ export async function registerRoutes(app: Application): Promise<Server> {
       const pageProducts = filteredProducts.slice(offset, offset + limit);
 
       return res.status(200).json({
-        products: pageProducts,
+        products: await withFlashSalePrices(pageProducts),
         total: totalProducts,
         page,
         totalPages,
@@ -749,7 +810,7 @@ export async function registerRoutes(app: Application): Promise<Server> {
       
       const products = await storage.getFeaturedProducts(limitNum);
       
-      return res.status(200).json(products);
+      return res.status(200).json(await withFlashSalePrices(products));
     } catch (error) {
       return res.status(500).json({ message: "Server error" });
     }
@@ -762,7 +823,7 @@ export async function registerRoutes(app: Application): Promise<Server> {
       
       const products = await storage.getBestsellerProducts(limitNum);
       
-      return res.status(200).json(products);
+      return res.status(200).json(await withFlashSalePrices(products));
     } catch (error) {
       return res.status(500).json({ message: "Server error" });
     }
@@ -775,7 +836,7 @@ export async function registerRoutes(app: Application): Promise<Server> {
       
       const products = await storage.getNewProducts(limitNum);
       
-      return res.status(200).json(products);
+      return res.status(200).json(await withFlashSalePrices(products));
     } catch (error) {
       return res.status(500).json({ message: "Server error" });
     }
@@ -800,7 +861,7 @@ export async function registerRoutes(app: Application): Promise<Server> {
         return res.status(404).json({ message: "Product not found" });
       }
 
-      return res.status(200).json(product);
+      return res.status(200).json(await withFlashSalePrice(product));
     } catch (error) {
       return res.status(500).json({ message: "Server error" });
     }
@@ -844,17 +905,25 @@ export async function registerRoutes(app: Application): Promise<Server> {
         console.error('[PRODUCT CREATE ERROR] Duplicate slug:', productData.slug);
         return res.status(400).json({ error: "Product with this slug already exists" });
       }
+      // With variants, sku, prices and stock come from the variant matrix
+      const variantFields = parseVariantFields(productData);
+      const attributeFields = parseAttributeFields(productData);
       const newProduct = await storage.createProduct({
         ...productData,
         price,
         stock,
         discountedPrice,
         images,
-        imageUrl
+        imageUrl,
+        ...(variantFields || {}),
+        ...(attributeFields || {})
       });
       console.log('[PRODUCT CREATE] Success:', newProduct);
       return res.status(201).json(newProduct);
     } catch (error) {
+      if (error instanceof VariantError || error instanceof ProductAttributeError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error('[PRODUCT CREATE ERROR]:', error);
       return res.status(500).json({ error: "Failed to create product", details: error instanceof Error ? error.message : error });
     }
@@ -892,11 +961,20 @@ export async function registerRoutes(app: Application): Promise<Server> {
         console.error('[PRODUCT UPDATE ERROR] Product not found:', productId);
         return res.status(404).json({ error: "Product not found" });
       }
-      const updateData = { ...productData, images, imageUrl };
+      const updateData = {
+        ...productData,
+        images,
+        imageUrl,
+        ...(parseVariantFields(productData) || {}),
+        ...(parseAttributeFields(productData) || {}),
+      };
       const updatedProduct = await storage.updateProduct(productId, updateData);
       console.log('[PRODUCT UPDATE] Success:', updatedProduct);
       return res.status(200).json(updatedProduct);
     } catch (error) {
+      if (error instanceof VariantError || error instanceof ProductAttributeError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error('[PRODUCT UPDATE ERROR]:', error);
       return res.status(500).json({ error: "Failed to update product", details: error instanceof Error ? error.message : error });
     }
@@ -1165,53 +1243,51 @@ export async function registerRoutes(app: Application): Promise<Server> {
   // Order routes
   app.post("/api/orders", async (req, res) => {
     try {
-      const { order: orderData, items } = orderPayloadSchema.parse(req.body);
-      const createdOrder = await storage.createOrder(orderData);
-      const orderId = createdOrder.id;
-      if (!orderId) return res.status(500).json({ message: "Order creation failed: missing ID" });
-      for (const item of items) {
-        await storage.addOrderItem({ orderId, productId: item.productId, quantity: item.quantity, price: item.price });
-      }
-      const createdItems = await storage.getOrderItems(orderId);
-      const user = await storage.getUser(orderData.userId);
-      const toEmail = orderData.billingEmail || user?.email;
-      if (toEmail) {
-        // Build HTML table for order details
-        const rowsHtml = items.map(it => `
-          <tr>
-            <td>${it.productId}</td>
-            <td>${it.quantity}</td>
-            <td>₹${it.price.toFixed(2)}</td>
-            <td>₹${(it.price * it.quantity).toFixed(2)}</td>
-          </tr>
-        `).join("");
-        const html = `
-          <h1>Order Confirmation - ${orderId}</h1>
-          <p>Thank you for your purchase!</p>
-          <table border="1" cellpadding="5" cellspacing="0" style="border-collapse: collapse; width:100%;">
-            <thead>
-              <tr><th>Product ID</th><th>Quantity</th><th>Unit Price</th><th>Total</th></tr>
-            </thead>
-            <tbody>
-              ${rowsHtml}
-            </tbody>
-            <tfoot>
-              <tr><td colspan="3" align="right">Total Amount</td><td>₹${createdOrder.totalAmount.toFixed(2)}</td></tr>
-            </tfoot>
-          </table>
-          <p>Shipping Address: ${createdOrder.shippingAddress}</p>
-        `;
-        sendMail({
-          to: toEmail,
-          subject: `Order Confirmation - ${orderId}`,
-          html
-        }).catch(err => console.error("Invoice email error:", err));
-      }
-      return res.status(201).json({ order: createdOrder, items: createdItems });
+      const { order: orderData, items: requestedItems } = parseOrderPayload(req);
+      const { razorpayOrderId, paymentId, ...placedOrder } = orderData;
+      // Orders paid entirely with a gift card need no online payment
+      if (orderData.paymentMethod === 'giftcard') {
+        if (!orderData.giftCardCode) throw new GiftCardError('Gift card code is required');
+        const pricing = await priceOrder(requestedItems, getRequestedCouponCodes(orderData.couponCodes, orderData.couponCode), { customer: { userId: orderData.userId, email: orderData.billingEmail } });
+        const quote = await quoteGiftCard(orderData.giftCardCode, pricing.totalAmount, orderData.giftCardAmount);
+        if (quote.amountDue > 0) throw new GiftCardError('The gift card does not cover this order. Pay the rest online.');
+        const { order, items } = await placeOrder(
+          { ...placedOrder, giftCardCode: quote.code, giftCardAmount: quote.amount, paymentMethod: 'giftcard', paymentStatus: 'paid' },
+          requestedItems,
+          { expectedTotal: orderData.totalAmount, placedBy: { actor: 'customer', actorId: orderData.userId, note: 'Order placed' } }
+        );
+        return res.status(201).json({ order, items });
+      }
+      // Prepaid orders are only created from a verified payment (see /api/razorpay/verify)
+      if (orderData.paymentMethod !== 'cod') {
+        return res.status(400).json({ message: "Online payments must be completed through Razorpay checkout" });
+      }
+      if (orderData.giftCardCode) {
+        return res.status(400).json({ message: "Gift cards cannot be combined with cash on delivery" });
+      }
+      // COD eligibility is judged on the order value before the COD fee is added
+      const pricing = await priceOrder(requestedItems, getRequestedCouponCodes(orderData.couponCodes, orderData.couponCode), { customer: { userId: orderData.userId, email: orderData.billingEmail } });
+      const cod = await checkCodEligibility(getDeliveryPincode(orderData), pricing.totalAmount);
+      if (!cod.eligible) throw new CodUnavailableError(cod.reason || 'Cash on delivery is not available');
+      const { order, items } = await placeOrder({ ...placedOrder, paymentMethod: 'cod', paymentStatus: 'unpaid' }, requestedItems, {
+        expectedTotal: orderData.totalAmount,
+        codFee: cod.fee,
+        placedBy: { actor: 'customer', actorId: orderData.userId, note: 'Order placed' }
+      });
+      return res.status(201).json({ order, items });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      if (error instanceof OrderTotalMismatchError) {
+        return res.status(error.status).json({ message: error.message, pricing: error.pricing });
+      }
+      if (error instanceof OrderPricingError || error instanceof CodUnavailableError || error instanceof GiftCardError || error instanceof CouponError || error instanceof FlashSaleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof InsufficientStockError) {
+        return res.status(error.status).json({ message: error.message, productId: error.productId, available: error.available });
+      }
       console.error("Create order error:", error);
       return res.status(500).json({ message: "Server error" });
     }
@@ -1263,7 +1339,12 @@ export async function registerRoutes(app: Application): Promise<Server> {
       const orderId = req.params.id;
       const order = await storage.getOrderById(orderId);
       if (!order) return res.status(404).json({ message: "Order not found" });
-      const items = await storage.getOrderItems(orderId);
+      const orderItems = await storage.getOrderItems(orderId);
+      // Attach product name and image for display
+      const productIds = Array.from(new Set(orderItems.map(item => item.productId))).filter(id => mongoose.isValidObjectId(id));
+      const products = await ProductModel.find({ _id: { $in: productIds } }, { name: 1, imageUrl: 1 });
+      const productsById = new Map(products.map(p => [String(p._id), { name: p.name, imageUrl: p.imageUrl }]));
+      const items = orderItems.map(item => ({ ...item, product: productsById.get(item.productId) || null }));
       return res.status(200).json({ order, items });
     } catch (error) {
       return res.status(500).json({ message: "Server error" });
@@ -1285,32 +1366,71 @@ export async function registerRoutes(app: Application): Promise<Server> {
   // --- Remove duplicate update order endpoints and keep only the correct one (PUT /api/orders/:id) ---
   // Remove the old endpoint for /api/orders/:id/status
   // The correct endpoint is:
-  app.put('/api/orders/:id', async (req, res) => {
+  app.put('/api/orders/:id', authenticateJWT, isAdmin, async (req: AuthRequest, res) => {
     const { id } = req.params;
-    const { status, packageLength, packageBreadth, packageHeight, packageWeight } = req.body;
+    const { status, note, packageLength, packageBreadth, packageHeight, packageWeight } = req.body;
     if (!status) return res.status(400).json({ message: 'Status is required' });
+    if (isOrderStatus(status) && !isManualOrderStatus(status)) {
+      return res.status(400).json({ message: 'Orders are marked refunded when a refund is issued from the refund panel' });
+    }
 
-    // Use admin authentication middleware here in production
     try {
-      // Update status and dimensions in DB
-      const updateData: any = { status };
-      if (packageLength !== undefined) updateData.packageLength = packageLength;
-      if (packageBreadth !== undefined) updateData.packageBreadth = packageBreadth;
-      if (packageHeight !== undefined) updateData.packageHeight = packageHeight;
-      if (packageWeight !== undefined) updateData.packageWeight = packageWeight;
-      let orderDoc = await OrderModel.findByIdAndUpdate(id, updateData, { new: true });
-      if (!orderDoc) return res.status(404).json({ message: 'Order not found' });
-      const order = orderDoc.toObject();
-      // Shiprocket integration based on status
+      // Dimensions are saved first so the shipment below is created with them
+      const dimensions: Record<string, number> = {};
+      if (packageLength !== undefined) dimensions.packageLength = packageLength;
+      if (packageBreadth !== undefined) dimensions.packageBreadth = packageBreadth;
+      if (packageHeight !== undefined) dimensions.packageHeight = packageHeight;
+      if (packageWeight !== undefined) dimensions.packageWeight = packageWeight;
+      if (Object.keys(dimensions).length > 0 && mongoose.isValidObjectId(id)) {
+        await OrderModel.updateOne({ _id: id }, { $set: dimensions });
+      }
+      // The Shiprocket shipment is booked before the order is marked shipped, so a failed
+      // booking leaves the order where it was and the admin can try again
+      let shiprocketOrderId: string | undefined;
       if (status === 'shipped') {
+        const current = await checkOrderStatusTransition(id, status);
         const items = await storage.getOrderItems(id);
-        const shipResp = await createShipment(order, items);
-        orderDoc = await OrderModel.findByIdAndUpdate(id, { shiprocketOrderId: shipResp.order_id }, { new: true });
-      } else if (status === 'cancelled' && order.shiprocketOrderId) {
-        await cancelShipment(order.shiprocketOrderId);
+        try {
+          const shipResp = await createShipment(current.toObject(), items);
+          shiprocketOrderId = String(shipResp.order_id);
+        } catch (error) {
+          console.error('Create shipment error:', error);
+          return res.status(502).json({ message: 'Could not create the Shiprocket shipment. The order was not marked as shipped.' });
+        }
+      }
+      let updated;
+      try {
+        ({ order: updated } = await transitionOrderStatus(id, status, {
+          actor: 'admin',
+          actorId: req.user?.id ? String(req.user.id) : undefined,
+          note: typeof note === 'string' && note.trim() ? note.trim() : undefined
+        }, shiprocketOrderId ? { shiprocketOrderId } : {}));
+      } catch (error) {
+        // The order changed while the shipment was booked; don't leave an orphaned shipment behind
+        if (shiprocketOrderId) await cancelShipment(shiprocketOrderId, 'Order status change failed').catch(() => {});
+        throw error;
+      }
+      let orderDoc = updated;
+      const order = orderDoc.toObject();
+      if (status === 'delivered' && order.paymentMethod === 'cod' && order.paymentStatus === 'unpaid') {
+        // The courier collected the cash on delivery
+        orderDoc = (await OrderModel.findOneAndUpdate(
+          { _id: id, paymentStatus: 'unpaid' },
+          { $set: { paymentStatus: 'paid' } },
+          { new: true }
+        )) || orderDoc;
+      } else if (status === 'cancelled') {
+        await releaseStock({ orderId: id }, 'cancelled');
+        await releaseCouponRedemption({ orderId: id }, 'cancelled');
+        await releaseFlashSaleUnits({ orderId: id }, 'cancelled');
+        if (order.shiprocketOrderId) await cancelShipment(order.shiprocketOrderId);
       }
       return res.status(200).json(orderDoc);
     } catch (err) {
+      if (err instanceof OrderStatusError) {
+        return res.status(err.status).json({ message: err.message, allowed: err.allowed });
+      }
+      console.error('Update order error:', err);
       return res.status(500).json({ message: 'Failed to update order' });
     }
   });
@@ -1417,22 +1537,22 @@ export async function registerRoutes(app: Application): Promise<Server> {
   app.get("/api/cart", async (req, res) => {
     try {
       const { userId, sessionId } = req.query;
+      // Signed-in shoppers always get their own cart, whatever session they browse from
+      const { actorId } = getRequestActor(req, 'guest');
       
-      if (!userId && !sessionId) {
+      if (!actorId && !userId && !sessionId) {
         return res.status(400).json({ message: "Either userId or sessionId is required" });
       }
       
-      const userIdStr = userId as string;
+      const userIdStr = actorId || (userId as string);
       const sessionIdStr = sessionId as string;
       
       let cart = await storage.getCart(userIdStr, sessionIdStr);
       
-      // Create cart if it doesn't exist
+      // Create cart if it doesn't exist. A user's cart is not tied to the session,
+      // so it is not handed back to the browser once they log out.
       if (!cart) {
-        cart = await storage.createCart({
-          userId: userIdStr,
-          sessionId: sessionIdStr
-        });
+        cart = await storage.createCart(userIdStr ? { userId: userIdStr } : { sessionId: sessionIdStr });
       }
       
       // Get cart items
@@ -1442,16 +1562,32 @@ export async function registerRoutes(app: Application): Promise<Server> {
       const cartItemsWithProduct = await Promise.all(
         cartItems.map(async (item) => {
           const product = await storage.getProductById(item.productId);
+          if (!product) return { ...item, product };
+          // The line's product is shown as the variant it holds
+          const priced = await withFlashSalePrice(product);
+          const variant = findVariant(priced, item.variantId);
           return {
             ...item,
-            product
+            variantId: variant?._id ?? item.variantId,
+            variantLabel: getVariantLabel(priced, variant) || undefined,
+            // Free gifts are flagged on the line, so the storefront keeps them free after a reload
+            product: { ...applyVariant(priced, variant), isFreeProduct: item.isFree }
           };
         })
       );
+
+      // Automatic promotions the cart currently qualifies for
+      const { result: promotions } = await evaluateCartPromotions(cartItems);
       
       return res.status(200).json({
         ...cart,
-        items: cartItemsWithProduct
+        items: cartItemsWithProduct,
+        promotions: {
+          discountAmount: promotions.discountAmount,
+          freeShipping: promotions.freeShipping,
+          applied: promotions.applied,
+          couponBlockedBy: promotions.couponBlockedBy
+        }
       });
     } catch (error) {
       return res.status(500).json({ message: "Server error" });
@@ -1460,7 +1596,7 @@ export async function registerRoutes(app: Application): Promise<Server> {
   
   app.post("/api/cart/items", async (req, res) => {
     try {
-      const { cartId, productId, quantity, isFree } = req.body;
+      const { cartId, productId, variantId, quantity, isFree } = req.body;
       
       if (!cartId || !productId || !quantity) {
         return res.status(400).json({ message: "cartId, productId, and quantity are required" });
@@ -1469,12 +1605,24 @@ export async function registerRoutes(app: Application): Promise<Server> {
       const validatedData = cartItemInsertSchema.parse({
         cartId,
         productId,
+        variantId,
         quantity,
         isFree
       });
+
+      // A product with variants is always added as one of them, its default when none is chosen
+      const product = await storage.getProductById(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      const variant = findVariant(product, validatedData.variantId);
+      if (hasVariants(product) ? !variant : validatedData.variantId) {
+        return res.status(400).json({ message: "The selected option is not available" });
+      }
       
       const newItem = await storage.addCartItem({
         productId,
+        variantId: variant?._id,
         quantity,
         cartId: cartId,
         isFree: false
@@ -1548,33 +1696,18 @@ export async function registerRoutes(app: Application): Promise<Server> {
         return res.status(404).json({ message: "Cart not found" });
       }
       
-      // Get cart items with product details
-      const cartItemsWithProduct = await storage.getCartItemsWithProductDetails(cartId);
-      
-      // Calculate cart total
-      let cartTotal = 0;
-      cartItemsWithProduct.forEach((item: CartItem & { product: Product }) => {
-        if (!item.isFree) { // Only count non-free items for the total
-          cartTotal += (item.product.price * item.quantity);
-        }
-      });
-      
-      // Get all free products
-      const freeProducts = await FreeProductModel.find().lean();
-      
-      // Filter for eligible free products based on cart total
-      const eligibleFreeProducts = freeProducts.filter(freeProduct => {
-        return cartTotal >= freeProduct.minOrderValue;
-      });
+      // Free gifts come from the promotions evaluator, the same rule checkout applies
+      const cartItems = await storage.getCartItems(cartId);
+      const { result } = await evaluateCartPromotions(cartItems);
       
       // Get full product details for eligible free products
       const productsWithDetails = [];
-      for (const freeProduct of eligibleFreeProducts) {
+      for (const freeProduct of result.freeGifts) {
         const product = await storage.getProductById(freeProduct.productId);
         if (product) {
           productsWithDetails.push({
             ...product,
-            freeProductId: freeProduct._id,
+            freeProductId: freeProduct.freeProductId,
             minOrderValue: freeProduct.minOrderValue
           });
         }
@@ -1617,16 +1750,9 @@ export async function registerRoutes(app: Application): Promise<Server> {
       // Get cart items with product details
       const cartItemsWithProduct = await storage.getCartItemsWithProductDetails(cartId);
       
-      // Calculate cart total
-      let cartTotal = 0;
-      cartItemsWithProduct.forEach((item: CartItem & { product: Product }) => {
-        if (!item.isFree) { // Only count non-free items for the total
-          cartTotal += (item.product.price * item.quantity);
-        }
-      });
-      
       // Check if cart meets minimum order value
-      if (cartTotal < freeProduct.minOrderValue) {
+      const { subtotal: cartTotal, result } = await evaluateCartPromotions(cartItemsWithProduct);
+      if (!result.freeGifts.some(gift => gift.freeProductId === String(freeProduct._id))) {
         return res.status(400).json({ 
           message: `Cart total must be at least ${freeProduct.minOrderValue} to qualify for this free product`,
           cartTotal,
@@ -1716,10 +1842,10 @@ export async function registerRoutes(app: Application): Promise<Server> {
   // Admin: update settings
   app.put("/api/admin/settings", async (req, res) => {
     try {
-      const { siteName, maintenanceMode, supportEmail, razorpayKeyId, razorpayKeySecret, shiprocketApiKey, shiprocketApiSecret, shiprocketSourcePincode, shiprocketPickupLocation, shiprocketChannelId } = req.body;
+      const { siteName, maintenanceMode, supportEmail, razorpayKeyId, razorpayKeySecret, razorpayWebhookSecret, shiprocketApiKey, shiprocketApiSecret, shiprocketSourcePincode, shiprocketPickupLocation, shiprocketChannelId, codEnabled, codMaxOrderValue, codFee, codCheckServiceability, codAllowedPincodes, codBlockedPincodes, abandonedCartEnabled, abandonedCartEmailDelays, abandonedCartCouponPercent, abandonedCartCouponValidDays } = req.body;
       const updated = await SettingModel.findOneAndUpdate(
         {},
-        { siteName, maintenanceMode, supportEmail, razorpayKeyId, razorpayKeySecret, shiprocketApiKey, shiprocketApiSecret, shiprocketSourcePincode, shiprocketPickupLocation, shiprocketChannelId },
+        { siteName, maintenanceMode, supportEmail, razorpayKeyId, razorpayKeySecret, razorpayWebhookSecret, shiprocketApiKey, shiprocketApiSecret, shiprocketSourcePincode, shiprocketPickupLocation, shiprocketChannelId, codEnabled, codMaxOrderValue, codFee, codCheckServiceability, codAllowedPincodes, codBlockedPincodes, abandonedCartEnabled, abandonedCartEmailDelays, abandonedCartCouponPercent, abandonedCartCouponValidDays },
         { new: true, upsert: true }
       );
       return res.status(200).json(updated!.toObject());
@@ -1738,13 +1864,29 @@ export async function registerRoutes(app: Application): Promise<Server> {
     }
   });
 
-  // Create Razorpay order
+  // Create Razorpay order for a checkout. The checkout is priced and stored server-side
+  // as a pending checkout; verification later promotes it to an order.
   app.post('/api/razorpay/order', async (req, res) => {
     try {
-      const { amount, currency } = req.body;
-      // Validate inputs
-      if (typeof amount !== 'number' || isNaN(amount) || typeof currency !== 'string') {
-        return res.status(400).json({ message: 'Invalid order parameters', params: req.body });
+      const { order: orderData, items: requestedItems } = parseOrderPayload(req);
+      const currency = typeof req.body.currency === 'string' ? req.body.currency : 'INR';
+      const sessionId = typeof req.body.sessionId === 'string' ? req.body.sessionId : undefined;
+      const email = orderData.billingEmail?.trim().toLowerCase() || undefined;
+      // Guest checkouts are owned by their cart session or email instead of an account
+      if (!orderData.userId && !sessionId && !email) {
+        return res.status(400).json({ message: 'Sign in or enter your email to check out' });
+      }
+      const customer = { userId: orderData.userId, email: orderData.billingEmail };
+      const pricing = await priceOrder(requestedItems, getRequestedCouponCodes(orderData.couponCodes, orderData.couponCode), { customer });
+      if (Math.abs(roundCurrency(orderData.totalAmount) - pricing.totalAmount) > 0.01) {
+        throw new OrderTotalMismatchError(pricing);
+      }
+      // Split tender: the gift card pays its share and Razorpay charges the rest
+      const giftCard = orderData.giftCardCode
+        ? await quoteGiftCard(orderData.giftCardCode, pricing.totalAmount, orderData.giftCardAmount)
+        : null;
+      if (giftCard && giftCard.amountDue <= 0) {
+        throw new GiftCardError('The gift card covers this order; place it without online payment');
       }
       // Load Razorpay keys from DB settings
       const settings = await SettingModel.findOne();
@@ -1755,16 +1897,90 @@ export async function registerRoutes(app: Application): Promise<Server> {
       const { default: RazorpayCls } = (await import('razorpay')) as any;
       const razor = new RazorpayCls({ key_id: settings.razorpayKeyId, key_secret: settings.razorpayKeySecret });
       const receipt = `order_rcptid_${Date.now()}`;
+      const amount = Math.round((giftCard ? giftCard.amountDue : pricing.totalAmount) * 100);
       const order = (await razor.orders.create({ amount, currency, receipt, payment_capture: true })) as any;
-      return res.status(200).json({ orderId: order.id, amount: order.amount, currency: order.currency });
+      // Hold the cart's stock while the shopper pays; the sweepers return it if payment never completes
+      const expiresAt = new Date(Date.now() + RESERVATION_TTL_MINUTES * 60 * 1000);
+      await reserveStock(order.id, pricing.items, expiresAt);
+      try {
+        if (giftCard) {
+          await debitGiftCard(order.id, giftCard.code, giftCard.amount);
+        }
+        // Count coupon uses now so a limited coupon cannot be paid for twice
+        await reserveCouponRedemptions(order.id, pricing.couponDiscounts, customer);
+        // Sale-price units are held the same way, against the sale's cap and per-customer limit
+        await reserveFlashSaleUnits(order.id, pricing.items, customer);
+        // The sweepers release holds from this record, so it is saved before the holds are kept
+        await PendingCheckoutModel.create({
+          razorpayOrderId: order.id,
+          receipt,
+          userId: orderData.userId || undefined,
+          sessionId,
+          email,
+          order: {
+            ...orderData,
+            giftCardCode: giftCard?.code,
+            giftCardAmount: giftCard?.amount ?? 0,
+            paymentStatus: 'pending',
+            razorpayOrderId: order.id
+          },
+          items: requestedItems.map(({ productId, variantId, quantity, isFree }) => ({ productId, variantId, quantity, isFree })),
+          pricing,
+          amount: order.amount,
+          currency: order.currency,
+          expiresAt,
+        });
+      } catch (err) {
+        await releaseStock({ reference: order.id, status: 'reserved' }, 'order_failed');
+        await releaseGiftCardDebit(order.id, 'order_failed');
+        await releaseCouponRedemption({ reference: order.id, status: 'reserved' }, 'order_failed');
+        await releaseFlashSaleUnits({ reference: order.id, status: 'reserved' }, 'order_failed');
+        throw err;
+      }
+      return res.status(200).json({ orderId: order.id, amount: order.amount, currency: order.currency, receipt });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid checkout', errors: error.errors });
+      }
+      if (error instanceof OrderTotalMismatchError) {
+        return res.status(error.status).json({ message: error.message, pricing: error.pricing });
+      }
+      if (error instanceof OrderPricingError || error instanceof GiftCardError || error instanceof CouponError || error instanceof FlashSaleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof InsufficientStockError) {
+        return res.status(error.status).json({ message: error.message, productId: error.productId, available: error.available });
+      }
       console.error('Razorpay order create error:', error);
       const msg = error instanceof Error ? error.message : JSON.stringify(error);
       return res.status(500).json({ message: `Failed to create order: ${msg}` });
     }
   });
 
-  // Verify Razorpay payment
+  // Shopper closed or cancelled the payment window: mark the checkout failed and release its stock.
+  // Only the shopper who opened the checkout, signed in or by cart session, can release it.
+  app.post('/api/razorpay/order/:orderId/release', async (req, res) => {
+    try {
+      const checkout = await PendingCheckoutModel.findOne({ razorpayOrderId: req.params.orderId }).select('userId sessionId');
+      if (!checkout) {
+        return res.status(404).json({ message: 'Checkout not found' });
+      }
+      const { actorId } = getRequestActor(req, 'guest');
+      const sessionId = typeof req.body?.sessionId === 'string' ? req.body.sessionId : undefined;
+      const ownsCheckout = (!!actorId && checkout.userId === actorId) || (!!sessionId && checkout.sessionId === sessionId);
+      if (!ownsCheckout) {
+        return res.status(403).json({ message: 'Not allowed to release this checkout' });
+      }
+      const reason = typeof req.body?.reason === 'string' ? req.body.reason : 'Payment cancelled by customer';
+      const released = await failPendingCheckout(req.params.orderId, reason);
+      return res.json({ released });
+    } catch (error) {
+      console.error('Release stock reservation error:', error);
+      return res.status(500).json({ message: 'Failed to release reservation' });
+    }
+  });
+
+  // Verify Razorpay payment and promote its pending checkout to an order
   app.post('/api/razorpay/verify', async (req, res) => {
     try {
       const { razorpay_order_id, razorpay_payment_id, razorpay_signature } = req.body;
@@ -1777,11 +1993,18 @@ export async function registerRoutes(app: Application): Promise<Server> {
       const generatedSignature = crypto.createHmac('sha256', secret)
         .update(`${razorpay_order_id}|${razorpay_payment_id}`)
         .digest('hex');
-      if (generatedSignature === razorpay_signature) {
-        return res.json({ valid: true });
+      if (generatedSignature !== razorpay_signature) {
+        return res.status(400).json({ valid: false });
       }
-      return res.status(400).json({ valid: false });
+      const { order, items } = await promotePendingCheckout(razorpay_order_id, razorpay_payment_id, {
+        actor: 'customer',
+        note: 'Order placed'
+      });
+      return res.json({ valid: true, order, items });
     } catch (error) {
+      if (error instanceof CheckoutPromotionError) {
+        return res.status(error.status).json({ valid: true, message: error.message });
+      }
       console.error('Razorpay verify error:', error);
       return res.status(500).json({ message: 'Verification failed' });
     }
@@ -1824,31 +2047,6 @@ export async function registerRoutes(app: Application): Promise<Server> {
     }
   });
 
-  // Create new order (with items)
-  app.post('/api/orders', async (req, res) => {
-    try {
-      const { order, items } = orderPayloadSchema.parse(req.body);
-      // Set initial status: prepaid orders => processing, COD orders => pending
-      const initialStatus = order.paymentMethod.toLowerCase() === 'cod' ? 'pending' : 'processing';
-      const orderToSave = { ...order, status: initialStatus };
-      const createdOrder = await storage.createOrder(orderToSave);
-      if (!createdOrder.id) {
-        return res.status(500).json({ message: 'Order created without ID' });
-      }
-      const orderId = createdOrder.id!;
-      for (const item of items) {
-        await storage.addOrderItem({ ...item, orderId });
-      }
-      return res.status(201).json({ id: createdOrder.id! });
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: 'Invalid order payload', errors: error.errors });
-      }
-      console.error('Order creation error:', error);
-      return res.status(500).json({ message: 'Server error' });
-    }
-  });
-
   // Contact form submission
   app.post('/api/contacts', async (req, res) => {
     try {
@@ -2051,6 +2249,19 @@ export async function registerRoutes(app: Application): Promise<Server> {
     doc.end();
   });
 
+  // Cash on delivery availability for a pincode and order value
+  app.get("/api/cod/eligibility", async (req, res) => {
+    try {
+      const pincode = typeof req.query.pincode === 'string' ? req.query.pincode : undefined;
+      const amount = Number(req.query.amount) || 0;
+      const result = await checkCodEligibility(pincode, amount);
+      return res.json(result);
+    } catch (error) {
+      console.error("COD eligibility error:", error);
+      return res.status(500).json({ message: "COD eligibility check failed" });
+    }
+  });
+
   // Serviceability route
   app.get("/api/serviceability", async (req, res) => {
     try {
@@ -2228,7 +2439,7 @@ export async function registerRoutes(app: Application): Promise<Server> {
         return res.status(401).json({ message: 'Not authenticated' });
       }
       
-      const decoded = jwt.verify(token, process.env.JWT_SECRET as Secret);
+      const decoded = verifyToken(token);
       (req as any).user = decoded;
       next();
     } catch (error) {
@@ -0,0 +1,22 @@
+import express from 'express';
+import { authenticateJWT } from '../middleware/auth';
+import {
+  getAddresses,
+  createAddress,
+  updateAddress,
+  makeDefaultAddress,
+  deleteAddress,
+  checkAddressPincode,
+} from '../controllers/addressController';
+
+const router = express.Router();
+
+// Customer address book (signed-in customers only)
+router.get('/addresses', authenticateJWT, getAddresses);
+router.get('/addresses/serviceability', authenticateJWT, checkAddressPincode);
+router.post('/addresses', authenticateJWT, createAddress);
+router.put('/addresses/:id', authenticateJWT, updateAddress);
+router.post('/addresses/:id/default', authenticateJWT, makeDefaultAddress);
+router.delete('/addresses/:id', authenticateJWT, deleteAddress);
+
+export default router;
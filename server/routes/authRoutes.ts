@@ -1,5 +1,7 @@
 import express, { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
 import { adminLogin, adminLogout, verifyAdminToken } from '../controllers/authController';
+import { getJwtSecret, verifyToken } from '../middleware/auth';
 
 // Custom request interface with user property
 interface AuthRequest extends Request {
@@ -28,10 +30,7 @@ const isAuthenticated = (req: AuthRequest, res: Response, next: NextFunction) =>
       return res.status(401).json({ message: 'Not authenticated' });
     }
     
-    const decoded = process.env.JWT_SECRET ? 
-      require('jsonwebtoken').verify(token, process.env.JWT_SECRET) : 
-      require('jsonwebtoken').verify(token, 'default_secret');
-    req.user = decoded;
+    req.user = verifyToken(token);
     next();
   } catch (error) {
     console.error('Authentication error:', error);
@@ -60,9 +59,7 @@ router.post('/admin/auth/refresh', isAuthenticated, (req: AuthRequest, res: Resp
       return res.status(401).json({ message: 'Authentication required' });
     }
     
-    const token = process.env.JWT_SECRET ? 
-      require('jsonwebtoken').sign(req.user, process.env.JWT_SECRET, { expiresIn: '7d' }) : 
-      require('jsonwebtoken').sign(req.user, 'default_secret', { expiresIn: '7d' });
+    const token = jwt.sign(req.user, getJwtSecret(), { expiresIn: '7d' });
     
     // Set the new token as a cookie
     res.cookie('token', token, {
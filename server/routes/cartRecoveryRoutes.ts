@@ -0,0 +1,18 @@
+import express from 'express';
+import { authenticateJWT, isAdmin, optionalAuth } from '../middleware/auth';
+import {
+  restoreAbandonedCart,
+  captureCartEmail,
+  getAbandonedCartReport,
+} from '../controllers/cartRecoveryController';
+
+const router = express.Router();
+
+// Storefront: restore links from recovery emails and checkout email capture
+router.post('/cart/restore', optionalAuth, restoreAbandonedCart);
+router.post('/cart/:id/email', captureCartEmail);
+
+// Admin: abandoned cart report
+router.get('/admin/abandoned-carts/report', authenticateJWT, isAdmin, getAbandonedCartReport);
+
+export default router;
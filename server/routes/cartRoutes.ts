@@ -0,0 +1,10 @@
+import express from 'express';
+import { optionalAuth } from '../middleware/auth';
+import { getCartSummary } from '../controllers/cartController';
+
+const router = express.Router();
+
+// Storefront: server-side price breakdown of a cart
+router.get('/cart/:id/summary', optionalAuth, getCartSummary);
+
+export default router;
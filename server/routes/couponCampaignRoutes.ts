@@ -0,0 +1,22 @@
+import express from 'express';
+import { authenticateJWT, isAdmin } from '../middleware/auth';
+import {
+  getAllCampaigns,
+  createCampaign,
+  updateCampaign,
+  generateCodes,
+  exportCampaignCodes,
+  deleteCampaign,
+} from '../controllers/couponCampaignController';
+
+const router = express.Router();
+
+// Admin routes (protected)
+router.get('/admin/coupon-campaigns', authenticateJWT, isAdmin, getAllCampaigns);
+router.post('/admin/coupon-campaigns', authenticateJWT, isAdmin, createCampaign);
+router.put('/admin/coupon-campaigns/:id', authenticateJWT, isAdmin, updateCampaign);
+router.post('/admin/coupon-campaigns/:id/codes', authenticateJWT, isAdmin, generateCodes);
+router.get('/admin/coupon-campaigns/:id/codes.csv', authenticateJWT, isAdmin, exportCampaignCodes);
+router.delete('/admin/coupon-campaigns/:id', authenticateJWT, isAdmin, deleteCampaign);
+
+export default router;
@@ -6,9 +6,10 @@ import {
   updateCoupon,
   deleteCoupon,
   validateCoupon,
+  getCouponSuggestions,
   applyCoupon
 } from '../controllers/couponController';
-import jwt from 'jsonwebtoken';
+import { optionalAuth, verifyToken } from '../middleware/auth';
 
 const router = express.Router();
 
@@ -21,7 +22,7 @@ const isAuthenticated = (req: Request, res: Response, next: NextFunction): void
       return;
     }
     
-    const decoded = jwt.verify(token, process.env.JWT_SECRET as string);
+    const decoded = verifyToken(token);
     (req as any).user = decoded;
     next();
   } catch (error) {
@@ -48,7 +49,8 @@ router.put('/admin/coupons/:id', isAuthenticated, isAdmin, updateCoupon);
 router.delete('/admin/coupons/:id', isAuthenticated, isAdmin, deleteCoupon);
 
 // Public routes
-router.post('/coupons/validate', validateCoupon);
+router.post('/coupons/validate', optionalAuth, validateCoupon);
+router.post('/coupons/suggestions', optionalAuth, getCouponSuggestions);
 router.post('/coupons/apply', isAuthenticated, applyCoupon);
 
 export default router; 
\ No newline at end of file
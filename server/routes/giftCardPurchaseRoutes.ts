@@ -0,0 +1,12 @@
+import express from 'express';
+import { authenticateJWT } from '../middleware/auth';
+import { purchaseGiftCard, verifyGiftCardPurchase, getMyGiftCards, claimGiftCard } from '../controllers/giftCardPurchaseController';
+
+const router = express.Router();
+
+router.post('/giftcards/purchases', purchaseGiftCard);
+router.post('/giftcards/purchases/verify', verifyGiftCardPurchase);
+router.get('/giftcards/mine', authenticateJWT, getMyGiftCards);
+router.post('/giftcards/mine/:id/claim', authenticateJWT, claimGiftCard);
+
+export default router;
@@ -1,6 +1,6 @@
 import express, { Request, Response, NextFunction, Router } from 'express';
-import { getAllGiftCards, getGiftCardById, createGiftCard, updateGiftCard, deleteGiftCard } from '../controllers/giftCardController';
-import jwt from 'jsonwebtoken';
+import { getAllGiftCards, getGiftCardById, createGiftCard, updateGiftCard, deleteGiftCard, getGiftCardTransactions, validateGiftCard } from '../controllers/giftCardController';
+import { verifyToken } from '../middleware/auth';
 import upload from '../utils/upload';
 
 interface AuthRequest extends Request {
@@ -16,8 +16,7 @@ const isAuthenticated = (req: AuthRequest, res: Response, next: NextFunction) =>
     if (!token) {
       return res.status(401).json({ message: 'Not authenticated' });
     }
-    const secret = process.env.JWT_SECRET as string;
-    const decoded = jwt.verify(token, secret);
+    const decoded = verifyToken(token);
     req.user = decoded;
     next();
   } catch (error) {
@@ -34,9 +33,13 @@ const isAdmin = (req: AuthRequest, res: Response, next: NextFunction) => {
   next();
 };
 
+// Public routes
+router.post('/giftcards/validate', validateGiftCard);
+
 // Admin routes (protected)
 router.get('/admin/giftcards', isAuthenticated, isAdmin, getAllGiftCards);
 router.get('/admin/giftcards/:id', isAuthenticated, isAdmin, getGiftCardById);
+router.get('/admin/giftcards/:id/transactions', isAuthenticated, isAdmin, getGiftCardTransactions);
 router.post('/admin/giftcards', isAuthenticated, isAdmin, upload.single('image'), createGiftCard);
 router.put('/admin/giftcards/:id', isAuthenticated, isAdmin, upload.single('image'), updateGiftCard);
 router.delete('/admin/giftcards/:id', isAuthenticated, isAdmin, deleteGiftCard);
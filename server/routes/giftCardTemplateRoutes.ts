@@ -1,5 +1,5 @@
 import express, { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import { verifyToken } from '../middleware/auth';
 import {
   getAllTemplates,
   createTemplate,
@@ -19,8 +19,7 @@ const isAuthenticated = (req: AuthRequest, res: Response, next: NextFunction) =>
   try {
     const token = req.cookies.token;
     if (!token) return res.status(401).json({ message: 'Not authenticated' });
-    const secret = process.env.JWT_SECRET as string;
-    const decoded = jwt.verify(token, secret);
+    const decoded = verifyToken(token);
     req.user = decoded;
     next();
   } catch (err) {
@@ -0,0 +1,10 @@
+import express from 'express';
+import { authenticateJWT, isAdmin } from '../middleware/auth';
+import { getPendingCheckouts } from '../controllers/pendingCheckoutController';
+
+const router = express.Router();
+
+// Admin: Razorpay checkouts and their payment outcome
+router.get('/admin/pending-checkouts', authenticateJWT, isAdmin, getPendingCheckouts);
+
+export default router;
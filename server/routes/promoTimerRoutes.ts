@@ -1,4 +1,5 @@
 import express from 'express';
+import { authenticateJWT, isAdmin } from '../middleware/auth';
 import {
   getPromoTimers,
   createPromoTimer,
@@ -9,8 +10,9 @@ import {
 const router = express.Router();
 
 router.get('/', getPromoTimers);
-router.post('/', createPromoTimer);
-router.put('/:id', updatePromoTimer);
-router.delete('/:id', deletePromoTimer);
+// Flash sales change prices, so only admins may edit timers
+router.post('/', authenticateJWT, isAdmin, createPromoTimer);
+router.put('/:id', authenticateJWT, isAdmin, updatePromoTimer);
+router.delete('/:id', authenticateJWT, isAdmin, deletePromoTimer);
 
 export default router;
@@ -0,0 +1,24 @@
+import express from 'express';
+import { authenticateJWT, isAdmin } from '../middleware/auth';
+import {
+  getAllPromotions,
+  createPromotion,
+  updatePromotion,
+  deletePromotion,
+  getActivePromotionList,
+  evaluateCart,
+} from '../controllers/promotionController';
+
+const router = express.Router();
+
+// Admin routes (protected)
+router.get('/admin/promotions', authenticateJWT, isAdmin, getAllPromotions);
+router.post('/admin/promotions', authenticateJWT, isAdmin, createPromotion);
+router.put('/admin/promotions/:id', authenticateJWT, isAdmin, updatePromotion);
+router.delete('/admin/promotions/:id', authenticateJWT, isAdmin, deletePromotion);
+
+// Public routes
+router.get('/promotions', getActivePromotionList);
+router.post('/promotions/evaluate', evaluateCart);
+
+export default router;
@@ -0,0 +1,9 @@
+import express from 'express';
+import { handleRazorpayWebhook } from '../controllers/razorpayWebhookController';
+
+const router = express.Router();
+
+// Public: called by Razorpay, authenticated by the x-razorpay-signature header
+router.post('/razorpay/webhook', handleRazorpayWebhook);
+
+export default router;
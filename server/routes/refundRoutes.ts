@@ -0,0 +1,10 @@
+import express from 'express';
+import { authenticateJWT, isAdmin } from '../middleware/auth';
+import { createOrderRefund } from '../controllers/refundController';
+
+const router = express.Router();
+
+// Admin: full or per-line refunds
+router.post('/orders/:id/refunds', authenticateJWT, isAdmin, createOrderRefund);
+
+export default router;
@@ -0,0 +1,30 @@
+import express from 'express';
+import { authenticateJWT, isAdmin, optionalAuth } from '../middleware/auth';
+import {
+  getProductSearch,
+  getCategoryListing,
+  getCollectionListing,
+  getSuggestions,
+  getPopular,
+  getRecent,
+  deleteRecent,
+  getZeroResultSearchReport,
+} from '../controllers/searchController';
+
+const router = express.Router();
+
+// Storefront: ranked product search with facets, e.g. /search/products?q=ubtan&inStock=true
+router.get('/search/products', optionalAuth, getProductSearch);
+// Category and collection listings take the same sort, filter and page parameters
+router.get('/categories/:slug/products', getCategoryListing);
+router.get('/collections/:slug/products', getCollectionListing);
+router.get('/search/suggest', getSuggestions);
+router.get('/search/popular', getPopular);
+// Recent searches for the signed-in customer, or a guest identified by ?sessionId=
+router.get('/search/recent', optionalAuth, getRecent);
+router.delete('/search/recent', optionalAuth, deleteRecent);
+
+// Admin: searches that found no products
+router.get('/admin/search/zero-results', authenticateJWT, isAdmin, getZeroResultSearchReport);
+
+export default router;
@@ -1,5 +1,5 @@
 import express, { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import { verifyToken } from '../middleware/auth';
 import {
   getAllTestimonials,
   getFeaturedTestimonials,
@@ -25,7 +25,7 @@ const isAuthenticated = (req: Request, res: Response, next: NextFunction): void
       res.status(401).json({ message: 'Not authenticated' });
       return;
     }
-    const decoded = jwt.verify(token, process.env.JWT_SECRET as string);
+    const decoded = verifyToken(token);
     (req as any).user = decoded;
     next();
   } catch (error) {
@@ -0,0 +1,18 @@
+import express from 'express';
+import { authenticateJWT, optionalAuth } from '../middleware/auth';
+import {
+  getWishlist,
+  addWishlistItem,
+  removeWishlistItem,
+  mergeWishlist,
+} from '../controllers/wishlistController';
+
+const router = express.Router();
+
+// Wishlist for the signed-in customer, or a guest identified by ?sessionId=
+router.get('/wishlist', optionalAuth, getWishlist);
+router.post('/wishlist/items', optionalAuth, addWishlistItem);
+router.delete('/wishlist/items/:productId', optionalAuth, removeWishlistItem);
+router.post('/wishlist/merge', authenticateJWT, mergeWishlist);
+
+export default router;
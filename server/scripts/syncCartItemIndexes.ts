@@ -0,0 +1,25 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { connectToDatabase, closeDatabaseConnection } from '../db';
+import CartItemModel from '../models/CartItem';
+
+// Cart lines are now unique per variant as well as per product. Replaces the old
+// cartId/productId/isFree index, which would stop a cart holding two sizes of one product.
+(async () => {
+  const conn = await connectToDatabase();
+  if (!conn) {
+    console.error('Migration aborted: could not connect to MongoDB');
+    process.exit(1);
+  }
+
+  try {
+    const dropped = await CartItemModel.syncIndexes();
+    console.log(`🛠  Cart item indexes synced; dropped: ${dropped.length ? dropped.join(', ') : 'none'}`);
+  } catch (err) {
+    console.error('Migration error:', err);
+  } finally {
+    await closeDatabaseConnection();
+    process.exit(0);
+  }
+})();
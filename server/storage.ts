@@ -1,4 +1,5 @@
 import { Product, InsertProduct, Category, InsertCategory, Collection, InsertCollection, ProductCollection, InsertProductCollection, User, InsertUser, Order, InsertOrder, OrderItem, InsertOrderItem, Review, InsertReview, Testimonial, InsertTestimonial, Cart, InsertCart, CartItem, InsertCartItem, Banner, InsertBanner } from "../shared/schema";
+import { findVariant, hasVariants } from "../shared/variants";
 
 // TODO: Define missing types (Banner, Order, OrderItem, Review, Testimonial, Cart, CartItem, User, InsertUser, etc.) or remove their usages if not needed.
 
@@ -69,6 +70,7 @@ export interface IStorage {
   // Cart operations
   getCart(userId?: string, sessionId?: string): Promise<Cart | undefined>;
   createCart(cart: InsertCart): Promise<Cart>;
+  mergeGuestCart(userId: string, sessionId: string): Promise<Cart | undefined>;
   
   // Cart item operations
   getCartItems(cartId: string): Promise<CartItem[]>;
@@ -924,6 +926,42 @@ this.cartId = id;
     return newCart;
   }
 
+  async mergeGuestCart(userId: string, sessionId: string): Promise<Cart | undefined> {
+    const guest = Array.from(this.carts.values()).find(cart => cart.sessionId === sessionId && !cart.userId);
+    const userCart = await this.getCart(userId);
+    if (!guest) return userCart;
+    if (!userCart) {
+      const claimed: Cart = { ...guest, userId, sessionId: undefined };
+      this.carts.set(guest.id!, claimed);
+      this.capCartToStock(guest.id!);
+      return claimed;
+    }
+    for (const item of await this.getCartItems(guest.id!)) {
+      this.cartItems.delete(item.id!);
+      if (item.isFree) continue;
+      await this.addCartItem({ cartId: userCart.id!, productId: item.productId, variantId: item.variantId, quantity: item.quantity, isFree: false });
+    }
+    this.carts.delete(guest.id!);
+    this.capCartToStock(userCart.id!);
+    return userCart;
+  }
+
+  // Free gifts are dropped so they are worked out again for the merged cart
+  private capCartToStock(cartId: string) {
+    for (const item of Array.from(this.cartItems.values())) {
+      if (item.cartId !== cartId) continue;
+      const product = this.products.get(item.productId);
+      const stock = product
+        ? hasVariants(product) ? findVariant(product, item.variantId)?.stock ?? 0 : product.stock
+        : 0;
+      if (item.isFree || stock <= 0) {
+        this.cartItems.delete(item.id!);
+      } else if (item.quantity > stock) {
+        this.cartItems.set(item.id!, { ...item, quantity: stock });
+      }
+    }
+  }
+
   // Cart item operations
   async getCartItems(cartId: string): Promise<CartItem[]> {
     return Array.from(this.cartItems.values())
@@ -931,9 +969,10 @@ this.cartId = id;
   }
 
   async addCartItem(cartItem: InsertCartItem): Promise<CartItem> {
-    // Check if item already exists
+    // Check if item already exists (a free gift is a separate line)
     const existingItem = Array.from(this.cartItems.values())
-      .find(item => item.cartId === cartItem.cartId && item.productId === cartItem.productId);
+      .find(item => item.cartId === cartItem.cartId && item.productId === cartItem.productId &&
+        item.variantId === cartItem.variantId && !!item.isFree === !!cartItem.isFree);
     
     if (existingItem) {
       return this.updateCartItemQuantity(existingItem.id as string, Number(existingItem.quantity) + Number(cartItem.quantity)) as Promise<CartItem>;
@@ -1293,6 +1332,10 @@ class FallbackStorage implements IStorage {
   async createCart(cart: InsertCart): Promise<Cart> {
     return this.withFallback('createCart', () => this.getStorage().createCart(cart));
   }
+
+  async mergeGuestCart(userId: string, sessionId: string): Promise<Cart | undefined> {
+    return this.withFallback('mergeGuestCart', () => this.getStorage().mergeGuestCart(userId, sessionId));
+  }
   
   async getBanners(enabled?: boolean): Promise<Banner[]> {
     return this.withFallback('getBanners', () => this.getStorage().getBanners(enabled));
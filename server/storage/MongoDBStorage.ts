@@ -40,6 +40,7 @@ import CartModel, { ICart } from "../models/Cart";
 import CartItemModel, { ICartItem } from "../models/CartItem";
 import BannerModel, { IBanner } from "../models/Banner";
 import mongoose from 'mongoose';
+import { findVariant, hasVariants } from "../../shared/variants";
 
 // Helper function to convert Mongoose document to regular object
 // Always returns a valid object of type T
@@ -567,6 +568,60 @@ export class MongoDBStorage implements IStorage {
     return convertToObject<Cart>(newCart);
   }
 
+  // Fold a guest's session cart into the user's cart when they sign in. Paid lines
+  // for the same product are combined; the guest cart and its items are deleted.
+  async mergeGuestCart(userId: string, sessionId: string): Promise<Cart | undefined> {
+    const guest = await CartModel.findOne({ sessionId, userId: { $exists: false } });
+    const userCart = await CartModel.findOne({ userId });
+    if (!guest) return userCart ? convertToObject<Cart>(userCart) : undefined;
+
+    // No earlier cart: the guest cart becomes the user's, and stops answering to the session
+    if (!userCart) {
+      guest.userId = userId;
+      guest.sessionId = undefined;
+      await guest.save();
+      await this.capCartToStock(String(guest._id));
+      return convertToObject<Cart>(guest);
+    }
+
+    const cartId = String(userCart._id);
+    const guestItems = await CartItemModel.find({ cartId: String(guest._id), isFree: false });
+    for (const item of guestItems) {
+      await CartItemModel.updateOne(
+        { cartId, productId: item.productId, variantId: item.variantId || { $exists: false }, isFree: false },
+        { $inc: { quantity: item.quantity } },
+        { upsert: true }
+      );
+    }
+    await CartItemModel.deleteMany({ cartId: String(guest._id) });
+    await guest.deleteOne();
+    await this.capCartToStock(cartId);
+    return convertToObject<Cart>(userCart);
+  }
+
+  // Keep each line within what is in stock, and drop free gifts so they are worked
+  // out again for the merged cart
+  private async capCartToStock(cartId: string) {
+    await CartItemModel.deleteMany({ cartId, isFree: true });
+    const items = await CartItemModel.find({ cartId });
+    const productIds = items.map(item => item.productId).filter(id => mongoose.isValidObjectId(id));
+    const products = await ProductModel.find({ _id: { $in: productIds } }, { stock: 1, variants: 1 });
+    const productsById = new Map(products.map(product => [String(product._id), product]));
+    for (const item of items) {
+      const product = productsById.get(item.productId);
+      // A line for a product with variants is held against its variant's stock
+      const available = product
+        ? hasVariants(product) ? findVariant(product, item.variantId)?.stock ?? 0 : product.stock
+        : 0;
+      if (available <= 0) {
+        await item.deleteOne();
+      } else if (item.quantity > available) {
+        item.quantity = available;
+        await item.save();
+      }
+    }
+  }
+
   // Cart item operations
   async getCartItems(cartId: string): Promise<CartItem[]> {
     const cartItems = await CartItemModel.find({ cartId });
@@ -593,10 +648,12 @@ export class MongoDBStorage implements IStorage {
   }
 
   async addCartItem(cartItem: InsertCartItem): Promise<CartItem> {
-    // Check if item already exists in cart
+    // Check if item already exists in cart (a free gift is a separate line)
     const existingItem = await CartItemModel.findOne({
       cartId: cartItem.cartId,
-      productId: cartItem.productId
+      productId: cartItem.productId,
+      variantId: cartItem.variantId || { $exists: false },
+      isFree: !!cartItem.isFree
     });
     if (existingItem) {
       // Update quantity instead
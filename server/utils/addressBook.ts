@@ -0,0 +1,90 @@
+import AddressModel, { IAddress } from '../models/Address';
+import SettingModel from '../models/Setting';
+import UserModel from '../models/User';
+import { getServiceability } from './shiprocket';
+import { hasCodCourier } from './cod';
+
+export const MAX_ADDRESSES = 20;
+
+export type AddressDefaultType = 'shipping' | 'billing';
+
+export type PincodeServiceability = {
+  serviceable: boolean | null;
+  codAvailable: boolean | null;
+};
+
+export class AddressBookError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'AddressBookError';
+    this.status = status;
+  }
+}
+
+const defaultField = (type: AddressDefaultType) => (type === 'shipping' ? 'isDefaultShipping' : 'isDefaultBilling');
+
+// Ask the courier whether it delivers to a pincode. When Shiprocket is not set up
+// or does not answer, the result is unknown (null) rather than a refusal.
+export async function checkPincodeServiceability(pincode: string): Promise<PincodeServiceability> {
+  const settings = await SettingModel.findOne();
+  if (!settings?.shiprocketSourcePincode) return { serviceable: null, codAvailable: null };
+  try {
+    const response = await getServiceability({
+      pickup_pincode: settings.shiprocketSourcePincode,
+      delivery_pincode: pincode,
+      weight: 0.5,
+      cod: 1,
+    });
+    const couriers = response?.data?.available_courier_companies;
+    if (!Array.isArray(couriers) || couriers.length === 0) return { serviceable: false, codAvailable: false };
+    return { serviceable: true, codAvailable: hasCodCourier(response) };
+  } catch (error) {
+    console.error('Address serviceability error:', error);
+    return { serviceable: null, codAvailable: null };
+  }
+}
+
+// Make `addressId` the user's only default of the given type
+export async function setDefaultAddress(userId: string, addressId: string, type: AddressDefaultType) {
+  const field = defaultField(type);
+  await AddressModel.updateMany({ userId, _id: { $ne: addressId }, [field]: true }, { $set: { [field]: false } });
+  await AddressModel.updateOne({ userId, _id: addressId }, { $set: { [field]: true } });
+}
+
+// After a delete or edit, give any default type left without an address to the most recent one
+export async function ensureDefaultAddresses(userId: string) {
+  for (const type of ['shipping', 'billing'] as AddressDefaultType[]) {
+    const field = defaultField(type);
+    if (await AddressModel.exists({ userId, [field]: true })) continue;
+    const latest = await AddressModel.findOne({ userId }).sort({ updatedAt: -1 });
+    if (latest) await setDefaultAddress(userId, String(latest._id), type);
+  }
+}
+
+// Defaults first, then the most recently used
+export async function getAddressBook(userId: string): Promise<IAddress[]> {
+  await importProfileAddress(userId);
+  return AddressModel.find({ userId }).sort({ isDefaultShipping: -1, isDefaultBilling: -1, updatedAt: -1 });
+}
+
+// Accounts created before the address book kept one address on the user; it
+// becomes their first saved address the first time the book is opened.
+async function importProfileAddress(userId: string) {
+  if (await AddressModel.exists({ userId })) return;
+  const user = await UserModel.findById(userId);
+  if (!user?.address || !user.city || !user.zipCode) return;
+  await AddressModel.create({
+    userId,
+    label: 'Home',
+    name: user.name,
+    phone: user.phone || '',
+    address: user.address,
+    city: user.city,
+    state: user.state || '',
+    pincode: user.zipCode,
+    isDefaultShipping: true,
+    isDefaultBilling: true,
+  }).catch(error => console.error('Error importing profile address:', error));
+}
@@ -0,0 +1,371 @@
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import { getJwtSecret, verifyToken } from '../middleware/auth';
+import CartModel from '../models/Cart';
+import CartItemModel from '../models/CartItem';
+import CartRecoveryModel, { ICartRecovery, ICartRecoveryItem } from '../models/CartRecovery';
+import Coupon from '../models/Coupon';
+import OrderModel from '../models/Order';
+import ProductModel from '../models/Product';
+import SettingModel, { ISetting } from '../models/Setting';
+import UserModel from '../models/User';
+import { buildCampaignCode, normalizePattern } from './couponCampaigns';
+import { getCurrentUnitPrices } from './flashSales';
+import { sendMail } from './mailer';
+import { getLinePricing, getLineVariantLabel } from './variants';
+import { roundCurrency } from '../../shared/pricing';
+import { findVariant, getLineKey, hasVariants } from '../../shared/variants';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Carts idle longer than this are left alone
+const MAX_IDLE_DAYS = 30;
+// An order placed this long after a recovery email still counts as recovered
+const ATTRIBUTION_DAYS = 7;
+const RESTORE_LINK_EXPIRY = '30d';
+const COUPON_PATTERN = 'COMEBACK';
+
+export type CartRecoveryReport = {
+  days: number;
+  abandonedCarts: number;
+  abandonedValue: number;
+  emailsSent: number;
+  restoredCarts: number;
+  recoveredCarts: number;
+  recoveredRevenue: number;
+  recoveryRate: number;
+  recent: ICartRecovery[];
+};
+
+export class CartRecoveryError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'CartRecoveryError';
+    this.status = status;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Hours of inactivity before each email, in sending order
+function getEmailDelays(settings: ISetting): number[] {
+  return (settings.abandonedCartEmailDelays || [])
+    .filter(hours => Number.isFinite(hours) && hours > 0)
+    .sort((a, b) => a - b);
+}
+
+// The restore link carries only the recovery id and cannot be used to sign in
+export function signRestoreToken(recoveryId: string): string {
+  return jwt.sign({ recoveryId, purpose: 'cart_recovery' }, getJwtSecret(), { expiresIn: RESTORE_LINK_EXPIRY });
+}
+
+function verifyRestoreToken(token: string): string {
+  try {
+    const payload = verifyToken<{ recoveryId?: string; purpose?: string }>(token);
+    if (payload.purpose !== 'cart_recovery' || !payload.recoveryId) throw new Error('Wrong token purpose');
+    return payload.recoveryId;
+  } catch {
+    throw new CartRecoveryError('This cart link is invalid or has expired', 410);
+  }
+}
+
+// Paid lines of a cart priced the way checkout would price them now
+async function snapshotCart(cartId: string): Promise<ICartRecoveryItem[]> {
+  const lines = await CartItemModel.find({ cartId, isFree: false });
+  const ids = lines.map(line => line.productId).filter(id => mongoose.isValidObjectId(id));
+  const products = await ProductModel.find({ _id: { $in: ids } });
+  const byId = new Map(products.map(product => [String(product._id), product]));
+  // Lines whose product or variant has left the catalogue aren't worth emailing about
+  const resolved = lines.flatMap(line => {
+    const product = byId.get(line.productId);
+    if (!product) return [];
+    const variant = findVariant(product, line.variantId);
+    if (hasVariants(product) && !variant) return [];
+    return [{ line, product, variant }];
+  });
+  const prices = await getCurrentUnitPrices(resolved.map(({ product, variant }) => getLinePricing(product, variant)));
+  return resolved.map(({ line, product, variant }) => {
+    const label = getLineVariantLabel(product, variant);
+    const variantId = variant ? String(variant._id) : undefined;
+    return {
+      productId: line.productId,
+      variantId,
+      name: label ? `${product.name} (${label})` : product.name,
+      imageUrl: variant?.images[0] || product.imageUrl,
+      quantity: line.quantity,
+      price: prices.get(getLineKey(line.productId, variantId))?.price ?? variant?.price ?? product.price,
+    };
+  });
+}
+
+async function getCartEmail(cart: { userId?: string; email?: string }): Promise<string | null> {
+  if (cart.userId && mongoose.isValidObjectId(cart.userId)) {
+    const user = await UserModel.findById(cart.userId);
+    if (user?.email) return user.email.toLowerCase();
+  }
+  return cart.email || null;
+}
+
+// A single-use coupon for one recovery, valid for the configured number of days
+async function issueRecoveryCoupon(recovery: ICartRecovery, settings: ISetting): Promise<string> {
+  const percent = Math.min(settings.abandonedCartCouponPercent, 100);
+  const now = new Date();
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = buildCampaignCode(normalizePattern(COUPON_PATTERN));
+    try {
+      await Coupon.create({
+        code,
+        description: `${percent}% off the cart you left behind`,
+        discountAmount: percent,
+        discountType: 'percentage',
+        maxUses: 1,
+        startDate: now,
+        endDate: new Date(now.getTime() + Math.max(settings.abandonedCartCouponValidDays || 7, 1) * DAY_MS),
+        isActive: true,
+      });
+      return code;
+    } catch (error) {
+      if ((error as { code?: number }).code !== 11000) throw error;
+    }
+  }
+  throw new Error(`Could not generate a unique coupon code for cart recovery ${recovery._id}`);
+}
+
+function renderRecoveryEmail(recovery: ICartRecovery, name: string | undefined, isLast: boolean) {
+  const baseUrl = process.env.FRONTEND_URL || '';
+  const restoreUrl = `${baseUrl}/cart/restore?token=${encodeURIComponent(signRestoreToken(String(recovery._id)))}`;
+  const rows = recovery.items.map(item =>
+    `<tr><td>${escapeHtml(item.name)}</td><td>${item.quantity}</td><td>₹${(item.price * item.quantity).toFixed(2)}</td></tr>`
+  );
+  const coupon = recovery.couponCode
+    ? `<p>Use code <strong>${recovery.couponCode}</strong> at checkout for an extra discount. It can be used once.</p>`
+    : '';
+  return `<p>Hi ${escapeHtml(name || 'there')},</p>
+<p>${isLast ? 'Your cart is about to expire.' : 'You left some items in your cart.'} They are still waiting for you:</p>
+<table border="1" cellpadding="6" cellspacing="0">
+<tr><th>Product</th><th>Qty</th><th>Price</th></tr>
+${rows.join('\n')}
+</table>
+<p><strong>Total: ₹${recovery.cartValue.toFixed(2)}</strong></p>
+${coupon}
+<p><a href="${restoreUrl}">Return to your cart</a></p>`;
+}
+
+// Start, continue or close the email sequence for one idle cart. Returns true when an email went out.
+async function processIdleCart(cartId: string, lastActivityAt: Date, delays: number[], settings: ISetting): Promise<boolean> {
+  if (!mongoose.isValidObjectId(cartId)) return false;
+  const cart = await CartModel.findById(cartId);
+  if (!cart) return false;
+
+  let recovery = await CartRecoveryModel.findOne({ cartId, status: 'active' });
+  if (recovery && recovery.cartUpdatedAt.getTime() < lastActivityAt.getTime()) {
+    // The shopper came back and changed the cart; a new sequence starts once it is idle again
+    recovery.status = 'closed';
+    recovery.closeReason = 'cart_changed';
+    await recovery.save();
+    recovery = null;
+  }
+
+  if (!recovery) {
+    // Each state of the cart gets one sequence
+    if (await CartRecoveryModel.exists({ cartId, cartUpdatedAt: lastActivityAt })) return false;
+    const email = await getCartEmail(cart);
+    if (!email) return false;
+    // Bought elsewhere (another device or session) since the cart was last touched
+    const ordered = await OrderModel.exists({
+      createdAt: { $gte: lastActivityAt },
+      $or: [{ billingEmail: email }, ...(cart.userId ? [{ userId: cart.userId }] : [])],
+    });
+    if (ordered) return false;
+    const items = await snapshotCart(cartId);
+    if (items.length === 0) return false;
+    recovery = await CartRecoveryModel.create({
+      cartId,
+      userId: cart.userId,
+      email,
+      items,
+      cartValue: roundCurrency(items.reduce((sum, item) => sum + item.price * item.quantity, 0)),
+      cartUpdatedAt: lastActivityAt,
+    });
+  }
+
+  const step = recovery.emailsSent;
+  if (step >= delays.length) {
+    recovery.status = 'completed';
+    await recovery.save();
+    return false;
+  }
+  if (Date.now() - lastActivityAt.getTime() < delays[step] * HOUR_MS) return false;
+
+  const isLast = step === delays.length - 1;
+  if (isLast && settings.abandonedCartCouponPercent > 0 && !recovery.couponCode) {
+    recovery.couponCode = await issueRecoveryCoupon(recovery, settings);
+    await recovery.save();
+  }
+  const user = recovery.userId && mongoose.isValidObjectId(recovery.userId) ? await UserModel.findById(recovery.userId) : null;
+  await sendMail({
+    to: recovery.email,
+    subject: isLast && recovery.couponCode ? 'A little something to complete your order' : 'You left something in your cart',
+    html: renderRecoveryEmail(recovery, user?.name, isLast),
+  });
+  recovery.emailsSent = step + 1;
+  recovery.lastEmailAt = new Date();
+  if (recovery.emailsSent >= delays.length) recovery.status = 'completed';
+  await recovery.save();
+  return true;
+}
+
+// Find carts of known customers that have been idle past the first delay and send
+// the next email of their recovery sequence
+export async function sendAbandonedCartEmails(): Promise<number> {
+  const settings = await SettingModel.findOne();
+  if (!settings?.abandonedCartEnabled) return 0;
+  const delays = getEmailDelays(settings);
+  if (delays.length === 0) return 0;
+
+  const now = Date.now();
+  const idleCarts: { _id: string; lastActivityAt: Date }[] = await CartItemModel.aggregate([
+    { $match: { isFree: false, updatedAt: { $exists: true } } },
+    { $group: { _id: '$cartId', lastActivityAt: { $max: '$updatedAt' } } },
+    {
+      $match: {
+        lastActivityAt: { $lte: new Date(now - delays[0] * HOUR_MS), $gte: new Date(now - MAX_IDLE_DAYS * DAY_MS) },
+      },
+    },
+    { $sort: { lastActivityAt: 1 } },
+  ]);
+
+  let sent = 0;
+  for (const cart of idleCarts) {
+    try {
+      if (await processIdleCart(cart._id, cart.lastActivityAt, delays, settings)) sent += 1;
+    } catch (error) {
+      console.error(`Abandoned cart ${cart._id} email error:`, error);
+    }
+  }
+  return sent;
+}
+
+// Put a recovered cart's items back in the shopper's current cart. When the link
+// is opened from the same cart nothing is copied; otherwise missing lines are
+// added, within what is in stock.
+export async function restoreCart(token: string, target: { userId?: string; sessionId?: string }) {
+  const recoveryId = verifyRestoreToken(token);
+  const recovery = mongoose.isValidObjectId(recoveryId) ? await CartRecoveryModel.findById(recoveryId) : null;
+  if (!recovery) throw new CartRecoveryError('This cart link is invalid or has expired', 410);
+
+  let cart = target.userId
+    ? await CartModel.findOne({ userId: target.userId })
+    : target.sessionId ? await CartModel.findOne({ sessionId: target.sessionId, userId: { $exists: false } }) : null;
+  if (!cart) {
+    if (!target.userId && !target.sessionId) throw new CartRecoveryError('Either a signed-in user or a sessionId is required');
+    cart = await CartModel.create(target.userId ? { userId: target.userId } : { sessionId: target.sessionId });
+  }
+  const cartId = String(cart._id);
+
+  let restored = 0;
+  if (cartId !== recovery.cartId) {
+    const current = await CartItemModel.find({ cartId: recovery.cartId, isFree: false });
+    const lines = current.length > 0 ? current : recovery.items;
+    const products = await ProductModel.find(
+      { _id: { $in: lines.map(line => line.productId).filter(id => mongoose.isValidObjectId(id)) } },
+      { stock: 1, variants: 1 }
+    );
+    const byId = new Map(products.map(product => [String(product._id), product]));
+    for (const line of lines) {
+      const product = byId.get(line.productId);
+      const variant = product ? findVariant(product, line.variantId) : undefined;
+      const available = product ? hasVariants(product) ? variant?.stock ?? 0 : product.stock : 0;
+      const quantity = Math.min(line.quantity, available);
+      if (quantity <= 0) continue;
+      const variantId = variant ? String(variant._id) : undefined;
+      const result = await CartItemModel.updateOne(
+        { cartId, productId: line.productId, variantId: variantId || { $exists: false }, isFree: false },
+        { $setOnInsert: { quantity } },
+        { upsert: true }
+      );
+      if (result.upsertedCount > 0) restored += 1;
+    }
+  }
+
+  recovery.restoredAt = recovery.restoredAt || new Date();
+  await recovery.save();
+  return { cartId, restored, couponCode: recovery.couponCode || null };
+}
+
+// Credit an order to the most recent recovery email sent to the same customer,
+// or to the recovery whose coupon it used
+export async function attributeRecoveredOrder(order: {
+  id?: string;
+  userId?: string;
+  billingEmail?: string;
+  couponCodes?: string[];
+  totalAmount: number;
+}) {
+  if (!order.id) return;
+  const since = new Date(Date.now() - ATTRIBUTION_DAYS * DAY_MS);
+  const matches: Record<string, unknown>[] = [];
+  if (order.billingEmail) matches.push({ email: order.billingEmail.toLowerCase() });
+  if (order.userId && mongoose.isValidObjectId(order.userId)) matches.push({ userId: order.userId });
+  if (order.couponCodes?.length) matches.push({ couponCode: { $in: order.couponCodes.map(code => code.toUpperCase()) } });
+  if (matches.length === 0) return;
+  await CartRecoveryModel.findOneAndUpdate(
+    { status: { $ne: 'recovered' }, emailsSent: { $gt: 0 }, lastEmailAt: { $gte: since }, $or: matches },
+    { $set: { status: 'recovered', orderId: order.id, recoveredRevenue: roundCurrency(order.totalAmount), recoveredAt: new Date() } },
+    { sort: { lastEmailAt: -1 } }
+  );
+}
+
+// Abandoned carts emailed in the last `days` days and what came back from them
+export async function getCartRecoveryReport(days: number): Promise<CartRecoveryReport> {
+  const since = new Date(Date.now() - days * DAY_MS);
+  const match = { createdAt: { $gte: since }, emailsSent: { $gt: 0 } };
+  const [totals] = await CartRecoveryModel.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: null,
+        abandonedCarts: { $sum: 1 },
+        abandonedValue: { $sum: '$cartValue' },
+        emailsSent: { $sum: '$emailsSent' },
+        restoredCarts: { $sum: { $cond: [{ $ifNull: ['$restoredAt', false] }, 1, 0] } },
+        recoveredCarts: { $sum: { $cond: [{ $eq: ['$status', 'recovered'] }, 1, 0] } },
+        recoveredRevenue: { $sum: '$recoveredRevenue' },
+      },
+    },
+  ]);
+  const recent = await CartRecoveryModel.find(match).sort({ createdAt: -1 }).limit(50);
+  const abandonedCarts = totals?.abandonedCarts || 0;
+  const recoveredCarts = totals?.recoveredCarts || 0;
+  return {
+    days,
+    abandonedCarts,
+    abandonedValue: roundCurrency(totals?.abandonedValue || 0),
+    emailsSent: totals?.emailsSent || 0,
+    restoredCarts: totals?.restoredCarts || 0,
+    recoveredCarts,
+    recoveredRevenue: roundCurrency(totals?.recoveredRevenue || 0),
+    recoveryRate: abandonedCarts > 0 ? roundCurrency((recoveredCarts / abandonedCarts) * 100) : 0,
+    recent,
+  };
+}
+
+let sweeper: NodeJS.Timeout | null = null;
+
+export function startAbandonedCartSweeper(intervalMs = 15 * 60 * 1000) {
+  if (sweeper) return;
+  sweeper = setInterval(() => {
+    sendAbandonedCartEmails()
+      .then(count => { if (count > 0) console.log(`Sent ${count} abandoned cart email(s)`); })
+      .catch(err => console.error('Abandoned cart sweep error:', err));
+  }, intervalMs);
+  sweeper.unref();
+}
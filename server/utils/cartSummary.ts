@@ -0,0 +1,160 @@
+import mongoose from 'mongoose';
+import CartModel from '../models/Cart';
+import CartItemModel from '../models/CartItem';
+import ProductModel from '../models/Product';
+import { priceOrder, OrderPricingError, type PricedOrder } from './orderPricing';
+import { CouponError, type CouponCustomer } from './coupons';
+import { checkCodEligibility, type CodEligibility } from './cod';
+import { quoteGiftCard, GiftCardError } from './giftCards';
+import { getLineVariantLabel } from './variants';
+import { findVariant, hasVariants } from '../../shared/variants';
+import {
+  calculateOrderTotals,
+  roundCurrency,
+  FREE_SHIPPING_THRESHOLD,
+  TAX_RATE,
+} from '../../shared/pricing';
+import type { CartSummary, CartSummaryLine } from '../../shared/schema';
+
+export type CartSummaryOptions = {
+  couponCodes?: string[];
+  customer?: CouponCustomer;
+  giftCardCode?: string;
+  giftCardAmount?: number;
+  paymentMethod?: string;
+  pincode?: string;
+};
+
+export class CartSummaryError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'CartSummaryError';
+    this.status = status;
+  }
+}
+
+// Price the paid lines with the requested coupons. Coupons that no longer apply
+// (the cart changed, a limit was reached) are reported instead of failing the summary.
+async function priceCartLines(
+  lines: { productId: string; variantId?: string; quantity: number }[],
+  couponCodes: string[],
+  customer?: CouponCustomer
+): Promise<{ pricing: PricedOrder; couponError: string | null }> {
+  try {
+    return { pricing: await priceOrder(lines, couponCodes, { customer }), couponError: null };
+  } catch (error) {
+    if (couponCodes.length === 0 || !(error instanceof OrderPricingError || error instanceof CouponError)) throw error;
+    return { pricing: await priceOrder(lines, [], { customer }), couponError: error.message };
+  }
+}
+
+// The full price of a cart, from the same rules that price its order: sale prices,
+// automatic promotions, coupons, shipping, tax, the COD fee and a gift card.
+export async function summarizeCart(cartId: string, options: CartSummaryOptions = {}): Promise<CartSummary> {
+  const cart = mongoose.isValidObjectId(cartId) ? await CartModel.findById(cartId) : null;
+  if (!cart) throw new CartSummaryError('Cart not found', 404);
+
+  const items = await CartItemModel.find({ cartId: String(cart._id) }).sort({ createdAt: 1 });
+  const products = await ProductModel.find({
+    _id: { $in: items.map(item => item.productId).filter(id => mongoose.isValidObjectId(id)) },
+  });
+  const productsById = new Map(products.map(product => [String(product._id), product]));
+  // Lines whose product or variant has left the catalogue can't be ordered, so they aren't priced
+  const available = items.filter(item => {
+    const product = productsById.get(item.productId);
+    return product && (!hasVariants(product) || findVariant(product, item.variantId));
+  });
+  const paid = available.filter(item => !item.isFree);
+  const couponCodes = options.couponCodes || [];
+
+  const priced = paid.length > 0
+    ? await priceCartLines(
+        paid.map(item => ({ productId: item.productId, variantId: item.variantId, quantity: item.quantity })),
+        couponCodes,
+        options.customer
+      )
+    : null;
+  const pricing = priced?.pricing;
+  const freeShipping = !pricing || pricing.promotions.some(promotion => promotion.freeShipping);
+
+  const lines: CartSummaryLine[] = available.map(item => {
+    const product = productsById.get(item.productId)!;
+    const variant = findVariant(product, item.variantId);
+    const base = {
+      itemId: String(item._id),
+      productId: item.productId,
+      variantId: variant ? String(variant._id) : undefined,
+      variantLabel: getLineVariantLabel(product, variant),
+      name: product.name,
+      slug: product.slug,
+      imageUrl: variant?.images[0] || product.imageUrl,
+      quantity: item.quantity,
+      isFree: item.isFree,
+      listPrice: variant?.price ?? product.price,
+    };
+    if (item.isFree) {
+      return { ...base, unitPrice: 0, saleDiscount: 0, lineTotal: 0, discountAmount: 0 };
+    }
+    // priceOrder keeps the paid lines in the order it was given them
+    const line = pricing!.items[paid.indexOf(item)];
+    return {
+      ...base,
+      unitPrice: line.price,
+      saleDiscount: roundCurrency(Math.max(base.listPrice - line.price, 0) * line.quantity),
+      lineTotal: roundCurrency(line.price * line.quantity),
+      discountAmount: line.discountAmount,
+      flashSaleId: line.flashSaleId,
+    };
+  });
+
+  // Cash on delivery is judged on the total before its fee, and can't be split with a gift card
+  const subtotal = pricing?.subtotal || 0;
+  const discountAmount = pricing?.discountAmount || 0;
+  let cod: CodEligibility | null = null;
+  if (pricing && options.paymentMethod === 'cod' && !options.giftCardCode) {
+    cod = await checkCodEligibility(options.pincode, pricing.totalAmount);
+  }
+  const totals = calculateOrderTotals(subtotal, discountAmount, cod?.eligible ? cod.fee : 0, { freeShipping });
+
+  let giftCard: CartSummary['giftCard'] = null;
+  let giftCardError: string | null = null;
+  if (pricing && options.giftCardCode) {
+    try {
+      const quote = await quoteGiftCard(options.giftCardCode, totals.totalAmount, options.giftCardAmount);
+      giftCard = { code: quote.code, amount: quote.amount, balance: quote.balance, remainingBalance: quote.remainingBalance };
+    } catch (error) {
+      if (!(error instanceof GiftCardError)) throw error;
+      giftCardError = error.message;
+    }
+  }
+
+  return {
+    cartId: String(cart._id),
+    itemCount: available.reduce((sum, item) => sum + item.quantity, 0),
+    lines,
+    listSubtotal: roundCurrency(lines.reduce((sum, line) => sum + (line.isFree ? 0 : line.listPrice * line.quantity), 0)),
+    saleDiscount: roundCurrency(lines.reduce((sum, line) => sum + line.saleDiscount, 0)),
+    subtotal: totals.subtotal,
+    promotions: pricing?.promotions || [],
+    promotionDiscount: pricing?.promotionDiscount || 0,
+    couponCodes: pricing?.couponCodes || [],
+    coupons: pricing?.couponDiscounts || [],
+    couponDiscount: pricing?.couponDiscount || 0,
+    couponError: priced?.couponError || null,
+    discountAmount: totals.discountAmount,
+    discountedSubtotal: totals.discountedSubtotal,
+    shippingAmount: totals.shippingAmount,
+    freeShippingThreshold: FREE_SHIPPING_THRESHOLD,
+    amountToFreeShipping: totals.shippingAmount > 0 ? roundCurrency(Math.max(FREE_SHIPPING_THRESHOLD - totals.discountedSubtotal, 0)) : 0,
+    taxRate: TAX_RATE,
+    taxAmount: totals.taxAmount,
+    cod,
+    codFee: totals.codFee,
+    totalAmount: totals.totalAmount,
+    giftCard,
+    giftCardError,
+    amountDue: roundCurrency(totals.totalAmount - (giftCard?.amount || 0)),
+  };
+}
@@ -0,0 +1,63 @@
+import SettingModel from '../models/Setting';
+import { getServiceability } from './shiprocket';
+
+export type CodEligibility = {
+  eligible: boolean;
+  fee: number;
+  maxOrderValue: number;
+  reason?: string;
+};
+
+export class CodUnavailableError extends Error {
+  status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'CodUnavailableError';
+  }
+}
+
+// Any courier on the Shiprocket serviceability response that accepts cash
+export function hasCodCourier(serviceability: any): boolean {
+  const couriers = serviceability?.data?.available_courier_companies;
+  return Array.isArray(couriers) && couriers.some((courier: any) => Number(courier.cod) === 1);
+}
+
+// Decide whether cash on delivery can be offered for a pincode and an order value
+// (the order total before the COD fee). Settings switch COD off, cap the order value
+// and restrict pincodes; the courier check uses the Shiprocket serviceability `cod` flag.
+export async function checkCodEligibility(pincode: string | undefined, orderValue: number): Promise<CodEligibility> {
+  const settings = await SettingModel.findOne();
+  const fee = settings?.codFee || 0;
+  const maxOrderValue = settings?.codMaxOrderValue || 0;
+  const result = (eligible: boolean, reason?: string): CodEligibility => ({ eligible, fee, maxOrderValue, reason });
+
+  if (settings && settings.codEnabled === false) return result(false, 'Cash on delivery is not available');
+  if (maxOrderValue > 0 && orderValue > maxOrderValue) {
+    return result(false, `Cash on delivery is only available for orders up to ₹${maxOrderValue}`);
+  }
+
+  const code = (pincode || '').trim();
+  if (!/^\d{6}$/.test(code)) return result(false, 'Enter a valid pincode to check cash on delivery');
+  if (settings?.codBlockedPincodes?.includes(code)) return result(false, 'Cash on delivery is not available for this pincode');
+  if (settings?.codAllowedPincodes?.length && !settings.codAllowedPincodes.includes(code)) {
+    return result(false, 'Cash on delivery is not available for this pincode');
+  }
+
+  if (settings && settings.codCheckServiceability !== false) {
+    try {
+      const serviceability = await getServiceability({
+        pickup_pincode: settings.shiprocketSourcePincode,
+        delivery_pincode: code,
+        weight: 0.5,
+        cod: 1,
+      });
+      if (!hasCodCourier(serviceability)) return result(false, 'No courier collects cash on delivery for this pincode');
+    } catch (error) {
+      console.error('COD serviceability error:', error);
+      return result(false, 'Could not confirm cash on delivery for this pincode. Please pay online.');
+    }
+  }
+
+  return result(true);
+}
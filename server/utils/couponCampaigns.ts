@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import Coupon from '../models/Coupon';
+import CouponCampaignModel, { ICouponCampaign } from '../models/CouponCampaign';
+import CouponRedemptionModel from '../models/CouponRedemption';
+import OrderModel from '../models/Order';
+import { roundCurrency } from '../../shared/pricing';
+
+// No 0/O or 1/I so printed codes survive being retyped
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+// Random characters added when a pattern has no '#' placeholders
+const DEFAULT_RANDOM_LENGTH = 8;
+const MAX_GENERATION_ROUNDS = 5;
+
+export type CampaignStats = {
+  issued: number;
+  redeemed: number;
+  reserved: number;
+  discountGiven: number;
+  revenue: number;
+};
+
+export type CampaignCodeRow = {
+  code: string;
+  status: 'unused' | 'reserved' | 'redeemed';
+  orderId: string;
+  email: string;
+  discountAmount: number;
+  redeemedAt: Date | null;
+};
+
+// Patterns without placeholders get random characters appended
+export function normalizePattern(pattern: string): string {
+  const upper = pattern.trim().toUpperCase();
+  return upper.includes('#') ? upper : `${upper}-${'#'.repeat(DEFAULT_RANDOM_LENGTH)}`;
+}
+
+export function buildCampaignCode(pattern: string): string {
+  return pattern.replace(/#/g, () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]);
+}
+
+// The rules every code in a campaign shares; codes are single use
+export function campaignCouponFields(campaign: ICouponCampaign) {
+  return {
+    description: campaign.description || campaign.name,
+    discountAmount: campaign.discountAmount,
+    discountType: campaign.discountType,
+    minimumCartValue: campaign.minimumCartValue,
+    maxDiscountAmount: campaign.maxDiscountAmount,
+    productIds: campaign.productIds,
+    categoryIds: campaign.categoryIds,
+    collectionIds: campaign.collectionIds,
+    excludedProductIds: campaign.excludedProductIds,
+    excludedCategoryIds: campaign.excludedCategoryIds,
+    excludedCollectionIds: campaign.excludedCollectionIds,
+    firstOrderOnly: campaign.firstOrderOnly,
+    stacksWithSalePrice: campaign.stacksWithSalePrice,
+    stacksWithCoupons: campaign.stacksWithCoupons,
+    startDate: campaign.startDate,
+    endDate: campaign.endDate,
+    isActive: campaign.isActive,
+    maxUses: 1,
+    perUserLimit: 0,
+  };
+}
+
+// Issue `quantity` more unique codes for a campaign. Candidates that collide with
+// an existing coupon code are dropped and made up in the next round.
+export async function generateCampaignCodes(campaign: ICouponCampaign, quantity: number): Promise<number> {
+  const campaignId = String(campaign._id);
+  const target = (await Coupon.countDocuments({ campaignId })) + quantity;
+  const fields = campaignCouponFields(campaign);
+
+  for (let round = 0; round < MAX_GENERATION_ROUNDS; round++) {
+    const missing = target - (await Coupon.countDocuments({ campaignId }));
+    if (missing <= 0) break;
+    const candidates = new Set<string>();
+    while (candidates.size < missing) candidates.add(buildCampaignCode(campaign.pattern));
+    const taken = new Set(
+      (await Coupon.find({ code: { $in: Array.from(candidates) } }, { code: 1 })).map(coupon => coupon.code)
+    );
+    const docs = Array.from(candidates)
+      .filter(code => !taken.has(code))
+      .map(code => ({ ...fields, code, campaignId, usedCount: 0 }));
+    try {
+      await Coupon.insertMany(docs, { ordered: false });
+    } catch (error) {
+      // Codes taken by a concurrent insert are retried in the next round
+      if ((error as { code?: number }).code !== 11000 && !(error as { writeErrors?: unknown[] }).writeErrors) throw error;
+    }
+  }
+
+  const issuedCount = await Coupon.countDocuments({ campaignId });
+  await CouponCampaignModel.updateOne({ _id: campaign._id }, { $set: { issuedCount } });
+  return issuedCount;
+}
+
+// Issued vs redeemed codes, discount given and order revenue, per campaign
+export async function getCampaignStats(campaignIds: string[]): Promise<Map<string, CampaignStats>> {
+  const stats = new Map<string, CampaignStats>(
+    campaignIds.map(id => [id, { issued: 0, redeemed: 0, reserved: 0, discountGiven: 0, revenue: 0 }])
+  );
+  if (campaignIds.length === 0) return stats;
+
+  const issued = await Coupon.aggregate<{ _id: string; count: number }>([
+    { $match: { campaignId: { $in: campaignIds } } },
+    { $group: { _id: '$campaignId', count: { $sum: 1 } } },
+  ]);
+  for (const row of issued) stats.get(row._id)!.issued = row.count;
+
+  const redemptions = await CouponRedemptionModel.find(
+    { campaignId: { $in: campaignIds }, status: { $in: ['reserved', 'redeemed'] } },
+    { campaignId: 1, status: 1, orderId: 1, discountAmount: 1 }
+  );
+  const orderIds = redemptions.filter(r => r.status === 'redeemed' && r.orderId).map(r => r.orderId!);
+  const orders = await OrderModel.find({ _id: { $in: orderIds }, status: { $ne: 'cancelled' } }, { totalAmount: 1 });
+  const revenueByOrder = new Map(orders.map(order => [String(order._id), order.totalAmount]));
+
+  for (const redemption of redemptions) {
+    const entry = stats.get(redemption.campaignId!);
+    if (!entry) continue;
+    if (redemption.status === 'reserved') {
+      entry.reserved += 1;
+      continue;
+    }
+    entry.redeemed += 1;
+    entry.discountGiven = roundCurrency(entry.discountGiven + redemption.discountAmount);
+    entry.revenue = roundCurrency(entry.revenue + (revenueByOrder.get(redemption.orderId || '') || 0));
+  }
+  return stats;
+}
+
+// Every code in a campaign with what happened to it, for the CSV export
+export async function getCampaignCodeRows(campaignId: string): Promise<CampaignCodeRow[]> {
+  const [coupons, redemptions] = await Promise.all([
+    Coupon.find({ campaignId }, { code: 1 }).sort({ createdAt: 1 }),
+    CouponRedemptionModel.find({ campaignId, status: { $in: ['reserved', 'redeemed'] } }),
+  ]);
+  const redemptionByCoupon = new Map(redemptions.map(r => [r.couponId, r]));
+  return coupons.map(coupon => {
+    const redemption = redemptionByCoupon.get(String(coupon._id));
+    return {
+      code: coupon.code,
+      status: redemption ? (redemption.status as 'reserved' | 'redeemed') : 'unused',
+      orderId: redemption?.orderId || '',
+      email: redemption?.email || '',
+      discountAmount: redemption?.discountAmount || 0,
+      redeemedAt: redemption?.status === 'redeemed' ? redemption.updatedAt : null,
+    };
+  });
+}
@@ -0,0 +1,477 @@
+import mongoose from 'mongoose';
+import Coupon, { ICoupon } from '../models/Coupon';
+import CouponRedemptionModel, { ICouponRedemption } from '../models/CouponRedemption';
+import OrderModel from '../models/Order';
+import ProductModel from '../models/Product';
+import ProductCollectionModel from '../models/ProductCollection';
+import PromoTimerModel from '../models/PromoTimer';
+import { getCurrentUnitPrices } from './flashSales';
+import { getLinePricing, resolveLineVariant } from './variants';
+import { getUnitPrice, roundCurrency } from '../../shared/pricing';
+import { getLineKey } from '../../shared/variants';
+
+// A cart line as the coupon sees it. Lines without a product id (a bare cart
+// value) only qualify for coupons that apply to the whole cart.
+export type CouponLine = {
+  productId?: string;
+  quantity: number;
+  price: number;
+};
+
+export type CouponLineDiscount = {
+  productId: string;
+  quantity: number;
+  lineTotal: number;
+  discount: number;
+};
+
+// `lineShares` is the discount on each input line, in input order
+export type CouponEvaluation =
+  | { valid: true; coupon: ICoupon; discountValue: number; lineDiscounts: CouponLineDiscount[]; lineShares: number[] }
+  | { valid: false; status: number; message: string; minimumCartValue?: number };
+
+// Several codes applied together, each on what the codes before it left
+export type CouponSetEvaluation =
+  | {
+      valid: true;
+      coupons: { coupon: ICoupon; discountValue: number }[];
+      discountValue: number;
+      lineDiscounts: CouponLineDiscount[];
+      lineShares: number[];
+    }
+  | { valid: false; status: number; message: string; code: string; minimumCartValue?: number };
+
+// A public coupon checked against the shopper's cart, for best-offer suggestions
+export type CouponOffer = {
+  code: string;
+  description: string;
+  discountValue: number;
+  valid: boolean;
+  message: string;
+};
+
+// Who is using a coupon: a signed-in user, or a guest identified by their checkout email
+export type CouponCustomer = {
+  userId?: string | null;
+  email?: string | null;
+};
+
+export class CouponError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'CouponError';
+    this.status = status;
+  }
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+}
+
+export function getCustomerKey(customer: CouponCustomer = {}): string | null {
+  if (customer.userId) return customer.userId;
+  const email = customer.email?.trim().toLowerCase();
+  return email ? `email:${email}` : null;
+}
+
+function hasCustomerRules(coupon: ICoupon): boolean {
+  return coupon.perUserLimit > 0 || coupon.firstOrderOnly;
+}
+
+// Uses still counting against the customer's limit (cancelled orders give theirs back)
+async function countActiveRedemptions(coupon: ICoupon, customerKey: string): Promise<number> {
+  return CouponRedemptionModel.countDocuments({
+    couponId: String(coupon._id),
+    customerKey,
+    status: { $in: ['reserved', 'redeemed'] },
+  });
+}
+
+async function hasPlacedOrder(customer: CouponCustomer): Promise<boolean> {
+  const owners: Record<string, string>[] = [];
+  if (customer.userId) owners.push({ userId: customer.userId });
+  if (customer.email?.trim()) owners.push({ billingEmail: customer.email.trim() });
+  if (owners.length === 0) return false;
+  const existing = await OrderModel.exists({ $or: owners, status: { $ne: 'cancelled' } });
+  return Boolean(existing);
+}
+
+// Check a coupon code against a cart value and work out the discount it gives.
+// Used both when the shopper applies a code and when an order is priced server-side.
+// Per-customer rules are checked when the customer is known; they are enforced
+// atomically when the order reserves its redemption. `reservedFor` names a checkout
+// that already holds a use of the coupon, so its own use is not counted against it.
+export async function evaluateCoupon(
+  code: string,
+  lines: CouponLine[],
+  customer?: CouponCustomer,
+  reservedFor?: string
+): Promise<CouponEvaluation> {
+  const cartValue = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+  const coupon = await Coupon.findOne({ code: code.toUpperCase() });
+  if (!coupon) {
+    return { valid: false, status: 404, message: 'Invalid coupon code' };
+  }
+  const alreadyReserved = reservedFor
+    ? Boolean(await CouponRedemptionModel.exists({ reference: reservedFor, couponId: String(coupon._id), status: { $ne: 'released' } }))
+    : false;
+
+  if (!coupon.isActive) {
+    return { valid: false, status: 400, message: 'This coupon is inactive' };
+  }
+
+  const now = new Date();
+  if (now < coupon.startDate || now > coupon.endDate) {
+    return { valid: false, status: 400, message: 'This coupon has expired or is not yet active' };
+  }
+
+  if (!alreadyReserved && coupon.maxUses !== -1 && coupon.usedCount >= coupon.maxUses) {
+    return { valid: false, status: 400, message: 'This coupon has reached its usage limit' };
+  }
+
+  if (cartValue < coupon.minimumCartValue) {
+    return {
+      valid: false,
+      status: 400,
+      message: `Minimum cart value of ${coupon.minimumCartValue} required for this coupon`,
+      minimumCartValue: coupon.minimumCartValue,
+    };
+  }
+
+  if (customer && !alreadyReserved) {
+    const customerKey = getCustomerKey(customer);
+    if (hasCustomerRules(coupon) && !customerKey) {
+      return { valid: false, status: 400, message: 'Sign in or enter your email to use this coupon' };
+    }
+    if (customerKey && coupon.perUserLimit > 0 && (await countActiveRedemptions(coupon, customerKey)) >= coupon.perUserLimit) {
+      return { valid: false, status: 400, message: 'You have already used this coupon the maximum number of times' };
+    }
+    if (coupon.firstOrderOnly && (await hasPlacedOrder(customer))) {
+      return { valid: false, status: 400, message: 'This coupon is only valid on your first order' };
+    }
+  }
+
+  const { eligible, onSale } = await getEligibleLines(coupon, lines);
+  if (!eligible.some(Boolean)) {
+    const message = onSale.some(Boolean)
+      ? 'This coupon cannot be used on items that are already on sale'
+      : 'This coupon does not apply to any items in your cart';
+    return { valid: false, status: 400, message };
+  }
+  const { discountValue, lineDiscounts, lineShares } = allocateDiscount(coupon, lines, eligible);
+
+  return { valid: true, coupon, discountValue, lineDiscounts, lineShares };
+}
+
+// Normalise the codes on a request: trimmed, upper case, each once
+export function getRequestedCouponCodes(...sources: (string | string[] | null | undefined)[]): string[] {
+  const codes = sources
+    .flatMap(source => (Array.isArray(source) ? source : source ? [source] : []))
+    .map(code => (typeof code === 'string' ? code.trim().toUpperCase() : ''))
+    .filter(Boolean);
+  return Array.from(new Set(codes));
+}
+
+// Evaluate one or more codes together. With more than one code every coupon must
+// allow stacking, and each applies to the line values the earlier codes left.
+export async function evaluateCoupons(
+  codes: string[],
+  lines: CouponLine[],
+  customer?: CouponCustomer,
+  reservedFor?: string
+): Promise<CouponSetEvaluation> {
+  const coupons: { coupon: ICoupon; discountValue: number }[] = [];
+  const lineShares = lines.map(() => 0);
+  let remaining = lines;
+  for (const code of codes) {
+    const result = await evaluateCoupon(code, remaining, customer, reservedFor);
+    if (!result.valid) {
+      const { valid, ...rejection } = result;
+      return { valid: false, code, ...rejection };
+    }
+    if (codes.length > 1 && !result.coupon.stacksWithCoupons) {
+      return { valid: false, status: 400, code, message: `${result.coupon.code} cannot be combined with other coupons` };
+    }
+    coupons.push({ coupon: result.coupon, discountValue: result.discountValue });
+    result.lineShares.forEach((share, i) => { lineShares[i] = roundCurrency(lineShares[i] + share); });
+    remaining = remaining.map((line, i) => ({
+      ...line,
+      price: line.quantity > 0 ? Math.max(line.price - result.lineShares[i] / line.quantity, 0) : line.price,
+    }));
+  }
+
+  const lineDiscounts: CouponLineDiscount[] = [];
+  lines.forEach((line, i) => {
+    if (line.productId) {
+      lineDiscounts.push({ productId: line.productId, quantity: line.quantity, lineTotal: roundCurrency(line.price * line.quantity), discount: lineShares[i] });
+    }
+  });
+  return {
+    valid: true,
+    coupons,
+    discountValue: roundCurrency(coupons.reduce((sum, entry) => sum + entry.discountValue, 0)),
+    lineDiscounts,
+    lineShares,
+  };
+}
+
+// Every public coupon running now, checked against the cart, best saving first.
+// Coupons the cart does not qualify for come last with the reason why.
+export async function getCouponOffers(lines: CouponLine[], customer?: CouponCustomer): Promise<CouponOffer[]> {
+  const now = new Date();
+  const coupons = await Coupon.find({
+    isPublic: true,
+    isActive: true,
+    campaignId: { $exists: false },
+    startDate: { $lte: now },
+    endDate: { $gte: now },
+  });
+  const offers: CouponOffer[] = [];
+  for (const coupon of coupons) {
+    const result = await evaluateCoupon(coupon.code, lines, customer);
+    offers.push({
+      code: coupon.code,
+      description: coupon.description,
+      discountValue: result.valid ? result.discountValue : 0,
+      valid: result.valid && result.discountValue > 0,
+      message: result.valid ? (result.discountValue > 0 ? 'Applies to your cart' : 'No saving on your cart') : result.message,
+    });
+  }
+  return offers.sort((a, b) => Number(b.valid) - Number(a.valid) || b.discountValue - a.discountValue);
+}
+
+function hasTargets(coupon: ICoupon): boolean {
+  return coupon.productIds.length > 0 || coupon.categoryIds.length > 0 || coupon.collectionIds.length > 0;
+}
+
+function hasExclusions(coupon: ICoupon): boolean {
+  return coupon.excludedProductIds.length > 0 || coupon.excludedCategoryIds.length > 0 || coupon.excludedCollectionIds.length > 0;
+}
+
+// Products that are on sale: priced below their list price, or with a promo timer or flash sale running
+async function getSaleProductIds(productIds: string[]): Promise<Set<string>> {
+  const now = new Date();
+  const products = await ProductModel.find({ _id: { $in: productIds } }, { price: 1, discountedPrice: 1, slug: 1 });
+  const onSale = new Set(products.filter(p => getUnitPrice(p) < p.price).map(p => String(p._id)));
+  const timerKeys = products.flatMap(p => [String(p._id), p.slug].filter(Boolean) as string[]);
+  const timers = await PromoTimerModel.find(
+    { $or: [{ productId: { $in: timerKeys } }, { productIds: { $in: timerKeys } }], enabled: true, endTime: { $gt: now } },
+    { productId: 1, productIds: 1, startTime: 1 }
+  );
+  const running = timers.filter(timer => !timer.startTime || timer.startTime <= now);
+  for (const product of products) {
+    const keys = [String(product._id), product.slug];
+    if (running.some(timer => (timer.productId && keys.includes(timer.productId)) || timer.productIds.some(target => keys.includes(target)))) {
+      onSale.add(String(product._id));
+    }
+  }
+  return onSale;
+}
+
+// Which lines a coupon applies to, from its product, category and collection lists.
+// Exclusions win over inclusions, and a coupon that does not stack with sale prices
+// skips sale items. Free gifts never reach a coupon: they are not priced as lines.
+async function getEligibleLines(coupon: ICoupon, lines: CouponLine[]): Promise<{ eligible: boolean[]; onSale: boolean[] }> {
+  const targeted = hasTargets(coupon);
+  const productIds = Array.from(new Set(
+    lines.map(line => line.productId).filter((id): id is string => !!id && mongoose.isValidObjectId(id))
+  ));
+  const saleIds = coupon.stacksWithSalePrice ? new Set<string>() : await getSaleProductIds(productIds);
+  const onSale = lines.map(line => !!line.productId && saleIds.has(line.productId));
+  if (!targeted && !hasExclusions(coupon)) return { eligible: onSale.map(sale => !sale), onSale };
+
+  const [products, memberships] = await Promise.all([
+    ProductModel.find({ _id: { $in: productIds } }, { categoryId: 1 }),
+    ProductCollectionModel.find({ productId: { $in: productIds } }),
+  ]);
+  const categoryByProduct = new Map(products.map(p => [String(p._id), p.categoryId]));
+  const collectionsByProduct = new Map<string, string[]>();
+  for (const membership of memberships) {
+    const list = collectionsByProduct.get(membership.productId) || [];
+    list.push(membership.collectionId);
+    collectionsByProduct.set(membership.productId, list);
+  }
+
+  const matches = (productId: string, ids: { products: string[]; categories: string[]; collections: string[] }) => {
+    const categoryId = categoryByProduct.get(productId);
+    return ids.products.includes(productId)
+      || (!!categoryId && ids.categories.includes(categoryId))
+      || (collectionsByProduct.get(productId) || []).some(id => ids.collections.includes(id));
+  };
+
+  const eligible = lines.map((line, i) => {
+    if (!line.productId) return !targeted;
+    if (onSale[i]) return false;
+    const excluded = matches(line.productId, {
+      products: coupon.excludedProductIds,
+      categories: coupon.excludedCategoryIds,
+      collections: coupon.excludedCollectionIds,
+    });
+    if (excluded) return false;
+    if (!targeted) return true;
+    return matches(line.productId, { products: coupon.productIds, categories: coupon.categoryIds, collections: coupon.collectionIds });
+  });
+  return { eligible, onSale };
+}
+
+// Work out the discount on the eligible lines and spread it across them in
+// proportion to their value, so each line knows its share.
+function allocateDiscount(
+  coupon: ICoupon,
+  lines: CouponLine[],
+  eligible: boolean[]
+): { discountValue: number; lineDiscounts: CouponLineDiscount[]; lineShares: number[] } {
+  const eligibleTotal = lines.reduce((sum, line, i) => sum + (eligible[i] ? line.price * line.quantity : 0), 0);
+  let total: number;
+  if (coupon.discountType === 'percentage') {
+    total = (eligibleTotal * coupon.discountAmount) / 100;
+    if (coupon.maxDiscountAmount > 0) total = Math.min(total, coupon.maxDiscountAmount);
+  } else {
+    total = Math.min(coupon.discountAmount, eligibleTotal);
+  }
+  total = roundCurrency(total);
+
+  const lastEligible = eligible.lastIndexOf(true);
+  let allocated = 0;
+  const lineDiscounts: CouponLineDiscount[] = [];
+  const lineShares: number[] = [];
+  lines.forEach((line, i) => {
+    const lineTotal = roundCurrency(line.price * line.quantity);
+    let discount = 0;
+    if (eligible[i] && eligibleTotal > 0) {
+      // The last line takes the rounding remainder so the shares add up to the total
+      discount = i === lastEligible ? roundCurrency(total - allocated) : roundCurrency((total * line.price * line.quantity) / eligibleTotal);
+      allocated += discount;
+    }
+    lineShares.push(discount);
+    if (line.productId) lineDiscounts.push({ productId: line.productId, quantity: line.quantity, lineTotal, discount });
+  });
+  return { discountValue: total, lineDiscounts, lineShares };
+}
+
+// Price cart lines from the catalogue for coupon checks; unknown products and variants are skipped
+export async function priceCouponLines(
+  items: { productId: string; variantId?: string; quantity: number }[]
+): Promise<(CouponLine & { productId: string })[]> {
+  const ids = items.map(item => item.productId).filter(id => mongoose.isValidObjectId(id));
+  const products = await ProductModel.find({ _id: { $in: ids } });
+  const productsById = new Map(products.map(p => [String(p._id), p]));
+  const resolved = items.flatMap(item => {
+    const product = productsById.get(item.productId);
+    if (!product) return [];
+    try {
+      return [{ item, pricing: getLinePricing(product, resolveLineVariant(product, item.variantId)) }];
+    } catch {
+      return [];
+    }
+  });
+  const unitPrices = await getCurrentUnitPrices(resolved.map(({ pricing }) => pricing));
+  return resolved.map(({ item, pricing }) => ({
+    productId: item.productId,
+    quantity: item.quantity,
+    price: unitPrices.get(getLineKey(item.productId, pricing.variantId))!.price,
+  }));
+}
+
+// Count one use of a coupon for a checkout. Calling it again for the same reference
+// and coupon returns the existing redemption, so a checkout uses each coupon once.
+// The customer's use takes the lowest free slot (unique per customer), and the
+// coupon's usage counter is only incremented while it is below maxUses, so
+// concurrent checkouts cannot exceed either limit.
+export async function reserveCouponRedemption(
+  reference: string,
+  code: string,
+  customer: CouponCustomer,
+  discountAmount: number
+): Promise<ICouponRedemption> {
+  const coupon = await Coupon.findOne({ code: code.toUpperCase() });
+  if (!coupon) throw new CouponError('Invalid coupon code', 404);
+  const existing = await CouponRedemptionModel.findOne({ reference, couponId: String(coupon._id), status: { $ne: 'released' } });
+  if (existing) return existing;
+  const customerKey = getCustomerKey(customer);
+  if (hasCustomerRules(coupon) && !customerKey) {
+    throw new CouponError('Sign in or enter your email to use this coupon');
+  }
+
+  const entry = {
+    couponId: String(coupon._id),
+    campaignId: coupon.campaignId,
+    code: coupon.code,
+    customerKey: customerKey || 'anonymous',
+    userId: customer.userId || undefined,
+    email: customer.email || undefined,
+    reference,
+    discountAmount,
+  };
+  // A first-order coupon can only ever be used once by a customer
+  const customerLimit = coupon.firstOrderOnly ? 1 : coupon.perUserLimit;
+  let redemption: ICouponRedemption | null = null;
+  if (customerKey && customerLimit > 0) {
+    for (let slot = 1; slot <= customerLimit && !redemption; slot++) {
+      try {
+        redemption = await CouponRedemptionModel.create({ ...entry, slot });
+      } catch (error) {
+        if (!isDuplicateKeyError(error)) throw error;
+      }
+    }
+    if (!redemption) {
+      throw new CouponError('You have already used this coupon the maximum number of times', 409);
+    }
+  } else {
+    redemption = await CouponRedemptionModel.create(entry);
+  }
+
+  const counted = await Coupon.findOneAndUpdate(
+    { _id: coupon._id, $or: [{ maxUses: -1 }, { $expr: { $lt: ['$usedCount', '$maxUses'] } }] },
+    { $inc: { usedCount: 1 } }
+  );
+  if (!counted) {
+    await CouponRedemptionModel.updateOne(
+      { _id: redemption._id },
+      { $set: { status: 'released', releaseReason: 'usage_limit' }, $unset: { slot: 1 } }
+    );
+    throw new CouponError('This coupon has reached its usage limit', 409);
+  }
+  return redemption;
+}
+
+// Reserve a use of every coupon on a checkout
+export async function reserveCouponRedemptions(
+  reference: string,
+  coupons: { code: string; discount: number }[],
+  customer: CouponCustomer
+) {
+  for (const entry of coupons) {
+    await reserveCouponRedemption(reference, entry.code, customer, entry.discount);
+  }
+}
+
+export async function commitCouponRedemption(reference: string, orderId: string) {
+  await CouponRedemptionModel.updateMany(
+    { reference, status: 'reserved' },
+    { $set: { status: 'redeemed', orderId } }
+  );
+}
+
+// Give a use back to the coupon and the customer, e.g. when a checkout fails or its order is cancelled
+export async function releaseCouponRedemption(
+  filter: { reference?: string; orderId?: string; status?: 'reserved' | 'redeemed' },
+  reason: string
+): Promise<number> {
+  const { status, ...match } = filter;
+  if (!match.reference && !match.orderId) return 0;
+  const entries = await CouponRedemptionModel.find({ ...match, status: status || { $in: ['reserved', 'redeemed'] } });
+  let released = 0;
+  for (const entry of entries) {
+    const claimed = await CouponRedemptionModel.findOneAndUpdate(
+      { _id: entry._id, status: entry.status },
+      { $set: { status: 'released', releaseReason: reason }, $unset: { slot: 1 } }
+    );
+    if (!claimed) continue;
+    await Coupon.updateOne({ _id: claimed.couponId, usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } });
+    released += 1;
+  }
+  return released;
+}
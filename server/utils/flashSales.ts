@@ -0,0 +1,319 @@
+import mongoose from 'mongoose';
+import PromoTimerModel, { IPromoTimer } from '../models/PromoTimer';
+import ProductModel from '../models/Product';
+import FlashSalePurchaseModel, { IFlashSalePurchase } from '../models/FlashSalePurchase';
+import { getCustomerKey, type CouponCustomer } from './coupons';
+import { getUnitPrice, roundCurrency } from '../../shared/pricing';
+import { getDefaultVariant, getLineKey } from '../../shared/variants';
+import type { ProductFlashSale } from '../../shared/schema';
+
+// The product fields a flash sale is priced from. A variant is priced as its own
+// entry under the product's id, with its variantId set.
+export type SaleProduct = {
+  _id?: unknown;
+  slug?: string;
+  price: number;
+  discountedPrice?: number | null;
+  variantId?: string;
+  isDefaultVariant?: boolean;
+};
+
+type SaleVariant = {
+  _id?: unknown;
+  price: number;
+  discountedPrice?: number | null;
+  isDefault?: boolean;
+};
+
+// A line that may have been priced at a flash sale, as priceOrder returns it
+export type FlashSaleLine = {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  price: number;
+  flashSaleId?: string;
+};
+
+export type CurrentUnitPrice = {
+  price: number;
+  flashSaleId?: string;
+};
+
+export class FlashSaleError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'FlashSaleError';
+    this.status = status;
+  }
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+}
+
+function isFlashSale(timer: IPromoTimer): boolean {
+  return (timer.discountType === 'percentage' || timer.discountType === 'price') && timer.discountValue > 0;
+}
+
+// Products a timer covers, by id or slug
+function getSaleTargets(sale: IPromoTimer): string[] {
+  return [...(sale.productIds || []), sale.productId].filter((target): target is string => Boolean(target));
+}
+
+function getSoldUnits(sale: IPromoTimer, productId: string): number {
+  return sale.soldUnits?.get(productId) || 0;
+}
+
+function getSaleKey(product: SaleProduct): string {
+  return getLineKey(String(product._id), product.variantId);
+}
+
+// Flash sales whose window is open right now
+export async function getRunningFlashSales(now = new Date()): Promise<IPromoTimer[]> {
+  const timers = await PromoTimerModel.find({
+    enabled: true,
+    discountValue: { $gt: 0 },
+    endTime: { $gt: now },
+    $or: [{ startTime: { $exists: false } }, { startTime: null }, { startTime: { $lte: now } }],
+  });
+  return timers.filter(isFlashSale);
+}
+
+export function getFlashSalePrice(sale: IPromoTimer, listPrice: number): number {
+  if (sale.discountType === 'percentage') {
+    return roundCurrency(listPrice * (1 - Math.min(sale.discountValue, 100) / 100));
+  }
+  return roundCurrency(sale.discountValue);
+}
+
+// The best running flash sale for each product, keyed by product id (and variant id
+// for variant entries). A sale only counts when it beats the product's regular price
+// and still has sale units left. Variants share their product's sale units; a
+// percentage sale takes the same share off each of them, while a fixed sale price
+// is only for the default variant, the one listings show.
+export async function getProductFlashSales(
+  products: SaleProduct[],
+  now = new Date()
+): Promise<Map<string, ProductFlashSale>> {
+  const result = new Map<string, ProductFlashSale>();
+  if (products.length === 0) return result;
+  const sales = await getRunningFlashSales(now);
+  if (sales.length === 0) return result;
+
+  for (const product of products) {
+    const id = String(product._id);
+    const key = getSaleKey(product);
+    const regularPrice = getUnitPrice(product);
+    for (const sale of sales) {
+      const targets = getSaleTargets(sale);
+      if (!targets.includes(id) && !(product.slug && targets.includes(product.slug))) continue;
+      if (sale.discountType === 'price' && product.variantId && !product.isDefaultVariant) continue;
+      const remaining = sale.stockCap > 0 ? Math.max(sale.stockCap - getSoldUnits(sale, id), 0) : null;
+      if (remaining === 0) continue;
+      const salePrice = getFlashSalePrice(sale, product.price);
+      if (salePrice >= regularPrice) continue;
+      const current = result.get(key);
+      if (current && current.salePrice <= salePrice) continue;
+      result.set(key, {
+        saleId: String(sale._id),
+        name: sale.name || 'Flash sale',
+        salePrice,
+        startTime: sale.startTime,
+        endTime: sale.endTime,
+        perCustomerLimit: sale.perCustomerLimit,
+        remaining,
+      });
+    }
+  }
+  return result;
+}
+
+function toSaleVariant(product: SaleProduct & { variants?: SaleVariant[] }, variant: SaleVariant): SaleProduct {
+  return {
+    _id: product._id,
+    slug: product.slug,
+    price: variant.price,
+    discountedPrice: variant.discountedPrice,
+    variantId: String(variant._id),
+    isDefaultVariant: getDefaultVariant(product) === variant,
+  };
+}
+
+// Products as the storefront should see them: a running flash sale replaces the
+// discounted price, of the product and of each of its variants, so every
+// client-side total picks it up
+export async function withFlashSalePrices<T extends SaleProduct & { variants?: SaleVariant[] }>(
+  products: T[]
+): Promise<(T & { flashSale: ProductFlashSale | null })[]> {
+  const variantEntries = products.flatMap(product => (product.variants || []).map(variant => toSaleVariant(product, variant)));
+  const sales = await getProductFlashSales([...products, ...variantEntries]);
+  return products.map(product => {
+    const flashSale = sales.get(String(product._id)) || null;
+    const variants = product.variants?.map(variant => {
+      const variantSale = sales.get(getLineKey(String(product._id), String(variant._id)));
+      return variantSale ? { ...variant, discountedPrice: variantSale.salePrice } : variant;
+    });
+    return flashSale
+      ? { ...product, variants, discountedPrice: flashSale.salePrice, flashSale }
+      : { ...product, variants, flashSale: null };
+  });
+}
+
+export async function withFlashSalePrice<T extends SaleProduct & { variants?: SaleVariant[] }>(product: T): Promise<T & { flashSale: ProductFlashSale | null }> {
+  const [priced] = await withFlashSalePrices([product]);
+  return priced;
+}
+
+// The sale price listings show for each product a running flash sale covers, keyed
+// by product id, so product searches can filter and sort on the price shoppers see
+export async function getListingSalePrices(now = new Date()): Promise<Map<string, number>> {
+  const sales = await getRunningFlashSales(now);
+  const targets = Array.from(new Set(sales.flatMap(getSaleTargets)));
+  if (targets.length === 0) return new Map();
+  const products = await ProductModel.find(
+    { $or: [{ _id: { $in: targets.filter(target => mongoose.isValidObjectId(target)) } }, { slug: { $in: targets } }] },
+    { price: 1, discountedPrice: 1, slug: 1 }
+  ).lean();
+  const productSales = await getProductFlashSales(products, now);
+  return new Map(Array.from(productSales, ([id, sale]) => [id, sale.salePrice]));
+}
+
+// What a shopper pays per unit right now, keyed by product id, or by product and
+// variant id for variant entries (see getLineKey). `reservedFor` names
+// a checkout that already holds sale units; it keeps the price it reserved even
+// if the sale has since ended or sold out.
+export async function getCurrentUnitPrices(
+  products: SaleProduct[],
+  reservedFor?: string
+): Promise<Map<string, CurrentUnitPrice>> {
+  const sales = await getProductFlashSales(products);
+  const reserved = new Map<string, IFlashSalePurchase>();
+  if (reservedFor) {
+    const entries = await FlashSalePurchaseModel.find({ reference: reservedFor, status: 'reserved' });
+    for (const entry of entries) reserved.set(getLineKey(entry.productId, entry.variantId), entry);
+  }
+
+  const prices = new Map<string, CurrentUnitPrice>();
+  for (const product of products) {
+    const id = getSaleKey(product);
+    const held = reserved.get(id);
+    const flashSale = sales.get(id);
+    if (held) {
+      prices.set(id, { price: held.price, flashSaleId: held.saleId });
+    } else if (flashSale) {
+      prices.set(id, { price: flashSale.salePrice, flashSaleId: flashSale.saleId });
+    } else {
+      prices.set(id, { price: getUnitPrice(product) });
+    }
+  }
+  return prices;
+}
+
+async function uncountSaleUnits(saleId: string, productId: string, quantity: number) {
+  if (!mongoose.isValidObjectId(saleId) || quantity <= 0) return;
+  await PromoTimerModel.updateOne({ _id: saleId }, { $inc: { [`soldUnits.${productId}`]: -quantity } });
+}
+
+async function reserveSaleLine(reference: string, line: FlashSaleLine, customer: CouponCustomer) {
+  const sale = mongoose.isValidObjectId(line.flashSaleId) ? await PromoTimerModel.findById(line.flashSaleId) : null;
+  if (!sale) throw new FlashSaleError('This flash sale has ended', 409);
+  const customerKey = getCustomerKey(customer);
+  if (sale.perCustomerLimit > 0 && !customerKey) {
+    throw new FlashSaleError('Sign in or enter your email to buy flash sale items');
+  }
+
+  // The stock cap is only raised while the units still fit under it
+  const soldPath = `soldUnits.${line.productId}`;
+  const counted = await PromoTimerModel.findOneAndUpdate(
+    sale.stockCap > 0
+      ? { _id: sale._id, $expr: { $lte: [{ $add: [{ $ifNull: [`$${soldPath}`, 0] }, line.quantity] }, '$stockCap'] } }
+      : { _id: sale._id },
+    { $inc: { [soldPath]: line.quantity } }
+  );
+  if (!counted) {
+    const left = Math.max(sale.stockCap - getSoldUnits(sale, line.productId), 0);
+    throw new FlashSaleError(
+      left > 0 ? `Only ${left} left at the ${sale.name || 'flash sale'} price` : `${sale.name || 'The flash sale'} has sold out`,
+      409
+    );
+  }
+
+  const entry = {
+    saleId: String(sale._id),
+    productId: line.productId,
+    variantId: line.variantId,
+    customerKey: customerKey || 'anonymous',
+    userId: customer.userId || undefined,
+    email: customer.email || undefined,
+    reference,
+    price: line.price,
+  };
+  if (sale.perCustomerLimit === 0) {
+    await FlashSalePurchaseModel.create({ ...entry, quantity: line.quantity });
+    return;
+  }
+  // One entry per unit, each taking the customer's lowest free slot
+  let taken = 0;
+  for (let slot = 1; slot <= sale.perCustomerLimit && taken < line.quantity; slot++) {
+    try {
+      await FlashSalePurchaseModel.create({ ...entry, quantity: 1, slot });
+      taken += 1;
+    } catch (error) {
+      if (!isDuplicateKeyError(error)) throw error;
+    }
+  }
+  if (taken < line.quantity) {
+    await uncountSaleUnits(String(sale._id), line.productId, line.quantity - taken);
+    throw new FlashSaleError(
+      `You can buy at most ${sale.perCustomerLimit} of each item at the ${sale.name || 'flash sale'} price`,
+      409
+    );
+  }
+}
+
+// Hold the sale-price units of a checkout against the sales' stock caps and
+// per-customer limits. Calling it again for the same reference is a no-op, so a
+// checkout reserves its units once.
+export async function reserveFlashSaleUnits(reference: string, lines: FlashSaleLine[], customer: CouponCustomer) {
+  const saleLines = lines.filter(line => line.flashSaleId && line.quantity > 0);
+  if (saleLines.length === 0) return;
+  if (await FlashSalePurchaseModel.exists({ reference, status: { $ne: 'released' } })) return;
+  try {
+    for (const line of saleLines) {
+      await reserveSaleLine(reference, line, customer);
+    }
+  } catch (error) {
+    await releaseFlashSaleUnits({ reference, status: 'reserved' }, 'reservation_failed');
+    throw error;
+  }
+}
+
+export async function commitFlashSaleUnits(reference: string, orderId: string) {
+  await FlashSalePurchaseModel.updateMany(
+    { reference, status: 'reserved' },
+    { $set: { status: 'purchased', orderId } }
+  );
+}
+
+// Give sale units back to the sale and the customer, e.g. when a checkout fails or its order is cancelled
+export async function releaseFlashSaleUnits(
+  filter: { reference?: string; orderId?: string; status?: 'reserved' | 'purchased' },
+  reason: string
+): Promise<number> {
+  const { status, ...match } = filter;
+  if (!match.reference && !match.orderId) return 0;
+  const entries = await FlashSalePurchaseModel.find({ ...match, status: status || { $in: ['reserved', 'purchased'] } });
+  let released = 0;
+  for (const entry of entries) {
+    const claimed = await FlashSalePurchaseModel.findOneAndUpdate(
+      { _id: entry._id, status: entry.status },
+      { $set: { status: 'released', releaseReason: reason }, $unset: { slot: 1 } }
+    );
+    if (!claimed) continue;
+    await uncountSaleUnits(claimed.saleId, claimed.productId, claimed.quantity);
+    released += 1;
+  }
+  return released;
+}
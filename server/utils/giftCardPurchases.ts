@@ -0,0 +1,208 @@
+import mongoose from 'mongoose';
+import SettingModel from '../models/Setting';
+import GiftCardTemplateModel from '../models/GiftCardTemplate';
+import GiftCardPurchaseModel, { IGiftCardPurchase } from '../models/GiftCardPurchase';
+import { issueGiftCard, normalizeGiftCardCode } from './giftCards';
+import { sendMail } from './mailer';
+
+const MAX_DELIVERY_ATTEMPTS = 5;
+const DEFAULT_VALIDITY_DAYS = 365;
+
+export type GiftCardPurchaseInput = {
+  templateId: string;
+  senderName: string;
+  senderEmail: string;
+  recipientName: string;
+  recipientEmail: string;
+  message?: string;
+  deliverAt?: Date;
+};
+
+export class GiftCardPurchaseError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'GiftCardPurchaseError';
+    this.status = status;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Open a Razorpay order for a gift card template. The card itself is only issued once the payment is confirmed.
+export async function createGiftCardPurchase(
+  input: GiftCardPurchaseInput,
+  purchaserId?: string
+): Promise<{ purchase: IGiftCardPurchase; razorpayOrder: { id: string; amount: number; currency: string } }> {
+  if (!mongoose.isValidObjectId(input.templateId)) throw new GiftCardPurchaseError('Gift card not found', 404);
+  const template = await GiftCardTemplateModel.findById(input.templateId);
+  if (!template || !template.isActive) throw new GiftCardPurchaseError('This gift card is not available', 404);
+  if (input.deliverAt && input.deliverAt.getTime() > Date.now() + DEFAULT_VALIDITY_DAYS * 24 * 60 * 60 * 1000) {
+    throw new GiftCardPurchaseError('Delivery can be scheduled up to a year ahead');
+  }
+
+  const settings = await SettingModel.findOne();
+  if (!settings?.razorpayKeyId || !settings.razorpayKeySecret) {
+    throw new GiftCardPurchaseError('Razorpay not configured', 500);
+  }
+  // Dynamically import Razorpay in ESM
+  const { default: RazorpayCls } = (await import('razorpay')) as any;
+  const razor = new RazorpayCls({ key_id: settings.razorpayKeyId, key_secret: settings.razorpayKeySecret });
+  const razorpayOrder = (await razor.orders.create({
+    amount: Math.round(template.initialAmount * 100),
+    currency: 'INR',
+    receipt: `giftcard_rcptid_${Date.now()}`,
+    payment_capture: true,
+  })) as any;
+
+  const purchase = await GiftCardPurchaseModel.create({
+    templateId: String(template._id),
+    amount: template.initialAmount,
+    purchaserId,
+    senderName: input.senderName,
+    senderEmail: input.senderEmail,
+    recipientName: input.recipientName,
+    recipientEmail: input.recipientEmail,
+    message: input.message || '',
+    deliverAt: input.deliverAt || new Date(),
+    razorpayOrderId: razorpayOrder.id,
+  });
+  return { purchase, razorpayOrder: { id: razorpayOrder.id, amount: razorpayOrder.amount, currency: razorpayOrder.currency } };
+}
+
+// Issue the card for a paid purchase. Safe to call from both payment verification
+// and the webhook; later calls return the purchase as it stands.
+export async function completeGiftCardPurchase(razorpayOrderId: string, paymentId: string): Promise<IGiftCardPurchase> {
+  const claimed = await GiftCardPurchaseModel.findOneAndUpdate(
+    { razorpayOrderId, status: 'pending_payment' },
+    { $set: { status: 'issued', paymentId } },
+    { new: true }
+  );
+  if (!claimed) {
+    const existing = await GiftCardPurchaseModel.findOne({ razorpayOrderId });
+    if (!existing) throw new GiftCardPurchaseError(`No gift card purchase found for ${razorpayOrderId}`, 404);
+    return existing;
+  }
+
+  let purchase: IGiftCardPurchase;
+  try {
+    const template = await GiftCardTemplateModel.findById(claimed.templateId);
+    const templateExpiry = template?.expiryDate;
+    const expiryDate = templateExpiry && templateExpiry.getTime() > Date.now()
+      ? templateExpiry
+      : new Date(Date.now() + DEFAULT_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+    const card = await issueGiftCard({ amount: claimed.amount, expiryDate, imageUrl: template?.imageUrl, reason: 'purchased' });
+    purchase = (await GiftCardPurchaseModel.findByIdAndUpdate(
+      claimed._id,
+      { $set: { giftCardId: String(card._id), giftCardCode: card.code } },
+      { new: true }
+    ))!;
+  } catch (error) {
+    await GiftCardPurchaseModel.updateOne({ _id: claimed._id }, { $set: { status: 'pending_payment' } });
+    throw error;
+  }
+
+  if (purchase.deliverAt.getTime() <= Date.now()) {
+    deliverGiftCard(String(purchase._id)).catch(err => console.error('Gift card delivery error:', err));
+  }
+  return purchase;
+}
+
+// Email an issued card to its recipient. Failed sends go back to 'issued' so the sweeper retries them.
+export async function deliverGiftCard(purchaseId: string): Promise<boolean> {
+  const purchase = await GiftCardPurchaseModel.findOneAndUpdate(
+    { _id: purchaseId, status: 'issued', giftCardCode: { $exists: true } },
+    { $set: { status: 'sending' }, $inc: { deliveryAttempts: 1 } },
+    { new: true }
+  );
+  if (!purchase) return false;
+
+  try {
+    const message = purchase.message ? `<blockquote>${escapeHtml(purchase.message).replace(/\n/g, '<br/>')}</blockquote>` : '';
+    await sendMail({
+      to: purchase.recipientEmail,
+      subject: `${purchase.senderName} sent you a ₹${purchase.amount.toFixed(2)} gift card`,
+      html: `
+        <h1>You've received a gift card!</h1>
+        <p>Hi ${escapeHtml(purchase.recipientName)}, ${escapeHtml(purchase.senderName)} has sent you a gift card worth ₹${purchase.amount.toFixed(2)}.</p>
+        ${message}
+        <p>Your gift card code:</p>
+        <p style="font-size: 24px; font-weight: bold; letter-spacing: 2px;">${purchase.giftCardCode}</p>
+        <p>Enter this code at checkout to use it. Any balance you don't spend stays on the card.</p>
+      `,
+    });
+    await GiftCardPurchaseModel.updateOne(
+      { _id: purchase._id },
+      { $set: { status: 'sent', sentAt: new Date() }, $unset: { deliveryError: 1 } }
+    );
+    return true;
+  } catch (error) {
+    const giveUp = purchase.deliveryAttempts >= MAX_DELIVERY_ATTEMPTS;
+    await GiftCardPurchaseModel.updateOne(
+      { _id: purchase._id },
+      { $set: { status: giveUp ? 'failed' : 'issued', deliveryError: error instanceof Error ? error.message : String(error) } }
+    );
+    throw error;
+  }
+}
+
+// Email addresses aren't verified at sign up, so an account with the recipient's
+// address only sees a received card's code after entering it from the gift email.
+// A claimed card stays with the account that claimed it.
+export async function claimReceivedGiftCard(purchaseId: string, user: { id: string; email: string }, code: string): Promise<IGiftCardPurchase> {
+  if (!mongoose.isValidObjectId(purchaseId)) throw new GiftCardPurchaseError('Gift card not found', 404);
+  const purchase = await GiftCardPurchaseModel.findOne({
+    _id: purchaseId,
+    recipientEmail: user.email.toLowerCase(),
+    status: 'sent',
+    $or: [{ claimedBy: { $exists: false } }, { claimedBy: user.id }],
+  });
+  if (!purchase) throw new GiftCardPurchaseError('Gift card not found', 404);
+  if (purchase.claimedBy === user.id) return purchase;
+  if (!purchase.giftCardCode || normalizeGiftCardCode(code) !== purchase.giftCardCode) {
+    throw new GiftCardPurchaseError("That code doesn't match this gift card");
+  }
+  const claimed = await GiftCardPurchaseModel.findOneAndUpdate(
+    { _id: purchase._id, claimedBy: { $exists: false } },
+    { $set: { claimedBy: user.id, claimedAt: new Date() } },
+    { new: true }
+  );
+  if (!claimed) throw new GiftCardPurchaseError('This gift card has already been claimed', 409);
+  return claimed;
+}
+
+// Send cards whose scheduled delivery date has arrived, and retry failed sends
+export async function deliverDueGiftCards(): Promise<number> {
+  const due = await GiftCardPurchaseModel.find(
+    { status: 'issued', deliverAt: { $lte: new Date() }, giftCardCode: { $exists: true } },
+    { _id: 1 }
+  ).limit(50);
+  let sent = 0;
+  for (const purchase of due) {
+    try {
+      if (await deliverGiftCard(String(purchase._id))) sent += 1;
+    } catch (error) {
+      console.error(`Gift card ${purchase._id} delivery error:`, error);
+    }
+  }
+  return sent;
+}
+
+let sweeper: NodeJS.Timeout | null = null;
+
+export function startGiftCardDeliverySweeper(intervalMs = 60 * 1000) {
+  if (sweeper) return;
+  sweeper = setInterval(() => {
+    deliverDueGiftCards()
+      .then(count => { if (count > 0) console.log(`Delivered ${count} scheduled gift card(s)`); })
+      .catch(err => console.error('Gift card delivery sweep error:', err));
+  }, intervalMs);
+  sweeper.unref();
+}
@@ -0,0 +1,220 @@
+import crypto from 'crypto';
+import GiftCardModel, { IGiftCard } from '../models/GiftCard';
+import GiftCardTransactionModel, { IGiftCardTransaction } from '../models/GiftCardTransaction';
+import { roundCurrency } from '../../shared/pricing';
+
+// Razorpay will not open a payment for less than ₹1
+const MIN_ONLINE_AMOUNT = 1;
+
+export type GiftCardQuote = {
+  code: string;
+  balance: number;
+  amount: number;
+  remainingBalance: number;
+  amountDue: number;
+  expiryDate: Date;
+};
+
+export class GiftCardError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'GiftCardError';
+    this.status = status;
+  }
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+}
+
+export function normalizeGiftCardCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+// "********K7QZ": enough to tell cards apart, not enough to spend one
+export function maskGiftCardCode(code: string): string {
+  return '*'.repeat(Math.max(code.length - 4, 0)) + code.slice(-4);
+}
+
+// No 0/O or 1/I so codes survive being read aloud or retyped
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 12;
+
+export function generateGiftCardCode(): string {
+  const bytes = crypto.randomBytes(CODE_LENGTH);
+  return Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+}
+
+// Create a card with a fresh unique code and record its opening balance on the ledger
+export async function issueGiftCard(input: {
+  amount: number;
+  expiryDate: Date;
+  imageUrl?: string;
+  isActive?: boolean;
+  reason?: string;
+}): Promise<IGiftCard> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    try {
+      const card = await GiftCardModel.create({
+        code: generateGiftCardCode(),
+        initialAmount: input.amount,
+        balance: input.amount,
+        expiryDate: input.expiryDate,
+        isActive: input.isActive ?? true,
+        imageUrl: input.imageUrl || '',
+      });
+      await GiftCardTransactionModel.create({
+        giftCardId: String(card._id),
+        code: card.code,
+        type: 'credit',
+        amount: input.amount,
+        balanceAfter: card.balance,
+        reason: input.reason || 'issued',
+      });
+      return card;
+    } catch (error) {
+      if (!isDuplicateKeyError(error)) throw error;
+    }
+  }
+  throw new GiftCardError('Could not generate a unique gift card code', 500);
+}
+
+export async function getRedeemableGiftCard(code: string): Promise<IGiftCard> {
+  const card = await GiftCardModel.findOne({ code: normalizeGiftCardCode(code) });
+  if (!card) throw new GiftCardError('Gift card not found', 404);
+  if (!card.isActive) throw new GiftCardError('This gift card is not active');
+  if (card.expiryDate && card.expiryDate.getTime() <= Date.now()) throw new GiftCardError('This gift card has expired');
+  if (card.balance <= 0) throw new GiftCardError('This gift card has no balance left');
+  return card;
+}
+
+// How much of a card can go towards an order. Without a requested amount the
+// whole balance is used, up to the order total; a remainder too small to pay
+// online is left on the card instead.
+export async function quoteGiftCard(code: string, orderTotal: number, requestedAmount?: number): Promise<GiftCardQuote> {
+  const card = await getRedeemableGiftCard(code);
+  const total = roundCurrency(orderTotal);
+  let amount = roundCurrency(Math.min(requestedAmount ?? card.balance, card.balance, total));
+  if (amount <= 0) throw new GiftCardError('Enter an amount to redeem');
+  const due = roundCurrency(total - amount);
+  if (due > 0 && due < MIN_ONLINE_AMOUNT) {
+    amount = roundCurrency(Math.max(total - MIN_ONLINE_AMOUNT, 0));
+    if (amount <= 0) throw new GiftCardError(`Orders under ₹${MIN_ONLINE_AMOUNT} cannot be split with a gift card`);
+  }
+  return {
+    code: card.code,
+    balance: roundCurrency(card.balance),
+    amount,
+    remainingBalance: roundCurrency(card.balance - amount),
+    amountDue: roundCurrency(total - amount),
+    expiryDate: card.expiryDate,
+  };
+}
+
+// Take `amount` off the card for a checkout. Calling it again for the same
+// reference returns the existing debit, so a checkout is charged once.
+export async function debitGiftCard(reference: string, code: string, amount: number): Promise<IGiftCardTransaction> {
+  const key = `debit:${reference}`;
+  const existing = await GiftCardTransactionModel.findOne({ key });
+  if (existing && existing.status !== 'released') return existing;
+
+  const now = new Date();
+  const card = await GiftCardModel.findOneAndUpdate(
+    { code: normalizeGiftCardCode(code), isActive: true, expiryDate: { $gt: now }, balance: { $gte: amount } },
+    { $inc: { balance: -amount } },
+    { new: true }
+  );
+  if (!card) throw new GiftCardError('Gift card balance is no longer sufficient for this order', 409);
+
+  const undo = () => GiftCardModel.updateOne({ _id: card._id }, { $inc: { balance: amount } });
+  try {
+    if (existing) {
+      // Checkout released earlier (e.g. it expired) and is being placed after all
+      const reheld = await GiftCardTransactionModel.findOneAndUpdate(
+        { _id: existing._id, status: 'released' },
+        { $set: { status: 'held', amount, balanceAfter: card.balance } },
+        { new: true }
+      );
+      if (reheld) return reheld;
+      await undo();
+      return (await GiftCardTransactionModel.findOne({ key }))!;
+    }
+    return await GiftCardTransactionModel.create({
+      giftCardId: String(card._id),
+      code: card.code,
+      type: 'debit',
+      amount,
+      balanceAfter: card.balance,
+      reason: 'checkout',
+      key,
+      reference,
+      status: 'held',
+    });
+  } catch (error) {
+    await undo();
+    // Another request debited this checkout first
+    if (isDuplicateKeyError(error)) {
+      const winner = await GiftCardTransactionModel.findOne({ key });
+      if (winner) return winner;
+    }
+    throw error;
+  }
+}
+
+export async function commitGiftCardDebit(reference: string, orderId: string) {
+  await GiftCardTransactionModel.updateOne(
+    { key: `debit:${reference}`, status: 'held' },
+    { $set: { status: 'committed', orderId } }
+  );
+}
+
+// Give a held debit back to the card. Committed debits are only returned by refunds.
+export async function releaseGiftCardDebit(reference: string, reason: string): Promise<number> {
+  const debit = await GiftCardTransactionModel.findOneAndUpdate(
+    { key: `debit:${reference}`, status: 'held' },
+    { $set: { status: 'released' } }
+  );
+  if (!debit) return 0;
+  const card = await GiftCardModel.findByIdAndUpdate(debit.giftCardId, { $inc: { balance: debit.amount } }, { new: true });
+  await GiftCardTransactionModel.create({
+    giftCardId: debit.giftCardId,
+    code: debit.code,
+    type: 'credit',
+    amount: debit.amount,
+    balanceAfter: card?.balance ?? debit.amount,
+    reason,
+    reference,
+  });
+  return debit.amount;
+}
+
+// Put refunded money back on the card. One credit per refund record, however often it is applied.
+export async function creditGiftCard(
+  code: string,
+  amount: number,
+  context: { orderId: string; refundRecordId: string }
+): Promise<boolean> {
+  const card = await GiftCardModel.findOne({ code: normalizeGiftCardCode(code) });
+  if (!card) throw new GiftCardError(`Gift card ${code} not found`, 404);
+  let entry: IGiftCardTransaction;
+  try {
+    entry = await GiftCardTransactionModel.create({
+      giftCardId: String(card._id),
+      code: card.code,
+      type: 'credit',
+      amount,
+      balanceAfter: card.balance,
+      reason: 'refund',
+      key: `refund:${context.refundRecordId}`,
+      orderId: context.orderId,
+    });
+  } catch (error) {
+    if (isDuplicateKeyError(error)) return false;
+    throw error;
+  }
+  const updated = await GiftCardModel.findByIdAndUpdate(card._id, { $inc: { balance: amount } }, { new: true });
+  if (updated) await GiftCardTransactionModel.updateOne({ _id: entry._id }, { $set: { balanceAfter: updated.balance } });
+  return true;
+}
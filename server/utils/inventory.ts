@@ -0,0 +1,230 @@
+import ProductModel from '../models/Product';
+import StockReservationModel, { IStockReservation } from '../models/StockReservation';
+import { getLineKey, getVariantLabel } from '../../shared/variants';
+
+// Lines with a variantId take stock from that variant; the product's own stock,
+// the total of its variants, moves with it
+export type StockLine = {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+};
+
+export class InsufficientStockError extends Error {
+  status = 409;
+  productId: string;
+  available: number;
+
+  constructor(productId: string, productName: string, available: number) {
+    super(available > 0
+      ? `Only ${available} left of ${productName}`
+      : `${productName} is out of stock`);
+    this.name = 'InsufficientStockError';
+    this.productId = productId;
+    this.available = available;
+  }
+}
+
+// Minutes a pending payment may hold stock before the sweeper returns it
+export const RESERVATION_TTL_MINUTES = Number(process.env.STOCK_RESERVATION_TTL_MINUTES) || 15;
+
+function sumByLine(lines: StockLine[]): Map<string, StockLine> {
+  const totals = new Map<string, StockLine>();
+  for (const line of lines) {
+    const key = getLineKey(line.productId, line.variantId);
+    const current = totals.get(key);
+    totals.set(key, {
+      productId: line.productId,
+      variantId: line.variantId,
+      quantity: (current?.quantity || 0) + line.quantity,
+    });
+  }
+  return totals;
+}
+
+// Take units only while enough are left; resolves false when they aren't
+async function takeStock({ productId, variantId, quantity }: StockLine): Promise<boolean> {
+  const result = variantId
+    ? await ProductModel.updateOne(
+        { _id: productId, variants: { $elemMatch: { _id: variantId, stock: { $gte: quantity } } } },
+        { $inc: { 'variants.$.stock': -quantity, stock: -quantity } }
+      )
+    : await ProductModel.updateOne(
+        { _id: productId, stock: { $gte: quantity } },
+        { $inc: { stock: -quantity } }
+      );
+  return result.modifiedCount > 0;
+}
+
+async function putBackStock({ productId, variantId, quantity }: StockLine) {
+  if (variantId) {
+    const result = await ProductModel.updateOne(
+      { _id: productId, 'variants._id': variantId },
+      { $inc: { 'variants.$.stock': quantity, stock: quantity } }
+    );
+    if (result.matchedCount > 0) return;
+  }
+  // Variant since removed from the product: the units still count towards its stock
+  await ProductModel.updateOne({ _id: productId }, { $inc: { stock: quantity } });
+}
+
+async function describeShortage({ productId, variantId }: StockLine): Promise<InsufficientStockError> {
+  const product = await ProductModel.findById(productId);
+  const variant = variantId ? product?.variants.find(v => String(v._id) === variantId) : undefined;
+  const name = product
+    ? variant ? `${product.name} (${getVariantLabel(product, variant)})` : product.name
+    : 'This product';
+  const available = variantId ? variant?.stock || 0 : product?.stock || 0;
+  return new InsufficientStockError(productId, name, Math.max(available, 0));
+}
+
+async function restock(entry: IStockReservation) {
+  await putBackStock({ productId: entry.productId, variantId: entry.variantId, quantity: entry.quantity });
+}
+
+// Take units out of stock for a checkout. Each decrement is conditional on enough
+// stock remaining, so two concurrent checkouts cannot both take the last unit.
+// If any line fails, units already taken for this call are put back.
+export async function reserveStock(reference: string, lines: StockLine[], expiresAt?: Date): Promise<IStockReservation[]> {
+  const taken: IStockReservation[] = [];
+  try {
+    for (const line of Array.from(sumByLine(lines).values())) {
+      if (!(await takeStock(line))) {
+        throw await describeShortage(line);
+      }
+      try {
+        taken.push(await StockReservationModel.create({ reference, ...line, status: 'reserved', expiresAt }));
+      } catch (error) {
+        await putBackStock(line);
+        throw error;
+      }
+    }
+    return taken;
+  } catch (error) {
+    for (const entry of taken) {
+      await restock(entry);
+      await StockReservationModel.updateOne({ _id: entry._id }, { status: 'released', releaseReason: 'reservation_failed' });
+    }
+    throw error;
+  }
+}
+
+// Make sure a reference holds exactly the requested units, reusing a matching
+// pending reservation (e.g. one made when the Razorpay order was opened).
+export async function ensureStockReserved(reference: string, lines: StockLine[]): Promise<void> {
+  const active = await StockReservationModel.find({ reference, status: 'reserved' });
+  if (active.length > 0) {
+    const wanted = sumByLine(lines);
+    const held = sumByLine(active.map(e => ({ productId: e.productId, variantId: e.variantId, quantity: e.quantity })));
+    const matches = wanted.size === held.size &&
+      Array.from(wanted).every(([key, line]) => held.get(key)?.quantity === line.quantity);
+    if (matches) return;
+    await releaseEntries(active, 'cart_changed');
+  }
+  await reserveStock(reference, lines);
+}
+
+// Confirm a reservation once its order exists; committed units stay out of stock
+export async function commitStock(reference: string, orderId: string): Promise<number> {
+  const result = await StockReservationModel.updateMany(
+    { reference, status: 'reserved' },
+    { $set: { status: 'committed', orderId }, $unset: { expiresAt: 1 } }
+  );
+  return result.modifiedCount;
+}
+
+// Return reserved or committed units to stock. Safe to call more than once:
+// each ledger entry is flipped to "released" before its units are restocked.
+// Pass a status to limit the release, e.g. only units not yet committed to an order.
+export async function releaseStock(
+  filter: { reference?: string; orderId?: string; status?: 'reserved' | 'committed' },
+  reason: string
+): Promise<number> {
+  const { status, ...match } = filter;
+  if (!match.reference && !match.orderId) return 0;
+  const entries = await StockReservationModel.find({ ...match, status: status || { $in: ['reserved', 'committed'] } });
+  return releaseEntries(entries, reason);
+}
+
+async function releaseEntries(entries: IStockReservation[], reason: string): Promise<number> {
+  let released = 0;
+  for (const entry of entries) {
+    const claimed = await StockReservationModel.findOneAndUpdate(
+      { _id: entry._id, status: entry.status },
+      { $set: { status: 'released', releaseReason: reason } },
+      { new: true }
+    );
+    if (!claimed) continue;
+    await restock(claimed);
+    released += claimed.quantity;
+  }
+  return released;
+}
+
+// Put some units of a placed order back on the shelf (e.g. a partial refund).
+// Committed ledger entries are split so a later cancel or full release does not
+// restock the same units twice. Orders placed before the ledger existed are restocked directly.
+export async function returnOrderUnits(orderId: string, lines: StockLine[], reason: string): Promise<number> {
+  const hasLedger = await StockReservationModel.exists({ orderId });
+  let returned = 0;
+  for (const line of Array.from(sumByLine(lines).values())) {
+    const { productId, variantId, quantity } = line;
+    if (!hasLedger) {
+      await putBackStock(line);
+      returned += quantity;
+      continue;
+    }
+    let remaining = quantity;
+    while (remaining > 0) {
+      const entry = await StockReservationModel.findOne({
+        orderId,
+        productId,
+        variantId: variantId || { $exists: false },
+        status: 'committed',
+        quantity: { $gt: 0 },
+      });
+      if (!entry) break;
+      const take = Math.min(entry.quantity, remaining);
+      const claimed = await StockReservationModel.findOneAndUpdate(
+        { _id: entry._id, status: 'committed', quantity: { $gte: take } },
+        { $inc: { quantity: -take } },
+        { new: true }
+      );
+      if (!claimed) continue;
+      if (claimed.quantity === 0) {
+        await StockReservationModel.updateOne({ _id: claimed._id, quantity: 0 }, { $set: { status: 'released', releaseReason: reason } });
+      }
+      await StockReservationModel.create({
+        reference: claimed.reference,
+        orderId,
+        productId,
+        variantId,
+        quantity: take,
+        status: 'released',
+        releaseReason: reason,
+      });
+      await putBackStock({ productId, variantId, quantity: take });
+      remaining -= take;
+      returned += take;
+    }
+  }
+  return returned;
+}
+
+// Release reservations whose payment window has passed
+export async function releaseExpiredReservations(): Promise<number> {
+  const expired = await StockReservationModel.find({ status: 'reserved', expiresAt: { $lte: new Date() } });
+  return releaseEntries(expired, 'payment_timeout');
+}
+
+let sweeper: NodeJS.Timeout | null = null;
+
+export function startStockReservationSweeper(intervalMs = 60 * 1000) {
+  if (sweeper) return;
+  sweeper = setInterval(() => {
+    releaseExpiredReservations()
+      .then(count => { if (count > 0) console.log(`Released ${count} expired stock reservation unit(s)`); })
+      .catch(err => console.error('Stock reservation sweep error:', err));
+  }, intervalMs);
+  sweeper.unref();
+}
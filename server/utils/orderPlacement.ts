@@ -0,0 +1,176 @@
+import { v4 as uuidv4 } from 'uuid';
+import { MongoDBStorage } from '../storage/MongoDBStorage';
+import OrderModel from '../models/Order';
+import PendingCheckoutModel from '../models/PendingCheckout';
+import { priceOrder, type OrderLineInput, type PricedOrder } from './orderPricing';
+import { ensureStockReserved, commitStock, releaseStock } from './inventory';
+import { debitGiftCard, commitGiftCardDebit, releaseGiftCardDebit, GiftCardError } from './giftCards';
+import { reserveCouponRedemptions, commitCouponRedemption, releaseCouponRedemption, getRequestedCouponCodes } from './coupons';
+import { reserveFlashSaleUnits, commitFlashSaleUnits, releaseFlashSaleUnits } from './flashSales';
+import { buildStatusChange, type StatusChangeContext } from './orderStatus';
+import { attributeRecoveredOrder } from './cartRecovery';
+import { sendMail } from './mailer';
+import { roundCurrency } from '../../shared/pricing';
+import type { InsertOrder, Order, OrderItem } from '../../shared/schema';
+
+const storage = new MongoDBStorage();
+
+export type OrderDraft = Omit<InsertOrder, 'status' | 'statusHistory'> & {
+  status?: string;
+  billingEmail?: string;
+  [key: string]: unknown;
+};
+
+export type PlacedOrder = {
+  order: Order;
+  items: OrderItem[];
+  created: boolean;
+};
+
+export class OrderTotalMismatchError extends Error {
+  status = 409;
+  pricing: PricedOrder;
+
+  constructor(pricing: PricedOrder) {
+    super('Order total does not match current prices. Please review your cart and try again.');
+    this.name = 'OrderTotalMismatchError';
+    this.pricing = pricing;
+  }
+}
+
+async function findOrderForRazorpayOrder(razorpayOrderId: string): Promise<PlacedOrder | null> {
+  const existing = await OrderModel.findOne({ razorpayOrderId });
+  if (!existing) return null;
+  const order = await storage.getOrderById(String(existing._id));
+  if (!order) return null;
+  const items = await storage.getOrderItems(String(existing._id));
+  return { order, items, created: false };
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+}
+
+// Price, reserve and create an order. Used by the checkout endpoint and by the
+// Razorpay webhook, which rebuilds orders the browser never submitted.
+// A Razorpay order id maps to at most one order; placing it again returns the existing one.
+// `pricing` is a checkout already priced and charged for; the order keeps those prices.
+export async function placeOrder(
+  orderData: OrderDraft,
+  requestedItems: OrderLineInput[],
+  options: { expectedTotal?: number; codFee?: number; pricing?: PricedOrder; placedBy: StatusChangeContext }
+): Promise<PlacedOrder> {
+  if (orderData.razorpayOrderId) {
+    const existing = await findOrderForRazorpayOrder(orderData.razorpayOrderId);
+    if (existing) return existing;
+  }
+
+  // Rebuild prices, coupon discount and free gifts from the catalogue
+  const customer = { userId: orderData.userId, email: orderData.billingEmail };
+  const pricing = options.pricing || await priceOrder(requestedItems, getRequestedCouponCodes(orderData.couponCodes, orderData.couponCode), {
+    codFee: options.codFee,
+    customer,
+    reservedFor: orderData.razorpayOrderId,
+  });
+  if (options.expectedTotal !== undefined && Math.abs(roundCurrency(options.expectedTotal) - pricing.totalAmount) > 0.01) {
+    console.warn(`Order total mismatch for user ${orderData.userId}: client ${options.expectedTotal}, server ${pricing.totalAmount}`);
+    throw new OrderTotalMismatchError(pricing);
+  }
+  const { items, ...totals } = pricing;
+  const giftCardAmount = orderData.giftCardCode ? roundCurrency(orderData.giftCardAmount || 0) : 0;
+  if (giftCardAmount < 0 || giftCardAmount > totals.totalAmount) {
+    throw new GiftCardError('Gift card amount exceeds the order total');
+  }
+
+  // Hold stock before the order exists; a prepaid checkout reuses the units reserved with its Razorpay order
+  const stockReference = orderData.razorpayOrderId || `checkout_${uuidv4()}`;
+  await ensureStockReserved(stockReference, items);
+  let createdOrder: Order;
+  try {
+    // A prepaid checkout already debited its gift card share when it was opened
+    if (giftCardAmount > 0) {
+      await debitGiftCard(stockReference, orderData.giftCardCode!, giftCardAmount);
+    }
+    await reserveCouponRedemptions(stockReference, pricing.couponDiscounts, customer);
+    await reserveFlashSaleUnits(stockReference, items, customer);
+    const initialStatus = orderData.paymentStatus === 'paid' ? 'paid' : 'pending';
+    createdOrder = await storage.createOrder({
+      ...orderData,
+      ...totals,
+      giftCardCode: giftCardAmount > 0 ? orderData.giftCardCode : undefined,
+      giftCardAmount,
+      status: initialStatus,
+      statusHistory: [buildStatusChange(initialStatus, undefined, options.placedBy)]
+    });
+    if (!createdOrder.id) throw new Error('Order creation failed: missing ID');
+    for (const item of items) {
+      await storage.addOrderItem({ orderId: createdOrder.id, ...item });
+    }
+  } catch (err) {
+    // Lost a race with another request placing the same Razorpay order. The holds under
+    // its reference belong to that order, which commits them, so none are released here.
+    if (orderData.razorpayOrderId && isDuplicateKeyError(err)) {
+      const existing = await findOrderForRazorpayOrder(orderData.razorpayOrderId);
+      if (existing) return existing;
+      throw err;
+    }
+    await releaseStock({ reference: stockReference, status: 'reserved' }, 'order_failed');
+    await releaseGiftCardDebit(stockReference, 'order_failed');
+    await releaseCouponRedemption({ reference: stockReference, status: 'reserved' }, 'order_failed');
+    await releaseFlashSaleUnits({ reference: stockReference, status: 'reserved' }, 'order_failed');
+    throw err;
+  }
+
+  const orderId = createdOrder.id;
+  await commitStock(stockReference, orderId);
+  await commitGiftCardDebit(stockReference, orderId);
+  await commitCouponRedemption(stockReference, orderId);
+  await commitFlashSaleUnits(stockReference, orderId);
+  if (orderData.razorpayOrderId) {
+    await PendingCheckoutModel.updateOne(
+      { razorpayOrderId: orderData.razorpayOrderId },
+      { $set: { status: 'completed', orderId, paymentId: orderData.paymentId } }
+    );
+  }
+  const createdItems = await storage.getOrderItems(orderId);
+  sendOrderConfirmation(createdOrder, items).catch(err => console.error('Invoice email error:', err));
+  attributeRecoveredOrder({ ...createdOrder, billingEmail: orderData.billingEmail })
+    .catch(err => console.error('Cart recovery attribution error:', err));
+  return { order: createdOrder, items: createdItems, created: true };
+}
+
+async function sendOrderConfirmation(order: Order & { billingEmail?: string }, items: PricedOrder['items']) {
+  const user = await storage.getUser(order.userId);
+  const toEmail = order.billingEmail || user?.email;
+  if (!toEmail) return;
+  // Build HTML table for order details
+  const rowsHtml = items.map(it => `
+    <tr>
+      <td>${it.productId}</td>
+      <td>${it.quantity}</td>
+      <td>₹${it.price.toFixed(2)}</td>
+      <td>₹${(it.price * it.quantity).toFixed(2)}</td>
+    </tr>
+  `).join('');
+  const html = `
+    <h1>Order Confirmation - ${order.id}</h1>
+    <p>Thank you for your purchase!</p>
+    <table border="1" cellpadding="5" cellspacing="0" style="border-collapse: collapse; width:100%;">
+      <thead>
+        <tr><th>Product ID</th><th>Quantity</th><th>Unit Price</th><th>Total</th></tr>
+      </thead>
+      <tbody>
+        ${rowsHtml}
+      </tbody>
+      <tfoot>
+        <tr><td colspan="3" align="right">Total Amount</td><td>₹${order.totalAmount.toFixed(2)}</td></tr>
+      </tfoot>
+    </table>
+    <p>Shipping Address: ${order.shippingAddress}</p>
+  `;
+  await sendMail({
+    to: toEmail,
+    subject: `Order Confirmation - ${order.id}`,
+    html
+  });
+}
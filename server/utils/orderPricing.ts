@@ -0,0 +1,161 @@
+import mongoose from 'mongoose';
+import ProductModel from '../models/Product';
+import { evaluateCoupons, type CouponCustomer } from './coupons';
+import { evaluatePromotions, getLinesAfterPromotions, type AppliedPromotion } from './promotions';
+import { getCurrentUnitPrices } from './flashSales';
+import { resolveLineVariant, getLinePricing, getLineVariantLabel, VariantError } from './variants';
+import { calculateOrderTotals, roundCurrency, type OrderTotals } from '../../shared/pricing';
+import { getDefaultVariant, getLineKey } from '../../shared/variants';
+
+export type OrderLineInput = {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  isFree?: boolean;
+};
+
+export type PricedOrderItem = {
+  productId: string;
+  variantId?: string;
+  variantLabel?: string;
+  quantity: number;
+  price: number;
+  isFree: boolean;
+  discountAmount: number; // this line's share of the promotion and coupon discounts
+  flashSaleId?: string; // set when the line is priced at a flash sale
+};
+
+export type PricedOrder = OrderTotals & {
+  items: PricedOrderItem[];
+  couponCode: string | null;
+  couponCodes: string[];
+  couponDiscount: number;
+  // What each coupon took off, for reserving its redemption
+  couponDiscounts: { code: string; discount: number }[];
+  promotionDiscount: number;
+  promotions: AppliedPromotion[];
+};
+
+export class OrderPricingError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'OrderPricingError';
+    this.status = status;
+  }
+}
+
+// Rebuild an order from catalogue data. Client-supplied prices, discounts and
+// free lines are ignored; only product and variant ids, quantities and coupon codes are trusted.
+// Flash sales set the unit price, automatic promotions apply next and the coupons
+// apply to what is left. `reservedFor` names a checkout that already holds coupon
+// uses and flash sale units, so its own holds are not counted against it.
+export async function priceOrder(
+  lines: OrderLineInput[],
+  couponCodes: string[] = [],
+  options: { codFee?: number; customer?: CouponCustomer; reservedFor?: string } = {}
+): Promise<PricedOrder> {
+  const paidLines = lines.filter(line => !line.isFree);
+  if (paidLines.length === 0) {
+    throw new OrderPricingError('Order must contain at least one item');
+  }
+
+  const invalidId = paidLines.find(line => !mongoose.isValidObjectId(line.productId));
+  if (invalidId) {
+    throw new OrderPricingError(`Product ${invalidId.productId} is not available`);
+  }
+
+  const productIds = Array.from(new Set(paidLines.map(line => line.productId)));
+  const products = await ProductModel.find({ _id: { $in: productIds } });
+  const productsById = new Map(products.map(p => [String(p._id), p]));
+  const resolved = paidLines.map(line => {
+    const product = productsById.get(line.productId);
+    if (!product) {
+      throw new OrderPricingError(`Product ${line.productId} is not available`);
+    }
+    try {
+      return { line, product, variant: resolveLineVariant(product, line.variantId) };
+    } catch (error) {
+      if (error instanceof VariantError) throw new OrderPricingError(error.message, error.status);
+      throw error;
+    }
+  });
+  const unitPrices = await getCurrentUnitPrices(
+    resolved.map(({ product, variant }) => getLinePricing(product, variant)),
+    options.reservedFor
+  );
+
+  const items: PricedOrderItem[] = [];
+  let subtotal = 0;
+  for (const { line, product, variant } of resolved) {
+    const variantId = variant ? String(variant._id) : undefined;
+    const { price, flashSaleId } = unitPrices.get(getLineKey(line.productId, variantId))!;
+    subtotal += price * line.quantity;
+    items.push({
+      productId: line.productId,
+      variantId,
+      variantLabel: getLineVariantLabel(product, variant),
+      quantity: line.quantity,
+      price,
+      isFree: false,
+      discountAmount: 0,
+      flashSaleId,
+    });
+  }
+
+  const promotions = await evaluatePromotions(items);
+  promotions.lineDiscounts.forEach((discount, i) => { items[i].discountAmount = discount; });
+
+  let couponDiscount = 0;
+  let couponDiscounts: { code: string; discount: number }[] = [];
+  if (couponCodes.length > 0) {
+    if (promotions.couponBlockedBy) {
+      throw new OrderPricingError(`Coupons cannot be combined with the ${promotions.couponBlockedBy} offer`);
+    }
+    const result = await evaluateCoupons(
+      couponCodes,
+      getLinesAfterPromotions(items, promotions),
+      options.customer,
+      options.reservedFor
+    );
+    if (!result.valid) {
+      throw new OrderPricingError(result.message);
+    }
+    couponDiscount = result.discountValue;
+    result.lineShares.forEach((share, i) => { items[i].discountAmount = roundCurrency(items[i].discountAmount + share); });
+    couponDiscounts = result.coupons.map(entry => ({ code: entry.coupon.code, discount: entry.discountValue }));
+  }
+
+  // Gifts ship as their product's default variant
+  const gifts = promotions.freeGifts.length > 0
+    ? await ProductModel.find({ _id: { $in: promotions.freeGifts.map(gift => gift.productId) } })
+    : [];
+  const giftsById = new Map(gifts.map(p => [String(p._id), p]));
+  for (const gift of promotions.freeGifts) {
+    const product = giftsById.get(gift.productId);
+    const variant = product ? getDefaultVariant(product) : undefined;
+    items.push({
+      productId: gift.productId,
+      variantId: variant ? String(variant._id) : undefined,
+      variantLabel: product ? getLineVariantLabel(product, variant) : undefined,
+      quantity: 1,
+      price: 0,
+      isFree: true,
+      discountAmount: 0,
+    });
+  }
+
+  return {
+    ...calculateOrderTotals(subtotal, promotions.discountAmount + couponDiscount, options.codFee, {
+      freeShipping: promotions.freeShipping,
+    }),
+    items,
+    couponCode: couponDiscounts[0]?.code ?? null,
+    couponCodes: couponDiscounts.map(entry => entry.code),
+    couponDiscount,
+    couponDiscounts,
+    promotionDiscount: promotions.discountAmount,
+    promotions: promotions.applied,
+  };
+}
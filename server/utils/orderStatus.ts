@@ -0,0 +1,84 @@
+import mongoose from 'mongoose';
+import OrderModel, { IOrder, IOrderStatusChange } from '../models/Order';
+import { canTransitionOrderStatus, getNextOrderStatuses, getOrderStatusLabel, isOrderStatus } from '../../shared/orderStatus';
+
+export type StatusChangeContext = {
+  actor: string;
+  actorId?: string;
+  note?: string;
+};
+
+export class OrderStatusError extends Error {
+  status: number;
+  allowed?: string[];
+
+  constructor(message: string, status = 400, allowed?: string[]) {
+    super(message);
+    this.name = 'OrderStatusError';
+    this.status = status;
+    this.allowed = allowed;
+  }
+}
+
+export function buildStatusChange(status: string, previousStatus: string | undefined, context: StatusChangeContext): IOrderStatusChange {
+  return {
+    status,
+    previousStatus,
+    actor: context.actor,
+    actorId: context.actorId,
+    note: context.note,
+    changedAt: new Date(),
+  };
+}
+
+// Load an order and check the lifecycle allows moving it to `to`, without changing it.
+// Used before work that must happen ahead of the change, such as booking a shipment.
+export async function checkOrderStatusTransition(orderId: string, to: string): Promise<IOrder> {
+  if (!isOrderStatus(to)) {
+    throw new OrderStatusError(`Unknown order status "${to}"`);
+  }
+  if (!mongoose.isValidObjectId(orderId)) {
+    throw new OrderStatusError('Order not found', 404);
+  }
+
+  const current = await OrderModel.findById(orderId);
+  if (!current) {
+    throw new OrderStatusError('Order not found', 404);
+  }
+
+  const from = current.status;
+  if (from === to) {
+    throw new OrderStatusError(`Order is already ${getOrderStatusLabel(to).toLowerCase()}`);
+  }
+  if (!canTransitionOrderStatus(from, to)) {
+    const allowed = getNextOrderStatuses(from);
+    throw new OrderStatusError(
+      `Cannot change order from ${getOrderStatusLabel(from)} to ${getOrderStatusLabel(to)}`,
+      400,
+      allowed
+    );
+  }
+  return current;
+}
+
+// Move an order to a new status if the lifecycle allows it. The update is
+// conditional on the status we validated against, so two concurrent changes
+// cannot both apply; the loser gets a 409. `changes` are saved along with the status.
+export async function transitionOrderStatus(
+  orderId: string,
+  to: string,
+  context: StatusChangeContext,
+  changes: Record<string, unknown> = {}
+): Promise<{ order: IOrder; previousStatus: string }> {
+  const from = (await checkOrderStatusTransition(orderId, to)).status;
+
+  const order = await OrderModel.findOneAndUpdate(
+    { _id: orderId, status: from },
+    { $set: { ...changes, status: to }, $push: { statusHistory: buildStatusChange(to, from, context) } },
+    { new: true }
+  );
+  if (!order) {
+    throw new OrderStatusError('Order status was changed by someone else. Please reload and try again.', 409);
+  }
+  return { order, previousStatus: from };
+}
@@ -0,0 +1,124 @@
+import PendingCheckoutModel, { type IPendingCheckout } from '../models/PendingCheckout';
+import { placeOrder, OrderTotalMismatchError, type OrderDraft, type PlacedOrder } from './orderPlacement';
+import { OrderPricingError, type PricedOrder } from './orderPricing';
+import { InsufficientStockError, releaseStock } from './inventory';
+import { GiftCardError, releaseGiftCardDebit } from './giftCards';
+import { CouponError, releaseCouponRedemption } from './coupons';
+import { FlashSaleError, releaseFlashSaleUnits } from './flashSales';
+import type { StatusChangeContext } from './orderStatus';
+import { roundCurrency } from '../../shared/pricing';
+
+export class CheckoutPromotionError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'CheckoutPromotionError';
+    this.status = status;
+  }
+}
+
+// Return the stock, gift card balance, coupon use and flash sale units a checkout held
+async function releaseCheckoutHolds(razorpayOrderId: string, reason: string): Promise<number> {
+  await releaseGiftCardDebit(razorpayOrderId, reason);
+  await releaseCouponRedemption({ reference: razorpayOrderId, status: 'reserved' }, reason);
+  await releaseFlashSaleUnits({ reference: razorpayOrderId, status: 'reserved' }, reason);
+  return releaseStock({ reference: razorpayOrderId, status: 'reserved' }, reason);
+}
+
+// A payment that was taken but can't become an order: the checkout is marked for a
+// refund of what was captured and its holds go back
+async function refuseCheckout(checkout: IPendingCheckout, paymentId: string, reason: string): Promise<never> {
+  await PendingCheckoutModel.updateOne(
+    { _id: checkout._id },
+    { $set: { status: 'failed', paymentId, failureReason: `Paid but not fulfillable: ${reason}`, refundRequired: true } }
+  );
+  await releaseCheckoutHolds(checkout.razorpayOrderId, 'order_failed');
+  throw new CheckoutPromotionError(`Payment received but the order could not be created: ${reason}`, 409);
+}
+
+// Turn a paid checkout into an order. Safe to call from both payment
+// verification and the webhook: the second caller gets the order the first created.
+// The order keeps the prices the checkout was charged at; `capturedAmount` (paise),
+// when the caller knows it, must be what the checkout asked Razorpay to charge.
+export async function promotePendingCheckout(
+  razorpayOrderId: string,
+  paymentId: string,
+  placedBy: Omit<StatusChangeContext, 'actorId'>,
+  capturedAmount?: number
+): Promise<PlacedOrder> {
+  const checkout = await PendingCheckoutModel.findOne({ razorpayOrderId });
+  if (!checkout) {
+    throw new CheckoutPromotionError(`No checkout found for ${razorpayOrderId}`, 404);
+  }
+  if (checkout.status !== 'completed' && capturedAmount !== undefined && capturedAmount !== checkout.amount) {
+    return refuseCheckout(checkout, paymentId, `captured ₹${(capturedAmount / 100).toFixed(2)} but the checkout charged ₹${(checkout.amount / 100).toFixed(2)}`);
+  }
+
+  // The online payment plus the gift card share is the order total the shopper agreed to
+  const chargedTotal = roundCurrency(checkout.amount / 100 + (checkout.order.giftCardAmount || 0));
+  try {
+    return await placeOrder(
+      {
+        ...checkout.order,
+        userId: checkout.userId || '',
+        razorpayOrderId,
+        paymentId,
+        paymentStatus: 'paid',
+      } as OrderDraft,
+      checkout.items,
+      {
+        // Checkouts opened before pricing snapshots were stored are priced again
+        pricing: checkout.pricing as PricedOrder | undefined,
+        expectedTotal: chargedTotal,
+        placedBy: { ...placedBy, actorId: placedBy.actor === 'customer' ? checkout.userId : undefined },
+      }
+    );
+  } catch (error) {
+    if (error instanceof OrderTotalMismatchError) {
+      return refuseCheckout(checkout, paymentId, `charged ₹${chargedTotal.toFixed(2)} but the order now totals ₹${error.pricing.totalAmount.toFixed(2)}`);
+    }
+    if (error instanceof InsufficientStockError || error instanceof OrderPricingError || error instanceof GiftCardError || error instanceof CouponError || error instanceof FlashSaleError) {
+      return refuseCheckout(checkout, paymentId, error.message);
+    }
+    throw error;
+  }
+}
+
+export async function failPendingCheckout(razorpayOrderId: string, reason: string, paymentId?: string): Promise<number> {
+  await PendingCheckoutModel.updateOne(
+    { razorpayOrderId, status: 'pending' },
+    { $set: { status: 'failed', paymentId, failureReason: reason } }
+  );
+  return releaseCheckoutHolds(razorpayOrderId, 'payment_failed');
+}
+
+// Mark checkouts whose payment window passed as abandoned and return their stock,
+// gift card balance, coupon use and flash sale units.
+// A late payment.captured webhook can still promote an expired checkout.
+export async function expireAbandonedCheckouts(): Promise<number> {
+  const stale = await PendingCheckoutModel.find({ status: 'pending', expiresAt: { $lte: new Date() } });
+  let expired = 0;
+  for (const checkout of stale) {
+    const claimed = await PendingCheckoutModel.findOneAndUpdate(
+      { _id: checkout._id, status: 'pending' },
+      { $set: { status: 'expired', failureReason: 'Payment not completed' } }
+    );
+    if (!claimed) continue;
+    await releaseCheckoutHolds(checkout.razorpayOrderId, 'payment_timeout');
+    expired += 1;
+  }
+  return expired;
+}
+
+let sweeper: NodeJS.Timeout | null = null;
+
+export function startPendingCheckoutSweeper(intervalMs = 60 * 1000) {
+  if (sweeper) return;
+  sweeper = setInterval(() => {
+    expireAbandonedCheckouts()
+      .then(count => { if (count > 0) console.log(`Expired ${count} abandoned checkout(s)`); })
+      .catch(err => console.error('Pending checkout sweep error:', err));
+  }, intervalMs);
+  sweeper.unref();
+}
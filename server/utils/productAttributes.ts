@@ -0,0 +1,54 @@
+import { productAttributesSchema, type ProductAttributes } from '../../shared/attributes';
+
+export class ProductAttributeError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ProductAttributeError';
+    this.status = status;
+  }
+}
+
+// Read a product's attributes from an admin product form, where they arrive as a JSON
+// field. Returns null when the form doesn't send them, so other edits leave a
+// product's attributes alone.
+export function parseAttributeFields(body: Record<string, unknown>): { attributes: ProductAttributes } | null {
+  if (body.attributes === undefined) return null;
+  let raw = body.attributes;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      throw new ProductAttributeError('attributes must be valid JSON');
+    }
+  }
+  const parsed = productAttributesSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    throw new ProductAttributeError(parsed.error.errors.map(e => `attributes.${e.path.join('.')}: ${e.message}`).join(', '));
+  }
+  const attributes = parsed.data;
+
+  const names = attributes.ingredients.map(ingredient => ingredient.name.toLowerCase());
+  const repeated = names.find((name, i) => names.indexOf(name) !== i);
+  if (repeated) throw new ProductAttributeError(`${attributes.ingredients[names.indexOf(repeated)].name} is listed twice in the ingredients`);
+
+  return {
+    attributes: {
+      ...attributes,
+      ingredients: attributes.ingredients.map(ingredient => ({
+        ...ingredient,
+        inciName: ingredient.inciName || undefined,
+        benefit: ingredient.benefit || undefined,
+        isKey: !!ingredient.isKey,
+      })),
+      skinTypes: Array.from(new Set(attributes.skinTypes)),
+      hairTypes: Array.from(new Set(attributes.hairTypes)),
+      concerns: Array.from(new Set(attributes.concerns)),
+      certifications: Array.from(new Set(attributes.certifications)),
+      usage: attributes.usage || undefined,
+      volume: attributes.volume ?? null,
+      shelfLifeMonths: attributes.shelfLifeMonths ?? null,
+    },
+  };
+}
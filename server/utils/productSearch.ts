@@ -0,0 +1,402 @@
+import mongoose, { type PipelineStage } from 'mongoose';
+import ProductModel from '../models/Product';
+import CategoryModel from '../models/Category';
+import CollectionModel from '../models/Collection';
+import ProductCollectionModel from '../models/ProductCollection';
+import BlogModel from '../models/Blog';
+import { getListingSalePrices, withFlashSalePrices } from './flashSales';
+import {
+  productSortOptions,
+  type AttributeFacetValue,
+  type Product,
+  type ProductSearchFacets,
+  type ProductSearchResult,
+  type ProductSortKey,
+  type SearchFacetValue,
+  type SearchSuggestions,
+} from '../../shared/schema';
+import { attributeFacets, type AttributeFacetKey } from '../../shared/attributes';
+import { DEFAULT_LISTING_LIMIT, MAX_LISTING_LIMIT, type ListingFlag, type ListingQuery } from '../../shared/listing';
+
+export const MIN_SUGGEST_LENGTH = 2;
+
+// Lower bounds of the price facet's ranges, in rupees; the last range is open ended
+const PRICE_BOUNDARIES = [0, 250, 500, 1000, 2000];
+const RATING_STEPS = [4, 3, 2, 1];
+
+export type ProductSearchParams = {
+  q?: string;
+  categoryIds?: string[];
+  collectionIds?: string[];
+  skinTypes?: string[];
+  hairTypes?: string[];
+  concerns?: string[];
+  certifications?: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  inStock?: boolean;
+  flag?: ListingFlag;
+  sort?: ProductSortKey;
+  page?: number;
+  limit?: number;
+};
+
+// The flag a flagged listing (featured, bestsellers, new arrivals) keeps to
+const FLAG_FILTERS: Record<ListingFlag, Filter> = {
+  featured: { featured: true },
+  bestseller: { bestseller: true },
+  new: { isNew: true },
+};
+
+// Every filter but the flag is also a facet
+type FacetKey =
+  | 'flag' | 'price' | 'category' | 'collection' | 'rating' | 'availability'
+  | 'skinType' | 'hairType' | 'concern' | 'certification';
+type Filter = Record<string, unknown>;
+
+type FacetOutput = {
+  products: (Omit<Product, '_id'> & { _id: unknown })[];
+  total: { count: number }[];
+  categories: { _id: string; count: number }[];
+  collections: { _id: string; count: number }[];
+  priceBounds: { min: number; max: number }[];
+  priceRanges: { _id: number | 'above'; count: number }[];
+  ratings: Record<string, number>[];
+  availability: { inStock: number; outOfStock: number }[];
+} & Record<AttributeFacetKey, { _id: string; count: number }[]>;
+
+export class ProductSearchError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ProductSearchError';
+    this.status = status;
+  }
+}
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Search parameters from a listing's query string
+export function fromListingQuery(query: ListingQuery): ProductSearchParams {
+  return {
+    q: query.q,
+    categoryIds: query.categoryId,
+    collectionIds: query.collectionId,
+    skinTypes: query.skinType,
+    hairTypes: query.hairType,
+    concerns: query.concern,
+    certifications: query.certification,
+    minPrice: query.minPrice,
+    maxPrice: query.maxPrice,
+    minRating: query.minRating,
+    inStock: query.inStock,
+    flag: query.flag,
+    sort: query.sort,
+    page: query.page,
+    limit: query.limit,
+  };
+}
+
+// The filters a search applies: one per facet, and the flag of a flagged listing.
+// Picking several skin types, hair types or concerns widens the listing to any of
+// them; certifications narrow it, since a shopper wanting paraben and sulphate free
+// wants both.
+function buildFilters(params: ProductSearchParams): Record<FacetKey, Filter | null> {
+  const price: Filter = {};
+  if (params.minPrice !== undefined) price.$gte = params.minPrice;
+  if (params.maxPrice !== undefined) price.$lte = params.maxPrice;
+  return {
+    flag: params.flag ? FLAG_FILTERS[params.flag] : null,
+    price: Object.keys(price).length > 0 ? { effectivePrice: price } : null,
+    category: params.categoryIds?.length ? { categoryId: { $in: params.categoryIds } } : null,
+    collection: params.collectionIds?.length ? { collectionIds: { $in: params.collectionIds } } : null,
+    rating: params.minRating ? { rating: { $gte: params.minRating } } : null,
+    availability: params.inStock ? { stock: { $gt: 0 } } : null,
+    skinType: params.skinTypes?.length ? { 'attributes.skinTypes': { $in: params.skinTypes } } : null,
+    hairType: params.hairTypes?.length ? { 'attributes.hairTypes': { $in: params.hairTypes } } : null,
+    concern: params.concerns?.length ? { 'attributes.concerns': { $in: params.concerns } } : null,
+    certification: params.certifications?.length ? { 'attributes.certifications': { $all: params.certifications } } : null,
+  };
+}
+
+function matchExcept(filters: Record<FacetKey, Filter | null>, skip?: FacetKey): PipelineStage.Match {
+  const clauses = (Object.keys(filters) as FacetKey[])
+    .filter(key => key !== skip && filters[key])
+    .map(key => filters[key]!);
+  return { $match: clauses.length > 0 ? { $and: clauses } : {} };
+}
+
+// How many matching products list each value of an attribute
+function countAttributeValues(key: AttributeFacetKey, match: PipelineStage.Match): PipelineStage.FacetPipelineStage[] {
+  return [
+    match,
+    { $unwind: `$attributes.${key}` },
+    { $group: { _id: `$attributes.${key}`, count: { $sum: 1 } } },
+  ];
+}
+
+// Ties fall back to _id so pages never repeat or skip a product
+function getSortStage(sort: ProductSortKey): PipelineStage.Sort {
+  switch (sort) {
+    // Partial matches have no text score and fall through to featured order
+    case 'relevance': return { $sort: { score: -1, featured: -1, _id: 1 } };
+    case 'bestseller': return { $sort: { bestseller: -1, totalReviews: -1, rating: -1, _id: 1 } };
+    case 'newest': return { $sort: { createdAt: -1, _id: 1 } };
+    case 'price_asc': return { $sort: { effectivePrice: 1, _id: 1 } };
+    case 'price_desc': return { $sort: { effectivePrice: -1, _id: 1 } };
+    case 'rating': return { $sort: { rating: -1, totalReviews: -1, _id: 1 } };
+    case 'name_asc': return { $sort: { sortName: 1, _id: 1 } };
+    case 'name_desc': return { $sort: { sortName: -1, _id: 1 } };
+    default: return { $sort: { featured: -1, bestseller: -1, createdAt: -1, _id: 1 } };
+  }
+}
+
+// How the query narrows the catalogue. The text index ranks whole words; the partial
+// match covers what it can't, such as the first few letters of a name ("ashwa").
+function getQueryStage(q: string, mode: 'text' | 'partial'): PipelineStage.Match | null {
+  if (!q) return null;
+  if (mode === 'text') return { $match: { $text: { $search: q } } };
+  const terms = q.split(/\s+/).filter(Boolean).slice(0, 8);
+  return {
+    $match: {
+      $and: terms.map(term => {
+        const pattern = new RegExp(escapeRegex(term), 'i');
+        return { $or: [{ name: pattern }, { shortDescription: pattern }] };
+      }),
+    },
+  };
+}
+
+// The price a listing shows: a running flash sale's price (see withFlashSalePrices),
+// else the discounted price, else the list price. Price filters, ranges and sorting use it.
+async function getEffectivePriceExpression() {
+  const regularPrice = { $ifNull: ['$discountedPrice', '$price'] };
+  const salePrices = await getListingSalePrices();
+  if (salePrices.size === 0) return regularPrice;
+  const saleIds = Array.from(salePrices.keys(), id => new mongoose.Types.ObjectId(id));
+  return {
+    $let: {
+      vars: { sale: { $indexOfArray: [{ $literal: saleIds }, '$_id'] } },
+      in: {
+        $cond: [
+          { $gte: ['$$sale', 0] },
+          { $arrayElemAt: [{ $literal: Array.from(salePrices.values()) }, '$$sale'] },
+          regularPrice,
+        ],
+      },
+    },
+  };
+}
+
+async function runSearch(
+  params: ProductSearchParams,
+  mode: 'text' | 'partial',
+  effectivePrice: Record<string, unknown>,
+  sort: ProductSortKey,
+  page: number,
+  limit: number
+): Promise<FacetOutput> {
+  const q = params.q || '';
+  const filters = buildFilters(params);
+  const queryStage = getQueryStage(q, mode);
+  const pipeline: PipelineStage[] = [
+    ...(queryStage ? [queryStage] : []),
+    {
+      $addFields: {
+        effectivePrice,
+        sortName: { $toLower: '$name' },
+        ...(queryStage && mode === 'text' ? { score: { $meta: 'textScore' } } : {}),
+      },
+    },
+    {
+      $lookup: {
+        from: ProductCollectionModel.collection.name,
+        let: { productId: { $toString: '$_id' } },
+        pipeline: [
+          { $match: { $expr: { $eq: ['$productId', '$$productId'] } } },
+          { $project: { _id: 0, collectionId: 1 } },
+        ],
+        as: 'collectionLinks',
+      },
+    },
+    { $addFields: { collectionIds: '$collectionLinks.collectionId' } },
+    {
+      $facet: {
+        products: [
+          matchExcept(filters),
+          getSortStage(sort),
+          { $skip: (page - 1) * limit },
+          { $limit: limit },
+          { $project: { collectionLinks: 0, collectionIds: 0, effectivePrice: 0, sortName: 0, score: 0 } },
+        ],
+        total: [matchExcept(filters), { $count: 'count' }],
+        categories: [matchExcept(filters, 'category'), { $group: { _id: '$categoryId', count: { $sum: 1 } } }],
+        collections: [
+          matchExcept(filters, 'collection'),
+          { $unwind: '$collectionIds' },
+          { $group: { _id: '$collectionIds', count: { $sum: 1 } } },
+        ],
+        priceBounds: [
+          matchExcept(filters, 'price'),
+          { $group: { _id: null, min: { $min: '$effectivePrice' }, max: { $max: '$effectivePrice' } } },
+        ],
+        priceRanges: [
+          matchExcept(filters, 'price'),
+          {
+            $bucket: {
+              groupBy: '$effectivePrice',
+              boundaries: [...PRICE_BOUNDARIES, Number.MAX_SAFE_INTEGER],
+              default: 'above',
+              output: { count: { $sum: 1 } },
+            },
+          },
+        ],
+        ratings: [
+          matchExcept(filters, 'rating'),
+          {
+            $group: {
+              _id: null,
+              ...Object.fromEntries(RATING_STEPS.map(step => [
+                `from${step}`,
+                { $sum: { $cond: [{ $gte: ['$rating', step] }, 1, 0] } },
+              ])),
+            },
+          },
+        ],
+        availability: [
+          matchExcept(filters, 'availability'),
+          {
+            $group: {
+              _id: null,
+              inStock: { $sum: { $cond: [{ $gt: ['$stock', 0] }, 1, 0] } },
+              outOfStock: { $sum: { $cond: [{ $gt: ['$stock', 0] }, 0, 1] } },
+            },
+          },
+        ],
+        skinTypes: countAttributeValues('skinTypes', matchExcept(filters, 'skinType')),
+        hairTypes: countAttributeValues('hairTypes', matchExcept(filters, 'hairType')),
+        concerns: countAttributeValues('concerns', matchExcept(filters, 'concern')),
+        // Certifications combine, so their counts keep the ones already picked
+        certifications: countAttributeValues('certifications', matchExcept(filters)),
+      },
+    },
+  ];
+  const [output] = await ProductModel.aggregate<FacetOutput>(pipeline);
+  return output;
+}
+
+// Names and slugs for the category and collection facet values
+async function nameFacetValues(
+  counts: { _id: string; count: number }[],
+  findByIds: (ids: string[]) => Promise<{ _id: unknown; name: string; slug: string }[]>
+): Promise<SearchFacetValue[]> {
+  const ids = counts.map(entry => entry._id).filter(id => mongoose.isValidObjectId(id));
+  if (ids.length === 0) return [];
+  const docs = await findByIds(ids);
+  const byId = new Map(docs.map(doc => [String(doc._id), doc]));
+  return counts
+    .filter(entry => byId.has(entry._id))
+    .map(entry => ({ _id: entry._id, name: byId.get(entry._id)!.name, slug: byId.get(entry._id)!.slug, count: entry.count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+// Labels for an attribute facet's values, in the order of its vocabulary
+function labelAttributeValues(counts: { _id: string; count: number }[], labels: Record<string, string>): AttributeFacetValue[] {
+  const byValue = new Map(counts.map(entry => [entry._id, entry.count]));
+  return Object.keys(labels)
+    .filter(value => byValue.has(value))
+    .map(value => ({ value, label: labels[value], count: byValue.get(value)! }));
+}
+
+async function toFacets(output: FacetOutput): Promise<ProductSearchFacets> {
+  const bounds = output.priceBounds[0];
+  const ratings = output.ratings[0] || {};
+  const availability = output.availability[0];
+  return {
+    price: {
+      min: bounds ? Math.floor(bounds.min) : 0,
+      max: bounds ? Math.ceil(bounds.max) : 0,
+      ranges: output.priceRanges
+        .filter(range => range._id !== 'above')
+        .map(range => {
+          const index = PRICE_BOUNDARIES.indexOf(range._id as number);
+          return { min: range._id as number, max: PRICE_BOUNDARIES[index + 1] ?? null, count: range.count };
+        }),
+    },
+    categories: await nameFacetValues(output.categories, ids => CategoryModel.find({ _id: { $in: ids } }).select('name slug').lean()),
+    collections: await nameFacetValues(output.collections, ids => CollectionModel.find({ _id: { $in: ids } }).select('name slug').lean()),
+    ratings: RATING_STEPS.map(step => ({ min: step, count: ratings[`from${step}`] || 0 })),
+    availability: { inStock: availability?.inStock || 0, outOfStock: availability?.outOfStock || 0 },
+    attributes: Object.fromEntries(
+      attributeFacets.map(facet => [facet.key, labelAttributeValues(output[facet.key], facet.labels)])
+    ) as Record<AttributeFacetKey, AttributeFacetValue[]>,
+  };
+}
+
+// One page of products matching a query and filters, ranked by relevance when there
+// is a query, with facet counts for refining it. A query the text index finds
+// nothing for is retried as a partial match on names before giving up.
+export async function searchProducts(params: ProductSearchParams): Promise<ProductSearchResult> {
+  const q = (params.q || '').trim();
+  if (params.minPrice !== undefined && params.maxPrice !== undefined && params.minPrice > params.maxPrice) {
+    throw new ProductSearchError('minPrice cannot be above maxPrice');
+  }
+  const page = Math.max(params.page || 1, 1);
+  const limit = Math.min(Math.max(params.limit || DEFAULT_LISTING_LIMIT, 1), MAX_LISTING_LIMIT);
+  const requested = params.sort || (q ? 'relevance' : 'featured');
+
+  const sort: ProductSortKey = requested === 'relevance' && !q ? 'featured' : requested;
+  const effectivePrice = await getEffectivePriceExpression();
+  let output = await runSearch({ ...params, q }, 'text', effectivePrice, sort, page, limit);
+  if (q && !output.total[0]) {
+    output = await runSearch({ ...params, q }, 'partial', effectivePrice, sort, page, limit);
+  }
+
+  const total = output.total[0]?.count || 0;
+  const products = output.products.map(doc => ({ ...doc, _id: String(doc._id), id: String(doc._id) }));
+  return {
+    products: await withFlashSalePrices(products),
+    total,
+    page,
+    totalPages: Math.ceil(total / limit),
+    totalItems: total,
+    query: q,
+    sort,
+    sortOptions: productSortOptions.filter(option => q || option.value !== 'relevance'),
+    facets: await toFacets(output),
+  };
+}
+
+// Autocomplete for the search box: products, categories, collections and blog posts
+// with a word in their name starting with what has been typed. Reads only names and
+// slugs, with no prices or facets, so it is cheap enough to run as the shopper types.
+export async function getSearchSuggestions(q: string, limit = 6): Promise<SearchSuggestions> {
+  const query = q.trim();
+  const empty: SearchSuggestions = { query, products: [], categories: [], collections: [], blogs: [] };
+  if (query.length < MIN_SUGGEST_LENGTH) return empty;
+
+  const prefix = new RegExp(`(^|\\s)${escapeRegex(query)}`, 'i');
+  const [products, categories, collections, blogs] = await Promise.all([
+    ProductModel.find({ name: prefix })
+      .select('name slug imageUrl')
+      .sort({ featured: -1, bestseller: -1, totalReviews: -1, _id: 1 })
+      .limit(limit)
+      .lean(),
+    CategoryModel.find({ name: prefix }).select('name slug').sort({ name: 1 }).limit(3).lean(),
+    CollectionModel.find({ name: prefix }).select('name slug').sort({ name: 1 }).limit(3).lean(),
+    BlogModel.find({ title: prefix, publishedAt: { $lte: new Date() } })
+      .select('title slug')
+      .sort({ publishedAt: -1 })
+      .limit(3)
+      .lean(),
+  ]);
+  return {
+    query,
+    products: products.map(product => ({ _id: String(product._id), name: product.name, slug: product.slug, imageUrl: product.imageUrl })),
+    categories: categories.map(category => ({ _id: String(category._id), name: category.name, slug: category.slug })),
+    collections: collections.map(collection => ({ _id: String(collection._id), name: collection.name, slug: collection.slug })),
+    blogs: blogs.map(blog => ({ _id: String(blog._id), title: blog.title, slug: blog.slug })),
+  };
+}
@@ -0,0 +1,297 @@
+import mongoose from 'mongoose';
+import PromotionModel, { IPromotion, PromotionType } from '../models/Promotion';
+import FreeProductModel from '../models/FreeProduct';
+import ProductModel from '../models/Product';
+import ProductCollectionModel from '../models/ProductCollection';
+import { getCurrentUnitPrices } from './flashSales';
+import { getLinePricing, resolveLineVariant } from './variants';
+import { roundCurrency } from '../../shared/pricing';
+import { getLineKey } from '../../shared/variants';
+
+export type PromotionLine = {
+  productId: string;
+  quantity: number;
+  price: number;
+};
+
+export type AppliedPromotion = {
+  promotionId: string;
+  name: string;
+  type: PromotionType;
+  discount: number;
+  freeShipping: boolean;
+};
+
+export type FreeGift = {
+  freeProductId: string;
+  productId: string;
+  minOrderValue: number;
+};
+
+export type PromotionResult = {
+  discountAmount: number;
+  freeShipping: boolean;
+  applied: AppliedPromotion[];
+  // Discount per input line, in the same order as the lines passed in
+  lineDiscounts: number[];
+  freeGifts: FreeGift[];
+  // Name of an applied promotion that does not allow coupons on top of it
+  couponBlockedBy: string | null;
+};
+
+type LineContext = {
+  categoryByProduct: Map<string, string>;
+  collectionsByProduct: Map<string, string[]>;
+};
+
+type PromotionOutcome = {
+  discounts: Map<number, number>;
+  freeShipping: boolean;
+};
+
+function hasScope(promotion: IPromotion): boolean {
+  return promotion.productIds.length > 0 || promotion.categoryIds.length > 0 || promotion.collectionIds.length > 0;
+}
+
+export async function getActivePromotions(now = new Date()): Promise<IPromotion[]> {
+  return PromotionModel.find({
+    isActive: true,
+    $and: [
+      { $or: [{ startDate: null }, { startDate: { $lte: now } }] },
+      { $or: [{ endDate: null }, { endDate: { $gte: now } }] },
+    ],
+  }).sort({ priority: -1, createdAt: 1 });
+}
+
+async function loadLineContext(lines: PromotionLine[], promotions: IPromotion[]): Promise<LineContext> {
+  const context: LineContext = { categoryByProduct: new Map(), collectionsByProduct: new Map() };
+  if (!promotions.some(hasScope)) return context;
+  const productIds = Array.from(new Set(lines.map(line => line.productId).filter(id => mongoose.isValidObjectId(id))));
+  const [products, memberships] = await Promise.all([
+    ProductModel.find({ _id: { $in: productIds } }, { categoryId: 1 }),
+    ProductCollectionModel.find({ productId: { $in: productIds } }),
+  ]);
+  for (const product of products) context.categoryByProduct.set(String(product._id), product.categoryId);
+  for (const membership of memberships) {
+    const list = context.collectionsByProduct.get(membership.productId) || [];
+    list.push(membership.collectionId);
+    context.collectionsByProduct.set(membership.productId, list);
+  }
+  return context;
+}
+
+function qualifies(promotion: IPromotion, line: PromotionLine, context: LineContext): boolean {
+  if (!hasScope(promotion)) return true;
+  const categoryId = context.categoryByProduct.get(line.productId);
+  return promotion.productIds.includes(line.productId)
+    || (!!categoryId && promotion.categoryIds.includes(categoryId))
+    || (context.collectionsByProduct.get(line.productId) || []).some(id => promotion.collectionIds.includes(id));
+}
+
+// Spread an amount over lines in proportion to their weight; the last line takes the rounding remainder
+function spread(amount: number, weights: Map<number, number>): Map<number, number> {
+  const total = Array.from(weights.values()).reduce((sum, weight) => sum + weight, 0);
+  const shares = new Map<number, number>();
+  if (total <= 0 || amount <= 0) return shares;
+  const indexes = Array.from(weights.keys());
+  let allocated = 0;
+  indexes.forEach((index, position) => {
+    const share = position === indexes.length - 1
+      ? roundCurrency(amount - allocated)
+      : roundCurrency((amount * weights.get(index)!) / total);
+    shares.set(index, share);
+    allocated += share;
+  });
+  return shares;
+}
+
+function applyBuyXGetY(promotion: IPromotion, lines: PromotionLine[], qualifying: number[]): PromotionOutcome {
+  const discounts = new Map<number, number>();
+  const groupSize = promotion.buyQuantity + promotion.getQuantity;
+  if (promotion.buyQuantity <= 0 || promotion.getQuantity <= 0) return { discounts, freeShipping: false };
+  // One entry per unit, most expensive first, so the cheapest units are the ones discounted
+  const units = qualifying
+    .flatMap(index => Array.from({ length: lines[index].quantity }, () => index))
+    .sort((a, b) => lines[b].price - lines[a].price);
+  const discountedUnits = Math.floor(units.length / groupSize) * promotion.getQuantity;
+  for (const index of units.slice(units.length - discountedUnits)) {
+    const unitDiscount = (lines[index].price * promotion.getDiscountPercent) / 100;
+    discounts.set(index, (discounts.get(index) || 0) + unitDiscount);
+  }
+  return { discounts, freeShipping: false };
+}
+
+function applySpendTier(
+  promotion: IPromotion,
+  lines: PromotionLine[],
+  qualifying: number[],
+  remaining: number[]
+): PromotionOutcome {
+  const qualifyingTotal = qualifying.reduce((sum, index) => sum + lines[index].price * lines[index].quantity, 0);
+  const tier = [...promotion.tiers]
+    .sort((a, b) => b.minSubtotal - a.minSubtotal)
+    .find(candidate => qualifyingTotal >= candidate.minSubtotal);
+  if (!tier) return { discounts: new Map(), freeShipping: false };
+  const weights = new Map(qualifying.map(index => [index, remaining[index]]));
+  const remainingTotal = qualifying.reduce((sum, index) => sum + remaining[index], 0);
+  return { discounts: spread(roundCurrency((remainingTotal * tier.discountPercent) / 100), weights), freeShipping: false };
+}
+
+function applyBundle(promotion: IPromotion, lines: PromotionLine[]): PromotionOutcome {
+  const discounts = new Map<number, number>();
+  if (promotion.bundleItems.length === 0) return { discounts, freeShipping: false };
+  // A product's variants are separate lines; together they count towards its bundle quantity
+  const linesByProduct = new Map<string, number[]>();
+  lines.forEach((line, index) => linesByProduct.set(line.productId, [...(linesByProduct.get(line.productId) || []), index]));
+  const quantityOf = (productId: string) =>
+    (linesByProduct.get(productId) || []).reduce((sum, index) => sum + lines[index].quantity, 0);
+
+  let sets = Infinity;
+  for (const item of promotion.bundleItems) {
+    sets = Math.min(sets, Math.floor(quantityOf(item.productId) / item.quantity));
+  }
+  if (!Number.isFinite(sets) || sets <= 0) return { discounts, freeShipping: false };
+
+  // Each of a product's lines weighs in by its share of the product's units, at its own price
+  const weights = new Map<number, number>();
+  for (const item of promotion.bundleItems) {
+    const quantity = quantityOf(item.productId);
+    for (const index of linesByProduct.get(item.productId)!) {
+      const share = lines[index].price * lines[index].quantity * item.quantity / quantity;
+      weights.set(index, (weights.get(index) || 0) + share);
+    }
+  }
+  const setValue = Array.from(weights.values()).reduce((sum, value) => sum + value, 0);
+  if (setValue <= promotion.bundlePrice) return { discounts, freeShipping: false };
+  return { discounts: spread(roundCurrency((setValue - promotion.bundlePrice) * sets), weights), freeShipping: false };
+}
+
+function applyFreeShipping(promotion: IPromotion, lines: PromotionLine[], qualifying: number[]): PromotionOutcome {
+  const qualifyingTotal = qualifying.reduce((sum, index) => sum + lines[index].price * lines[index].quantity, 0);
+  return { discounts: new Map(), freeShipping: qualifying.length > 0 && qualifyingTotal >= promotion.minSubtotal };
+}
+
+function applyPromotion(
+  promotion: IPromotion,
+  lines: PromotionLine[],
+  qualifying: number[],
+  remaining: number[]
+): PromotionOutcome {
+  switch (promotion.type) {
+    case 'buy_x_get_y':
+      return applyBuyXGetY(promotion, lines, qualifying);
+    case 'spend_tier':
+      return applySpendTier(promotion, lines, qualifying, remaining);
+    case 'bundle':
+      return applyBundle(promotion, lines);
+    case 'free_shipping':
+      return applyFreeShipping(promotion, lines, qualifying);
+    default:
+      return { discounts: new Map(), freeShipping: false };
+  }
+}
+
+// Free gifts follow the "cart total >= minOrderValue" rule on the undiscounted subtotal
+async function getFreeGifts(subtotal: number): Promise<FreeGift[]> {
+  const freeProducts = await FreeProductModel.find({ minOrderValue: { $lte: roundCurrency(subtotal) } });
+  const gifts: FreeGift[] = [];
+  for (const freeProduct of freeProducts) {
+    if (!mongoose.isValidObjectId(freeProduct.productId)) continue;
+    const exists = await ProductModel.exists({ _id: freeProduct.productId });
+    if (!exists) continue;
+    gifts.push({ freeProductId: String(freeProduct._id), productId: freeProduct.productId, minOrderValue: freeProduct.minOrderValue });
+  }
+  return gifts;
+}
+
+// Work out every automatic promotion for a set of priced cart lines. This is the
+// single source of promotion pricing for the cart API, checkout and order creation.
+export async function evaluatePromotions(lines: PromotionLine[], now = new Date()): Promise<PromotionResult> {
+  const subtotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+  const promotions = lines.length > 0 ? await getActivePromotions(now) : [];
+  const context = await loadLineContext(lines, promotions);
+
+  // Value still left on each line, so stacked promotions never discount a line below zero
+  const remaining = lines.map(line => line.price * line.quantity);
+  const lineDiscounts = lines.map(() => 0);
+  const applied: AppliedPromotion[] = [];
+  let freeShipping = false;
+  let couponBlockedBy: string | null = null;
+
+  for (const promotion of promotions) {
+    if (promotion.exclusive && applied.length > 0) continue;
+    const qualifying = lines.map((_, index) => index).filter(index => qualifies(promotion, lines[index], context));
+    const outcome = applyPromotion(promotion, lines, qualifying, remaining);
+
+    let discount = 0;
+    outcome.discounts.forEach((amount, index) => {
+      const capped = roundCurrency(Math.min(amount, remaining[index]));
+      if (capped <= 0) return;
+      remaining[index] -= capped;
+      lineDiscounts[index] = roundCurrency(lineDiscounts[index] + capped);
+      discount += capped;
+    });
+    if (discount <= 0 && !outcome.freeShipping) continue;
+
+    freeShipping = freeShipping || outcome.freeShipping;
+    applied.push({
+      promotionId: String(promotion._id),
+      name: promotion.name,
+      type: promotion.type,
+      discount: roundCurrency(discount),
+      freeShipping: outcome.freeShipping,
+    });
+    if (!promotion.combinesWithCoupons && !couponBlockedBy) couponBlockedBy = promotion.name;
+    if (promotion.exclusive) break;
+  }
+
+  return {
+    discountAmount: roundCurrency(lineDiscounts.reduce((sum, amount) => sum + amount, 0)),
+    freeShipping,
+    applied,
+    lineDiscounts,
+    freeGifts: lines.length > 0 ? await getFreeGifts(subtotal) : [],
+    couponBlockedBy,
+  };
+}
+
+// Lines repriced after their promotion discounts, for coupons applied on top
+export function getLinesAfterPromotions<T extends PromotionLine>(lines: T[], result: PromotionResult): T[] {
+  return lines.map((line, index) => ({
+    ...line,
+    price: line.quantity > 0 ? Math.max(line.price - (result.lineDiscounts[index] || 0) / line.quantity, 0) : line.price,
+  }));
+}
+
+export type CartPromotionLine = PromotionLine & { discount: number };
+
+// Price cart items from the catalogue and evaluate promotions on them. Free gift
+// lines, unknown products and variants no longer on sale are left out.
+export async function evaluateCartPromotions(
+  items: { productId: string; variantId?: string; quantity: number; isFree?: boolean }[]
+): Promise<{ subtotal: number; lines: CartPromotionLine[]; result: PromotionResult }> {
+  const requested = items.filter(item => !item.isFree && mongoose.isValidObjectId(item.productId) && item.quantity > 0);
+  const products = await ProductModel.find({ _id: { $in: requested.map(item => item.productId) } });
+  const productsById = new Map(products.map(p => [String(p._id), p]));
+  const resolved = requested.flatMap(item => {
+    const product = productsById.get(item.productId);
+    if (!product) return [];
+    try {
+      return [{ item, pricing: getLinePricing(product, resolveLineVariant(product, item.variantId)) }];
+    } catch {
+      return [];
+    }
+  });
+  const unitPrices = await getCurrentUnitPrices(resolved.map(({ pricing }) => pricing));
+  const lines: PromotionLine[] = resolved.map(({ item, pricing }) => ({
+    productId: item.productId,
+    quantity: item.quantity,
+    price: unitPrices.get(getLineKey(item.productId, pricing.variantId))!.price,
+  }));
+  const result = await evaluatePromotions(lines);
+  return {
+    subtotal: roundCurrency(lines.reduce((sum, line) => sum + line.price * line.quantity, 0)),
+    lines: lines.map((line, index) => ({ ...line, discount: result.lineDiscounts[index] })),
+    result,
+  };
+}
@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import SettingModel from '../models/Setting';
+import OrderModel from '../models/Order';
+import PaymentEventModel from '../models/PaymentEvent';
+import GiftCardPurchaseModel from '../models/GiftCardPurchase';
+import { completeGiftCardPurchase } from './giftCardPurchases';
+import { promotePendingCheckout, failPendingCheckout, CheckoutPromotionError } from './pendingCheckouts';
+import { transitionOrderStatus } from './orderStatus';
+import { applyGatewayRefund } from './refunds';
+
+type RazorpayPaymentEntity = {
+  id: string;
+  order_id?: string;
+  amount: number;
+  currency?: string;
+  status?: string;
+  method?: string;
+  error_description?: string;
+};
+
+type RazorpayRefundEntity = {
+  id: string;
+  payment_id: string;
+  amount: number;
+  status?: string;
+  notes?: Record<string, string>;
+};
+
+export type RazorpayWebhookEvent = {
+  event: string;
+  created_at?: number;
+  payload: {
+    payment?: { entity: RazorpayPaymentEntity };
+    refund?: { entity: RazorpayRefundEntity };
+  };
+};
+
+// Thrown for events that can never succeed on retry (e.g. stock ran out after
+// payment); the webhook acknowledges them so Razorpay stops redelivering.
+export class PaymentReconciliationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentReconciliationError';
+  }
+}
+
+export async function getWebhookSecret(): Promise<string | undefined> {
+  const settings = await SettingModel.findOne();
+  return settings?.razorpayWebhookSecret || process.env.RAZORPAY_WEBHOOK_SECRET;
+}
+
+export function signWebhookBody(rawBody: Buffer | string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+}
+
+export function verifyWebhookSignature(rawBody: Buffer | string, signature: string | undefined, secret: string): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(signWebhookBody(rawBody, secret));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+// Record a delivery and run it at most once. Returns the stored outcome for
+// repeats of an event that was already processed.
+export async function processWebhookEvent(eventId: string, event: RazorpayWebhookEvent): Promise<{ duplicate: boolean; result: string }> {
+  const payment = event.payload.payment?.entity;
+  const refund = event.payload.refund?.entity;
+
+  const record = await PaymentEventModel.findOneAndUpdate(
+    { eventId },
+    {
+      $setOnInsert: {
+        eventId,
+        event: event.event,
+        razorpayOrderId: payment?.order_id,
+        paymentId: payment?.id || refund?.payment_id,
+        refundId: refund?.id,
+        payload: event,
+      },
+      $inc: { attempts: 1 },
+    },
+    { upsert: true, new: true }
+  );
+  if (record.status === 'processed' || record.status === 'ignored') {
+    return { duplicate: true, result: record.result || record.status };
+  }
+
+  try {
+    const result = await applyEvent(event);
+    record.status = result.startsWith('ignored') ? 'ignored' : 'processed';
+    record.result = result;
+    record.error = undefined;
+    await record.save();
+    return { duplicate: false, result };
+  } catch (error) {
+    record.status = 'failed';
+    record.error = error instanceof Error ? error.message : String(error);
+    await record.save();
+    throw error;
+  }
+}
+
+async function applyEvent(event: RazorpayWebhookEvent): Promise<string> {
+  switch (event.event) {
+    case 'payment.captured':
+      return handlePaymentCaptured(requirePayment(event));
+    case 'payment.failed':
+      return handlePaymentFailed(requirePayment(event));
+    case 'refund.processed':
+      return handleRefundProcessed(event);
+    default:
+      return `ignored: unhandled event ${event.event}`;
+  }
+}
+
+function requirePayment(event: RazorpayWebhookEvent): RazorpayPaymentEntity {
+  const payment = event.payload.payment?.entity;
+  if (!payment?.id) throw new PaymentReconciliationError(`${event.event} payload has no payment entity`);
+  return payment;
+}
+
+async function handlePaymentCaptured(payment: RazorpayPaymentEntity): Promise<string> {
+  if (!payment.order_id) return 'ignored: payment is not linked to an order';
+
+  const existing = await OrderModel.findOne({ razorpayOrderId: payment.order_id });
+  if (existing) {
+    if (existing.paymentStatus === 'paid') return `order ${existing._id} already paid`;
+    await OrderModel.updateOne({ _id: existing._id }, { $set: { paymentStatus: 'paid', paymentId: payment.id } });
+    if (existing.status === 'pending') {
+      await transitionOrderStatus(String(existing._id), 'paid', { actor: 'razorpay', note: 'Payment captured' });
+    }
+    return `order ${existing._id} marked paid`;
+  }
+
+  // Gift card purchases have their own Razorpay orders
+  if (await GiftCardPurchaseModel.exists({ razorpayOrderId: payment.order_id })) {
+    const purchase = await completeGiftCardPurchase(payment.order_id, payment.id);
+    return `gift card purchase ${purchase._id} ${purchase.status}`;
+  }
+
+  try {
+    // A capture that differs from what the checkout charged is refused and flagged for refund
+    const { order } = await promotePendingCheckout(payment.order_id, payment.id, {
+      actor: 'razorpay',
+      note: 'Order created from captured payment'
+    }, payment.amount);
+    return `order ${order.id} created from checkout`;
+  } catch (error) {
+    if (error instanceof CheckoutPromotionError) {
+      if (error.status === 404) return `ignored: ${error.message}`;
+      throw new PaymentReconciliationError(`Payment ${payment.id}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+async function handlePaymentFailed(payment: RazorpayPaymentEntity): Promise<string> {
+  if (!payment.order_id) return 'ignored: payment is not linked to an order';
+
+  const order = await OrderModel.findOne({ razorpayOrderId: payment.order_id });
+  if (order) {
+    if (order.paymentStatus === 'paid') return `ignored: order ${order._id} is already paid`;
+    await OrderModel.updateOne({ _id: order._id }, { $set: { paymentStatus: 'failed', paymentId: payment.id } });
+    return `order ${order._id} marked payment failed`;
+  }
+
+  const released = await failPendingCheckout(payment.order_id, payment.error_description || 'Payment failed', payment.id);
+  return `checkout ${payment.order_id} marked failed, ${released} unit(s) released`;
+}
+
+async function handleRefundProcessed(event: RazorpayWebhookEvent): Promise<string> {
+  const refund = event.payload.refund?.entity;
+  if (!refund?.payment_id) throw new PaymentReconciliationError('refund.processed payload has no refund entity');
+  return applyGatewayRefund(refund.payment_id, refund);
+}
@@ -0,0 +1,67 @@
+import crypto from 'crypto';
+import SettingModel from '../models/Setting';
+
+export type RefundRequest = {
+  paymentId: string;
+  amount: number; // paise
+  receipt: string;
+  notes?: Record<string, string>;
+};
+
+export type RefundResult = {
+  id: string;
+  amount: number; // paise
+  status: 'pending' | 'processed' | 'failed';
+};
+
+export interface RefundGateway {
+  name: string;
+  createRefund(request: RefundRequest): Promise<RefundResult>;
+}
+
+export class RefundGatewayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefundGatewayError';
+  }
+}
+
+const razorpayGateway: RefundGateway = {
+  name: 'razorpay',
+  async createRefund({ paymentId, amount, receipt, notes }) {
+    const settings = await SettingModel.findOne();
+    const keyId = settings?.razorpayKeyId || process.env.RAZORPAY_KEY_ID;
+    const keySecret = settings?.razorpayKeySecret || process.env.RAZORPAY_KEY_SECRET;
+    if (!keyId || !keySecret) {
+      throw new RefundGatewayError('Razorpay not configured');
+    }
+    // Dynamically import Razorpay in ESM
+    const { default: RazorpayCls } = (await import('razorpay')) as any;
+    const razor = new RazorpayCls({ key_id: keyId, key_secret: keySecret });
+    try {
+      const refund = await razor.payments.refund(paymentId, { amount, receipt, notes, speed: 'normal' });
+      return { id: refund.id, amount: refund.amount, status: refund.status === 'processed' ? 'processed' : refund.status === 'failed' ? 'failed' : 'pending' };
+    } catch (error: any) {
+      throw new RefundGatewayError(error?.error?.description || error?.message || 'Razorpay refund failed');
+    }
+  },
+};
+
+// Local stand-in that approves every refund; enable with RAZORPAY_REFUNDS_STUB=true
+const stubGateway: RefundGateway = {
+  name: 'stub',
+  async createRefund({ amount }) {
+    return { id: `rfnd_stub_${crypto.randomBytes(7).toString('hex')}`, amount, status: 'processed' };
+  },
+};
+
+let override: RefundGateway | null = null;
+
+export function setRefundGateway(gateway: RefundGateway | null) {
+  override = gateway;
+}
+
+export function getRefundGateway(): RefundGateway {
+  if (override) return override;
+  return process.env.RAZORPAY_REFUNDS_STUB === 'true' ? stubGateway : razorpayGateway;
+}
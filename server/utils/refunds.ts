@@ -0,0 +1,259 @@
+import mongoose from 'mongoose';
+import OrderModel, { IOrder, IOrderRefund, IOrderRefundLine } from '../models/Order';
+import OrderItemModel from '../models/OrderItem';
+import { getRefundGateway, RefundGatewayError, type RefundResult } from './refundGateway';
+import { returnOrderUnits } from './inventory';
+import { creditGiftCard } from './giftCards';
+import { transitionOrderStatus, OrderStatusError } from './orderStatus';
+import { calculateLineRefund, roundCurrency } from '../../shared/pricing';
+
+export type RefundLineInput = {
+  itemId: string;
+  quantity: number;
+};
+
+export type RefundInput = {
+  full?: boolean;
+  lines?: RefundLineInput[];
+  reason?: string;
+  restock?: boolean;
+  actor: string;
+  actorId?: string;
+};
+
+export class RefundError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'RefundError';
+    this.status = status;
+  }
+}
+
+const REFUNDABLE_PAYMENT_STATUSES = ['paid', 'partially_refunded'];
+
+// Units of each order line already refunded (failed refunds do not count)
+export function getRefundedQuantities(order: Pick<IOrder, 'refunds'>): Map<string, number> {
+  const refunded = new Map<string, number>();
+  for (const refund of order.refunds || []) {
+    if (refund.status === 'failed') continue;
+    for (const line of refund.lines) {
+      refunded.set(line.itemId, (refunded.get(line.itemId) || 0) + line.quantity);
+    }
+  }
+  return refunded;
+}
+
+function paymentStatusFor(order: Pick<IOrder, 'totalAmount'>, refundedAmount: number): string {
+  return refundedAmount + 0.01 >= order.totalAmount ? 'refunded' : 'partially_refunded';
+}
+
+// Refund all or part of an order. The refund is recorded (and the refunded amount
+// claimed) before the gateway is called, so two admins cannot refund the same money twice.
+export async function refundOrder(orderId: string, input: RefundInput): Promise<{ order: IOrder; refund: IOrderRefund }> {
+  if (!mongoose.isValidObjectId(orderId)) throw new RefundError('Order not found', 404);
+  const order = await OrderModel.findById(orderId);
+  if (!order) throw new RefundError('Order not found', 404);
+  if (!REFUNDABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+    throw new RefundError(`Orders with payment status "${order.paymentStatus}" cannot be refunded`);
+  }
+
+  const alreadyRefunded = order.refundedAmount || 0;
+  const remaining = roundCurrency(order.totalAmount - alreadyRefunded);
+  if (remaining <= 0) throw new RefundError('This order has already been fully refunded');
+
+  const items = await OrderItemModel.find({ orderId });
+  const itemsById = new Map(items.map(item => [String(item._id), item]));
+  const refundedQuantities = getRefundedQuantities(order);
+  const subtotal = order.subtotal ?? items.reduce((sum, item) => sum + (item.isFree ? 0 : item.price * item.quantity), 0);
+  const pricingBase = { subtotal, discountAmount: order.discountAmount, taxAmount: order.taxAmount };
+
+  const lines: IOrderRefundLine[] = [];
+  let amount = 0;
+  if (input.full) {
+    for (const item of items) {
+      const quantity = item.quantity - (refundedQuantities.get(String(item._id)) || 0);
+      if (quantity <= 0) continue;
+      lines.push({ itemId: String(item._id), productId: item.productId, quantity, amount: calculateLineRefund(item.price, quantity, pricingBase, item) });
+    }
+    // Whatever is left, shipping included
+    amount = remaining;
+  } else {
+    if (!input.lines || input.lines.length === 0) throw new RefundError('Select at least one item to refund');
+    for (const requested of input.lines) {
+      const item = itemsById.get(requested.itemId);
+      if (!item) throw new RefundError(`Item ${requested.itemId} is not part of this order`);
+      const refundable = item.quantity - (refundedQuantities.get(requested.itemId) || 0);
+      if (requested.quantity < 1 || requested.quantity > refundable) {
+        throw new RefundError(`Only ${refundable} unit(s) of item ${requested.itemId} can be refunded`);
+      }
+      const lineAmount = calculateLineRefund(item.price, requested.quantity, pricingBase, item);
+      lines.push({ itemId: requested.itemId, productId: item.productId, quantity: requested.quantity, amount: lineAmount });
+      amount += lineAmount;
+    }
+    amount = Math.min(roundCurrency(amount), remaining);
+  }
+  if (amount <= 0) throw new RefundError('Nothing to refund');
+
+  // Split tender orders refund the online payment first and credit the rest back to the gift card
+  const giftCardRefunded = order.giftCardRefundedAmount || 0;
+  const paidOnline = roundCurrency(order.totalAmount - (order.giftCardAmount || 0));
+  const onlineRemaining = Math.max(roundCurrency(paidOnline - (alreadyRefunded - giftCardRefunded)), 0);
+  const giftCardAmount = order.giftCardCode ? roundCurrency(amount - Math.min(amount, onlineRemaining)) : 0;
+  const gatewayAmount = roundCurrency(amount - giftCardAmount);
+
+  const gateway = order.paymentId && gatewayAmount > 0 ? getRefundGateway() : null;
+  const recordId = new mongoose.Types.ObjectId();
+  const claimed = await OrderModel.findOneAndUpdate(
+    { _id: orderId, refundedAmount: alreadyRefunded === 0 ? { $in: [0, null] } : alreadyRefunded },
+    {
+      $inc: { refundedAmount: amount, giftCardRefundedAmount: giftCardAmount },
+      $push: {
+        refunds: {
+          _id: recordId,
+          amount,
+          giftCardAmount,
+          lines,
+          reason: input.reason,
+          status: gateway ? 'pending' : 'processed',
+          gateway: gateway ? gateway.name : gatewayAmount > 0 ? 'manual' : 'giftcard',
+          restocked: false,
+          actor: input.actor,
+          actorId: input.actorId,
+          createdAt: new Date(),
+        },
+      },
+    },
+    { new: true }
+  );
+  if (!claimed) throw new RefundError('The order was refunded by someone else. Please reload and try again.', 409);
+
+  // A refund the gateway refused gives back what the claim above counted, and
+  // neither credits the gift card nor restocks
+  const releaseClaim = (message: string, refundId?: string) => OrderModel.updateOne(
+    { _id: orderId, 'refunds._id': recordId },
+    {
+      $set: { 'refunds.$.status': 'failed', 'refunds.$.error': message, ...(refundId ? { 'refunds.$.refundId': refundId } : {}) },
+      $inc: { refundedAmount: -amount, giftCardRefundedAmount: -giftCardAmount },
+    }
+  );
+
+  if (gateway && order.paymentId) {
+    let result: RefundResult;
+    try {
+      result = await gateway.createRefund({
+        paymentId: order.paymentId,
+        amount: Math.round(gatewayAmount * 100),
+        receipt: `rf_${recordId.toHexString()}`,
+        notes: { orderId, refundRecordId: recordId.toHexString(), reason: input.reason || '' },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await releaseClaim(message);
+      if (error instanceof RefundGatewayError) throw new RefundError(`Refund failed: ${message}`, 502);
+      throw error;
+    }
+    if (result.status === 'failed') {
+      const message = `${gateway.name} reported refund ${result.id} as failed`;
+      await releaseClaim(message, result.id);
+      throw new RefundError(`Refund failed: ${message}`, 502);
+    }
+    await OrderModel.updateOne(
+      { _id: orderId, 'refunds._id': recordId },
+      { $set: { 'refunds.$.refundId': result.id, 'refunds.$.status': result.status } }
+    );
+  }
+
+  if (giftCardAmount > 0 && order.giftCardCode) {
+    await creditGiftCard(order.giftCardCode, giftCardAmount, { orderId, refundRecordId: recordId.toHexString() });
+  }
+
+  if (input.restock !== false && lines.length > 0) {
+    await returnOrderUnits(
+      orderId,
+      lines.map(({ itemId, productId, quantity }) => ({ productId, variantId: itemsById.get(itemId)?.variantId, quantity })),
+      'refunded'
+    );
+    await OrderModel.updateOne({ _id: orderId, 'refunds._id': recordId }, { $set: { 'refunds.$.restocked': true } });
+  }
+
+  await settlePaymentStatus(orderId, { actor: input.actor, actorId: input.actorId, note: input.reason || 'Order refunded' });
+  const updated = await OrderModel.findById(orderId);
+  const refund = updated!.refunds.find(r => String(r._id) === recordId.toHexString())!;
+  return { order: updated!, refund };
+}
+
+// Recompute paymentStatus from the refunded amount and close fully refunded orders
+async function settlePaymentStatus(orderId: string, context: { actor: string; actorId?: string; note?: string }) {
+  const order = await OrderModel.findById(orderId);
+  if (!order || (order.refundedAmount || 0) <= 0) return;
+  const paymentStatus = paymentStatusFor(order, order.refundedAmount);
+  if (order.paymentStatus !== paymentStatus) {
+    await OrderModel.updateOne({ _id: orderId }, { $set: { paymentStatus } });
+  }
+  if (paymentStatus === 'refunded' && order.status !== 'refunded') {
+    try {
+      await transitionOrderStatus(orderId, 'refunded', context);
+    } catch (error) {
+      // e.g. a shipped order waiting to be returned; the payment status still records the refund
+      if (!(error instanceof OrderStatusError)) throw error;
+    }
+  }
+}
+
+// Apply a refund reported by Razorpay. Refunds started from the admin are matched
+// by id (or by the record id sent in the refund notes); refunds made on the
+// Razorpay dashboard are added as whole-order refunds.
+export async function applyGatewayRefund(
+  paymentId: string,
+  refund: { id: string; amount: number; notes?: Record<string, string> }
+): Promise<string> {
+  const order = await OrderModel.findOne({ paymentId });
+  if (!order) return `ignored: no order for payment ${paymentId}`;
+
+  const recordId = refund.notes?.refundRecordId;
+  const existing = order.refunds.find(r => r.refundId === refund.id || (recordId && String(r._id) === recordId));
+  if (existing) {
+    if (existing.status !== 'processed') {
+      const failed = existing.status === 'failed';
+      const restore = failed ? existing.amount : 0;
+      const restoreGiftCard = failed ? existing.giftCardAmount || 0 : 0;
+      await OrderModel.updateOne(
+        { _id: order._id, 'refunds._id': existing._id },
+        {
+          $set: { 'refunds.$.status': 'processed', 'refunds.$.refundId': refund.id },
+          $inc: { refundedAmount: restore, giftCardRefundedAmount: restoreGiftCard }
+        }
+      );
+      // The gift card share of a refund marked failed was never credited
+      if (restoreGiftCard > 0 && order.giftCardCode) {
+        await creditGiftCard(order.giftCardCode, restoreGiftCard, { orderId: String(order._id), refundRecordId: String(existing._id) });
+      }
+    }
+  } else {
+    const amount = roundCurrency(refund.amount / 100);
+    await OrderModel.updateOne(
+      { _id: order._id, 'refunds.refundId': { $ne: refund.id } },
+      {
+        $inc: { refundedAmount: amount },
+        $push: {
+          refunds: {
+            refundId: refund.id,
+            amount,
+            lines: [],
+            status: 'processed',
+            gateway: 'razorpay',
+            restocked: false,
+            actor: 'razorpay',
+            createdAt: new Date(),
+          },
+        },
+      }
+    );
+  }
+
+  await settlePaymentStatus(String(order._id), { actor: 'razorpay', note: 'Refund processed' });
+  const updated = await OrderModel.findById(order._id);
+  return `order ${order._id} ${updated?.paymentStatus} (${updated?.refundedAmount})`;
+}
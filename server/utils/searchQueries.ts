@@ -0,0 +1,106 @@
+import SearchQueryModel from '../models/SearchQuery';
+import type { SearchQueryCount, ZeroResultSearchReport } from '../../shared/schema';
+
+// Whose searches these are: the signed-in customer, or a guest session
+export type SearchOwner = { userId?: string; sessionId?: string };
+
+export const MIN_LOGGED_QUERY_LENGTH = 3;
+const MAX_QUERY_LENGTH = 100;
+const POPULAR_WINDOW_DAYS = 30;
+// A shopper repeating a search within this window (reloads, back and forth) counts once
+const REPEAT_WINDOW_MINUTES = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, MAX_QUERY_LENGTH);
+}
+
+function ownerFilter(owner: SearchOwner): Record<string, string> | null {
+  if (owner.userId) return { userId: owner.userId };
+  if (owner.sessionId) return { sessionId: owner.sessionId };
+  return null;
+}
+
+// Log a search and how many products it found
+export async function recordSearch(owner: SearchOwner, query: string, resultCount: number): Promise<void> {
+  const normalized = normalizeQuery(query);
+  if (normalized.length < MIN_LOGGED_QUERY_LENGTH) return;
+  const filter = ownerFilter(owner);
+  if (filter) {
+    const repeated = await SearchQueryModel.findOneAndUpdate(
+      { ...filter, normalized, updatedAt: { $gte: new Date(Date.now() - REPEAT_WINDOW_MINUTES * 60 * 1000) } },
+      { $set: { resultCount, hiddenFromRecent: false } },
+      { sort: { updatedAt: -1 } }
+    );
+    if (repeated) return;
+  }
+  await SearchQueryModel.create({
+    query: query.trim().replace(/\s+/g, ' ').slice(0, MAX_QUERY_LENGTH),
+    normalized,
+    userId: owner.userId,
+    sessionId: owner.userId ? undefined : owner.sessionId,
+    resultCount,
+  });
+}
+
+function toQueryCounts(rows: { _id: string; query: string; searches: number; lastSearchedAt: Date }[]): SearchQueryCount[] {
+  return rows.map(row => ({ query: row.query, searches: row.searches, lastSearchedAt: row.lastSearchedAt }));
+}
+
+// The searches shoppers ran most over the last month that found something
+export async function getPopularSearches(limit = 8): Promise<SearchQueryCount[]> {
+  const rows = await SearchQueryModel.aggregate([
+    { $match: { createdAt: { $gte: new Date(Date.now() - POPULAR_WINDOW_DAYS * DAY_MS) }, resultCount: { $gt: 0 } } },
+    { $sort: { createdAt: -1 } },
+    { $group: { _id: '$normalized', query: { $first: '$query' }, searches: { $sum: 1 }, lastSearchedAt: { $first: '$createdAt' } } },
+    { $sort: { searches: -1, lastSearchedAt: -1 } },
+    { $limit: limit },
+  ]);
+  return toQueryCounts(rows);
+}
+
+// A shopper's own latest searches, newest first and each query once
+export async function getRecentSearches(owner: SearchOwner, limit = 5): Promise<SearchQueryCount[]> {
+  const filter = ownerFilter(owner);
+  if (!filter) return [];
+  const rows = await SearchQueryModel.aggregate([
+    { $match: { ...filter, hiddenFromRecent: false } },
+    { $sort: { updatedAt: -1 } },
+    { $limit: 50 },
+    { $group: { _id: '$normalized', query: { $first: '$query' }, searches: { $sum: 1 }, lastSearchedAt: { $first: '$updatedAt' } } },
+    { $sort: { lastSearchedAt: -1 } },
+    { $limit: limit },
+  ]);
+  return toQueryCounts(rows);
+}
+
+// Clearing recent searches only hides them; they still count towards the reports
+export async function clearRecentSearches(owner: SearchOwner): Promise<void> {
+  const filter = ownerFilter(owner);
+  if (!filter) return;
+  await SearchQueryModel.updateMany({ ...filter, hiddenFromRecent: false }, { $set: { hiddenFromRecent: true } });
+}
+
+// Admin: what shoppers searched for and found nothing, most asked first, to show
+// where the catalogue or its product names fall short
+export async function getZeroResultReport(days: number, limit = 100): Promise<ZeroResultSearchReport> {
+  const since = new Date(Date.now() - days * DAY_MS);
+  const [totalSearches, zeroResultSearches, rows] = await Promise.all([
+    SearchQueryModel.countDocuments({ createdAt: { $gte: since } }),
+    SearchQueryModel.countDocuments({ createdAt: { $gte: since }, resultCount: 0 }),
+    SearchQueryModel.aggregate([
+      { $match: { createdAt: { $gte: since }, resultCount: 0 } },
+      { $sort: { createdAt: -1 } },
+      { $group: { _id: '$normalized', query: { $first: '$query' }, searches: { $sum: 1 }, lastSearchedAt: { $first: '$createdAt' } } },
+      { $sort: { searches: -1, lastSearchedAt: -1 } },
+      { $limit: limit },
+    ]),
+  ]);
+  return {
+    days,
+    totalSearches,
+    zeroResultSearches,
+    zeroResultRate: totalSearches > 0 ? Math.round((zeroResultSearches / totalSearches) * 1000) / 10 : 0,
+    queries: toQueryCounts(rows),
+  };
+}
@@ -140,6 +140,37 @@ export async function getServiceability(params: ServiceabilityParams) {
   }
 }
 
+// Shiprocket collects sub_total + shipping_charges + transaction_charges - total_discount
+// on COD shipments, and treats selling prices as tax inclusive. sub_total therefore carries
+// the tax so the courier collects exactly the order total.
+function getShipmentCharges(order: any) {
+  const isCod = String(order.paymentMethod || '').toLowerCase() === 'cod';
+  const shipping = order.shippingAmount || 0;
+  const codFee = isCod ? order.codFee || 0 : 0;
+  const discount = order.discountAmount || 0;
+  return {
+    payment_method: isCod ? 'COD' : 'Prepaid',
+    sub_total: Math.round((order.totalAmount - shipping - codFee + discount) * 100) / 100,
+    shipping_charges: shipping,
+    transaction_charges: codFee,
+    total_discount: discount,
+  };
+}
+
+// Orders ship to the billing address unless they say otherwise (the Order model defaults
+// shippingIsBilling to true), so a missing flag counts as shipping to billing
+export function shipsToBillingAddress(order: { shippingIsBilling?: boolean }) {
+  return order.shippingIsBilling !== false;
+}
+
+// The pincode an order is delivered to: what COD eligibility is checked against and
+// what the shipment is booked to
+export function getDeliveryPincode(order: { shippingIsBilling?: boolean; billingPincode?: string; shippingPincode?: string }) {
+  return shipsToBillingAddress(order)
+    ? order.billingPincode || order.shippingPincode || ''
+    : order.shippingPincode || '';
+}
+
 // Create an adhoc shipment/order in Shiprocket with improved error handling
 export async function createShipment(order: any, items: any[]) {
   try {
@@ -184,6 +215,7 @@ export async function createShipment(order: any, items: any[]) {
     const url = 'https://apiv2.shiprocket.in/v1/external/orders/create/adhoc';
     
     // Create order payload with default values where needed
+    const toBilling = shipsToBillingAddress(order);
     const payload = {
       order_id: (order.id?.toString() || order._id?.toString()),
       order_date: new Date().toISOString().split('T')[0],
@@ -198,16 +230,15 @@ export async function createShipment(order: any, items: any[]) {
       billing_pincode: order.billingPincode || order.shippingPincode || '',
       billing_email: order.billingEmail || '',
       billing_phone: order.billingPhone || '',
-      shipping_is_billing: order.shippingIsBilling ?? true,
-      shipping_customer_name: order.shippingIsBilling ? order.billingCustomerName : (order.shippingCustomerName || 'Customer'),
-      shipping_address: order.shippingIsBilling ? order.billingAddress : (order.shippingAddress || ''),
-      shipping_city: order.shippingIsBilling ? order.billingCity : (order.shippingCity || ''),
-      shipping_state: order.shippingIsBilling ? order.billingState : (order.shippingState || ''),
+      shipping_is_billing: toBilling,
+      shipping_customer_name: toBilling ? order.billingCustomerName : (order.shippingCustomerName || 'Customer'),
+      shipping_address: toBilling ? order.billingAddress : (order.shippingAddress || ''),
+      shipping_city: toBilling ? order.billingCity : (order.shippingCity || ''),
+      shipping_state: toBilling ? order.billingState : (order.shippingState || ''),
       // Ensure shipping_country is always set, fallback to shippingCountry or billingCountry or default
       shipping_country: order.shippingCountry || order.billingCountry || 'India',
-      shipping_pincode: order.shippingIsBilling ? order.billingPincode : (order.shippingPincode || ''),
-      payment_method: order.paymentMethod.toLowerCase() === 'cod' ? 'COD' : 'Prepaid',
-      sub_total: order.subtotal || items.reduce((sum, item) => sum + ((item.sellingPrice || item.price) * (item.units || item.quantity)), 0),
+      shipping_pincode: getDeliveryPincode(order),
+      ...getShipmentCharges(order),
       length: order.packageLength || 10,
       breadth: order.packageBreadth || 10,
       height: order.packageHeight || 10,
@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import type { IProduct, IProductVariant } from '../models/Product';
+import type { SaleProduct } from './flashSales';
+import { productOptionSchema, productVariantSchema, type ProductOption, type ProductVariant } from '../../shared/schema';
+import { findVariant, getDefaultVariant, getVariantLabel, hasVariants } from '../../shared/variants';
+
+export class VariantError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'VariantError';
+    this.status = status;
+  }
+}
+
+// The variant a cart or order line buys. A product with variants always resolves
+// to one of them (its default when the line names none); naming a variant the
+// product doesn't have is refused rather than silently swapped.
+export function resolveLineVariant(product: IProduct, variantId?: string | null): IProductVariant | undefined {
+  if (!hasVariants(product)) {
+    if (variantId) throw new VariantError(`${product.name} has no options to choose from`);
+    return undefined;
+  }
+  const variant = findVariant(product, variantId);
+  if (!variant) throw new VariantError(`The selected option of ${product.name} is no longer available`);
+  return variant;
+}
+
+// What a line is priced from: its variant's prices, under the product's id and slug
+// so flash sales and promotions aimed at the product still reach it
+export function getLinePricing(product: IProduct, variant?: IProductVariant): SaleProduct {
+  if (!variant) return product;
+  return {
+    _id: product._id,
+    slug: product.slug,
+    price: variant.price,
+    discountedPrice: variant.discountedPrice,
+    variantId: String(variant._id),
+    isDefaultVariant: getDefaultVariant(product) === variant,
+  };
+}
+
+export function getLineVariantLabel(product: IProduct, variant?: IProductVariant): string | undefined {
+  return variant ? getVariantLabel(product, variant) || undefined : undefined;
+}
+
+function parseJsonField(value: unknown, field: string): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new VariantError(`${field} must be valid JSON`);
+  }
+}
+
+type VariantFields = {
+  options: ProductOption[];
+  variants: ProductVariant[];
+  sku?: string;
+  price?: number;
+  discountedPrice?: number | null;
+  stock?: number;
+};
+
+// Read the option axes and variant matrix from an admin product form. Returns null
+// when the form doesn't send them, so other edits leave a product's variants alone.
+// A product with variants takes its sku and prices from the default variant and
+// its stock from the sum of all of them, which is what listings and filters read.
+export function parseVariantFields(body: Record<string, unknown>): VariantFields | null {
+  if (body.options === undefined && body.variants === undefined) return null;
+  const parsed = z.object({
+    options: z.array(productOptionSchema).default([]),
+    variants: z.array(productVariantSchema).default([]),
+  }).safeParse({
+    options: parseJsonField(body.options, 'options') ?? undefined,
+    variants: parseJsonField(body.variants, 'variants') ?? undefined,
+  });
+  if (!parsed.success) {
+    throw new VariantError(parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', '));
+  }
+  const { options, variants } = parsed.data;
+  if (variants.length === 0) {
+    if (options.length > 0) throw new VariantError('Add at least one variant for the product options');
+    return { options: [], variants: [] };
+  }
+  if (options.length === 0) throw new VariantError('Variants need at least one option, such as Size');
+
+  const names = options.map(option => option.name);
+  if (new Set(names).size !== names.length) throw new VariantError('Option names must be unique');
+  for (const option of options) {
+    if (new Set(option.values).size !== option.values.length) {
+      throw new VariantError(`${option.name} lists the same value twice`);
+    }
+  }
+
+  const combinations = new Set<string>();
+  const skus = new Set<string>();
+  for (const variant of variants) {
+    const values = options.map(option => {
+      const value = variant.options[option.name];
+      if (!value || !option.values.includes(value)) {
+        throw new VariantError(`Variant ${variant.sku} needs a ${option.name} from ${option.values.join(', ')}`);
+      }
+      return value;
+    });
+    const combination = values.join('\u0000');
+    if (combinations.has(combination)) throw new VariantError(`There are two ${values.join(' / ')} variants`);
+    combinations.add(combination);
+    if (skus.has(variant.sku)) throw new VariantError(`SKU ${variant.sku} is used by two variants`);
+    skus.add(variant.sku);
+    if (variant.discountedPrice != null && variant.discountedPrice > variant.price) {
+      throw new VariantError(`Variant ${variant.sku} has a discounted price above its price`);
+    }
+    // Drop stray keys so the stored options are exactly the product's axes
+    variant.options = Object.fromEntries(options.map((option, i) => [option.name, values[i]]));
+  }
+
+  const defaultVariant = variants.find(variant => variant.isDefault) || variants[0];
+  const normalized = variants.map(variant => ({ ...variant, isDefault: variant === defaultVariant }));
+  return {
+    options,
+    variants: normalized,
+    sku: defaultVariant.sku,
+    price: defaultVariant.price,
+    discountedPrice: defaultVariant.discountedPrice ?? null,
+    stock: normalized.reduce((sum, variant) => sum + variant.stock, 0),
+  };
+}
@@ -0,0 +1,208 @@
+import mongoose from 'mongoose';
+import ProductModel from '../models/Product';
+import UserModel from '../models/User';
+import WishlistModel, { IWishlist, IWishlistItem } from '../models/Wishlist';
+import { getCurrentUnitPrices, withFlashSalePrices } from './flashSales';
+import { sendMail } from './mailer';
+
+export const MAX_WISHLIST_ITEMS = 100;
+
+// Whose wishlist a request is about: the signed-in customer, or a guest session
+export type WishlistOwner = { userId?: string; sessionId?: string };
+
+type WishlistAlert = {
+  name: string;
+  slug: string;
+  kind: 'price_drop' | 'back_in_stock';
+  oldPrice?: number;
+  newPrice: number;
+};
+
+export class WishlistError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'WishlistError';
+    this.status = status;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function ownerFilter(owner: WishlistOwner) {
+  if (owner.userId) return { userId: owner.userId };
+  if (owner.sessionId) return { sessionId: owner.sessionId, userId: { $exists: false } };
+  throw new WishlistError('Either a signed-in user or a sessionId is required');
+}
+
+export async function findWishlist(owner: WishlistOwner): Promise<IWishlist | null> {
+  return WishlistModel.findOne(ownerFilter(owner));
+}
+
+// The wishlist's products as the storefront shows them, most recently added first.
+// Products that have since been deleted are left out.
+export async function getWishlistProducts(owner: WishlistOwner) {
+  const wishlist = await findWishlist(owner);
+  if (!wishlist || wishlist.items.length === 0) return [];
+  const ids = wishlist.items.map(item => item.productId).filter(id => mongoose.isValidObjectId(id));
+  const products = await ProductModel.find({ _id: { $in: ids } }).lean();
+  const priced = await withFlashSalePrices(products.map(product => ({ ...product, _id: String(product._id), id: String(product._id) })));
+  const byId = new Map(priced.map(product => [product._id, product]));
+  return [...wishlist.items]
+    .sort((a, b) => new Date(b.addedAt).getTime() - new Date(a.addedAt).getTime())
+    .filter(item => byId.has(item.productId))
+    .map(item => ({ productId: item.productId, addedAt: item.addedAt, product: byId.get(item.productId) }));
+}
+
+// Save a product, remembering its current price and stock so later alerts have a baseline
+export async function addToWishlist(owner: WishlistOwner, productId: string) {
+  const product = mongoose.isValidObjectId(productId) ? await ProductModel.findById(productId) : null;
+  if (!product) throw new WishlistError('Product not found', 404);
+  const filter = ownerFilter(owner);
+  const wishlist = await WishlistModel.findOne(filter);
+  if (wishlist?.items.some(item => item.productId === productId)) return wishlist;
+  if (wishlist && wishlist.items.length >= MAX_WISHLIST_ITEMS) {
+    throw new WishlistError(`Your wishlist can hold up to ${MAX_WISHLIST_ITEMS} products`);
+  }
+  const prices = await getCurrentUnitPrices([product]);
+  const item: IWishlistItem = {
+    productId,
+    addedAt: new Date(),
+    lastPrice: prices.get(productId)?.price,
+    lastStock: product.stock,
+  };
+  return WishlistModel.findOneAndUpdate(
+    { ...filter, 'items.productId': { $ne: productId } },
+    { $push: { items: item } },
+    { upsert: true, new: true }
+  ).catch(async error => {
+    // The upsert races with the item filter when the product is already saved
+    if ((error as { code?: number }).code === 11000) return WishlistModel.findOne(filter);
+    throw error;
+  });
+}
+
+export async function removeFromWishlist(owner: WishlistOwner, productId: string) {
+  return WishlistModel.findOneAndUpdate(ownerFilter(owner), { $pull: { items: { productId } } }, { new: true });
+}
+
+// Move a guest's wishlist into the customer's account on sign-in. Products already
+// saved keep their original entry; the guest wishlist is removed afterwards.
+export async function mergeGuestWishlist(userId: string, sessionId?: string | null) {
+  if (!sessionId) return;
+  const guest = await WishlistModel.findOne({ sessionId, userId: { $exists: false } });
+  if (!guest) return;
+  const wishlist = await WishlistModel.findOne({ userId });
+  if (!wishlist) {
+    guest.userId = userId;
+    guest.sessionId = undefined;
+    guest.items = guest.items.slice(-MAX_WISHLIST_ITEMS);
+    await guest.save();
+    return;
+  }
+  const saved = new Set(wishlist.items.map(item => item.productId));
+  const room = Math.max(MAX_WISHLIST_ITEMS - wishlist.items.length, 0);
+  const additions = guest.items.filter(item => !saved.has(item.productId)).slice(-room);
+  if (additions.length > 0 && room > 0) {
+    wishlist.items.push(...additions);
+    await wishlist.save();
+  }
+  await guest.deleteOne();
+}
+
+function renderAlertEmail(name: string, alerts: WishlistAlert[]) {
+  const baseUrl = process.env.FRONTEND_URL || '';
+  const rows = alerts.map(alert => {
+    const link = `<a href="${baseUrl}/products/${encodeURIComponent(alert.slug)}">${escapeHtml(alert.name)}</a>`;
+    return alert.kind === 'price_drop'
+      ? `<li>${link} is now ₹${alert.newPrice.toFixed(2)} (was ₹${(alert.oldPrice || 0).toFixed(2)})</li>`
+      : `<li>${link} is back in stock at ₹${alert.newPrice.toFixed(2)}</li>`;
+  });
+  return `<p>Hi ${escapeHtml(name || 'there')},</p>
+<p>Good news about products on your wishlist:</p>
+<ul>${rows.join('')}</ul>
+<p><a href="${baseUrl}/account">View your wishlist</a></p>`;
+}
+
+// Compare every saved product with the price and stock seen last time, email the
+// customer about price drops and restocks, and record the new baseline. Guest
+// wishlists have no email address, so they are only kept up to date.
+export async function sendWishlistAlerts(): Promise<number> {
+  const wishlists = await WishlistModel.find({ 'items.0': { $exists: true } });
+  let sent = 0;
+  for (const wishlist of wishlists) {
+    try {
+      if (await checkWishlist(wishlist)) sent += 1;
+    } catch (error) {
+      console.error(`Wishlist ${wishlist._id} alert error:`, error);
+    }
+  }
+  return sent;
+}
+
+async function checkWishlist(wishlist: IWishlist): Promise<boolean> {
+  const ids = wishlist.items.map(item => item.productId).filter(id => mongoose.isValidObjectId(id));
+  const products = await ProductModel.find({ _id: { $in: ids } });
+  if (products.length === 0) return false;
+  const prices = await getCurrentUnitPrices(products);
+  const byId = new Map(products.map(product => [String(product._id), product]));
+
+  const alerts: WishlistAlert[] = [];
+  const baselines: { productId: string; price: number; stock: number }[] = [];
+  for (const item of wishlist.items) {
+    const product = byId.get(item.productId);
+    if (!product) continue;
+    const price = prices.get(item.productId)?.price ?? product.price;
+    const stock = product.stock;
+    if (item.lastStock === 0 && stock > 0) {
+      alerts.push({ name: product.name, slug: product.slug, kind: 'back_in_stock', newPrice: price });
+    } else if (item.lastPrice !== undefined && price < item.lastPrice && stock > 0) {
+      alerts.push({ name: product.name, slug: product.slug, kind: 'price_drop', oldPrice: item.lastPrice, newPrice: price });
+    }
+    if (item.lastPrice !== price || item.lastStock !== stock) {
+      baselines.push({ productId: item.productId, price, stock });
+    }
+  }
+
+  let notified = false;
+  if (alerts.length > 0 && wishlist.userId && mongoose.isValidObjectId(wishlist.userId)) {
+    const user = await UserModel.findById(wishlist.userId);
+    if (user?.email) {
+      await sendMail({
+        to: user.email,
+        subject: alerts.length === 1
+          ? (alerts[0].kind === 'price_drop' ? `Price drop: ${alerts[0].name}` : `Back in stock: ${alerts[0].name}`)
+          : 'Updates on your wishlist',
+        html: renderAlertEmail(user.name, alerts),
+      });
+      notified = true;
+    }
+  }
+  // The baseline only moves once the email has gone, so a failed send is retried next sweep
+  for (const baseline of baselines) {
+    await WishlistModel.updateOne(
+      { _id: wishlist._id, 'items.productId': baseline.productId },
+      { $set: { 'items.$.lastPrice': baseline.price, 'items.$.lastStock': baseline.stock } }
+    );
+  }
+  return notified;
+}
+
+let sweeper: NodeJS.Timeout | null = null;
+
+export function startWishlistAlertSweeper(intervalMs = 30 * 60 * 1000) {
+  if (sweeper) return;
+  sweeper = setInterval(() => {
+    sendWishlistAlerts()
+      .then(count => { if (count > 0) console.log(`Sent ${count} wishlist alert email(s)`); })
+      .catch(err => console.error('Wishlist alert sweep error:', err));
+  }, intervalMs);
+  sweeper.unref();
+}
@@ -0,0 +1,113 @@
+// Structured product attributes: what a product is made of, who it suits and how it
+// is used. The admin edits them, product pages show them and listings filter on the
+// skin type, hair type, concern and certification vocabularies below.
+
+import { z } from 'zod';
+
+export const skinTypes = ['normal', 'dry', 'oily', 'combination', 'sensitive', 'mature'] as const;
+export const hairTypes = ['normal', 'dry', 'oily', 'curly', 'fine', 'damaged', 'colour-treated'] as const;
+export const concerns = [
+  'acne', 'pigmentation', 'dullness', 'ageing', 'dryness', 'tanning', 'dark-circles',
+  'hair-fall', 'dandruff', 'frizz', 'greying', 'stress', 'sleep',
+] as const;
+export const certifications = [
+  'paraben-free', 'sulphate-free', 'silicone-free', 'mineral-oil-free', 'fragrance-free',
+  'cruelty-free', 'vegan', 'organic', 'ayush-licensed', 'dermatologically-tested',
+] as const;
+export const volumeUnits = ['ml', 'l', 'g', 'kg', 'pcs'] as const;
+
+export type SkinType = typeof skinTypes[number];
+export type HairType = typeof hairTypes[number];
+export type Concern = typeof concerns[number];
+export type Certification = typeof certifications[number];
+export type VolumeUnit = typeof volumeUnits[number];
+
+export const skinTypeLabels: Record<SkinType, string> = {
+  normal: 'Normal',
+  dry: 'Dry',
+  oily: 'Oily',
+  combination: 'Combination',
+  sensitive: 'Sensitive',
+  mature: 'Mature',
+};
+
+export const hairTypeLabels: Record<HairType, string> = {
+  normal: 'Normal',
+  dry: 'Dry',
+  oily: 'Oily',
+  curly: 'Curly',
+  fine: 'Fine',
+  damaged: 'Damaged',
+  'colour-treated': 'Colour treated',
+};
+
+export const concernLabels: Record<Concern, string> = {
+  acne: 'Acne and breakouts',
+  pigmentation: 'Pigmentation',
+  dullness: 'Dullness',
+  ageing: 'Fine lines and ageing',
+  dryness: 'Dryness',
+  tanning: 'Tanning',
+  'dark-circles': 'Dark circles',
+  'hair-fall': 'Hair fall',
+  dandruff: 'Dandruff',
+  frizz: 'Frizz',
+  greying: 'Premature greying',
+  stress: 'Stress',
+  sleep: 'Sleep',
+};
+
+export const certificationLabels: Record<Certification, string> = {
+  'paraben-free': 'Paraben free',
+  'sulphate-free': 'Sulphate free',
+  'silicone-free': 'Silicone free',
+  'mineral-oil-free': 'Mineral oil free',
+  'fragrance-free': 'Fragrance free',
+  'cruelty-free': 'Cruelty free',
+  vegan: 'Vegan',
+  organic: 'Certified organic',
+  'ayush-licensed': 'AYUSH licensed',
+  'dermatologically-tested': 'Dermatologically tested',
+};
+
+// The list attributes listings filter on, in the order the storefront shows them
+export const attributeFacets = [
+  { key: 'skinTypes', param: 'skinType', title: 'Skin type', labels: skinTypeLabels as Record<string, string> },
+  { key: 'hairTypes', param: 'hairType', title: 'Hair type', labels: hairTypeLabels as Record<string, string> },
+  { key: 'concerns', param: 'concern', title: 'Concern', labels: concernLabels as Record<string, string> },
+  { key: 'certifications', param: 'certification', title: 'Free from & certified', labels: certificationLabels as Record<string, string> },
+] as const;
+export type AttributeFacetKey = typeof attributeFacets[number]['key'];
+
+export const productIngredientSchema = z.object({
+  name: z.string().trim().min(1, 'Ingredient name is required').max(100),
+  inciName: z.string().trim().max(150).optional(), // the INCI name printed on the label
+  benefit: z.string().trim().max(200).optional(),
+  isKey: z.boolean().optional(), // shown as a key ingredient on the product page
+});
+export type ProductIngredient = z.infer<typeof productIngredientSchema>;
+
+export const productAttributesSchema = z.object({
+  ingredients: z.array(productIngredientSchema).max(60).default([]), // in label order
+  skinTypes: z.array(z.enum(skinTypes)).default([]),
+  hairTypes: z.array(z.enum(hairTypes)).default([]),
+  concerns: z.array(z.enum(concerns)).default([]),
+  certifications: z.array(z.enum(certifications)).default([]),
+  usage: z.string().trim().max(2000).optional(), // one step per line
+  volume: z.object({
+    value: z.number().positive('Volume must be above 0'),
+    unit: z.enum(volumeUnits),
+  }).optional().nullable(),
+  shelfLifeMonths: z.number().int().min(1).max(120).optional().nullable(),
+});
+export type ProductAttributes = z.infer<typeof productAttributesSchema>;
+
+// "100 ml", "1 kg"
+export function formatVolume(volume: ProductAttributes['volume']): string {
+  return volume ? `${volume.value} ${volume.unit}` : '';
+}
+
+// The steps of a product's usage instructions, one per non-empty line
+export function getUsageSteps(usage?: string): string[] {
+  return (usage || '').split('\n').map(step => step.trim()).filter(Boolean);
+}
@@ -0,0 +1,76 @@
+// The query parameters every product listing reads: category, collection and search
+// pages alike, on the API and in the storefront URL, so a shared link opens the same
+// page of the same listing.
+
+import { z } from 'zod';
+import { productSortKeys } from './schema';
+import { certifications, concerns, hairTypes, skinTypes } from './attributes';
+
+export const DEFAULT_LISTING_LIMIT = 24;
+export const MAX_LISTING_LIMIT = 60;
+
+// Listings of flagged products rather than a collection
+export const listingFlags = ['featured', 'bestseller', 'new'] as const;
+export type ListingFlag = typeof listingFlags[number];
+
+const idList = z.string().optional()
+  .transform(value => (value || '').split(',').map(id => id.trim()).filter(Boolean));
+
+// A comma separated list of values from one of the attribute vocabularies
+const valueList = <T extends readonly [string, ...string[]]>(values: T) => idList.pipe(z.array(z.enum(values)));
+
+export const listingQuerySchema = z.object({
+  q: z.string().trim().max(100, 'Search text is too long').optional(),
+  categoryId: idList, // comma separated
+  collectionId: idList, // comma separated
+  skinType: valueList(skinTypes),
+  hairType: valueList(hairTypes),
+  concern: valueList(concerns),
+  certification: valueList(certifications),
+  minPrice: z.coerce.number().min(0, 'minPrice cannot be negative').optional(),
+  maxPrice: z.coerce.number().min(0, 'maxPrice cannot be negative').optional(),
+  minRating: z.coerce.number().min(0).max(5, 'minRating must be between 0 and 5').optional(),
+  inStock: z.enum(['true', 'false']).optional().transform(value => value === 'true'),
+  flag: z.enum(listingFlags).optional(),
+  sort: z.enum(productSortKeys).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_LISTING_LIMIT, `limit cannot be above ${MAX_LISTING_LIMIT}`).optional(),
+});
+export type ListingQuery = z.infer<typeof listingQuerySchema>;
+
+// A listing's state from a URL query string. Values that don't parse are dropped
+// rather than failing the page, so an old or hand-edited link still opens.
+export function parseListingSearch(search: string): ListingQuery {
+  const raw: Record<string, string> = Object.fromEntries(new URLSearchParams(search));
+  const parsed = listingQuerySchema.safeParse(raw);
+  if (parsed.success) return parsed.data;
+  const invalid = new Set(parsed.error.errors.map(error => String(error.path[0])));
+  return listingQuerySchema.parse(Object.fromEntries(Object.entries(raw).filter(([key]) => !invalid.has(key))));
+}
+
+// The query string for a listing's state, leaving out anything at its default
+export function toListingSearch(query: Partial<ListingQuery>): string {
+  const params = new URLSearchParams();
+  if (query.q) params.set('q', query.q);
+  if (query.categoryId?.length) params.set('categoryId', query.categoryId.join(','));
+  if (query.collectionId?.length) params.set('collectionId', query.collectionId.join(','));
+  if (query.skinType?.length) params.set('skinType', query.skinType.join(','));
+  if (query.hairType?.length) params.set('hairType', query.hairType.join(','));
+  if (query.concern?.length) params.set('concern', query.concern.join(','));
+  if (query.certification?.length) params.set('certification', query.certification.join(','));
+  if (query.minPrice !== undefined) params.set('minPrice', String(query.minPrice));
+  if (query.maxPrice !== undefined) params.set('maxPrice', String(query.maxPrice));
+  if (query.minRating !== undefined) params.set('minRating', String(query.minRating));
+  if (query.inStock) params.set('inStock', 'true');
+  if (query.flag) params.set('flag', query.flag);
+  if (query.sort) params.set('sort', query.sort);
+  if (query.page && query.page > 1) params.set('page', String(query.page));
+  if (query.limit) params.set('limit', String(query.limit));
+  return params.toString();
+}
+
+export function hasListingFilters(query: Partial<ListingQuery>): boolean {
+  return !!query.categoryId?.length || !!query.collectionId?.length || !!query.inStock ||
+    !!query.skinType?.length || !!query.hairType?.length || !!query.concern?.length || !!query.certification?.length ||
+    query.minPrice !== undefined || query.maxPrice !== undefined || query.minRating !== undefined;
+}
@@ -0,0 +1,69 @@
+// Order lifecycle shared by the API, the admin panel and the storefront.
+//
+//   pending → paid → processing → shipped → delivered
+//   with cancelled / returned / refunded as exits along the way
+
+export const ORDER_STATUSES = [
+  'pending',
+  'paid',
+  'processing',
+  'shipped',
+  'delivered',
+  'cancelled',
+  'returned',
+  'refunded',
+] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['paid', 'processing', 'cancelled'], // COD orders go straight to processing
+  paid: ['processing', 'cancelled', 'refunded'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered', 'returned'],
+  delivered: ['returned', 'refunded'],
+  cancelled: ['refunded'],
+  returned: ['refunded'],
+  refunded: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  paid: 'Paid',
+  processing: 'Processing',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  returned: 'Returned',
+  refunded: 'Refunded',
+};
+
+export function isOrderStatus(value: string): value is OrderStatus {
+  return (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+// Orders saved before the lifecycle existed may carry other statuses; those may move to any known status
+export function getNextOrderStatuses(current: string): OrderStatus[] {
+  if (!isOrderStatus(current)) return [...ORDER_STATUSES];
+  return ORDER_STATUS_TRANSITIONS[current];
+}
+
+// Set only by refunds: an order becomes refunded once its payment has been paid back
+export const REFUND_ONLY_ORDER_STATUSES: OrderStatus[] = ['refunded'];
+
+export function isManualOrderStatus(status: string): boolean {
+  return isOrderStatus(status) && !REFUND_ONLY_ORDER_STATUSES.includes(status);
+}
+
+// The statuses an admin may move an order to by hand
+export function getManualNextOrderStatuses(current: string): OrderStatus[] {
+  return getNextOrderStatuses(current).filter(isManualOrderStatus);
+}
+
+export function canTransitionOrderStatus(from: string, to: string): boolean {
+  return isOrderStatus(to) && getNextOrderStatuses(from).includes(to);
+}
+
+export function getOrderStatusLabel(status: string): string {
+  return isOrderStatus(status) ? ORDER_STATUS_LABELS[status] : status.charAt(0).toUpperCase() + status.slice(1);
+}
@@ -0,0 +1,74 @@
+// Pricing rules shared by the storefront and the order API so both sides
+// arrive at the same totals.
+
+export const FREE_SHIPPING_THRESHOLD = 500;
+export const SHIPPING_CHARGE = 50;
+export const TAX_RATE = 0.18;
+
+export type OrderTotals = {
+  subtotal: number;
+  discountAmount: number;
+  discountedSubtotal: number;
+  shippingAmount: number;
+  taxAmount: number;
+  codFee: number;
+  totalAmount: number;
+};
+
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Price a shopper actually pays per unit: the sale price when one is set below the list price
+export function getUnitPrice(product: { price: number; discountedPrice?: number | null }): number {
+  const { price, discountedPrice } = product;
+  if (typeof discountedPrice === 'number' && discountedPrice > 0 && discountedPrice < price) {
+    return discountedPrice;
+  }
+  return price;
+}
+
+// codFee is the cash-on-delivery handling charge, added after tax.
+// freeShipping comes from a free-shipping promotion and waives the delivery charge.
+export function calculateOrderTotals(
+  subtotal: number,
+  discountAmount: number = 0,
+  codFee: number = 0,
+  options: { freeShipping?: boolean } = {}
+): OrderTotals {
+  const discount = Math.min(Math.max(discountAmount, 0), subtotal);
+  const discountedSubtotal = subtotal - discount;
+  const shippingAmount = options.freeShipping || discountedSubtotal > FREE_SHIPPING_THRESHOLD ? 0 : SHIPPING_CHARGE;
+  const taxAmount = discountedSubtotal * TAX_RATE;
+  return {
+    subtotal: roundCurrency(subtotal),
+    discountAmount: roundCurrency(discount),
+    discountedSubtotal: roundCurrency(discountedSubtotal),
+    shippingAmount,
+    taxAmount: roundCurrency(taxAmount),
+    codFee: roundCurrency(Math.max(codFee, 0)),
+    totalAmount: roundCurrency(discountedSubtotal + shippingAmount + taxAmount + Math.max(codFee, 0)),
+  };
+}
+
+// Share of the amount paid for some units of an order line, tax included. Lines
+// that recorded their own coupon discount use it; older orders spread the
+// order's discount across lines in proportion to their price.
+export function calculateLineRefund(
+  unitPrice: number,
+  quantity: number,
+  order: { subtotal: number; discountAmount?: number; taxAmount?: number },
+  line?: { quantity: number; discountAmount?: number }
+): number {
+  if (unitPrice <= 0 || quantity <= 0 || order.subtotal <= 0) return 0;
+  const discount = Math.min(Math.max(order.discountAmount || 0, 0), order.subtotal);
+  const discountedSubtotal = order.subtotal - discount;
+  const taxRate = typeof order.taxAmount === 'number' && discountedSubtotal > 0
+    ? order.taxAmount / discountedSubtotal
+    : TAX_RATE;
+  if (line && typeof line.discountAmount === 'number' && line.quantity > 0) {
+    const unitDiscount = Math.min(line.discountAmount / line.quantity, unitPrice);
+    return roundCurrency((unitPrice - unitDiscount) * quantity * (1 + taxRate));
+  }
+  return roundCurrency(unitPrice * quantity * (discountedSubtotal / order.subtotal) * (1 + taxRate));
+}
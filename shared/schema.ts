@@ -1,4 +1,25 @@
 import { z } from "zod";
+import { productAttributesSchema, type AttributeFacetKey } from "./attributes";
+
+// An axis a product varies along, e.g. { name: "Size", values: ["30ml", "100ml"] }
+export const productOptionSchema = z.object({
+  name: z.string().trim().min(1),
+  values: z.array(z.string().trim().min(1)).min(1),
+});
+export type ProductOption = z.infer<typeof productOptionSchema>;
+
+// One sellable combination of a product's options. Its _id is the variantId cart and order lines carry.
+export const productVariantSchema = z.object({
+  _id: z.string().optional(),
+  sku: z.string().trim().min(1),
+  options: z.record(z.string()), // option name -> value
+  price: z.number().min(0),
+  discountedPrice: z.number().min(0).optional().nullable(),
+  stock: z.number().int().min(0),
+  images: z.array(z.string()).optional().default([]),
+  isDefault: z.boolean().optional(),
+});
+export type ProductVariant = z.infer<typeof productVariantSchema>;
 
 // Product Zod schema and TypeScript type
 export const productSchema = z.object({
@@ -23,11 +44,87 @@ export const productSchema = z.object({
   videoUrl: z.string().optional(),
   minOrderValue: z.number().optional(), // For free products
   isFreeProduct: z.boolean().optional(), // Flag for free products
+  // A product with variants mirrors its default variant's sku and prices, and the stock of all its variants
+  options: z.array(productOptionSchema).optional(),
+  variants: z.array(productVariantSchema).optional(),
+  attributes: productAttributesSchema.optional(), // ingredients, suitability, usage and certifications
 });
-export type Product = z.infer<typeof productSchema>;
+// A flash sale running on a product; product APIs set discountedPrice to its salePrice
+export type ProductFlashSale = {
+  saleId: string;
+  name: string;
+  salePrice: number;
+  startTime?: string | Date;
+  endTime: string | Date;
+  perCustomerLimit: number;
+  remaining: number | null; // sale-price units left, null when uncapped
+};
+export type Product = z.infer<typeof productSchema> & { flashSale?: ProductFlashSale | null };
 
 // InsertProduct type omits id, _id, and createdAt for creation
-export type InsertProduct = Omit<Product, 'id' | '_id' | 'createdAt'>;
+export type InsertProduct = Omit<Product, 'id' | '_id' | 'createdAt' | 'flashSale'>;
+
+// Product search: sort keys, facet counts and the result page
+export const productSortKeys = [
+  'relevance', 'featured', 'bestseller', 'newest', 'price_asc', 'price_desc', 'rating', 'name_asc', 'name_desc',
+] as const;
+export type ProductSortKey = typeof productSortKeys[number];
+export const productSortOptions: { value: ProductSortKey; label: string }[] = [
+  { value: 'relevance', label: 'Relevance' },
+  { value: 'featured', label: 'Featured' },
+  { value: 'bestseller', label: 'Bestselling' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'price_asc', label: 'Price, low to high' },
+  { value: 'price_desc', label: 'Price, high to low' },
+  { value: 'rating', label: 'Best rating' },
+  { value: 'name_asc', label: 'Name, A-Z' },
+  { value: 'name_desc', label: 'Name, Z-A' },
+];
+
+export type SearchFacetValue = { _id: string; name: string; slug: string; count: number };
+export type AttributeFacetValue = { value: string; label: string; count: number };
+
+// Each facet is counted with every other filter applied but its own, so picking a
+// value still shows how many products the alternatives would give
+export type ProductSearchFacets = {
+  price: { min: number; max: number; ranges: { min: number; max: number | null; count: number }[] };
+  categories: SearchFacetValue[];
+  collections: SearchFacetValue[];
+  ratings: { min: number; count: number }[]; // products rated min stars and up
+  availability: { inStock: number; outOfStock: number };
+  attributes: Record<AttributeFacetKey, AttributeFacetValue[]>; // skin type, hair type, concern, certification
+};
+
+export type ProductSearchResult = {
+  products: Product[];
+  total: number;
+  page: number;
+  totalPages: number;
+  totalItems: number;
+  query: string;
+  sort: ProductSortKey;
+  sortOptions: { value: ProductSortKey; label: string }[];
+  facets: ProductSearchFacets;
+};
+
+// Autocomplete: names starting with what has been typed, across the catalogue and the blog
+export type SearchSuggestions = {
+  query: string;
+  products: { _id: string; name: string; slug: string; imageUrl: string }[];
+  categories: { _id: string; name: string; slug: string }[];
+  collections: { _id: string; name: string; slug: string }[];
+  blogs: { _id: string; title: string; slug: string }[];
+};
+
+export type SearchQueryCount = { query: string; searches: number; lastSearchedAt: Date | string };
+
+export type ZeroResultSearchReport = {
+  days: number;
+  totalSearches: number;
+  zeroResultSearches: number;
+  zeroResultRate: number; // percent
+  queries: SearchQueryCount[];
+};
 
 // User types
 export type User = {
@@ -46,16 +143,71 @@ export type User = {
 export type InsertUser = Omit<User, 'id' | '_id' | 'createdAt' | 'isAdmin'>;
 
 // Order types
+export type OrderStatusChange = {
+  status: string;
+  previousStatus?: string;
+  actor: string;
+  actorId?: string;
+  note?: string;
+  changedAt: Date | string;
+};
+
+export type OrderRefundLine = {
+  itemId: string;
+  productId: string;
+  quantity: number;
+  amount: number;
+};
+
+export type OrderRefund = {
+  _id?: string;
+  refundId?: string;
+  amount: number;
+  giftCardAmount?: number;
+  lines: OrderRefundLine[];
+  reason?: string;
+  status: 'pending' | 'processed' | 'failed';
+  gateway: string;
+  restocked: boolean;
+  actor: string;
+  actorId?: string;
+  error?: string;
+  createdAt: Date | string;
+};
+
+export type OrderPromotion = {
+  promotionId: string;
+  name: string;
+  type: string;
+  discount: number;
+  freeShipping: boolean;
+};
+
 export type Order = {
   id?: string;
   userId: string;
   status: string;
+  statusHistory?: OrderStatusChange[];
+  refunds?: OrderRefund[];
+  refundedAmount?: number;
+  subtotal?: number;
+  shippingAmount?: number;
+  taxAmount?: number;
+  codFee?: number;
   totalAmount: number;
   shippingAddress: string;
   paymentMethod: string;
   paymentStatus: string;
   couponCode?: string | null;
+  couponCodes?: string[];
   discountAmount?: number;
+  promotionDiscount?: number;
+  promotions?: OrderPromotion[];
+  giftCardCode?: string;
+  giftCardAmount?: number;
+  giftCardRefundedAmount?: number;
+  razorpayOrderId?: string;
+  paymentId?: string;
   packageLength?: number;
   packageBreadth?: number;
   packageHeight?: number;
@@ -71,6 +223,11 @@ export type OrderItem = {
   productId: string;
   quantity: number;
   price: number;
+  isFree?: boolean;
+  discountAmount?: number;
+  flashSaleId?: string;
+  variantId?: string;
+  variantLabel?: string; // e.g. "100ml", kept so the order reads the same if the variant changes
 };
 export type InsertOrderItem = Omit<OrderItem, 'id' | '_id'>;
 
@@ -114,9 +271,58 @@ export type CartItem = {
   productId: string;
   quantity: number;
   isFree: boolean;
+  variantId?: string;
 };
 export type InsertCartItem = Omit<CartItem, 'id' | '_id'>;
 
+// One cart line as GET /api/cart/:id/summary prices it
+export type CartSummaryLine = {
+  itemId: string;
+  productId: string;
+  variantId?: string;
+  variantLabel?: string;
+  name: string;
+  slug: string;
+  imageUrl: string;
+  quantity: number;
+  isFree: boolean;
+  listPrice: number; // per unit, before any sale
+  unitPrice: number; // per unit, what is charged
+  saleDiscount: number; // (listPrice - unitPrice) * quantity
+  lineTotal: number; // unitPrice * quantity
+  discountAmount: number; // this line's share of the promotion and coupon discounts
+  flashSaleId?: string;
+};
+
+// Everything the storefront shows about a cart's price, worked out the way an order is priced
+export type CartSummary = {
+  cartId: string;
+  itemCount: number;
+  lines: CartSummaryLine[];
+  listSubtotal: number;
+  saleDiscount: number;
+  subtotal: number;
+  promotions: OrderPromotion[];
+  promotionDiscount: number;
+  couponCodes: string[];
+  coupons: { code: string; discount: number }[];
+  couponDiscount: number;
+  couponError: string | null; // the codes asked for could not be applied; totals leave them out
+  discountAmount: number;
+  discountedSubtotal: number;
+  shippingAmount: number;
+  freeShippingThreshold: number;
+  amountToFreeShipping: number; // 0 once shipping is free
+  taxRate: number;
+  taxAmount: number;
+  cod: { eligible: boolean; fee: number; maxOrderValue: number; reason?: string } | null;
+  codFee: number;
+  totalAmount: number;
+  giftCard: { code: string; amount: number; balance: number; remainingBalance: number } | null;
+  giftCardError: string | null;
+  amountDue: number; // left to pay after the gift card
+};
+
 // Banner types
 export type Banner = {
   id?: string;
@@ -0,0 +1,72 @@
+// Variant rules shared by the storefront, the admin and the order API, so a
+// cart line resolves to the same variant everywhere.
+
+import type { Product, ProductVariant } from './schema';
+
+type VariantOptions = Record<string, string>;
+
+type VariantLike = {
+  _id?: unknown;
+  options?: VariantOptions;
+  isDefault?: boolean;
+};
+
+type ProductWithVariants<V extends VariantLike> = {
+  options?: { name: string; values: string[] }[];
+  variants?: V[];
+};
+
+export function hasVariants<V extends VariantLike>(product: ProductWithVariants<V>): boolean {
+  return (product.variants?.length || 0) > 0;
+}
+
+// The variant a product page opens on: the one flagged default, else the first
+export function getDefaultVariant<V extends VariantLike>(product: ProductWithVariants<V>): V | undefined {
+  const variants = product.variants || [];
+  return variants.find(variant => variant.isDefault) || variants[0];
+}
+
+// The variant a cart or order line refers to. A line without a variantId gets the
+// default variant, so lines added before the product had variants stay orderable.
+// Returns undefined for products without variants and for unknown ids.
+export function findVariant<V extends VariantLike>(product: ProductWithVariants<V>, variantId?: string | null): V | undefined {
+  if (!variantId) return getDefaultVariant(product);
+  return (product.variants || []).find(variant => String(variant._id) === variantId);
+}
+
+// The variant matching a value for every option axis
+export function findVariantByOptions<V extends VariantLike>(product: ProductWithVariants<V>, selected: VariantOptions): V | undefined {
+  const axes = product.options || [];
+  return (product.variants || []).find(variant =>
+    axes.every(axis => variant.options?.[axis.name] === selected[axis.name])
+  );
+}
+
+// "100ml / Rose", in the order the product lists its option axes
+export function getVariantLabel<V extends VariantLike>(product: ProductWithVariants<V>, variant: V | undefined): string {
+  if (!variant?.options) return '';
+  const axes = product.options || [];
+  const names = axes.length > 0 ? axes.map(axis => axis.name) : Object.keys(variant.options);
+  return names.map(name => variant.options![name]).filter(Boolean).join(' / ');
+}
+
+// Cart, stock and sale lines are told apart by product and variant
+export function getLineKey(productId: string, variantId?: string | null): string {
+  return variantId ? `${productId}:${variantId}` : productId;
+}
+
+// A product as one of its variants sells: the variant's sku, prices, stock and,
+// when it has its own, images
+export function applyVariant<T extends Product>(product: T, variant: ProductVariant | undefined): T {
+  if (!variant) return product;
+  const images = variant.images?.length ? variant.images : product.images;
+  return {
+    ...product,
+    sku: variant.sku,
+    price: variant.price,
+    discountedPrice: variant.discountedPrice,
+    stock: variant.stock,
+    imageUrl: images[0] || product.imageUrl,
+    images,
+  };
+}